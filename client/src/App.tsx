@@ -5,18 +5,33 @@ import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import GalleryPage from "@/pages/gallery-page";
+import AlbumPage from "@/pages/album-page";
+import PersonPage from "@/pages/person-page";
 import ProgramPage from "@/pages/program-page";
+import GuestbookPage from "@/pages/guestbook-page";
+import LivePage from "@/pages/live-page";
+import StoryPage from "@/pages/story-page";
 import AuthPage from "@/pages/auth-page";
 import AdminPage from "@/pages/admin-page";
+import MemorialsPage from "@/pages/memorials-page";
+import ManageMemorialsPage from "@/pages/manage-memorials-page";
+import ResetPasswordPage from "@/pages/reset-password-page";
 import { AuthProvider } from "@/hooks/use-auth";
+import { MemorialProvider } from "@/hooks/use-memorial";
 import { ProtectedRoute } from "@/lib/protected-route";
 
-function Router() {
+// Routes for a single memorial, nested under /m/:slug
+function MemorialRouter() {
   return (
     <Switch>
       <Route path="/" component={HomePage} />
       <Route path="/gallery" component={GalleryPage} />
+      <Route path="/gallery/:albumSlug" component={AlbumPage} />
+      <Route path="/people/:personKey" component={PersonPage} />
       <Route path="/program" component={ProgramPage} />
+      <Route path="/guestbook" component={GuestbookPage} />
+      <Route path="/live" component={LivePage} />
+      <Route path="/story" component={StoryPage} />
       <Route path="/auth" component={AuthPage} />
       <ProtectedRoute 
         path="/admin" 
@@ -28,6 +43,28 @@ function Router() {
   );
 }
 
+function Router() {
+  return (
+    <Switch>
+      <Route path="/" component={MemorialsPage} />
+      <ProtectedRoute 
+        path="/admin/memorials" 
+        component={ManageMemorialsPage} 
+        superAdminOnly={true}
+      />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/m/:slug" nest>
+        {(params) => (
+          <MemorialProvider key={params.slug} slug={params.slug}>
+            <MemorialRouter />
+          </MemorialProvider>
+        )}
+      </Route>
+      <Route component={NotFound} />
+    </Switch>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
@@ -4,33 +4,40 @@ import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import ContentManager from "./content-manager";
 import TributeManager from "./tribute-manager";
+import CommentManager from "./comment-manager";
 import GalleryManager from "./gallery-manager";
 import UserManager from "./user-manager";
+import RsvpManager from "./rsvp-manager";
+import GuestbookManager from "./guestbook-manager";
+import NotificationSettings from "./notification-settings";
 import { useQuery } from "@tanstack/react-query";
 import { TributeItem, GalleryImage, SiteSettings } from "@/lib/types";
+import { useMemorial } from "@/hooks/use-memorial";
+import { totalReactions } from "@/lib/constants";
 
 export default function AdminDashboard() {
+  const { apiPath } = useMemorial();
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState("content");
   
   const { data: tributes } = useQuery<TributeItem[]>({
-    queryKey: ["/api/tributes"],
+    queryKey: [apiPath("/tributes/moderation?status=approved")],
   });
   
   const { data: images } = useQuery<GalleryImage[]>({
-    queryKey: ["/api/gallery"],
+    queryKey: [apiPath("/gallery")],
   });
   
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   
   // Count of tributes
   const tributeCount = Array.isArray(tributes) ? tributes.length : 0;
   
-  // Count of candles
-  const candleCount = Array.isArray(tributes) 
-    ? tributes.reduce((sum, tribute) => sum + (tribute.candleCount || 0), 0) 
+  // Count of candles, flowers and other reactions
+  const reactionCount = Array.isArray(tributes) 
+    ? tributes.reduce((sum, tribute) => sum + totalReactions(tribute.reactionCounts), 0) 
     : 0;
   
   return (
@@ -57,11 +64,11 @@ export default function AdminDashboard() {
           
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-lg">Candles</CardTitle>
-              <CardDescription>Digital candles lit</CardDescription>
+              <CardTitle className="text-lg">Reactions</CardTitle>
+              <CardDescription>Candles, flowers and more</CardDescription>
             </CardHeader>
             <CardContent>
-              <p className="text-3xl font-bold">{candleCount}</p>
+              <p className="text-3xl font-bold">{reactionCount}</p>
             </CardContent>
           </Card>
           
@@ -92,24 +99,41 @@ export default function AdminDashboard() {
             <TabsTrigger value="content">Content Management</TabsTrigger>
             <TabsTrigger value="tributes">Tribute Management</TabsTrigger>
             <TabsTrigger value="gallery">Gallery Management</TabsTrigger>
+            <TabsTrigger value="rsvps">RSVPs</TabsTrigger>
+            <TabsTrigger value="guestbook">Guestbook</TabsTrigger>
             <TabsTrigger value="users">User Management</TabsTrigger>
+            <TabsTrigger value="notifications">Notifications</TabsTrigger>
           </TabsList>
           
           <TabsContent value="content" className="mt-4">
             <ContentManager />
           </TabsContent>
           
-          <TabsContent value="tributes" className="mt-4">
+          <TabsContent value="tributes" className="mt-4 space-y-4">
             <TributeManager />
+            
+            <CommentManager />
           </TabsContent>
           
           <TabsContent value="gallery" className="mt-4">
             <GalleryManager />
           </TabsContent>
           
+          <TabsContent value="rsvps" className="mt-4">
+            <RsvpManager />
+          </TabsContent>
+          
+          <TabsContent value="guestbook" className="mt-4">
+            <GuestbookManager />
+          </TabsContent>
+          
           <TabsContent value="users" className="mt-4">
             <UserManager />
           </TabsContent>
+          
+          <TabsContent value="notifications" className="mt-4">
+            <NotificationSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
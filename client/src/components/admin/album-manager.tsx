@@ -0,0 +1,380 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useAlbumAssignments } from "@/hooks/use-album-assignments";
+import { AlbumSummary, GalleryImage } from "@/lib/types";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Plus, Pencil, Trash, ArrowLeft, ArrowRight, Images } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Set on gallery image rows in the gallery manager so they can be dropped on an album
+export const GALLERY_IMAGE_DRAG_TYPE = "application/x-gallery-image";
+
+export default function AlbumManager({ images }: { images: GalleryImage[] }) {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const { albums, isLoading, albumsForImage, setAssignment, invalidateAlbums } = useAlbumAssignments();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [currentAlbum, setCurrentAlbum] = useState<AlbumSummary | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<number | null>(null);
+  
+  // Form state
+  const [title, setTitle] = useState("");
+  const [slug, setSlug] = useState("");
+  const [description, setDescription] = useState("");
+  const [coverImageId, setCoverImageId] = useState<number | null>(null);
+  
+  const openForm = (album: AlbumSummary | null) => {
+    setCurrentAlbum(album);
+    setTitle(album?.title || "");
+    setSlug(album?.slug || "");
+    setDescription(album?.description || "");
+    setCoverImageId(album?.coverImageId ?? null);
+    setIsFormOpen(true);
+  };
+  
+  const initiateDelete = (album: AlbumSummary) => {
+    setCurrentAlbum(album);
+    setIsDeleteDialogOpen(true);
+  };
+  
+  const saveAlbumMutation = useMutation({
+    mutationFn: async (albumData: Record<string, unknown>) => {
+      const res = currentAlbum
+        ? await apiRequest("PUT", apiPath(`/albums/${currentAlbum.id}`), albumData)
+        : await apiRequest("POST", apiPath("/albums"), albumData);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateAlbums();
+      setIsFormOpen(false);
+      toast({
+        title: currentAlbum ? "Album updated" : "Album created",
+        description: currentAlbum ? "The album has been saved" : "Drag photos onto the album to add them",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save album",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteAlbumMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", apiPath(`/albums/${id}`));
+    },
+    onSuccess: () => {
+      invalidateAlbums();
+      setIsDeleteDialogOpen(false);
+      setCurrentAlbum(null);
+      toast({
+        title: "Album deleted",
+        description: "Its photos are still in the gallery",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete album",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      await apiRequest("PUT", apiPath("/albums/order"), { ids });
+    },
+    onSuccess: invalidateAlbums,
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reorder albums",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const moveAlbum = (index: number, direction: -1 | 1) => {
+    const ids = albums.map(album => album.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+  
+  const handleDragOver = (e: React.DragEvent, albumId: number) => {
+    if (!e.dataTransfer.types.includes(GALLERY_IMAGE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setDropTargetId(albumId);
+  };
+  
+  const handleDrop = (e: React.DragEvent, album: AlbumSummary) => {
+    e.preventDefault();
+    setDropTargetId(null);
+    
+    const imageId = parseInt(e.dataTransfer.getData(GALLERY_IMAGE_DRAG_TYPE));
+    if (!imageId) return;
+    if (albumsForImage(imageId).some(existing => existing.id === album.id)) {
+      toast({ title: "Already in album", description: `This photo is already in "${album.title}"` });
+      return;
+    }
+    setAssignment({ albumId: album.id, imageId, assigned: true });
+  };
+  
+  const handleSave = () => {
+    if (!title.trim()) {
+      toast({
+        title: "Missing information",
+        description: "Please give the album a title",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    saveAlbumMutation.mutate({
+      title: title.trim(),
+      description: description.trim() || null,
+      coverImageId,
+      // The address is made from the title when an album is created
+      ...(currentAlbum ? { slug: slug.trim() } : {}),
+    });
+  };
+  
+  // Only photos already in the album can be its cover
+  const coverChoices = currentAlbum
+    ? images.filter(image => albumsForImage(image.id).some(album => album.id === currentAlbum.id))
+    : [];
+  
+  return (
+    <div className="mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold">Albums</h3>
+          <p className="text-sm text-gray-500">Drag photos from the list below onto an album to add them</p>
+        </div>
+        <Button variant="outline" onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" /> New Album
+        </Button>
+      </div>
+      
+      {isLoading ? (
+        <div className="flex justify-center p-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : albums.length === 0 ? (
+        <div className="text-center p-6 border border-dashed border-gray-300 rounded-lg">
+          <p className="text-gray-500">No albums yet. Group photos into albums such as "Childhood" or "The wedding".</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {albums.map((album, index) => (
+            <div
+              key={album.id}
+              className={cn(
+                "rounded-lg border-2 border-dashed p-3 transition-colors",
+                dropTargetId === album.id ? "border-primary bg-primary/5" : "border-gray-200"
+              )}
+              onDragOver={(e) => handleDragOver(e, album.id)}
+              onDragLeave={(e) => {
+                // Moving onto the card's own contents isn't leaving it
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTargetId(null);
+              }}
+              onDrop={(e) => handleDrop(e, album)}
+            >
+              <div className="flex items-center space-x-3">
+                <div className="w-12 h-12 flex-shrink-0 overflow-hidden rounded-md bg-neutral-100 flex items-center justify-center">
+                  {album.coverImage ? (
+                    <img src={album.coverImage.imageUrl} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <Images className="h-5 w-5 text-gray-400" />
+                  )}
+                </div>
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{album.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {album.imageCount === 1 ? "1 photo" : `${album.imageCount} photos`}
+                  </p>
+                </div>
+              </div>
+              <div className="flex justify-end space-x-1 mt-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Move album earlier"
+                  onClick={() => moveAlbum(index, -1)}
+                  disabled={index === 0 || reorderMutation.isPending}
+                >
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Move album later"
+                  onClick={() => moveAlbum(index, 1)}
+                  disabled={index === albums.length - 1 || reorderMutation.isPending}
+                >
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" aria-label="Edit album" onClick={() => openForm(album)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  aria-label="Delete album"
+                  className="text-red-500 hover:text-red-600"
+                  onClick={() => initiateDelete(album)}
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {/* Album Form Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{currentAlbum ? "Edit Album" : "New Album"}</DialogTitle>
+            <DialogDescription>
+              Albums appear at the top of the gallery page, each with a page of its own.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="album-title">Title (required)</Label>
+              <Input
+                id="album-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Childhood"
+              />
+            </div>
+            
+            {currentAlbum && (
+              <div className="space-y-2">
+                <Label htmlFor="album-slug">Address</Label>
+                <Input
+                  id="album-slug"
+                  value={slug}
+                  onChange={(e) => setSlug(e.target.value)}
+                />
+                <p className="text-sm text-gray-500">The album's page is at /gallery/{slug || "..."}</p>
+              </div>
+            )}
+            
+            <div className="space-y-2">
+              <Label htmlFor="album-description">Description (optional)</Label>
+              <Textarea
+                id="album-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={3}
+              />
+            </div>
+            
+            {currentAlbum && (
+              <div className="space-y-2">
+                <Label>Cover Photo</Label>
+                {coverChoices.length === 0 ? (
+                  <p className="text-sm text-gray-500">Add photos to the album to choose a cover.</p>
+                ) : (
+                  <div className="grid grid-cols-5 gap-2 max-h-48 overflow-y-auto">
+                    <button
+                      type="button"
+                      className={cn(
+                        "aspect-square rounded-md border-2 text-xs text-gray-500",
+                        coverImageId === null ? "border-primary" : "border-gray-200"
+                      )}
+                      onClick={() => setCoverImageId(null)}
+                    >
+                      First photo
+                    </button>
+                    {coverChoices.map((image) => (
+                      <button
+                        key={image.id}
+                        type="button"
+                        className={cn(
+                          "aspect-square overflow-hidden rounded-md border-2",
+                          coverImageId === image.id ? "border-primary" : "border-transparent"
+                        )}
+                        onClick={() => setCoverImageId(image.id)}
+                      >
+                        <img
+                          src={image.imageUrl}
+                          alt={image.caption || `Gallery image ${image.id}`}
+                          className="w-full h-full object-cover"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveAlbumMutation.isPending}>
+              {saveAlbumMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Album"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Album</DialogTitle>
+            <DialogDescription>
+              Delete {currentAlbum ? `"${currentAlbum.title}"` : "this album"}? Its photos stay in the gallery.
+            </DialogDescription>
+          </DialogHeader>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => currentAlbum && deleteAlbumMutation.mutate(currentAlbum.id)}
+              disabled={deleteAlbumMutation.isPending}
+            >
+              {deleteAlbumMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                "Delete"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useRef, useState } from "react";
+import { useGalleryUploadQueue, UploadItem, UploadItemDetails } from "@/hooks/use-gallery-upload-queue";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { CheckCircle2, Loader2, RotateCcw, Trash, Upload } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface BulkUploadDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Order given to the first new image, so uploads land after the existing ones
+  nextOrder: number;
+}
+
+function UploadCard({ item, onChange, onRemove, onRetry }: {
+  item: UploadItem;
+  onChange: (details: Partial<UploadItemDetails>) => void;
+  onRemove: () => void;
+  onRetry: () => void;
+}) {
+  const isEditable = item.status === "ready" || item.status === "failed";
+  
+  return (
+    <div className="rounded-lg border p-2 space-y-2">
+      <div className="relative aspect-square overflow-hidden rounded-md bg-neutral-100">
+        <img src={item.previewUrl} alt={item.file.name} className="w-full h-full object-cover" />
+        {item.status === "done" && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+            <CheckCircle2 className="h-10 w-10 text-white" />
+          </div>
+        )}
+        {(item.status === "queued" || item.status === "uploading") && (
+          <div className="absolute inset-x-0 bottom-0 bg-black/50 p-2">
+            <Progress value={item.progress} className="h-2" />
+            <p className="text-xs text-white mt-1">
+              {item.status === "queued" ? "Waiting..." : item.progress < 100 ? `${item.progress}%` : "Processing..."}
+            </p>
+          </div>
+        )}
+      </div>
+      
+      <p className="text-xs text-gray-500 truncate" title={item.file.name}>{item.file.name}</p>
+      
+      {item.status === "failed" && (
+        <div className="flex items-start justify-between gap-2">
+          <p className="text-xs text-red-600">{item.error}</p>
+          <Button variant="outline" size="sm" className="h-7 px-2" onClick={onRetry}>
+            <RotateCcw className="h-3 w-3 mr-1" /> Retry
+          </Button>
+        </div>
+      )}
+      
+      <Input
+        value={item.caption}
+        onChange={(e) => onChange({ caption: e.target.value })}
+        placeholder="Caption"
+        disabled={!isEditable}
+        aria-label={`Caption for ${item.file.name}`}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`${item.key}-featured`}
+            checked={item.isFeatured}
+            onCheckedChange={(checked) => onChange({ isFeatured: checked === true })}
+            disabled={!isEditable}
+          />
+          <Label htmlFor={`${item.key}-featured`} className="text-xs">Featured</Label>
+        </div>
+        <Input
+          type="number"
+          min="0"
+          className="w-20 h-8"
+          value={item.order}
+          onChange={(e) => onChange({ order: parseInt(e.target.value) || 0 })}
+          disabled={!isEditable}
+          aria-label={`Order for ${item.file.name}`}
+        />
+        {isEditable && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2 text-red-500 hover:text-red-600"
+            onClick={onRemove}
+            aria-label={`Remove ${item.file.name}`}
+          >
+            <Trash className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function BulkUploadDialog({ isOpen, onClose, nextOrder }: BulkUploadDialogProps) {
+  const { items, isRunning, addFiles, updateItem, removeItem, clear, start, retry, retryFailed } = useGalleryUploadQueue();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [firstOrder, setFirstOrder] = useState<number | null>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  
+  const counts = {
+    ready: items.filter(item => item.status === "ready").length,
+    done: items.filter(item => item.status === "done").length,
+    failed: items.filter(item => item.status === "failed").length,
+  };
+  const editableItems = items.filter(item => item.status === "ready" || item.status === "failed");
+  
+  const handleFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList || []).filter(file => file.type.startsWith("image/"));
+    if (files.length === 0) return;
+    // Follow on from the files already added
+    const lastOrder = items.reduce((max, item) => Math.max(max, item.order + 1), nextOrder);
+    addFiles(files, lastOrder);
+  };
+  
+  const renumber = () => {
+    const from = firstOrder ?? nextOrder;
+    editableItems.forEach((item, index) => updateItem(item.key, { order: from + index }));
+  };
+  
+  const setAllFeatured = (isFeatured: boolean) => {
+    editableItems.forEach(item => updateItem(item.key, { isFeatured }));
+  };
+  
+  const handleClose = () => {
+    // Uploads carry on in the background otherwise, with nowhere to report to
+    if (isRunning) return;
+    clear();
+    onClose();
+  };
+  
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Bulk Upload</DialogTitle>
+          <DialogDescription>
+            Choose several photos, set their captions, featured flags and order, then upload them together.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <input
+          type="file"
+          ref={fileInputRef}
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = "";
+          }}
+        />
+        
+        {items.length === 0 ? (
+          <button
+            type="button"
+            className={cn(
+              "border-2 border-dashed rounded-md p-12 flex flex-col items-center justify-center hover:border-primary",
+              isDraggingOver ? "border-primary bg-primary/5" : "border-gray-300"
+            )}
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDraggingOver(true);
+            }}
+            onDragLeave={() => setIsDraggingOver(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDraggingOver(false);
+              handleFiles(e.dataTransfer.files);
+            }}
+          >
+            <Upload className="h-10 w-10 text-gray-400 mb-2" />
+            <p className="text-sm text-gray-500">Click to choose photos, or drop them here</p>
+            <p className="text-xs text-gray-400">JPG, PNG, GIF up to 50MB each</p>
+          </button>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-4">
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRunning}>
+                <Upload className="mr-2 h-4 w-4" /> Add More
+              </Button>
+              <div className="flex items-end gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="bulk-first-order" className="text-xs">Number from</Label>
+                  <Input
+                    id="bulk-first-order"
+                    type="number"
+                    min="0"
+                    className="w-24"
+                    value={firstOrder ?? nextOrder}
+                    onChange={(e) => setFirstOrder(parseInt(e.target.value) || 0)}
+                  />
+                </div>
+                <Button variant="outline" onClick={renumber} disabled={editableItems.length === 0}>
+                  Renumber
+                </Button>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={() => setAllFeatured(true)} disabled={editableItems.length === 0}>
+                  Feature all
+                </Button>
+                <Button variant="ghost" onClick={() => setAllFeatured(false)} disabled={editableItems.length === 0}>
+                  Feature none
+                </Button>
+              </div>
+            </div>
+            
+            <div className="flex-1 overflow-y-auto grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 py-2">
+              {items.map((item) => (
+                <UploadCard
+                  key={item.key}
+                  item={item}
+                  onChange={(details) => updateItem(item.key, details)}
+                  onRemove={() => removeItem(item.key)}
+                  onRetry={() => retry(item.key)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+        
+        <DialogFooter className="items-center">
+          {items.length > 0 && (
+            <p className="text-sm text-gray-500 mr-auto">
+              {items.length} photos · {counts.done} uploaded
+              {counts.failed > 0 && <span className="text-red-600"> · {counts.failed} failed</span>}
+            </p>
+          )}
+          {counts.failed > 0 && (
+            <Button variant="outline" onClick={retryFailed}>
+              <RotateCcw className="mr-2 h-4 w-4" /> Retry Failed
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleClose} disabled={isRunning}>
+            {counts.done > 0 && counts.ready === 0 ? "Done" : "Cancel"}
+          </Button>
+          <Button onClick={start} disabled={counts.ready === 0 || isRunning}>
+            {isRunning ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              `Upload ${counts.ready} ${counts.ready === 1 ? "Photo" : "Photos"}`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,357 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TributeComment, TributeStatus } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Trash2, Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMemorial } from "@/hooks/use-memorial";
+
+// Comments share the tribute approval setting, which is managed in TributeManager
+export default function CommentManager() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const [selectedComment, setSelectedComment] = useState<TributeComment | null>(null);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isRejectModalOpen, setIsRejectModalOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const moderationPath = (status: TributeStatus) => apiPath(`/comments/moderation?status=${status}`);
+
+  const { data: publishedComments, isLoading } = useQuery<TributeComment[]>({
+    queryKey: [moderationPath("approved")],
+  });
+
+  const { data: pendingComments, isLoading: isLoadingPending } = useQuery<TributeComment[]>({
+    queryKey: [moderationPath("pending")],
+  });
+
+  const { data: rejectedComments } = useQuery<TributeComment[]>({
+    queryKey: [moderationPath("rejected")],
+  });
+
+  // Refresh every moderation list plus the public feed, whose comment counts may change
+  const invalidateCommentLists = (comment: TributeComment) => {
+    queryClient.invalidateQueries({ queryKey: [moderationPath("approved")] });
+    queryClient.invalidateQueries({ queryKey: [moderationPath("pending")] });
+    queryClient.invalidateQueries({ queryKey: [moderationPath("rejected")] });
+    queryClient.invalidateQueries({ queryKey: [apiPath("/tributes")] });
+    queryClient.invalidateQueries({ queryKey: [apiPath(`/tributes/${comment.tributeId}/comments`)] });
+  };
+
+  const approveCommentMutation = useMutation({
+    mutationFn: async (comment: TributeComment) => {
+      const res = await apiRequest("PUT", apiPath(`/comments/${comment.id}/approve`));
+      return res.json();
+    },
+    onSuccess: (_, comment) => {
+      invalidateCommentLists(comment);
+      toast({
+        title: "Comment approved",
+        description: "The comment is now visible under its tribute.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to approve comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectCommentMutation = useMutation({
+    mutationFn: async ({ comment, reason }: { comment: TributeComment; reason: string }) => {
+      const res = await apiRequest("PUT", apiPath(`/comments/${comment.id}/reject`), {
+        reason: reason || undefined
+      });
+      return res.json();
+    },
+    onSuccess: (_, { comment }) => {
+      invalidateCommentLists(comment);
+      toast({
+        title: "Comment rejected",
+        description: "The comment will not be shown on the tribute wall.",
+      });
+      setIsRejectModalOpen(false);
+      setRejectReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reject comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (comment: TributeComment) => {
+      await apiRequest("DELETE", apiPath(`/tributes/${comment.tributeId}/comments/${comment.id}`));
+    },
+    onSuccess: (_, comment) => {
+      invalidateCommentLists(comment);
+      toast({
+        title: "Comment deleted",
+        description: "The comment and any replies to it have been removed.",
+      });
+      setIsDeleteModalOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRejectComment = (comment: TributeComment) => {
+    setSelectedComment(comment);
+    setRejectReason("");
+    setIsRejectModalOpen(true);
+  };
+
+  const handleDeleteComment = (comment: TributeComment) => {
+    setSelectedComment(comment);
+    setIsDeleteModalOpen(true);
+  };
+
+  const renderCommentTable = (list: TributeComment[], emptyMessage: string) => {
+    if (list.length === 0) {
+      return (
+        <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
+          <p className="text-gray-500">{emptyMessage}</p>
+        </div>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead>Comment</TableHead>
+            <TableHead>Posted</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {list.map((comment) => (
+            <TableRow key={comment.id}>
+              <TableCell>
+                {comment.user?.name || "Anonymous"}
+              </TableCell>
+              <TableCell className="max-w-md">
+                <p className="whitespace-pre-line">{comment.content}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {comment.parentId ? "Reply" : "Comment"} on tribute #{comment.tributeId}
+                </p>
+              </TableCell>
+              <TableCell>{formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}</TableCell>
+              <TableCell>
+                <Badge variant={comment.status === "rejected" ? "destructive" : comment.status === "pending" ? "outline" : "secondary"}>
+                  {comment.status === "rejected" ? "Rejected" : comment.status === "pending" ? "Pending" : "Published"}
+                </Badge>
+                {comment.moderationReason && (
+                  <p className="text-xs text-gray-500 mt-1">{comment.moderationReason}</p>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex space-x-2">
+                  {comment.status !== "approved" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => approveCommentMutation.mutate(comment)}
+                      disabled={approveCommentMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" /> Approve
+                    </Button>
+                  )}
+                  {comment.status === "pending" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRejectComment(comment)}
+                    >
+                      <X className="h-4 w-4 mr-1" /> Reject
+                    </Button>
+                  )}
+                  <Button
+                    variant="destructive"
+                    size="sm"
+                    onClick={() => handleDeleteComment(comment)}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" /> Delete
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  if (isLoading || isLoadingPending) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Comment Moderation</CardTitle>
+          <CardDescription>
+            Review comments and replies left on tributes. New comments follow the tribute approval setting above.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue={pendingComments && pendingComments.length > 0 ? "pending" : "published"}>
+            <TabsList className="mb-4">
+              <TabsTrigger value="published">Published</TabsTrigger>
+              <TabsTrigger value="pending">
+                Pending Review
+                {pendingComments && pendingComments.length > 0 && (
+                  <Badge className="ml-2">{pendingComments.length}</Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="rejected">Rejected</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="published">
+              {renderCommentTable(publishedComments || [], "No comments have been published yet.")}
+            </TabsContent>
+
+            <TabsContent value="pending">
+              {renderCommentTable(pendingComments || [], "There are no comments awaiting review.")}
+            </TabsContent>
+
+            <TabsContent value="rejected">
+              {renderCommentTable(rejectedComments || [], "No comments have been rejected.")}
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+
+      {/* Reject Comment Modal */}
+      {selectedComment && (
+        <Dialog open={isRejectModalOpen} onOpenChange={setIsRejectModalOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Comment</DialogTitle>
+              <DialogDescription>
+                This comment from {selectedComment.user?.name || "Anonymous"} will not be shown on the tribute wall.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2 py-4">
+              <Label htmlFor="rejectCommentReason">Reason (optional)</Label>
+              <Textarea
+                id="rejectCommentReason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Note why this comment was rejected"
+                rows={3}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setIsRejectModalOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => rejectCommentMutation.mutate({ comment: selectedComment, reason: rejectReason.trim() })}
+                disabled={rejectCommentMutation.isPending}
+              >
+                {rejectCommentMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Rejecting...
+                  </>
+                ) : (
+                  <>
+                    <X className="mr-2 h-4 w-4" />
+                    Reject
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {selectedComment && (
+        <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Confirm Deletion</DialogTitle>
+              <DialogDescription>
+                Are you sure you want to delete this comment? Any replies to it will be deleted too. This action cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+
+            <DialogFooter className="pt-4">
+              <Button
+                variant="outline"
+                onClick={() => setIsDeleteModalOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => deleteCommentMutation.mutate(selectedComment)}
+                disabled={deleteCommentMutation.isPending}
+              >
+                {deleteCommentMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  <>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
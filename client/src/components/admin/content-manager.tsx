@@ -10,8 +10,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { SiteSettings, FuneralProgram } from "@/lib/types";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loader2, Save, Upload, Plus, Trash } from "lucide-react";
+import { useMemorial } from "@/hooks/use-memorial";
+import EventEditor from "./event-editor";
+import ProgramEditor from "./program-editor";
+import LifeStoryEditor from "./life-story-editor";
 
 export default function ContentManager() {
+  const { apiPath } = useMemorial();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("general");
 
@@ -20,7 +25,7 @@ export default function ContentManager() {
     data: settings,
     isLoading: isLoadingSettings
   } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
 
   // Fetch funeral program
@@ -28,7 +33,7 @@ export default function ContentManager() {
     data: funeralProgram,
     isLoading: isLoadingProgram 
   } = useQuery<FuneralProgram>({
-    queryKey: ["/api/funeral-program"],
+    queryKey: [apiPath("/funeral-program")],
   });
 
   // State for settings form
@@ -63,10 +68,6 @@ export default function ContentManager() {
   const tributeFileInputRef = useRef<HTMLInputElement>(null);
 
   // State for funeral program form
-  const [programDate, setProgramDate] = useState("");
-  const [programTime, setProgramTime] = useState("");
-  const [programLocation, setProgramLocation] = useState("");
-  const [programAddress, setProgramAddress] = useState("");
   const [programStreamLink, setProgramStreamLink] = useState("");
   const [programPdfUrl, setProgramPdfUrl] = useState("");
   const [serviceDescription, setServiceDescription] = useState("");
@@ -117,10 +118,6 @@ export default function ContentManager() {
 
   useEffect(() => {
     if (funeralProgram) {
-      setProgramDate(funeralProgram.date || "");
-      setProgramTime(funeralProgram.time || "");
-      setProgramLocation(funeralProgram.location || "");
-      setProgramAddress(funeralProgram.address || "");
       setProgramStreamLink(funeralProgram.streamLink || "");
       setProgramPdfUrl(funeralProgram.programPdfUrl || "");
       setServiceDescription(funeralProgram.serviceDescription || "");
@@ -130,11 +127,11 @@ export default function ContentManager() {
   // Settings mutation
   const updateSettingMutation = useMutation({
     mutationFn: async ({ key, value }: { key: string; value: string }) => {
-      const res = await apiRequest("PUT", `/api/settings/${key}`, { value });
+      const res = await apiRequest("PUT", apiPath(`/settings/${key}`), { value });
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/settings")] });
       toast({
         title: "Settings updated",
         description: "Your changes have been saved successfully.",
@@ -152,11 +149,11 @@ export default function ContentManager() {
   // Funeral program mutation
   const updateProgramMutation = useMutation({
     mutationFn: async (programData: Partial<FuneralProgram>) => {
-      const res = await apiRequest("PUT", "/api/funeral-program", programData);
+      const res = await apiRequest("PUT", apiPath("/funeral-program"), programData);
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/funeral-program"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/funeral-program")] });
       toast({
         title: "Funeral program updated",
         description: "Your changes have been saved successfully.",
@@ -178,7 +175,7 @@ export default function ContentManager() {
       formData.append("image", file);
 
       // Use fetch directly since we're sending FormData
-      const res = await fetch(`/api/settings/upload/${key}`, {
+      const res = await fetch(apiPath(`/settings/upload/${key}`), {
         method: "POST",
         body: formData,
         credentials: "include",
@@ -202,7 +199,7 @@ export default function ContentManager() {
       }
       
       // Then invalidate the query to refresh all settings
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/settings")] });
       
       toast({
         title: "Image uploaded",
@@ -258,7 +255,7 @@ export default function ContentManager() {
         value: footerMessage 
       }, {
         onSuccess: () => {
-          queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+          queryClient.invalidateQueries({ queryKey: [apiPath("/settings")] });
           toast({
             title: "Footer message updated",
             description: "Your footer message has been saved successfully.",
@@ -353,7 +350,7 @@ export default function ContentManager() {
       });
       
       // Make sure the data is refreshed
-      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/settings")] });
     } else {
       toast({
         title: "No changes detected",
@@ -384,10 +381,6 @@ export default function ContentManager() {
 
   const handleSaveFuneralProgram = () => {
     const programData = {
-      date: programDate,
-      time: programTime,
-      location: programLocation,
-      address: programAddress,
       streamLink: programStreamLink,
       programPdfUrl: programPdfUrl,
       serviceDescription: serviceDescription,
@@ -412,6 +405,7 @@ export default function ContentManager() {
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
           <TabsTrigger value="general">General Settings</TabsTrigger>
+          <TabsTrigger value="story">Life Story</TabsTrigger>
           <TabsTrigger value="funeral">Funeral Program</TabsTrigger>
           <TabsTrigger value="footer">Footer Settings</TabsTrigger>
         </TabsList>
@@ -588,57 +582,23 @@ export default function ContentManager() {
           </Card>
         </TabsContent>
 
-        <TabsContent value="funeral" className="mt-4">
+        <TabsContent value="story" className="mt-4">
+          <LifeStoryEditor />
+        </TabsContent>
+
+        <TabsContent value="funeral" className="mt-4 space-y-4">
+          <EventEditor />
+
+          <ProgramEditor />
+
           <Card>
             <CardHeader>
               <CardTitle>Funeral Program</CardTitle>
               <CardDescription>
-                Update the funeral service details and resources
+                Update the program download, main livestream and service description
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="programDate">Date</Label>
-                  <Input
-                    id="programDate"
-                    value={programDate}
-                    onChange={(e) => setProgramDate(e.target.value)}
-                    placeholder="Saturday, October 21, 2023"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="programTime">Time</Label>
-                  <Input
-                    id="programTime"
-                    value={programTime}
-                    onChange={(e) => setProgramTime(e.target.value)}
-                    placeholder="1:00 PM - 3:00 PM"
-                  />
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="programLocation">Location</Label>
-                <Input
-                  id="programLocation"
-                  value={programLocation}
-                  onChange={(e) => setProgramLocation(e.target.value)}
-                  placeholder="Seaside Memorial Chapel"
-                />
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="programAddress">Address</Label>
-                <Input
-                  id="programAddress"
-                  value={programAddress}
-                  onChange={(e) => setProgramAddress(e.target.value)}
-                  placeholder="1234 Coastal Highway, Oceanview, CA 92123"
-                />
-              </div>
-
               <div className="space-y-2">
                 <Label htmlFor="programStreamLink">Livestream Link (optional)</Label>
                 <Input
@@ -657,6 +617,9 @@ export default function ContentManager() {
                   onChange={(e) => setProgramPdfUrl(e.target.value)}
                   placeholder="https://example.com/program.pdf"
                 />
+                <p className="text-xs text-muted-foreground">
+                  Only used when no order of service has been set up above
+                </p>
               </div>
 
               <div className="space-y-2">
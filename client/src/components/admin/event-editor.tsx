@@ -0,0 +1,332 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { ServiceEvent, EventType } from "@/lib/types";
+import { EVENT_TYPE_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatEventTime, getEventTitle } from "@/components/funeral/event-timeline";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Plus, Pencil, Trash } from "lucide-react";
+
+// <input type="datetime-local"> works in local time without a timezone suffix
+const toInputValue = (iso: string | null) => iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "";
+const fromInputValue = (value: string) => value ? new Date(value).toISOString() : null;
+
+export default function EventEditor() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [currentEvent, setCurrentEvent] = useState<ServiceEvent | null>(null);
+  
+  // Form state
+  const [type, setType] = useState<EventType>("funeral");
+  const [title, setTitle] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [venue, setVenue] = useState("");
+  const [address, setAddress] = useState("");
+  const [streamLink, setStreamLink] = useState("");
+  const [notes, setNotes] = useState("");
+  
+  const { data: events, isLoading } = useQuery<ServiceEvent[]>({
+    queryKey: [apiPath("/events")],
+  });
+  
+  const openForm = (event: ServiceEvent | null) => {
+    setCurrentEvent(event);
+    setType(event?.type || "funeral");
+    setTitle(event?.title || "");
+    setStartsAt(toInputValue(event?.startsAt || null));
+    setEndsAt(toInputValue(event?.endsAt || null));
+    setVenue(event?.venue || "");
+    setAddress(event?.address || "");
+    setStreamLink(event?.streamLink || "");
+    setNotes(event?.notes || "");
+    setIsFormOpen(true);
+  };
+  
+  const initiateDelete = (event: ServiceEvent) => {
+    setCurrentEvent(event);
+    setIsDeleteDialogOpen(true);
+  };
+  
+  const saveEventMutation = useMutation({
+    mutationFn: async (eventData: Partial<ServiceEvent>) => {
+      const res = currentEvent
+        ? await apiRequest("PUT", apiPath(`/events/${currentEvent.id}`), eventData)
+        : await apiRequest("POST", apiPath("/events"), eventData);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/events")] });
+      setIsFormOpen(false);
+      toast({
+        title: currentEvent ? "Event updated" : "Event added",
+        description: "The service schedule has been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteEventMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", apiPath(`/events/${id}`));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/events")] });
+      setIsDeleteDialogOpen(false);
+      setCurrentEvent(null);
+      toast({
+        title: "Event deleted",
+        description: "The event has been removed from the schedule",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleSave = () => {
+    if (!startsAt || !venue.trim()) {
+      toast({
+        title: "Missing information",
+        description: "Please provide a start time and venue",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    saveEventMutation.mutate({
+      type,
+      title: title.trim() || null,
+      startsAt: fromInputValue(startsAt)!,
+      endsAt: fromInputValue(endsAt),
+      venue: venue.trim(),
+      address: address.trim() || null,
+      streamLink: streamLink.trim() || null,
+      notes: notes.trim() || null,
+    });
+  };
+  
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Service Schedule</CardTitle>
+          <CardDescription>
+            Visitation, funeral, burial and repast, shown as a timeline on the program page
+          </CardDescription>
+        </div>
+        <Button onClick={() => openForm(null)}>
+          <Plus className="mr-2 h-4 w-4" /> Add Event
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : events && events.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead>Venue</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell>
+                    <p className="font-medium">{getEventTitle(event)}</p>
+                    <p className="text-xs text-muted-foreground">{EVENT_TYPE_LABELS[event.type]}</p>
+                  </TableCell>
+                  <TableCell>
+                    <p>{format(new Date(event.startsAt), "EEE, MMM d, yyyy")}</p>
+                    <p className="text-xs text-muted-foreground">{formatEventTime(event)}</p>
+                  </TableCell>
+                  <TableCell>{event.venue}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openForm(event)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => initiateDelete(event)}>
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
+            <p className="text-muted-foreground">No events scheduled yet</p>
+          </div>
+        )}
+      </CardContent>
+      
+      {/* Add / Edit Event Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{currentEvent ? "Edit Event" : "Add Event"}</DialogTitle>
+            <DialogDescription>
+              Times are entered in your local time zone
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="eventType">Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as EventType)}>
+                  <SelectTrigger id="eventType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map((eventType) => (
+                      <SelectItem key={eventType} value={eventType}>
+                        {EVENT_TYPE_LABELS[eventType]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="eventTitle">Title (optional)</Label>
+                <Input
+                  id="eventTitle"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={EVENT_TYPE_LABELS[type]}
+                />
+              </div>
+            </div>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="eventStartsAt">Starts</Label>
+                <Input
+                  id="eventStartsAt"
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                />
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="eventEndsAt">Ends (optional)</Label>
+                <Input
+                  id="eventEndsAt"
+                  type="datetime-local"
+                  value={endsAt}
+                  min={startsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                />
+              </div>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="eventVenue">Venue</Label>
+              <Input
+                id="eventVenue"
+                value={venue}
+                onChange={(e) => setVenue(e.target.value)}
+                placeholder="Seaside Memorial Chapel"
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="eventAddress">Address</Label>
+              <Input
+                id="eventAddress"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+                placeholder="1234 Coastal Highway, Oceanview, CA 92123"
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="eventStreamLink">Livestream Link (optional)</Label>
+              <Input
+                id="eventStreamLink"
+                value={streamLink}
+                onChange={(e) => setStreamLink(e.target.value)}
+                placeholder="https://example.com/stream"
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="eventNotes">Notes</Label>
+              <Textarea
+                id="eventNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Parking, dress code, directions..."
+                rows={3}
+              />
+            </div>
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveEventMutation.isPending}>
+              {saveEventMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {currentEvent ? "Save Changes" : "Add Event"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Event</DialogTitle>
+            <DialogDescription>
+              Remove {currentEvent ? getEventTitle(currentEvent) : "this event"} from the schedule? This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => currentEvent && deleteEventMutation.mutate(currentEvent.id)}
+              disabled={deleteEventMutation.isPending}
+            >
+              {deleteEventMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -8,15 +8,27 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter, DialogTrigger } from "@/components/ui/dialog";
-import { Loader2, Plus, Pencil, Trash, Image, Star, Upload } from "lucide-react";
+import { Loader2, Plus, Pencil, Trash, Image, Star, Upload, GripVertical, FolderPlus, X, ArrowUpDown } from "lucide-react";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useAlbumAssignments } from "@/hooks/use-album-assignments";
+import AlbumManager, { GALLERY_IMAGE_DRAG_TYPE } from "./album-manager";
+import PhotoSubmissions from "./photo-submissions";
+import BulkUploadDialog from "./bulk-upload-dialog";
+import SortableImageGrid from "./sortable-image-grid";
 
 export default function GalleryManager() {
+  const { apiPath } = useMemorial();
   const { toast } = useToast();
+  const { albums, albumsForImage, setAssignment, invalidateAlbums } = useAlbumAssignments();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isBulkUploadOpen, setIsBulkUploadOpen] = useState(false);
+  const [isReordering, setIsReordering] = useState(false);
   const [currentImage, setCurrentImage] = useState<GalleryImage | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
@@ -30,7 +42,7 @@ export default function GalleryManager() {
   
   // Fetch gallery images
   const { data: images, isLoading } = useQuery<GalleryImage[]>({
-    queryKey: ["/api/gallery"],
+    queryKey: [apiPath("/gallery")],
   });
   
   const resetForm = () => {
@@ -60,12 +72,12 @@ export default function GalleryManager() {
   // Add image mutation
   const addImageMutation = useMutation({
     mutationFn: async (imageData: Omit<GalleryImage, "id">) => {
-      const res = await apiRequest("POST", "/api/gallery", imageData);
+      const res = await apiRequest("POST", apiPath("/gallery"), imageData);
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery/featured"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery/featured")] });
       setIsAddDialogOpen(false);
       resetForm();
       toast({
@@ -96,7 +108,7 @@ export default function GalleryManager() {
       formData.append('isFeatured', String(isFeatured));
       formData.append('order', String(order));
       
-      const response = await fetch('/api/gallery/upload', {
+      const response = await fetch(apiPath("/gallery/upload"), {
         method: 'POST',
         body: formData,
       });
@@ -109,8 +121,8 @@ export default function GalleryManager() {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery/featured"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery/featured")] });
       setIsAddDialogOpen(false);
       resetForm();
       toast({
@@ -130,12 +142,12 @@ export default function GalleryManager() {
   // Edit image mutation
   const editImageMutation = useMutation({
     mutationFn: async ({ id, data }: { id: number; data: Partial<GalleryImage> }) => {
-      const res = await apiRequest("PUT", `/api/gallery/${id}`, data);
+      const res = await apiRequest("PUT", apiPath(`/gallery/${id}`), data);
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery/featured"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery/featured")] });
       setIsEditDialogOpen(false);
       resetForm();
       toast({
@@ -155,12 +167,17 @@ export default function GalleryManager() {
   // Delete image mutation
   const deleteImageMutation = useMutation({
     mutationFn: async (id: number) => {
-      const res = await apiRequest("DELETE", `/api/gallery/${id}`);
+      const res = await apiRequest("DELETE", apiPath(`/gallery/${id}`));
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/gallery/featured"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery/featured")] });
+      // Album covers and photo counts may have changed
+      invalidateAlbums();
+      // The image's tags go with it
+      queryClient.invalidateQueries({ queryKey: [apiPath("/photo-tags")] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/people")] });
       setIsDeleteDialogOpen(false);
       setCurrentImage(null);
       toast({
@@ -177,6 +194,30 @@ export default function GalleryManager() {
     },
   });
   
+  // Reorder mutation
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest("PUT", apiPath("/gallery/order"), { ids });
+      return res.json();
+    },
+    onSuccess: (updatedImages: GalleryImage[]) => {
+      queryClient.setQueryData([apiPath("/gallery")], updatedImages);
+      queryClient.invalidateQueries({ queryKey: [apiPath("/gallery/featured")] });
+      setIsReordering(false);
+      toast({
+        title: "Success",
+        description: "Gallery order saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reorder gallery",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
   const handleAddImage = () => {
     if (uploadMode === 'url') {
       if (!imageUrl) {
@@ -272,11 +313,23 @@ export default function GalleryManager() {
           <CardTitle>Gallery Manager</CardTitle>
           <CardDescription>Add, edit, or remove images from the gallery</CardDescription>
         </div>
-        <Button onClick={() => setIsAddDialogOpen(true)}>
-          <Plus className="mr-2 h-4 w-4" /> Add Image
-        </Button>
+        <div className="flex space-x-2">
+          {images && images.length > 1 && !isReordering && (
+            <Button variant="outline" onClick={() => setIsReordering(true)}>
+              <ArrowUpDown className="mr-2 h-4 w-4" /> Reorder
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => setIsBulkUploadOpen(true)}>
+            <Upload className="mr-2 h-4 w-4" /> Bulk Upload
+          </Button>
+          <Button onClick={() => setIsAddDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" /> Add Image
+          </Button>
+        </div>
       </CardHeader>
       <CardContent>
+        <PhotoSubmissions />
+        
         {isLoading ? (
           <div className="flex justify-center p-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -293,65 +346,136 @@ export default function GalleryManager() {
               <Plus className="mr-2 h-4 w-4" /> Add Your First Image
             </Button>
           </div>
+        ) : isReordering ? (
+          <SortableImageGrid
+            images={images}
+            isSaving={reorderMutation.isPending}
+            onSave={(ids) => reorderMutation.mutate(ids)}
+            onCancel={() => setIsReordering(false)}
+          />
         ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Image</TableHead>
-                <TableHead>Caption</TableHead>
-                <TableHead>Featured</TableHead>
-                <TableHead>Order</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {images.map((image) => (
-                <TableRow key={image.id}>
-                  <TableCell>
-                    <div className="w-16 h-16 overflow-hidden rounded-md">
-                      <img 
-                        src={image.imageUrl} 
-                        alt={image.caption || `Gallery image ${image.id}`}
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
-                  </TableCell>
-                  <TableCell className="max-w-[200px] truncate">
-                    {image.caption || <span className="text-gray-400 italic">No caption</span>}
-                  </TableCell>
-                  <TableCell>
-                    {image.isFeatured ? (
-                      <Star className="h-5 w-5 text-yellow-500 fill-yellow-500" />
-                    ) : (
-                      <Star className="h-5 w-5 text-gray-300" />
-                    )}
-                  </TableCell>
-                  <TableCell>{image.order}</TableCell>
-                  <TableCell>
-                    <div className="flex space-x-2">
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => populateFormForEdit(image)}
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        className="text-red-500 hover:text-red-600"
-                        onClick={() => initiateDelete(image)}
-                      >
-                        <Trash className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </TableCell>
+          <>
+            <AlbumManager images={images} />
+            
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Image</TableHead>
+                  <TableHead>Caption</TableHead>
+                  <TableHead>Albums</TableHead>
+                  <TableHead>Featured</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {images.map((image) => (
+                  <TableRow 
+                    key={image.id}
+                    draggable
+                    className="cursor-grab"
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(GALLERY_IMAGE_DRAG_TYPE, String(image.id));
+                      e.dataTransfer.effectAllowed = "copy";
+                    }}
+                  >
+                    <TableCell>
+                      <GripVertical className="h-4 w-4 text-gray-400" />
+                    </TableCell>
+                    <TableCell>
+                      <div className="w-16 h-16 overflow-hidden rounded-md">
+                        <img 
+                          src={image.imageUrl} 
+                          alt={image.caption || `Gallery image ${image.id}`}
+                          className="w-full h-full object-cover"
+                        />
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-[200px] truncate">
+                      {image.caption || <span className="text-gray-400 italic">No caption</span>}
+                      {image.sharedBy && (
+                        <p className="text-xs text-gray-500">Shared by {image.sharedBy.name}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1 max-w-[240px]">
+                        {albumsForImage(image.id).map((album) => (
+                          <Badge key={album.id} variant="outline" className="pr-1">
+                            {album.title}
+                            <button
+                              type="button"
+                              className="ml-1 rounded-full hover:bg-gray-200"
+                              aria-label={`Remove from ${album.title}`}
+                              onClick={() => setAssignment({ albumId: album.id, imageId: image.id, assigned: false })}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          </Badge>
+                        ))}
+                        {/* For adding without dragging */}
+                        {albums.length > 0 && (
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="sm" aria-label="Add to album">
+                                <FolderPlus className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="start">
+                              {albums.map((album) => (
+                                <DropdownMenuItem
+                                  key={album.id}
+                                  disabled={albumsForImage(image.id).some(existing => existing.id === album.id)}
+                                  onSelect={() => setAssignment({ albumId: album.id, imageId: image.id, assigned: true })}
+                                >
+                                  {album.title}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {image.isFeatured ? (
+                        <Star className="h-5 w-5 text-yellow-500 fill-yellow-500" />
+                      ) : (
+                        <Star className="h-5 w-5 text-gray-300" />
+                      )}
+                    </TableCell>
+                    <TableCell>{image.order}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => populateFormForEdit(image)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          className="text-red-500 hover:text-red-600"
+                          onClick={() => initiateDelete(image)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
         )}
         
+        <BulkUploadDialog
+          isOpen={isBulkUploadOpen}
+          onClose={() => setIsBulkUploadOpen(false)}
+          nextOrder={(images || []).reduce((max, image) => Math.max(max, image.order + 1), 0)}
+        />
+        
         {/* Add Image Dialog */}
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
           <DialogContent>
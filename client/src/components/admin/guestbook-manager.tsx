@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { GuestbookEntry, GuestCandles } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { formatDistanceToNow } from "date-fns";
+import { Flame, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMemorial } from "@/hooks/use-memorial";
+
+export default function GuestbookManager() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const [selectedEntry, setSelectedEntry] = useState<GuestbookEntry | null>(null);
+  const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  
+  const { data: entries, isLoading } = useQuery<GuestbookEntry[]>({
+    queryKey: [apiPath("/guestbook")],
+  });
+  
+  const { data: candles } = useQuery<GuestCandles>({
+    queryKey: [apiPath("/guestbook/candles")],
+  });
+  
+  const deleteEntryMutation = useMutation({
+    mutationFn: async (entry: GuestbookEntry) => {
+      await apiRequest("DELETE", apiPath(`/guestbook/${entry.id}`));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/guestbook")] });
+      toast({
+        title: "Entry deleted",
+        description: "The guestbook entry has been removed.",
+      });
+      setIsDeleteModalOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete entry",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleDeleteEntry = (entry: GuestbookEntry) => {
+    setSelectedEntry(entry);
+    setIsDeleteModalOpen(true);
+  };
+  
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+  
+  return (
+    <div>
+      <Card>
+        <CardHeader>
+          <CardTitle>Guestbook</CardTitle>
+          <CardDescription>
+            Messages left by visitors without an account. Remove anything that shouldn't be on the memorial.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+            <Flame className="h-4 w-4 text-amber-500" />
+            {candles?.count || 0} candles lit by visitors
+          </div>
+          
+          {entries && entries.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Message</TableHead>
+                  <TableHead>Signed</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>
+                      <p className="font-medium">{entry.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {[entry.relationship, entry.town].filter(Boolean).join(" · ")}
+                      </p>
+                    </TableCell>
+                    <TableCell className="max-w-md">
+                      <p className="whitespace-pre-line">{entry.message}</p>
+                    </TableCell>
+                    <TableCell>{formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDeleteEntry(entry)}
+                      >
+                        <Trash2 className="h-4 w-4 mr-1" /> Delete
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
+              <p className="text-gray-500">No one has signed the guestbook yet.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      
+      {/* Delete Confirmation Modal */}
+      {selectedEntry && (
+        <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Confirm Deletion</DialogTitle>
+              <DialogDescription>
+                Are you sure you want to delete the entry from {selectedEntry.name}? This action cannot be undone.
+              </DialogDescription>
+            </DialogHeader>
+            
+            <DialogFooter className="pt-4">
+              <Button
+                variant="outline"
+                onClick={() => setIsDeleteModalOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => deleteEntryMutation.mutate(selectedEntry)}
+                disabled={deleteEntryMutation.isPending}
+              >
+                {deleteEntryMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  <>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,434 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { GalleryImage, LifeStoryRevision } from "@/lib/types";
+import { LIFE_STORY_PROSE } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import {
+  Bold,
+  Heading2,
+  Heading3,
+  History,
+  ImagePlus,
+  Italic,
+  Link2,
+  List,
+  ListOrdered,
+  Loader2,
+  LucideIcon,
+  Pilcrow,
+  Quote,
+  Redo2,
+  Save,
+  Undo2
+} from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMemorial } from "@/hooks/use-memorial";
+
+// Formatting goes through the browser's editing commands; the server
+// sanitizes whatever markup they produce before it is stored
+const TOOLBAR: { label: string; icon: LucideIcon; command: string; value?: string }[] = [
+  { label: "Paragraph", icon: Pilcrow, command: "formatBlock", value: "<p>" },
+  { label: "Heading", icon: Heading2, command: "formatBlock", value: "<h2>" },
+  { label: "Subheading", icon: Heading3, command: "formatBlock", value: "<h3>" },
+  { label: "Pull quote", icon: Quote, command: "formatBlock", value: "<blockquote>" },
+  { label: "Bold", icon: Bold, command: "bold" },
+  { label: "Italic", icon: Italic, command: "italic" },
+  { label: "Bulleted list", icon: List, command: "insertUnorderedList" },
+  { label: "Numbered list", icon: ListOrdered, command: "insertOrderedList" },
+  { label: "Undo", icon: Undo2, command: "undo" },
+  { label: "Redo", icon: Redo2, command: "redo" },
+];
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export default function LifeStoryEditor() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const editorRef = useRef<HTMLDivElement>(null);
+  // Where the cursor was in the editor, restored after a dialog took focus
+  const savedRange = useRef<Range | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isLinkDialogOpen, setIsLinkDialogOpen] = useState(false);
+  const [linkUrl, setLinkUrl] = useState("");
+  const [isImageDialogOpen, setIsImageDialogOpen] = useState(false);
+  const [previewRevision, setPreviewRevision] = useState<LifeStoryRevision | null>(null);
+  
+  const storyPath = apiPath("/story");
+  const revisionsPath = apiPath("/story/revisions");
+  
+  const { data: story, isLoading } = useQuery<LifeStoryRevision | null>({
+    queryKey: [storyPath],
+  });
+  
+  const { data: revisions } = useQuery<LifeStoryRevision[]>({
+    queryKey: [revisionsPath],
+  });
+  
+  const { data: images, isLoading: isLoadingImages } = useQuery<GalleryImage[]>({
+    queryKey: [apiPath("/gallery")],
+    enabled: isImageDialogOpen,
+  });
+  
+  // Load the saved story into the editor, keeping any unsaved edits
+  useEffect(() => {
+    if (editorRef.current && !isDirty) {
+      editorRef.current.innerHTML = story?.content || "";
+    }
+  }, [story?.id, isLoading]);
+  
+  const saveSelection = () => {
+    const selection = window.getSelection();
+    if (selection?.rangeCount && editorRef.current?.contains(selection.anchorNode)) {
+      savedRange.current = selection.getRangeAt(0).cloneRange();
+    }
+  };
+  
+  const restoreSelection = () => {
+    editorRef.current?.focus();
+    const selection = window.getSelection();
+    if (savedRange.current && selection) {
+      selection.removeAllRanges();
+      selection.addRange(savedRange.current);
+    }
+  };
+  
+  const runCommand = (command: string, value?: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command, false, value);
+    setIsDirty(true);
+  };
+  
+  const handleInsertLink = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = linkUrl.trim();
+    if (!url) return;
+    
+    restoreSelection();
+    // With nothing selected the link text is the address itself
+    if (!savedRange.current || savedRange.current.collapsed) {
+      runCommand("insertHTML", `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>`);
+    } else {
+      runCommand("createLink", url);
+    }
+    setIsLinkDialogOpen(false);
+    setLinkUrl("");
+  };
+  
+  const handleInsertImage = (image: GalleryImage) => {
+    restoreSelection();
+    runCommand("insertHTML", `<img src="${escapeHtml(image.imageUrl)}" alt="${escapeHtml(image.caption || "")}">`);
+    setIsImageDialogOpen(false);
+  };
+  
+  // Shows what the server stored, which may differ from what was typed once sanitized
+  const handleRevisionSaved = (revision: LifeStoryRevision) => {
+    queryClient.setQueryData([storyPath], revision);
+    queryClient.invalidateQueries({ queryKey: [revisionsPath] });
+    if (editorRef.current) {
+      editorRef.current.innerHTML = revision.content;
+    }
+    setIsDirty(false);
+  };
+  
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", storyPath, { content: editorRef.current?.innerHTML || "" });
+      return res.json();
+    },
+    onSuccess: (revision: LifeStoryRevision) => {
+      handleRevisionSaved(revision);
+      toast({
+        title: "Life story saved",
+        description: "The story page now shows your changes.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save life story",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const revertMutation = useMutation({
+    mutationFn: async (revision: LifeStoryRevision) => {
+      const res = await apiRequest("POST", apiPath(`/story/revisions/${revision.id}/revert`));
+      return res.json();
+    },
+    onSuccess: (revision: LifeStoryRevision) => {
+      handleRevisionSaved(revision);
+      setPreviewRevision(null);
+      toast({
+        title: "Version restored",
+        description: "The earlier version is now the current life story.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore version",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const revisionDate = (revision: LifeStoryRevision) =>
+    format(new Date(revision.createdAt), "MMM d, yyyy 'at' h:mm a");
+  
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+  
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Life Story</CardTitle>
+          <CardDescription>
+            The obituary or life story shown on the Story page. Every save is kept, so earlier versions can be restored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-1 rounded-md border border-input p-1" role="toolbar" aria-label="Formatting">
+            {TOOLBAR.map(({ label, icon: Icon, command, value }) => (
+              <Button
+                key={label}
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                // Keep the selection in the editor when the button is pressed
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => runCommand(command, value)}
+                title={label}
+                aria-label={label}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                saveSelection();
+                setIsLinkDialogOpen(true);
+              }}
+              title="Link"
+              aria-label="Link"
+            >
+              <Link2 className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                saveSelection();
+                setIsImageDialogOpen(true);
+              }}
+              title="Image from the gallery"
+              aria-label="Image from the gallery"
+            >
+              <ImagePlus className="h-4 w-4" />
+            </Button>
+          </div>
+          
+          <div
+            ref={editorRef}
+            contentEditable
+            suppressContentEditableWarning
+            role="textbox"
+            aria-multiline="true"
+            aria-label="Life story"
+            onInput={() => setIsDirty(true)}
+            onBlur={saveSelection}
+            className={`${LIFE_STORY_PROSE} min-h-[320px] rounded-md border border-input bg-background p-4 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring`}
+          />
+          
+          <div className="flex items-center gap-4">
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !isDirty}
+            >
+              {saveMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Life Story
+                </>
+              )}
+            </Button>
+            {isDirty && <span className="text-sm text-muted-foreground">Unsaved changes</span>}
+          </div>
+        </CardContent>
+      </Card>
+      
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" /> History
+          </CardTitle>
+          <CardDescription>
+            Restoring a version saves it again as the newest one, so nothing is lost.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {revisions && revisions.length > 0 ? (
+            <ul className="divide-y divide-gray-100">
+              {revisions.map((revision, index) => (
+                <li key={revision.id} className="flex items-center justify-between gap-4 py-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {revisionDate(revision)}
+                      {index === 0 && <Badge variant="secondary" className="ml-2">Current</Badge>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {revision.author?.name || "Anonymous"}
+                      {revision.revertedFromId !== null && " restored an earlier version"}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setPreviewRevision(revision)}>
+                    View
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">The life story hasn't been saved yet.</p>
+          )}
+        </CardContent>
+      </Card>
+      
+      {/* Link Modal */}
+      <Dialog open={isLinkDialogOpen} onOpenChange={setIsLinkDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add a Link</DialogTitle>
+            <DialogDescription>
+              Links the selected text, or adds the address itself if nothing is selected.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleInsertLink} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="storyLinkUrl">Address</Label>
+              <Input
+                id="storyLinkUrl"
+                type="url"
+                value={linkUrl}
+                onChange={(e) => setLinkUrl(e.target.value)}
+                placeholder="https://example.com"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsLinkDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!linkUrl.trim()}>Add Link</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Gallery Picker Modal */}
+      <Dialog open={isImageDialogOpen} onOpenChange={setIsImageDialogOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Insert a Photo</DialogTitle>
+            <DialogDescription>
+              Choose a photo from the gallery. Its caption is used as the description for screen readers.
+            </DialogDescription>
+          </DialogHeader>
+          {isLoadingImages ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : images && images.length > 0 ? (
+            <div className="grid grid-cols-3 md:grid-cols-4 gap-2 max-h-[60vh] overflow-y-auto">
+              {images.map((image) => (
+                <button
+                  key={image.id}
+                  type="button"
+                  className="aspect-square overflow-hidden rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  onClick={() => handleInsertImage(image)}
+                  title={image.caption}
+                >
+                  <img src={image.imageUrl} alt={image.caption || ""} className="h-full w-full object-cover hover:opacity-80" />
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">There are no photos in the gallery yet.</p>
+          )}
+        </DialogContent>
+      </Dialog>
+      
+      {/* Revision Preview Modal */}
+      {previewRevision && (
+        <Dialog open={!!previewRevision} onOpenChange={(open) => !open && setPreviewRevision(null)}>
+          <DialogContent className="max-w-3xl">
+            <DialogHeader>
+              <DialogTitle>Version from {revisionDate(previewRevision)}</DialogTitle>
+              <DialogDescription>
+                Saved by {previewRevision.author?.name || "Anonymous"}.
+                {isDirty && " Restoring it discards the unsaved changes in the editor."}
+              </DialogDescription>
+            </DialogHeader>
+            
+            <div
+              className={`${LIFE_STORY_PROSE} max-h-[50vh] overflow-y-auto rounded-md border border-gray-200 p-4`}
+              dangerouslySetInnerHTML={{ __html: previewRevision.content }}
+            />
+            
+            <DialogFooter className="pt-4">
+              <Button variant="outline" onClick={() => setPreviewRevision(null)}>
+                Close
+              </Button>
+              <Button
+                onClick={() => revertMutation.mutate(previewRevision)}
+                disabled={revertMutation.isPending || previewRevision.id === revisions?.[0]?.id}
+              >
+                {revertMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Restore This Version
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+    </div>
+  );
+}
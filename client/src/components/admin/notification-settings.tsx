@@ -0,0 +1,102 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NotificationKind, NotificationSettings as NotificationSettingsData } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, MailWarning } from "lucide-react";
+
+const NOTIFICATION_OPTIONS: { kind: NotificationKind; label: string; description: string }[] = [
+  {
+    kind: "tributeModeration",
+    label: "New tributes awaiting approval",
+    description: "An email each time a tribute is added to the pending queue.",
+  },
+  {
+    kind: "tributeReply",
+    label: "Replies to my tributes",
+    description: "An email when someone responds to a tribute you shared.",
+  },
+  {
+    kind: "serviceReminder",
+    label: "Service reminders",
+    description: "A reminder the day before services you have RSVP'd to.",
+  },
+];
+
+export default function NotificationSettings() {
+  const { memorial, apiPath } = useMemorial();
+  const { toast } = useToast();
+  
+  const { data, isLoading } = useQuery<NotificationSettingsData>({
+    queryKey: [apiPath("/notifications/preferences")],
+  });
+  
+  const updatePreferenceMutation = useMutation({
+    mutationFn: async ({ kind, enabled }: { kind: NotificationKind; enabled: boolean }) => {
+      const res = await apiRequest("PUT", apiPath("/notifications/preferences"), { [kind]: enabled });
+      return res.json();
+    },
+    onSuccess: (updated: NotificationSettingsData) => {
+      queryClient.setQueryData([apiPath("/notifications/preferences")], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update notifications",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email Notifications</CardTitle>
+        <CardDescription>
+          Choose which emails you receive about the {memorial.name} memorial
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {data && !data.email ? (
+              <Alert>
+                <MailWarning className="h-4 w-4" />
+                <AlertDescription>
+                  Your account has no email address, so no notifications can be sent to you.
+                </AlertDescription>
+              </Alert>
+            ) : data?.email && (
+              <p className="text-sm text-gray-500">
+                Notifications are sent to <span className="font-medium text-gray-700">{data.email}</span>
+              </p>
+            )}
+            
+            {NOTIFICATION_OPTIONS.map(({ kind, label, description }) => (
+              <div key={kind} className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <Label htmlFor={`notify-${kind}`}>{label}</Label>
+                  <p className="text-sm text-gray-500">{description}</p>
+                </div>
+                <Switch
+                  id={`notify-${kind}`}
+                  checked={data?.preferences[kind] ?? true}
+                  onCheckedChange={(enabled) => updatePreferenceMutation.mutate({ kind, enabled })}
+                  disabled={updatePreferenceMutation.isPending}
+                />
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
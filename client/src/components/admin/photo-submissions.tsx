@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useAlbumAssignments } from "@/hooks/use-album-assignments";
+import { GalleryImage } from "@/lib/types";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Check, X } from "lucide-react";
+
+interface Review {
+  id: number;
+  approved: boolean;
+  albumId: number | null;
+}
+
+// Photos shared by visitors, waiting to be approved into the gallery
+export default function PhotoSubmissions() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const { albums, invalidateAlbums } = useAlbumAssignments();
+  // The album chosen for each submission, if any
+  const [albumChoices, setAlbumChoices] = useState<Record<number, number | null>>({});
+  
+  const submissionsPath = apiPath("/gallery/submissions");
+  
+  const { data: submissions } = useQuery<GalleryImage[]>({
+    queryKey: [submissionsPath],
+  });
+  
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, approved, albumId }: Review) => {
+      const res = approved
+        ? await apiRequest("PUT", apiPath(`/gallery/submissions/${id}/approve`), { albumId })
+        : await apiRequest("PUT", apiPath(`/gallery/submissions/${id}/reject`));
+      return res.json();
+    },
+    onSuccess: (_, { approved, albumId }) => {
+      queryClient.invalidateQueries({ queryKey: [submissionsPath] });
+      if (approved) {
+        queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+        if (albumId) invalidateAlbums();
+      }
+      toast({
+        title: approved ? "Photo approved" : "Photo rejected",
+        description: approved ? "The photo is now in the gallery" : "The photo won't be shown",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to review photo",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  if (!submissions?.length) return null;
+  
+  return (
+    <div className="mb-8">
+      <h3 className="text-lg font-semibold">Shared Photos Awaiting Review ({submissions.length})</h3>
+      <p className="text-sm text-gray-500 mb-4">Photos visitors have shared appear in the gallery once approved</p>
+      
+      <div className="space-y-3">
+        {submissions.map((submission) => (
+          <div key={submission.id} className="flex flex-col md:flex-row md:items-center gap-4 rounded-lg border p-3">
+            <div className="w-24 h-24 flex-shrink-0 overflow-hidden rounded-md">
+              <img
+                src={submission.imageUrl}
+                alt={submission.caption || `Shared photo ${submission.id}`}
+                className="w-full h-full object-cover"
+              />
+            </div>
+            
+            <div className="flex-grow min-w-0 text-sm">
+              <p className="font-medium">
+                {submission.caption || <span className="text-gray-400 italic">No caption</span>}
+              </p>
+              {submission.year && <p className="text-gray-600">Around {submission.year}</p>}
+              {submission.peoplePictured && <p className="text-gray-600">With {submission.peoplePictured}</p>}
+              <p className="text-gray-500">Shared by {submission.sharedBy?.name || "Anonymous"}</p>
+            </div>
+            
+            <div className="flex items-center gap-2">
+              {albums.length > 0 && (
+                <Select
+                  value={String(albumChoices[submission.id] ?? "none")}
+                  onValueChange={(value) => setAlbumChoices(choices => ({
+                    ...choices,
+                    [submission.id]: value === "none" ? null : parseInt(value)
+                  }))}
+                >
+                  <SelectTrigger className="w-40" aria-label="Album">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No album</SelectItem>
+                    {albums.map((album) => (
+                      <SelectItem key={album.id} value={String(album.id)}>{album.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                size="sm"
+                onClick={() => reviewMutation.mutate({
+                  id: submission.id,
+                  approved: true,
+                  albumId: albumChoices[submission.id] ?? null
+                })}
+                disabled={reviewMutation.isPending}
+              >
+                <Check className="mr-1 h-4 w-4" /> Approve
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="text-red-500 hover:text-red-600"
+                onClick={() => reviewMutation.mutate({ id: submission.id, approved: false, albumId: null })}
+                disabled={reviewMutation.isPending}
+              >
+                <X className="mr-1 h-4 w-4" /> Reject
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { ProgramSection, ProgramSectionType } from "@/lib/types";
+import { PROGRAM_SECTION_TYPE_LABELS } from "@/lib/constants";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Plus, Pencil, Trash, ArrowUp, ArrowDown, FileText, BookOpen } from "lucide-react";
+
+export default function ProgramEditor() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [currentSection, setCurrentSection] = useState<ProgramSection | null>(null);
+  
+  // Form state
+  const [type, setType] = useState<ProgramSectionType>("reading");
+  const [title, setTitle] = useState("");
+  const [participants, setParticipants] = useState("");
+  const [content, setContent] = useState("");
+  
+  const { data: sections, isLoading } = useQuery<ProgramSection[]>({
+    queryKey: [apiPath("/program-sections")],
+  });
+  
+  const openForm = (section: ProgramSection | null) => {
+    setCurrentSection(section);
+    setType(section?.type || "reading");
+    setTitle(section?.title || "");
+    setParticipants(section?.participants || "");
+    setContent(section?.content || "");
+    setIsFormOpen(true);
+  };
+  
+  const initiateDelete = (section: ProgramSection) => {
+    setCurrentSection(section);
+    setIsDeleteDialogOpen(true);
+  };
+  
+  const saveSectionMutation = useMutation({
+    mutationFn: async (sectionData: Partial<ProgramSection>) => {
+      const res = currentSection
+        ? await apiRequest("PUT", apiPath(`/program-sections/${currentSection.id}`), sectionData)
+        : await apiRequest("POST", apiPath("/program-sections"), sectionData);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/program-sections")] });
+      setIsFormOpen(false);
+      toast({
+        title: currentSection ? "Section updated" : "Section added",
+        description: "The order of service has been updated",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save section",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteSectionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", apiPath(`/program-sections/${id}`));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/program-sections")] });
+      setIsDeleteDialogOpen(false);
+      setCurrentSection(null);
+      toast({
+        title: "Section deleted",
+        description: "The section has been removed from the order of service",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete section",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const reorderMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const res = await apiRequest("PUT", apiPath("/program-sections/order"), { ids });
+      return res.json();
+    },
+    onSuccess: (updatedSections: ProgramSection[]) => {
+      queryClient.setQueryData([apiPath("/program-sections")], updatedSections);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reorder sections",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const moveSection = (index: number, direction: -1 | 1) => {
+    if (!sections) return;
+    
+    const ids = sections.map(section => section.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+  
+  const handleSave = () => {
+    if (!title.trim()) {
+      toast({
+        title: "Missing information",
+        description: "Please provide a title for the section",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    saveSectionMutation.mutate({
+      type,
+      title: title.trim(),
+      participants: participants.trim() || null,
+      content: content.trim() || null,
+    });
+  };
+  
+  const hasSections = !!sections && sections.length > 0;
+  
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Order of Service</CardTitle>
+          <CardDescription>
+            Printed in the program PDF along with the tribute image, life dates and service schedule
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {hasSections && (
+            <>
+              <Button variant="outline" asChild>
+                <a href={apiPath("/funeral-program/program.pdf")} target="_blank" rel="noopener noreferrer">
+                  <FileText className="mr-2 h-4 w-4" /> Preview PDF
+                </a>
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={apiPath("/funeral-program/program.pdf?layout=booklet")} target="_blank" rel="noopener noreferrer">
+                  <BookOpen className="mr-2 h-4 w-4" /> Preview Booklet
+                </a>
+              </Button>
+            </>
+          )}
+          <Button onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" /> Add Section
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : hasSections ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Order</TableHead>
+                <TableHead>Section</TableHead>
+                <TableHead>Participants</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section, index) => (
+                <TableRow key={section.id}>
+                  <TableCell>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => moveSection(index, -1)}
+                        disabled={index === 0 || reorderMutation.isPending}
+                        aria-label="Move up"
+                      >
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => moveSection(index, 1)}
+                        disabled={index === sections.length - 1 || reorderMutation.isPending}
+                        aria-label="Move down"
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{section.title}</p>
+                    <p className="text-xs text-muted-foreground">{PROGRAM_SECTION_TYPE_LABELS[section.type]}</p>
+                  </TableCell>
+                  <TableCell>{section.participants || "—"}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => openForm(section)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => initiateDelete(section)}>
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
+            <p className="text-muted-foreground">No sections yet. Add the processional, readings, hymns and eulogies in the order they happen.</p>
+          </div>
+        )}
+      </CardContent>
+      
+      {/* Add / Edit Section Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{currentSection ? "Edit Section" : "Add Section"}</DialogTitle>
+            <DialogDescription>
+              New sections are added to the end of the order of service
+            </DialogDescription>
+          </DialogHeader>
+          
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="sectionType">Type</Label>
+                <Select value={type} onValueChange={(value) => setType(value as ProgramSectionType)}>
+                  <SelectTrigger id="sectionType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PROGRAM_SECTION_TYPE_LABELS) as ProgramSectionType[]).map((sectionType) => (
+                      <SelectItem key={sectionType} value={sectionType}>
+                        {PROGRAM_SECTION_TYPE_LABELS[sectionType]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="sectionTitle">Title</Label>
+                <Input
+                  id="sectionTitle"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={type === "hymn" ? "Amazing Grace" : PROGRAM_SECTION_TYPE_LABELS[type]}
+                />
+              </div>
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="sectionParticipants">Participants (optional)</Label>
+              <Input
+                id="sectionParticipants"
+                value={participants}
+                onChange={(e) => setParticipants(e.target.value)}
+                placeholder="Rev. Anne Walker"
+              />
+            </div>
+            
+            <div className="space-y-2">
+              <Label htmlFor="sectionContent">Lyrics or Text (optional)</Label>
+              <Textarea
+                id="sectionContent"
+                value={content}
+                onChange={(e) => setContent(e.target.value)}
+                placeholder="Hymn lyrics, a poem or the reading, printed under the title"
+                rows={8}
+              />
+              <p className="text-xs text-muted-foreground">
+                Line breaks are kept in the printed program
+              </p>
+            </div>
+          </div>
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saveSectionMutation.isPending}>
+              {saveSectionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {currentSection ? "Save Changes" : "Add Section"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Section</DialogTitle>
+            <DialogDescription>
+              Remove {currentSection ? `"${currentSection.title}"` : "this section"} from the order of service? This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => currentSection && deleteSectionMutation.mutate(currentSection.id)}
+              disabled={deleteSectionMutation.isPending}
+            >
+              {deleteSectionMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
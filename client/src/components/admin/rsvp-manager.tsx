@@ -0,0 +1,165 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RsvpSummary, ServiceEvent } from "@/lib/types";
+import { getEventTitle } from "@/components/funeral/event-timeline";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Download, Trash } from "lucide-react";
+
+export default function RsvpManager() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  
+  const { data: summary, isLoading } = useQuery<RsvpSummary>({
+    queryKey: [apiPath("/rsvps")],
+  });
+  
+  const { data: events } = useQuery<ServiceEvent[]>({
+    queryKey: [apiPath("/events")],
+  });
+  
+  const eventsById = new Map((events || []).map(event => [event.id, event]));
+  
+  const deleteRsvpMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", apiPath(`/rsvps/${id}`));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/rsvps")] });
+      toast({
+        title: "RSVP deleted",
+        description: "The RSVP has been removed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete RSVP",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleDelete = (id: number, name: string) => {
+    if (window.confirm(`Delete the RSVP from ${name}?`)) {
+      deleteRsvpMutation.mutate(id);
+    }
+  };
+  
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+  
+  const rsvps = summary?.rsvps || [];
+  const totals = summary?.totals;
+  
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 grid-cols-1 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Expected Guests</CardTitle>
+            <CardDescription>{totals?.responses || 0} responses</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <p className="text-3xl font-bold">{totals?.guests || 0}</p>
+          </CardContent>
+        </Card>
+        
+        {totals?.events.map((eventTotal) => {
+          const event = eventsById.get(eventTotal.eventId);
+          return (
+            <Card key={eventTotal.eventId}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg">{event ? getEventTitle(event) : "Event"}</CardTitle>
+                <CardDescription>{eventTotal.responses} responses</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <p className="text-3xl font-bold">{eventTotal.guests}</p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+      
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>RSVPs</CardTitle>
+            <CardDescription>
+              Who plans to attend each service event
+            </CardDescription>
+          </div>
+          <Button variant="outline" asChild disabled={rsvps.length === 0}>
+            <a href={apiPath("/rsvps/export.csv")} download>
+              <Download className="mr-2 h-4 w-4" /> Export CSV
+            </a>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Party</TableHead>
+                <TableHead>Attending</TableHead>
+                <TableHead>Dietary Notes</TableHead>
+                <TableHead>Responded</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rsvps.length > 0 ? (
+                rsvps.map((rsvp) => (
+                  <TableRow key={rsvp.id}>
+                    <TableCell className="font-medium">{rsvp.name}</TableCell>
+                    <TableCell>{rsvp.email || "—"}</TableCell>
+                    <TableCell>{rsvp.partySize}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {rsvp.eventIds.map((eventId) => {
+                          const event = eventsById.get(eventId);
+                          return event ? (
+                            <Badge key={eventId} variant="secondary">{getEventTitle(event)}</Badge>
+                          ) : null;
+                        })}
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-[16rem] whitespace-pre-line">{rsvp.dietaryNotes || "—"}</TableCell>
+                    <TableCell>{format(new Date(rsvp.updatedAt), "MMM d, yyyy")}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(rsvp.id, rsvp.name)}
+                        disabled={deleteRsvpMutation.isPending}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No RSVPs yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react";
+import { GalleryImage } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface SortableImageGridProps {
+  images: GalleryImage[];
+  isSaving: boolean;
+  onSave: (ids: number[]) => void;
+  onCancel: () => void;
+}
+
+function moveItem(ids: number[], from: number, to: number) {
+  const next = [...ids];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+// Images can be dragged into place with the mouse, or by keyboard: Space or
+// Enter picks up the focused image, the arrow keys move it, Space or Enter
+// drops it and Escape puts it back where it was.
+export default function SortableImageGrid({ images, isSaving, onSave, onCancel }: SortableImageGridProps) {
+  const [orderedIds, setOrderedIds] = useState(() => images.map(image => image.id));
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [liftedId, setLiftedId] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  // The order when an image was picked up by keyboard, for Escape
+  const orderBeforeLift = useRef<number[]>([]);
+  const tileRefs = useRef(new Map<number, HTMLButtonElement>());
+  
+  const imagesById = new Map(images.map(image => [image.id, image]));
+  const describe = (id: number) => imagesById.get(id)?.caption || `Image ${id}`;
+  const isChanged = orderedIds.some((id, index) => id !== images[index]?.id);
+  
+  // Keep focus on the lifted image as it moves
+  useEffect(() => {
+    if (liftedId !== null) tileRefs.current.get(liftedId)?.focus();
+  }, [orderedIds, liftedId]);
+  
+  const handleDragOver = (e: React.DragEvent, overId: number) => {
+    if (draggedId === null) return;
+    e.preventDefault();
+    if (overId === draggedId) return;
+    setOrderedIds(ids => moveItem(ids, ids.indexOf(draggedId), ids.indexOf(overId)));
+  };
+  
+  const handleKeyDown = (e: React.KeyboardEvent, id: number) => {
+    const index = orderedIds.indexOf(id);
+    
+    if (e.key === " " || e.key === "Enter") {
+      e.preventDefault();
+      if (liftedId === id) {
+        setLiftedId(null);
+        setAnnouncement(`${describe(id)} dropped at position ${index + 1} of ${orderedIds.length}`);
+      } else {
+        orderBeforeLift.current = orderedIds;
+        setLiftedId(id);
+        setAnnouncement(`${describe(id)} picked up at position ${index + 1}. Use the arrow keys to move it, Space to drop it or Escape to cancel.`);
+      }
+      return;
+    }
+    
+    if (liftedId !== id) return;
+    
+    if (e.key === "Escape") {
+      e.preventDefault();
+      setOrderedIds(orderBeforeLift.current);
+      setLiftedId(null);
+      setAnnouncement(`Move cancelled. ${describe(id)} is back at position ${orderBeforeLift.current.indexOf(id) + 1}`);
+      return;
+    }
+    
+    const step = e.key === "ArrowLeft" || e.key === "ArrowUp" ? -1
+      : e.key === "ArrowRight" || e.key === "ArrowDown" ? 1
+      : 0;
+    if (step === 0) return;
+    e.preventDefault();
+    
+    const target = index + step;
+    if (target < 0 || target >= orderedIds.length) return;
+    
+    setOrderedIds(ids => moveItem(ids, index, target));
+    setAnnouncement(`${describe(id)} moved to position ${target + 1} of ${orderedIds.length}`);
+  };
+  
+  return (
+    <div>
+      <p className="text-sm text-gray-500 mb-4">
+        Drag photos into the order they should appear, or focus a photo and press Space to pick it up and the arrow keys to move it.
+      </p>
+      
+      <div aria-live="assertive" className="sr-only">{announcement}</div>
+      
+      <ol className="grid grid-cols-3 md:grid-cols-5 lg:grid-cols-6 gap-3" aria-label="Gallery order">
+        {orderedIds.map((id, index) => {
+          const image = imagesById.get(id);
+          if (!image) return null;
+          
+          return (
+            <li
+              key={id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move";
+                setDraggedId(id);
+              }}
+              onDragOver={(e) => handleDragOver(e, id)}
+              onDragEnd={() => setDraggedId(null)}
+              className={cn("relative", draggedId === id && "opacity-40")}
+            >
+              <button
+                type="button"
+                ref={(el) => {
+                  if (el) tileRefs.current.set(id, el);
+                  else tileRefs.current.delete(id);
+                }}
+                className={cn(
+                  "block w-full aspect-square overflow-hidden rounded-md border-2 cursor-grab focus:outline-none focus-visible:ring-2 focus-visible:ring-primary",
+                  liftedId === id ? "border-primary ring-2 ring-primary scale-105" : "border-transparent"
+                )}
+                aria-label={`${describe(id)}, position ${index + 1} of ${orderedIds.length}`}
+                aria-pressed={liftedId === id}
+                onKeyDown={(e) => handleKeyDown(e, id)}
+              >
+                <img
+                  src={image.imageUrl}
+                  alt=""
+                  draggable={false}
+                  className="w-full h-full object-cover"
+                />
+              </button>
+              <span className="absolute top-1 left-1 rounded bg-black/60 px-1.5 text-xs text-white">{index + 1}</span>
+            </li>
+          );
+        })}
+      </ol>
+      
+      <div className="flex justify-end space-x-2 mt-4">
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={() => onSave(orderedIds)} disabled={!isChanged || isSaving}>
+          {isSaving ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Order"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
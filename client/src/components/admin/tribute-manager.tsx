@@ -1,8 +1,14 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { TributeItem } from "@/lib/types";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { TributeItem, SiteSettings, ReactionKind } from "@/lib/types";
+import { REACTION_OPTIONS, parseEnabledReactions, totalReactions } from "@/lib/constants";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   Table, 
   TableBody, 
@@ -20,26 +26,174 @@ import {
   DialogFooter
 } from "@/components/ui/dialog";
 import { formatDistanceToNow } from "date-fns";
-import { Loader2, Trash2, Eye } from "lucide-react";
+import { Loader2, Trash2, Eye, Check, X, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMemorial } from "@/hooks/use-memorial";
 
 export default function TributeManager() {
+  const { apiPath } = useMemorial();
   const { toast } = useToast();
   const [selectedTribute, setSelectedTribute] = useState<TributeItem | null>(null);
   const [isViewModalOpen, setIsViewModalOpen] = useState(false);
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
+  const [isRejectModalOpen, setIsRejectModalOpen] = useState(false);
+  const [rejectReason, setRejectReason] = useState("");
 
+  // The public feed is paged, so the full list comes from moderation
   const { data: tributes, isLoading, refetch } = useQuery<TributeItem[]>({
-    queryKey: ["/api/tributes"],
+    queryKey: [apiPath("/tributes/moderation?status=approved")],
+  });
+
+  const { data: pendingTributes, isLoading: isLoadingPending } = useQuery<TributeItem[]>({
+    queryKey: [apiPath("/tributes/moderation?status=pending")],
+  });
+
+  const { data: rejectedTributes } = useQuery<TributeItem[]>({
+    queryKey: [apiPath("/tributes/moderation?status=rejected")],
+  });
+
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+
+  const requireApproval = settings?.requireTributeApproval === "true";
+  const enabledReactions = parseEnabledReactions(settings?.enabledReactions);
+
+  // Refresh the public feed and the moderation lists after any change
+  const invalidateTributeLists = () => {
+    queryClient.invalidateQueries({ queryKey: [apiPath("/tributes")] });
+    queryClient.invalidateQueries({ queryKey: [apiPath("/tributes/moderation?status=approved")] });
+    queryClient.invalidateQueries({ queryKey: [apiPath("/tributes/moderation?status=pending")] });
+    queryClient.invalidateQueries({ queryKey: [apiPath("/tributes/moderation?status=rejected")] });
+  };
+
+  const requireApprovalMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const res = await apiRequest("PUT", apiPath("/settings/requireTributeApproval"), { 
+        value: enabled ? "true" : "false" 
+      });
+      return res.json();
+    },
+    onSuccess: (_, enabled) => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/settings")] });
+      toast({
+        title: enabled ? "Approval required" : "Approval not required",
+        description: enabled
+          ? "New tributes will wait in the pending queue until approved."
+          : "New tributes will be published immediately.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update setting",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enabledReactionsMutation = useMutation({
+    mutationFn: async (kinds: ReactionKind[]) => {
+      const res = await apiRequest("PUT", apiPath("/settings/enabledReactions"), { 
+        value: kinds.join(",") 
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/settings")] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update reactions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const recountReactionsMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", apiPath("/reactions/recount"));
+      return res.json();
+    },
+    onSuccess: ({ checked, corrected }: { checked: number; corrected: number }) => {
+      invalidateTributeLists();
+      toast({
+        title: "Reactions recounted",
+        description: corrected > 0
+          ? `Corrected the counts on ${corrected} of ${checked} tributes.`
+          : `All ${checked} tributes already had the right counts.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to recount reactions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleReaction = (kind: ReactionKind, enabled: boolean) => {
+    enabledReactionsMutation.mutate(
+      REACTION_OPTIONS.map(option => option.kind).filter(k => k === kind ? enabled : enabledReactions.includes(k))
+    );
+  };
+
+  const approveTributeMutation = useMutation({
+    mutationFn: async (tributeId: number) => {
+      const res = await apiRequest("PUT", apiPath(`/tributes/${tributeId}/approve`));
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTributeLists();
+      toast({
+        title: "Tribute approved",
+        description: "The tribute is now visible on the tribute wall.",
+      });
+      setIsViewModalOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to approve tribute",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rejectTributeMutation = useMutation({
+    mutationFn: async ({ tributeId, reason }: { tributeId: number; reason: string }) => {
+      const res = await apiRequest("PUT", apiPath(`/tributes/${tributeId}/reject`), { 
+        reason: reason || undefined 
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateTributeLists();
+      toast({
+        title: "Tribute rejected",
+        description: "The tribute will not be shown on the tribute wall.",
+      });
+      setIsRejectModalOpen(false);
+      setRejectReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to reject tribute",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const deleteTributeMutation = useMutation({
     mutationFn: async (tributeId: number) => {
-      await apiRequest("DELETE", `/api/tributes/${tributeId}`);
+      await apiRequest("DELETE", apiPath(`/tributes/${tributeId}`));
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tributes"] });
+      invalidateTributeLists();
       toast({
         title: "Tribute deleted",
         description: "The tribute has been successfully removed.",
@@ -72,7 +226,120 @@ export default function TributeManager() {
     }
   };
 
-  if (isLoading) {
+  const handleRejectTribute = (tribute: TributeItem) => {
+    setSelectedTribute(tribute);
+    setRejectReason("");
+    setIsViewModalOpen(false);
+    setIsRejectModalOpen(true);
+  };
+
+  const confirmRejectTribute = () => {
+    if (selectedTribute) {
+      rejectTributeMutation.mutate({ 
+        tributeId: selectedTribute.id, 
+        reason: rejectReason.trim() 
+      });
+    }
+  };
+
+  const renderTributeTable = (list: TributeItem[], emptyMessage: string) => {
+    if (list.length === 0) {
+      return (
+        <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
+          <p className="text-gray-500">{emptyMessage}</p>
+        </div>
+      );
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead>Content Preview</TableHead>
+            <TableHead>Posted</TableHead>
+            {list[0].status === "approved" ? (
+              <TableHead>Reactions</TableHead>
+            ) : (
+              <TableHead>Status</TableHead>
+            )}
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {list.map((tribute) => {
+            const createdAt = new Date(tribute.createdAt);
+            const timeAgo = formatDistanceToNow(createdAt, { addSuffix: true });
+            
+            return (
+              <TableRow key={tribute.id}>
+                <TableCell>
+                  {tribute.user?.name || "Anonymous"}
+                </TableCell>
+                <TableCell>
+                  {tribute.content.length > 50
+                    ? `${tribute.content.substring(0, 50)}...`
+                    : tribute.content}
+                </TableCell>
+                <TableCell>{timeAgo}</TableCell>
+                {tribute.status === "approved" ? (
+                  <TableCell>{totalReactions(tribute.reactionCounts)}</TableCell>
+                ) : (
+                  <TableCell>
+                    <Badge variant={tribute.status === "rejected" ? "destructive" : "outline"}>
+                      {tribute.status === "rejected" ? "Rejected" : "Pending"}
+                    </Badge>
+                    {tribute.moderationReason && (
+                      <p className="text-xs text-gray-500 mt-1">{tribute.moderationReason}</p>
+                    )}
+                  </TableCell>
+                )}
+                <TableCell>
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleViewTribute(tribute)}
+                    >
+                      <Eye className="h-4 w-4 mr-1" /> View
+                    </Button>
+                    {tribute.status !== "approved" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => approveTributeMutation.mutate(tribute.id)}
+                        disabled={approveTributeMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" /> Approve
+                      </Button>
+                    )}
+                    {tribute.status === "pending" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleRejectTribute(tribute)}
+                      >
+                        <X className="h-4 w-4 mr-1" /> Reject
+                      </Button>
+                    )}
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDeleteTribute(tribute)}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" /> Delete
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  if (isLoading || isLoadingPending) {
     return (
       <div className="flex justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -85,64 +352,92 @@ export default function TributeManager() {
       <Card>
         <CardHeader>
           <CardTitle>Tribute Management</CardTitle>
+          <CardDescription>
+            Review, approve, or remove memories shared on the tribute wall
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          {!tributes || tributes.length === 0 ? (
-            <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
-              <p className="text-gray-500">No tributes have been submitted yet.</p>
+          <div className="flex items-center justify-between p-4 mb-6 border rounded-lg">
+            <div>
+              <Label htmlFor="requireTributeApproval">Require approval before publishing</Label>
+              <p className="text-sm text-gray-500">
+                When enabled, new tributes stay in the pending queue until an admin approves them.
+              </p>
             </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>User</TableHead>
-                  <TableHead>Content Preview</TableHead>
-                  <TableHead>Posted</TableHead>
-                  <TableHead>Candles</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {tributes.map((tribute) => {
-                  const createdAt = new Date(tribute.createdAt);
-                  const timeAgo = formatDistanceToNow(createdAt, { addSuffix: true });
-                  
-                  return (
-                    <TableRow key={tribute.id}>
-                      <TableCell>
-                        {tribute.user?.name || "Anonymous"}
-                      </TableCell>
-                      <TableCell>
-                        {tribute.content.length > 50
-                          ? `${tribute.content.substring(0, 50)}...`
-                          : tribute.content}
-                      </TableCell>
-                      <TableCell>{timeAgo}</TableCell>
-                      <TableCell>{tribute.candleCount}</TableCell>
-                      <TableCell>
-                        <div className="flex space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleViewTribute(tribute)}
-                          >
-                            <Eye className="h-4 w-4 mr-1" /> View
-                          </Button>
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => handleDeleteTribute(tribute)}
-                          >
-                            <Trash2 className="h-4 w-4 mr-1" /> Delete
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  );
-                })}
-              </TableBody>
-            </Table>
-          )}
+            <Switch
+              id="requireTributeApproval"
+              checked={requireApproval}
+              onCheckedChange={(checked) => requireApprovalMutation.mutate(checked)}
+              disabled={requireApprovalMutation.isPending}
+            />
+          </div>
+
+          <div className="p-4 mb-6 border rounded-lg">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <Label>Reactions</Label>
+                <p className="text-sm text-gray-500 mb-4">
+                  Choose which reactions visitors can leave on tributes. Counts for reactions you switch off are kept and still shown.
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => recountReactionsMutation.mutate()}
+                disabled={recountReactionsMutation.isPending}
+                title="Rebuild every tribute's counts from the reactions visitors have left"
+              >
+                {recountReactionsMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <RefreshCw className="h-4 w-4 mr-1" />
+                )}
+                Recount
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {REACTION_OPTIONS.map(({ kind, name }) => {
+                const isEnabled = enabledReactions.includes(kind);
+                return (
+                  <div key={kind} className="flex items-center gap-2">
+                    <Switch
+                      id={`reaction-${kind}`}
+                      checked={isEnabled}
+                      onCheckedChange={(checked) => toggleReaction(kind, checked)}
+                      // At least one reaction has to stay available
+                      disabled={enabledReactionsMutation.isPending || (isEnabled && enabledReactions.length === 1)}
+                    />
+                    <Label htmlFor={`reaction-${kind}`} className="font-normal">{name}</Label>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <Tabs defaultValue={pendingTributes && pendingTributes.length > 0 ? "pending" : "published"}>
+            <TabsList className="mb-4">
+              <TabsTrigger value="published">Published</TabsTrigger>
+              <TabsTrigger value="pending">
+                Pending Review
+                {pendingTributes && pendingTributes.length > 0 && (
+                  <Badge className="ml-2">{pendingTributes.length}</Badge>
+                )}
+              </TabsTrigger>
+              <TabsTrigger value="rejected">Rejected</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="published">
+              {renderTributeTable(tributes || [], "No tributes have been published yet.")}
+            </TabsContent>
+
+            <TabsContent value="pending">
+              {renderTributeTable(pendingTributes || [], "There are no tributes awaiting review.")}
+            </TabsContent>
+
+            <TabsContent value="rejected">
+              {renderTributeTable(rejectedTributes || [], "No tributes have been rejected.")}
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
 
@@ -173,7 +468,18 @@ export default function TributeManager() {
                 </div>
               )}
               
-              {selectedTribute.mediaUrl && selectedTribute.mediaType === "video" && (
+              {selectedTribute.mediaUrl && selectedTribute.mediaType === "video" && selectedTribute.mediaUrl.startsWith("/uploads/") && (
+                <div className="rounded-lg overflow-hidden bg-gray-900">
+                  <video
+                    src={selectedTribute.mediaUrl}
+                    controls
+                    preload="metadata"
+                    className="w-full max-h-[480px]"
+                  />
+                </div>
+              )}
+              
+              {selectedTribute.mediaUrl && selectedTribute.mediaType === "video" && !selectedTribute.mediaUrl.startsWith("/uploads/") && (
                 <div className="aspect-w-16 aspect-h-9 rounded-lg overflow-hidden bg-gray-900">
                   <iframe
                     src={selectedTribute.mediaUrl}
@@ -187,8 +493,15 @@ export default function TributeManager() {
               
               <div className="flex justify-between items-center pt-2">
                 <span className="text-sm text-gray-500">
-                  Candles lit: {selectedTribute.candleCount}
+                  {REACTION_OPTIONS
+                    .map(({ kind, name }) => `${name}: ${selectedTribute.reactionCounts[kind] || 0}`)
+                    .join(" · ")}
                 </span>
+                {selectedTribute.moderationReason && (
+                  <span className="text-sm text-gray-500">
+                    Rejection reason: {selectedTribute.moderationReason}
+                  </span>
+                )}
               </div>
             </div>
             
@@ -199,6 +512,22 @@ export default function TributeManager() {
               >
                 Close
               </Button>
+              {selectedTribute.status === "pending" && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleRejectTribute(selectedTribute)}
+                >
+                  <X className="h-4 w-4 mr-2" /> Reject
+                </Button>
+              )}
+              {selectedTribute.status !== "approved" && (
+                <Button
+                  onClick={() => approveTributeMutation.mutate(selectedTribute.id)}
+                  disabled={approveTributeMutation.isPending}
+                >
+                  <Check className="h-4 w-4 mr-2" /> Approve
+                </Button>
+              )}
               <Button
                 variant="destructive"
                 onClick={() => {
@@ -213,6 +542,57 @@ export default function TributeManager() {
         </Dialog>
       )}
 
+      {/* Reject Tribute Modal */}
+      {selectedTribute && (
+        <Dialog open={isRejectModalOpen} onOpenChange={setIsRejectModalOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject Tribute</DialogTitle>
+              <DialogDescription>
+                This tribute from {selectedTribute.user?.name || "Anonymous"} will not be shown on the tribute wall.
+              </DialogDescription>
+            </DialogHeader>
+            
+            <div className="space-y-2 py-4">
+              <Label htmlFor="rejectReason">Reason (optional)</Label>
+              <Textarea
+                id="rejectReason"
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                placeholder="Note why this tribute was rejected"
+                rows={3}
+              />
+            </div>
+            
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setIsRejectModalOpen(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={confirmRejectTribute}
+                disabled={rejectTributeMutation.isPending}
+              >
+                {rejectTributeMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Rejecting...
+                  </>
+                ) : (
+                  <>
+                    <X className="mr-2 h-4 w-4" />
+                    Reject
+                  </>
+                )}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Delete Confirmation Modal */}
       {selectedTribute && (
         <Dialog open={isDeleteModalOpen} onOpenChange={setIsDeleteModalOpen}>
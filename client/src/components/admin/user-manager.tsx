@@ -31,17 +31,21 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Shield, ShieldOff, KeyRound, Loader2 } from "lucide-react";
+import { useMemorial } from "@/hooks/use-memorial";
 
 interface User {
   id: number;
   username: string;
   name: string;
   email?: string;
+  // Admin of this memorial (always true for super-admins)
   isAdmin: boolean;
+  isSuperAdmin: boolean;
 }
 
 export default function UserManager() {
-  const { user: currentUser } = useAuth();
+  const { apiPath } = useMemorial();
+  const { user: currentUser, isSuperAdmin } = useAuth();
   const { toast } = useToast();
   const [resetPasswordOpen, setResetPasswordOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -49,7 +53,7 @@ export default function UserManager() {
 
   // Fetch all users
   const { data: users, isLoading, error: usersError } = useQuery<User[]>({
-    queryKey: ["/api/users"],
+    queryKey: [apiPath("/users")],
   });
   
   // Display error toast if query fails
@@ -64,7 +68,7 @@ export default function UserManager() {
   // Update user role mutation
   const updateRoleMutation = useMutation({
     mutationFn: async ({ userId, isAdmin }: { userId: number; isAdmin: boolean }) => {
-      const res = await apiRequest("PUT", `/api/users/${userId}/role`, { isAdmin });
+      const res = await apiRequest("PUT", apiPath(`/users/${userId}/admin`), { isAdmin });
       if (!res.ok) {
         const errorData = await res.json();
         throw new Error(errorData.message || "Failed to update user role");
@@ -72,7 +76,7 @@ export default function UserManager() {
       return await res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: [apiPath("/users")] });
       toast({
         title: "Role updated",
         description: "User role has been updated successfully",
@@ -171,7 +175,7 @@ export default function UserManager() {
         <CardHeader>
           <CardTitle>User Management</CardTitle>
           <CardDescription>
-            Manage users who have registered on the memorial site
+            Choose which registered users can help administer this memorial
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -197,7 +201,7 @@ export default function UserManager() {
                         <Switch 
                           checked={user.isAdmin}
                           onCheckedChange={() => handleToggleAdmin(user)}
-                          disabled={updateRoleMutation.isPending}
+                          disabled={updateRoleMutation.isPending || user.isSuperAdmin}
                         />
                         <span>
                           {user.isAdmin ? (
@@ -209,14 +213,17 @@ export default function UserManager() {
                       </div>
                     </TableCell>
                     <TableCell>
-                      <Button 
-                        variant="outline" 
-                        size="sm"
-                        onClick={() => handleOpenResetPassword(user)}
-                      >
-                        <KeyRound className="h-4 w-4 mr-2" />
-                        Reset Password
-                      </Button>
+                      {/* Passwords are site-wide, so only super-admins can reset them */}
+                      {isSuperAdmin && (
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => handleOpenResetPassword(user)}
+                        >
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          Reset Password
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -10,6 +10,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useQuery } from "@tanstack/react-query";
 import { SiteSettings } from "@/lib/types";
+import { useOptionalMemorial } from "@/hooks/use-memorial";
+import ForgotPasswordForm from "./forgot-password-form";
 
 // Props interface
 interface AuthModalProps {
@@ -31,13 +33,14 @@ const registerSchema = z.object({
 });
 
 export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
-  const [isLoginView, setIsLoginView] = useState(true);
+  const [view, setView] = useState<"login" | "register" | "forgot">("login");
   const { loginMutation, registerMutation } = useAuth();
+  const memorial = useOptionalMemorial();
   
   // Get settings for dynamic name reference
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
-    enabled: isOpen,
+    queryKey: [memorial?.apiPath("/settings")],
+    enabled: isOpen && !!memorial,
   });
 
   // Separate form handlers
@@ -75,7 +78,17 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
             name="password"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>Password</FormLabel>
+                <div className="flex items-center justify-between">
+                  <FormLabel>Password</FormLabel>
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="p-0 h-auto text-xs"
+                    onClick={() => setView("forgot")}
+                  >
+                    Forgot password?
+                  </Button>
+                </div>
                 <FormControl>
                   <Input type="password" placeholder="Enter password" {...field} />
                 </FormControl>
@@ -203,6 +216,25 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
     );
   };
 
+  if (view === "forgot") {
+    return (
+      <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              We'll email you a link to choose a new password
+            </DialogDescription>
+          </DialogHeader>
+
+          <ForgotPasswordForm onBack={() => setView("login")} />
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const isLoginView = view === "login";
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md">
@@ -222,7 +254,7 @@ export default function AuthModal({ isOpen, onClose }: AuthModalProps) {
             type="button"
             variant="link"
             className="p-0 h-auto"
-            onClick={() => setIsLoginView(!isLoginView)}
+            onClick={() => setView(isLoginView ? "register" : "login")}
           >
             {isLoginView
               ? "Don't have an account? Create one"
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useOptionalMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Loader2, MailCheck } from "lucide-react";
+
+const forgotPasswordSchema = z.object({
+  identifier: z.string().trim().min(1, "Enter your username or email"),
+});
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+}
+
+// Asks for a reset link. The server answers the same way whether or not the
+// account exists, so the confirmation is worded to match.
+export default function ForgotPasswordForm({ onBack }: ForgotPasswordFormProps) {
+  const memorial = useOptionalMemorial();
+  const { toast } = useToast();
+  const [confirmation, setConfirmation] = useState<string | null>(null);
+
+  const form = useForm({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { identifier: "" }
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof forgotPasswordSchema>) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", {
+        identifier: values.identifier,
+        memorialSlug: memorial?.slug,
+      });
+      return res.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      setConfirmation(data.message);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not send reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (confirmation) {
+    return (
+      <div className="flex flex-col items-center text-center gap-4 py-4">
+        <MailCheck className="h-10 w-10 text-primary" />
+        <p>{confirmation}</p>
+        <p className="text-sm text-muted-foreground">
+          The link expires in an hour. Check your spam folder if it doesn't arrive in a few minutes.
+        </p>
+        <Button variant="outline" onClick={onBack}>
+          Back to Sign In
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((values) => requestResetMutation.mutate(values))} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter your username or the email address on your account and we'll send you a link to choose a new password.
+        </p>
+
+        <FormField
+          control={form.control}
+          name="identifier"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username or Email</FormLabel>
+              <FormControl>
+                <Input placeholder="Enter username or email" autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={requestResetMutation.isPending}
+        >
+          {requestResetMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Sending...
+            </>
+          ) : (
+            "Send Reset Link"
+          )}
+        </Button>
+
+        <div className="text-center">
+          <Button type="button" variant="link" className="p-0 h-auto" onClick={onBack}>
+            Back to Sign In
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,61 @@
+import { useMemorial } from "@/hooks/use-memorial";
+import { ServiceEvent } from "@/lib/types";
+import { googleCalendarUrl, outlookCalendarUrl } from "@/lib/calendar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CalendarPlus } from "lucide-react";
+
+interface AddToCalendarProps {
+  // A single event, or every event when omitted
+  event?: ServiceEvent;
+  size?: "sm" | "default" | "lg";
+  className?: string;
+}
+
+export default function AddToCalendar({ event, size = "sm", className }: AddToCalendarProps) {
+  const { memorial, apiPath } = useMemorial();
+  const icsUrl = apiPath(`/funeral-program/calendar.ics${event ? `?eventId=${event.id}` : ""}`);
+  
+  // Without a specific event only the .ics file can hold the whole schedule
+  if (!event) {
+    return (
+      <Button variant="outline" size={size} className={className} asChild>
+        <a href={icsUrl} download>
+          <CalendarPlus className="mr-2 h-4 w-4" /> Add All to Calendar
+        </a>
+      </Button>
+    );
+  }
+  
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className={className}>
+          <CalendarPlus className="mr-2 h-4 w-4" /> Add to Calendar
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem asChild>
+          <a href={googleCalendarUrl(event, memorial.name)} target="_blank" rel="noopener noreferrer">
+            Google Calendar
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={outlookCalendarUrl(event, memorial.name)} target="_blank" rel="noopener noreferrer">
+            Outlook.com
+          </a>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <a href={icsUrl} download>
+            Apple / Outlook (.ics)
+          </a>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,102 @@
+import { format, isSameDay } from "date-fns";
+import { ServiceEvent, EventType } from "@/lib/types";
+import { EVENT_TYPE_LABELS } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import AddToCalendar from "./add-to-calendar";
+import { Church, Flower2, UtensilsCrossed, Users, CalendarDays, Clock, MapPin, Video } from "lucide-react";
+
+const EVENT_ICONS: Record<EventType, typeof Church> = {
+  visitation: Users,
+  funeral: Church,
+  burial: Flower2,
+  repast: UtensilsCrossed,
+  other: CalendarDays,
+};
+
+interface EventTimelineProps {
+  events: ServiceEvent[];
+}
+
+// e.g. "1:00 PM – 3:00 PM", or with both dates when an event runs past midnight
+export function formatEventTime(event: ServiceEvent) {
+  const start = new Date(event.startsAt);
+  if (!event.endsAt) {
+    return format(start, "h:mm a");
+  }
+  
+  const end = new Date(event.endsAt);
+  return isSameDay(start, end)
+    ? `${format(start, "h:mm a")} – ${format(end, "h:mm a")}`
+    : `${format(start, "h:mm a")} – ${format(end, "EEE, MMM d, h:mm a")}`;
+}
+
+export function getEventTitle(event: ServiceEvent) {
+  return event.title || EVENT_TYPE_LABELS[event.type];
+}
+
+// Vertical timeline of the service events, in the order the server returns them (by start time)
+export default function EventTimeline({ events }: EventTimelineProps) {
+  return (
+    <ol className="relative border-l-2 border-primary/30 ml-3 space-y-8">
+      {events.map((event) => {
+        const Icon = EVENT_ICONS[event.type];
+        
+        return (
+          <li key={event.id} className="relative ml-8">
+            <span className="absolute -left-[49px] flex h-8 w-8 items-center justify-center rounded-full bg-primary text-white">
+              <Icon className="h-4 w-4" />
+            </span>
+            
+            <p className="text-sm uppercase tracking-wide text-primary font-semibold">
+              {EVENT_TYPE_LABELS[event.type]}
+            </p>
+            <h4 className="text-xl font-heading font-bold mb-3">{getEventTitle(event)}</h4>
+            
+            <div className="space-y-2">
+              <div className="flex gap-3">
+                <CalendarDays className="text-primary mt-1 h-5 w-5 shrink-0" />
+                <p>{format(new Date(event.startsAt), "EEEE, MMMM d, yyyy")}</p>
+              </div>
+              <div className="flex gap-3">
+                <Clock className="text-primary mt-1 h-5 w-5 shrink-0" />
+                <p>{formatEventTime(event)}</p>
+              </div>
+              <div className="flex gap-3">
+                <MapPin className="text-primary mt-1 h-5 w-5 shrink-0" />
+                <div>
+                  <p className="font-semibold">{event.venue}</p>
+                  {event.address && <p>{event.address}</p>}
+                </div>
+              </div>
+            </div>
+            
+            {event.notes && (
+              <p className="mt-3 text-gray-600 whitespace-pre-line">{event.notes}</p>
+            )}
+            
+            <div className="mt-4 flex flex-wrap gap-2">
+              <AddToCalendar event={event} />
+              
+              {event.streamLink && (
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  className="text-white hover:bg-opacity-90"
+                  asChild
+                >
+                  <a
+                    href={event.streamLink}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    <Video className="mr-2 h-4 w-4" /> Watch Live
+                  </a>
+                </Button>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
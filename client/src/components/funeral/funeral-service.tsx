@@ -1,23 +1,37 @@
 import { useQuery } from "@tanstack/react-query";
-import { FuneralProgram, SiteSettings } from "@/lib/types";
+import { FuneralProgram, ProgramSection, ServiceEvent, SiteSettings } from "@/lib/types";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, MapPin, FileText, Video } from "lucide-react";
+import { FileText, Video } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Link } from "wouter";
+import { useMemorial } from "@/hooks/use-memorial";
+import AddToCalendar from "@/components/funeral/add-to-calendar";
+import EventTimeline from "./event-timeline";
 
 export default function FuneralService() {
-  const { data: program, isLoading } = useQuery<FuneralProgram>({
-    queryKey: ["/api/funeral-program"],
+  const { apiPath } = useMemorial();
+  const { data: program, isLoading: isLoadingProgram } = useQuery<FuneralProgram>({
+    queryKey: [apiPath("/funeral-program")],
+  });
+  const { data: events, isLoading: isLoadingEvents } = useQuery<ServiceEvent[]>({
+    queryKey: [apiPath("/events")],
   });
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
+  });
+  const { data: sections } = useQuery<ProgramSection[]>({
+    queryKey: [apiPath("/program-sections")],
   });
 
-  if (isLoading) {
+  const programUrl = sections && sections.length > 0
+    ? apiPath("/funeral-program/program.pdf")
+    : program?.programPdfUrl;
+
+  if (isLoadingProgram || isLoadingEvents) {
     return <FuneralServiceSkeleton />;
   }
 
-  if (!program) {
+  if (!program && !events?.length) {
     return (
       <section id="program" className="py-16 px-6 bg-neutral-100">
         <div className="container mx-auto max-w-4xl">
@@ -47,39 +61,26 @@ export default function FuneralService() {
               </div>
             </div>
             <div className="md:w-2/3">
-              <h3 className="text-2xl font-heading font-bold mb-4">Celebration of Life</h3>
-              <div className="space-y-4 mb-6">
-                <div className="flex gap-3">
-                  <Calendar className="text-primary mt-1 h-5 w-5" />
-                  <div>
-                    <p className="font-semibold">Date</p>
-                    <p>{program.date}</p>
-                  </div>
-                </div>
-                <div className="flex gap-3">
-                  <Clock className="text-primary mt-1 h-5 w-5" />
-                  <div>
-                    <p className="font-semibold">Time</p>
-                    <p>{program.time}</p>
-                  </div>
-                </div>
-                <div className="flex gap-3">
-                  <MapPin className="text-primary mt-1 h-5 w-5" />
-                  <div>
-                    <p className="font-semibold">Location</p>
-                    <p>{program.location}</p>
-                    <p>{program.address}</p>
-                  </div>
-                </div>
+              <h3 className="text-2xl font-heading font-bold mb-6">Celebration of Life</h3>
+              <div className="mb-6">
+                {events && events.length > 0 ? (
+                  <EventTimeline events={events} />
+                ) : (
+                  <p className="text-gray-500">Service times will be shared soon.</p>
+                )}
               </div>
               <div className="flex flex-wrap gap-4">
-                {program.programPdfUrl && (
+                {events && events.length > 1 && (
+                  <AddToCalendar size="default" />
+                )}
+
+                {programUrl && (
                   <Button 
                     className="bg-primary text-white hover:bg-opacity-90"
                     asChild
                   >
                     <a 
-                      href={program.programPdfUrl} 
+                      href={programUrl} 
                       target="_blank" 
                       rel="noopener noreferrer"
                     >
@@ -88,19 +89,15 @@ export default function FuneralService() {
                   </Button>
                 )}
 
-                {program.streamLink && (
+                {program?.streamLink && (
                   <Button 
                     variant="secondary"
                     className="text-white hover:bg-opacity-90"
                     asChild
                   >
-                    <a 
-                      href={program.streamLink} 
-                      target="_blank" 
-                      rel="noopener noreferrer"
-                    >
+                    <Link href="/live">
                       <Video className="mr-2 h-4 w-4" /> Live Stream
-                    </a>
+                    </Link>
                   </Button>
                 )}
               </div>
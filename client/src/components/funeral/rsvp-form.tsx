@@ -0,0 +1,201 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Rsvp, ServiceEvent } from "@/lib/types";
+import { getEventTitle } from "./event-timeline";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, CheckCircle } from "lucide-react";
+
+interface RsvpFormProps {
+  events: ServiceEvent[];
+}
+
+export default function RsvpForm({ events }: RsvpFormProps) {
+  const { apiPath } = useMemorial();
+  const { user, isLoggedIn } = useAuth();
+  const { toast } = useToast();
+
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [partySize, setPartySize] = useState(1);
+  const [dietaryNotes, setDietaryNotes] = useState("");
+  const [eventIds, setEventIds] = useState<number[]>([]);
+  const [submitted, setSubmitted] = useState(false);
+
+  // Signed-in visitors see their earlier answer and can change it
+  const { data: existingRsvp } = useQuery<Rsvp | null>({
+    queryKey: [apiPath("/rsvps/mine")],
+    enabled: isLoggedIn,
+  });
+
+  useEffect(() => {
+    if (existingRsvp) {
+      setName(existingRsvp.name);
+      setEmail(existingRsvp.email || "");
+      setPartySize(existingRsvp.partySize);
+      setDietaryNotes(existingRsvp.dietaryNotes || "");
+      setEventIds(existingRsvp.eventIds);
+    } else if (user) {
+      setName(user.name);
+      setEmail(user.email || "");
+    }
+  }, [existingRsvp, user]);
+
+  const rsvpMutation = useMutation({
+    mutationFn: async (rsvpData: Partial<Rsvp>) => {
+      const res = await apiRequest("POST", apiPath("/rsvps"), rsvpData);
+      return res.json();
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+      if (isLoggedIn) {
+        queryClient.invalidateQueries({ queryKey: [apiPath("/rsvps/mine")] });
+      }
+      toast({
+        title: existingRsvp ? "RSVP updated" : "Thank you for letting us know",
+        description: "Your RSVP has been shared with the family.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save RSVP",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleEvent = (eventId: number, checked: boolean) => {
+    setEventIds(current => checked
+      ? [...current, eventId]
+      : current.filter(id => id !== eventId)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (eventIds.length === 0) {
+      toast({
+        title: "Choose an event",
+        description: "Please select at least one event you plan to attend.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    rsvpMutation.mutate({
+      name: name.trim(),
+      email: email.trim() || null,
+      partySize,
+      dietaryNotes: dietaryNotes.trim() || null,
+      eventIds,
+    });
+  };
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-8 mb-12">
+      <h3 className="text-2xl font-heading font-bold mb-2">RSVP</h3>
+      <p className="text-gray-600 mb-6">
+        Let the family know you plan to attend so they can prepare for everyone.
+      </p>
+
+      {submitted ? (
+        <div className="flex flex-col items-center text-center py-6 gap-4">
+          <CheckCircle className="h-10 w-10 text-primary" />
+          <p className="text-lg">Thank you, {name}. Your RSVP has been received.</p>
+          <Button variant="outline" onClick={() => setSubmitted(false)}>
+            Change my RSVP
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rsvpName">Name</Label>
+              <Input
+                id="rsvpName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rsvpEmail">Email{isLoggedIn ? " (optional)" : ""}</Label>
+              <Input
+                id="rsvpEmail"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required={!isLoggedIn}
+              />
+              {!isLoggedIn && (
+                <p className="text-xs text-muted-foreground">
+                  Submit again with the same email to change your RSVP
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Which events will you attend?</Label>
+            <div className="space-y-2">
+              {events.map((event) => (
+                <label key={event.id} className="flex items-center gap-3 cursor-pointer">
+                  <Checkbox
+                    checked={eventIds.includes(event.id)}
+                    onCheckedChange={(checked) => toggleEvent(event.id, checked === true)}
+                  />
+                  <span>
+                    {getEventTitle(event)}
+                    <span className="text-gray-500"> · {format(new Date(event.startsAt), "EEE, MMM d, h:mm a")}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2 max-w-[10rem]">
+            <Label htmlFor="rsvpPartySize">Party size</Label>
+            <Input
+              id="rsvpPartySize"
+              type="number"
+              min={1}
+              max={50}
+              value={partySize}
+              onChange={(e) => setPartySize(Math.max(1, parseInt(e.target.value) || 1))}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rsvpDietaryNotes">Dietary notes (optional)</Label>
+            <Textarea
+              id="rsvpDietaryNotes"
+              value={dietaryNotes}
+              onChange={(e) => setDietaryNotes(e.target.value)}
+              placeholder="Allergies or dietary requirements for the reception"
+              rows={2}
+            />
+          </div>
+
+          <Button type="submit" disabled={rsvpMutation.isPending}>
+            {rsvpMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {existingRsvp ? "Update RSVP" : "Send RSVP"}
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { Link } from "wouter";
+import { AlbumSummary } from "@/lib/types";
+import ResponsiveImage from "./responsive-image";
+import { Images } from "lucide-react";
+
+export default function AlbumGrid({ albums }: { albums: AlbumSummary[] }) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+      {albums.map((album) => (
+        <Link 
+          key={album.id}
+          href={`/gallery/${album.slug}`}
+          className="group block overflow-hidden rounded-lg shadow-md hover:shadow-lg transition-shadow bg-white"
+        >
+          <div className="aspect-[4/3] bg-neutral-100">
+            {album.coverImage ? (
+              <ResponsiveImage 
+                image={album.coverImage} 
+                alt={album.title} 
+                sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                className="w-full h-full object-cover group-hover:scale-105 transition duration-500"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <Images className="h-12 w-12 text-gray-300" />
+              </div>
+            )}
+          </div>
+          <div className="p-4">
+            <h3 className="text-lg font-heading font-semibold">{album.title}</h3>
+            <p className="text-sm text-gray-500">
+              {album.imageCount === 1 ? "1 photo" : `${album.imageCount} photos`}
+            </p>
+          </div>
+        </Link>
+      ))}
+    </div>
+  );
+}
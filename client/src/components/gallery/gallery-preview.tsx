@@ -5,14 +5,17 @@ import { GalleryImage } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { ChevronRight } from "lucide-react";
 import ImageLightbox from "./image-lightbox";
+import ResponsiveImage from "./responsive-image";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
 
 export default function GalleryPreview() {
+  const { apiPath } = useMemorial();
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   
   const { data: images, isLoading } = useQuery<GalleryImage[]>({
-    queryKey: ["/api/gallery"],
+    queryKey: [apiPath("/gallery")],
   });
 
   const handleImageClick = (index: number) => {
@@ -38,7 +41,7 @@ export default function GalleryPreview() {
   }
 
   // Sort images by order
-  const sortedImages = [...images].sort((a, b) => a.order - b.order);
+  const sortedImages = [...images].sort((a, b) => a.order - b.order || a.id - b.id);
   const featuredImages = sortedImages.slice(0, 7);
 
   return (
@@ -52,9 +55,11 @@ export default function GalleryPreview() {
             className="md:col-span-2 overflow-hidden rounded-lg shadow-md h-80 cursor-pointer"
             onClick={() => handleImageClick(0)}
           >
-            <img 
-              src={featuredImages[0]?.imageUrl} 
-              alt={featuredImages[0]?.caption || "Featured memory"} 
+            <ResponsiveImage 
+              image={featuredImages[0]} 
+              alt={featuredImages[0].caption || "Featured memory"} 
+              sizes="(min-width: 768px) 66vw, 100vw"
+              loading="eager"
               className="w-full h-full object-cover hover:scale-105 transition duration-500"
             />
           </div>
@@ -66,9 +71,10 @@ export default function GalleryPreview() {
                 className="overflow-hidden rounded-lg shadow-md h-[152px] cursor-pointer"
                 onClick={() => handleImageClick(index + 1)}
               >
-                <img 
-                  src={image.imageUrl} 
+                <ResponsiveImage 
+                  image={image} 
                   alt={image.caption || `Memory ${index + 2}`} 
+                  sizes="(min-width: 768px) 33vw, 100vw"
                   className="w-full h-full object-cover hover:scale-105 transition duration-500"
                 />
               </div>
@@ -83,9 +89,10 @@ export default function GalleryPreview() {
               className="overflow-hidden rounded-lg shadow-md h-40 cursor-pointer"
               onClick={() => handleImageClick(index + 3)}
             >
-              <img 
-                src={image.imageUrl} 
+              <ResponsiveImage 
+                image={image} 
                 alt={image.caption || `Memory ${index + 4}`} 
+                sizes="(min-width: 768px) 25vw, 50vw"
                 className="w-full h-full object-cover hover:scale-105 transition duration-500"
               />
             </div>
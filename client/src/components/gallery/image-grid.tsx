@@ -0,0 +1,35 @@
+import { GalleryImage } from "@/lib/types";
+import ResponsiveImage from "./responsive-image";
+
+interface ImageGridProps {
+  images: GalleryImage[];
+  onImageClick: (index: number) => void;
+}
+
+export default function ImageGrid({ images, onImageClick }: ImageGridProps) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+      {images.map((image, index) => (
+        <div 
+          key={image.id}
+          className="overflow-hidden rounded-lg shadow-md cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={() => onImageClick(index)}
+        >
+          <div className="aspect-square">
+            <ResponsiveImage 
+              image={image} 
+              alt={image.caption || `Memory ${index + 1}`} 
+              sizes="(min-width: 1024px) 25vw, (min-width: 768px) 33vw, 50vw"
+              className="w-full h-full object-cover hover:scale-105 transition duration-500"
+            />
+          </div>
+          {image.caption && (
+            <div className="p-3 bg-white">
+              <p className="text-sm text-gray-700">{image.caption}</p>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
-import { useEffect } from "react";
-import { X, ChevronLeft, ChevronRight } from "lucide-react";
+import { Fragment, useEffect, useState } from "react";
+import { Link } from "wouter";
+import { X, ChevronLeft, ChevronRight, Tag } from "lucide-react";
 import { GalleryImage } from "@/lib/types";
+import { usePhotoTags } from "@/hooks/use-photo-tags";
+import ResponsiveImage from "./responsive-image";
+import PhotoTagLayer from "./photo-tag-layer";
 
 interface ImageLightboxProps {
   images: GalleryImage[];
@@ -15,12 +19,17 @@ export default function ImageLightbox({
   onClose,
   onIndexChange,
 }: ImageLightboxProps) {
+  const { tagsForImage, canTag } = usePhotoTags();
+  const [isTagging, setIsTagging] = useState(false);
+
   useEffect(() => {
     // Prevent scrolling when lightbox is open
     document.body.style.overflow = "hidden";
 
     // Handle keyboard navigation
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Keys belong to the tag editor while it's open
+      if (isTagging) return;
       if (e.key === "Escape") {
         onClose();
       } else if (e.key === "ArrowLeft") {
@@ -36,7 +45,7 @@ export default function ImageLightbox({
       document.body.style.overflow = "auto";
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [currentIndex, onClose]);
+  }, [currentIndex, onClose, isTagging]);
 
   const goToPrevious = () => {
     const newIndex = (currentIndex - 1 + images.length) % images.length;
@@ -54,6 +63,11 @@ export default function ImageLightbox({
     return null;
   }
 
+  // One entry per person, in the order they were tagged
+  const people = tagsForImage(currentImage.id).filter(
+    (tag, index, tags) => tags.findIndex(other => other.personKey === tag.personKey) === index
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50 animate-fade-in">
       <button 
@@ -63,6 +77,15 @@ export default function ImageLightbox({
         <X size={32} />
       </button>
       
+      {canTag && !isTagging && (
+        <button
+          className="absolute top-4 left-4 z-50 flex items-center text-white hover:text-gray-300"
+          onClick={() => setIsTagging(true)}
+        >
+          <Tag className="mr-2 h-5 w-5" /> Tag people
+        </button>
+      )}
+      
       <div className="flex justify-between items-center w-full h-full px-4">
         <button 
           className="text-white text-4xl z-40 hover:text-gray-300 p-4"
@@ -72,14 +95,44 @@ export default function ImageLightbox({
         </button>
         
         <div className="relative w-full h-full max-w-4xl max-h-[80vh] flex items-center justify-center">
-          <img 
-            src={currentImage.imageUrl} 
-            alt={currentImage.caption || "Gallery image"} 
-            className="max-w-full max-h-full object-contain"
-          />
-          {currentImage.caption && (
+          <PhotoTagLayer
+            key={currentImage.id}
+            image={currentImage}
+            isTagging={isTagging}
+            onDone={() => setIsTagging(false)}
+          >
+            <ResponsiveImage 
+              image={currentImage} 
+              alt={currentImage.caption || "Gallery image"} 
+              sizes="(min-width: 896px) 896px, 100vw"
+              loading="eager"
+              className="max-w-full max-h-[80vh] object-contain"
+            />
+          </PhotoTagLayer>
+          {!isTagging && (currentImage.caption || currentImage.year || currentImage.peoplePictured || currentImage.sharedBy || people.length > 0) && (
             <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-70 p-4 text-white text-center">
-              {currentImage.caption}
+              {currentImage.caption && <p>{currentImage.caption}</p>}
+              {(currentImage.year || currentImage.peoplePictured) && (
+                <p className="text-sm text-gray-300">
+                  {[currentImage.peoplePictured, currentImage.year && `c. ${currentImage.year}`].filter(Boolean).join(" · ")}
+                </p>
+              )}
+              {people.length > 0 && (
+                <p className="text-sm text-gray-300">
+                  With{" "}
+                  {people.map((tag, index) => (
+                    <Fragment key={tag.personKey}>
+                      {index > 0 && ", "}
+                      <Link href={`/people/${encodeURIComponent(tag.personKey)}`} className="underline hover:text-white">
+                        {tag.user?.name || tag.name}
+                      </Link>
+                    </Fragment>
+                  ))}
+                </p>
+              )}
+              {currentImage.sharedBy && (
+                <p className="text-xs text-gray-400 mt-1">Shared by {currentImage.sharedBy.name}</p>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,241 @@
+import { ReactNode, useRef, useState } from "react";
+import { GalleryImage, PhotoTag } from "@/lib/types";
+import { usePhotoTags, PhotoTagDetails } from "@/hooks/use-photo-tags";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Trash } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface PhotoTagLayerProps {
+  image: GalleryImage;
+  // Shows every tag and lets the viewer draw and edit them
+  isTagging: boolean;
+  onDone: () => void;
+  children: ReactNode;
+}
+
+type Region = Pick<PhotoTag, "x" | "y" | "width" | "height">;
+
+// A tag being added (tagId null) or changed
+interface Draft extends PhotoTagDetails {
+  tagId: number | null;
+}
+
+// Smaller drags are taken as stray clicks
+const MIN_REGION_SIZE = 0.02;
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const regionStyle = (region: Region) => ({
+  left: `${region.x * 100}%`,
+  top: `${region.y * 100}%`,
+  width: `${region.width * 100}%`,
+  height: `${region.height * 100}%`,
+});
+
+// Draws the tags over a lightbox image. Tags show on hover; in tagging mode
+// they are always shown, and dragging over the image marks a new one.
+export default function PhotoTagLayer({ image, isTagging, onDone, children }: PhotoTagLayerProps) {
+  const { tagsForImage, canEditTag, linkableUsers, saveTag, deleteTag, isSaving } = usePhotoTags();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+  const [dragRegion, setDragRegion] = useState<Region | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  
+  const tags = tagsForImage(image.id);
+  
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width),
+      y: clamp((e.clientY - rect.top) / rect.height),
+    };
+  };
+  
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = pointerPosition(e);
+  };
+  
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart.current) return;
+    const start = dragStart.current;
+    const end = pointerPosition(e);
+    setDragRegion({
+      x: Math.min(start.x, end.x),
+      y: Math.min(start.y, end.y),
+      width: Math.abs(end.x - start.x),
+      height: Math.abs(end.y - start.y),
+    });
+  };
+  
+  const handlePointerUp = () => {
+    const region = dragRegion;
+    dragStart.current = null;
+    setDragRegion(null);
+    if (!region || region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) return;
+    
+    // Drawing while a tag is open moves it; otherwise it starts a new one
+    setDraft(current => current ? { ...current, ...region } : { tagId: null, name: "", userId: null, ...region });
+  };
+  
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const { tagId, ...details } = draft;
+    saveTag({ imageId: image.id, tagId, details }, {
+      onSuccess: () => setDraft(null),
+    });
+  };
+  
+  const handleLinkChange = (value: string) => {
+    if (!draft) return;
+    const user = linkableUsers.find(user => String(user.id) === value);
+    setDraft({
+      ...draft,
+      userId: user ? user.id : null,
+      // Linking fills in the name unless one has been typed
+      name: draft.name.trim() ? draft.name : user?.name || "",
+    });
+  };
+  
+  return (
+    <>
+      <div className="relative group">
+        {children}
+        
+        {tags.filter(tag => tag.id !== draft?.tagId).map((tag) => (
+          <div
+            key={tag.id}
+            className={cn(
+              "absolute border-2 border-white rounded shadow transition-opacity pointer-events-none",
+              isTagging ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+            )}
+            style={regionStyle(tag)}
+          >
+            <span className="absolute left-0 top-full mt-1 whitespace-nowrap rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+              {tag.user?.name || tag.name}
+            </span>
+          </div>
+        ))}
+        
+        {isTagging && (
+          <div
+            ref={overlayRef}
+            className="absolute inset-0 cursor-crosshair touch-none"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            {(dragRegion || draft) && (
+              <div
+                className="absolute border-2 border-primary bg-primary/20 rounded"
+                style={regionStyle(dragRegion || draft!)}
+              />
+            )}
+          </div>
+        )}
+      </div>
+      
+      {isTagging && (
+        <div className="fixed left-4 top-4 z-50 w-72 max-h-[90vh] overflow-y-auto rounded-lg bg-white p-4 shadow-lg space-y-4">
+          <div>
+            <h3 className="font-semibold">Tag People</h3>
+            <p className="text-xs text-gray-500">
+              {draft ? "Drag again to move the box." : "Drag a box around someone in the photo to tag them."}
+            </p>
+          </div>
+          
+          {draft && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="space-y-1">
+                <Label htmlFor="photo-tag-name">Name</Label>
+                <Input
+                  id="photo-tag-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Who is this?"
+                  maxLength={120}
+                  autoFocus
+                />
+              </div>
+              {linkableUsers.length > 0 && (
+                <div className="space-y-1">
+                  <Label>Link to account</Label>
+                  <Select value={draft.userId ? String(draft.userId) : "none"} onValueChange={handleLinkChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Not linked</SelectItem>
+                      {linkableUsers.map((user) => (
+                        <SelectItem key={user.id} value={String(user.id)}>{user.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={handleSave} disabled={!draft.name.trim() || isSaving}>
+                  {draft.tagId === null ? "Add Tag" : "Save"}
+                </Button>
+              </div>
+            </div>
+          )}
+          
+          {tags.length > 0 && (
+            <ul className="space-y-1">
+              {tags.map((tag) => (
+                <li key={tag.id} className="flex items-center justify-between text-sm">
+                  <span className="truncate">{tag.user?.name || tag.name}</span>
+                  {canEditTag(tag) && (
+                    <span className="flex flex-shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2"
+                        onClick={() => setDraft({
+                          tagId: tag.id,
+                          name: tag.name,
+                          userId: tag.userId,
+                          x: tag.x,
+                          y: tag.y,
+                          width: tag.width,
+                          height: tag.height,
+                        })}
+                        aria-label={`Edit tag for ${tag.name}`}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-red-500 hover:text-red-600"
+                        onClick={() => deleteTag(tag.id)}
+                        disabled={isSaving}
+                        aria-label={`Remove tag for ${tag.name}`}
+                      >
+                        <Trash className="h-3 w-3" />
+                      </Button>
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          
+          <Button variant="outline" className="w-full" onClick={() => {
+            setDraft(null);
+            onDone();
+          }}>
+            Done
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
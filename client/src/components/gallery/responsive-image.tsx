@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { GalleryImage } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ResponsiveImageProps {
+  image: GalleryImage;
+  alt: string;
+  // Rendered width hint for the browser, e.g. "(min-width: 768px) 33vw, 50vw"
+  sizes: string;
+  className?: string;
+  loading?: "lazy" | "eager";
+}
+
+export default function ResponsiveImage({
+  image,
+  alt,
+  sizes,
+  className,
+  loading = "lazy",
+}: ResponsiveImageProps) {
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // Images added by URL have no generated variants and fall back to a plain src
+  const srcSet = image.variants?.length
+    ? image.variants.map((variant) => `${variant.url} ${variant.width}w`).join(", ")
+    : undefined;
+
+  return (
+    <img
+      src={image.imageUrl}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      width={image.width}
+      height={image.height}
+      alt={alt}
+      loading={loading}
+      decoding="async"
+      onLoad={() => setIsLoaded(true)}
+      style={
+        image.placeholder && !isLoaded
+          ? { backgroundImage: `url(${image.placeholder})`, backgroundSize: "cover" }
+          : undefined
+      }
+      className={cn(className)}
+    />
+  );
+}
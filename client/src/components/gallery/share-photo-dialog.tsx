@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+import { GalleryImage } from "@/lib/types";
+import { queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Upload } from "lucide-react";
+
+interface SharePhotoDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function SharePhotoDialog({ isOpen, onClose }: SharePhotoDialogProps) {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [caption, setCaption] = useState("");
+  const [year, setYear] = useState("");
+  const [peoplePictured, setPeoplePictured] = useState("");
+  
+  useEffect(() => {
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+  
+  const resetForm = () => {
+    setFile(null);
+    setPreviewUrl(null);
+    setCaption("");
+    setYear("");
+    setPeoplePictured("");
+  };
+  
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("image", file!);
+      formData.append("caption", caption);
+      formData.append("year", year);
+      formData.append("peoplePictured", peoplePictured);
+      
+      const response = await fetch(apiPath("/gallery/submissions"), {
+        method: "POST",
+        body: formData,
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to share photo");
+      }
+      
+      return response.json() as Promise<GalleryImage>;
+    },
+    onSuccess: (image) => {
+      resetForm();
+      onClose();
+      
+      if (image.status === "approved") {
+        queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+        toast({ title: "Photo shared", description: "Your photo has been added to the gallery" });
+      } else {
+        toast({
+          title: "Thank you for sharing",
+          description: "Your photo will appear in the gallery once the family has reviewed it",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to share photo",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleSubmit = () => {
+    if (!file) {
+      toast({
+        title: "Error",
+        description: "Please choose a photo to share",
+        variant: "destructive",
+      });
+      return;
+    }
+    shareMutation.mutate();
+  };
+  
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share a Photo</DialogTitle>
+          <DialogDescription>
+            Add a photo to the gallery. The family reviews shared photos before they appear.
+          </DialogDescription>
+        </DialogHeader>
+        
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="share-photo-file">Photo (required)</Label>
+            <input
+              type="file"
+              ref={fileInputRef}
+              id="share-photo-file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+            <button
+              type="button"
+              className="w-full border-2 border-dashed border-gray-300 rounded-md p-6 flex flex-col items-center justify-center hover:border-primary"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {file && previewUrl ? (
+                <div className="space-y-2 w-full">
+                  <div className="h-40 overflow-hidden rounded-md">
+                    <img src={previewUrl} alt="Selected photo preview" className="w-full h-full object-cover" />
+                  </div>
+                  <p className="text-sm text-center">{file.name}</p>
+                </div>
+              ) : (
+                <>
+                  <Upload className="h-10 w-10 text-gray-400 mb-2" />
+                  <p className="text-sm text-gray-500">Click to choose a photo</p>
+                  <p className="text-xs text-gray-400">JPG, PNG, GIF up to 10MB</p>
+                </>
+              )}
+            </button>
+          </div>
+          
+          <div className="space-y-2">
+            <Label htmlFor="share-photo-caption">Caption (optional)</Label>
+            <Input
+              id="share-photo-caption"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              placeholder="What's happening in this photo?"
+              maxLength={500}
+            />
+          </div>
+          
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="share-photo-year">Year (approx.)</Label>
+              <Input
+                id="share-photo-year"
+                type="number"
+                min="1850"
+                max={new Date().getFullYear()}
+                value={year}
+                onChange={(e) => setYear(e.target.value)}
+                placeholder="e.g. 1985"
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="share-photo-people">People pictured (optional)</Label>
+              <Input
+                id="share-photo-people"
+                value={peoplePictured}
+                onChange={(e) => setPeoplePictured(e.target.value)}
+                placeholder="e.g. Chris, Aunt May"
+                maxLength={500}
+              />
+            </div>
+          </div>
+        </div>
+        
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={shareMutation.isPending}>
+            {shareMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sharing...
+              </>
+            ) : (
+              "Share Photo"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
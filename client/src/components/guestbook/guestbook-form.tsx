@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { proveWork } from "@/lib/proof-of-work";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, CheckCircle } from "lucide-react";
+
+interface GuestbookFormData {
+  name: string;
+  town: string | null;
+  relationship: string | null;
+  message: string;
+  website: string;
+}
+
+export default function GuestbookForm() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  
+  const [name, setName] = useState("");
+  const [town, setTown] = useState("");
+  const [relationship, setRelationship] = useState("");
+  const [message, setMessage] = useState("");
+  // Left empty by people; bots that fill in every field give themselves away
+  const [website, setWebsite] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  
+  const signMutation = useMutation({
+    mutationFn: async (entryData: GuestbookFormData) => {
+      setIsVerifying(true);
+      const proof = await proveWork(apiPath("/guestbook/challenge")).finally(() => setIsVerifying(false));
+      const res = await apiRequest("POST", apiPath("/guestbook"), { ...entryData, ...proof });
+      return res.json();
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+      setMessage("");
+      queryClient.invalidateQueries({ queryKey: [apiPath("/guestbook")] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not sign the guestbook",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    
+    signMutation.mutate({
+      name: name.trim(),
+      town: town.trim() || null,
+      relationship: relationship.trim() || null,
+      message: message.trim(),
+      website,
+    });
+  };
+  
+  if (submitted) {
+    return (
+      <div className="flex flex-col items-center text-center py-6 gap-4">
+        <CheckCircle className="h-10 w-10 text-primary" />
+        <p className="text-lg">Thank you for signing the guestbook, {name}.</p>
+        <Button variant="outline" onClick={() => setSubmitted(false)}>
+          Write another message
+        </Button>
+      </div>
+    );
+  }
+  
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="guestName">Name</Label>
+          <Input
+            id="guestName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="guestTown">Town (optional)</Label>
+          <Input
+            id="guestTown"
+            value={town}
+            onChange={(e) => setTown(e.target.value)}
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="guestRelationship">Relationship (optional)</Label>
+          <Input
+            id="guestRelationship"
+            value={relationship}
+            onChange={(e) => setRelationship(e.target.value)}
+            placeholder="e.g. Friend, Neighbour, Colleague"
+            maxLength={100}
+          />
+        </div>
+      </div>
+      
+      <div className="space-y-2">
+        <Label htmlFor="guestMessage">Message</Label>
+        <Textarea
+          id="guestMessage"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          rows={4}
+          maxLength={1000}
+          required
+        />
+      </div>
+      
+      <div className="absolute -left-[10000px] h-px w-px overflow-hidden" aria-hidden="true">
+        <Label htmlFor="guestWebsite">Website</Label>
+        <Input
+          id="guestWebsite"
+          name="website"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+      
+      <div className="flex justify-end">
+        <Button type="submit" disabled={signMutation.isPending || !name.trim() || !message.trim()}>
+          {signMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {isVerifying ? "Verifying..." : signMutation.isPending ? "Signing..." : "Sign the Guestbook"}
+        </Button>
+      </div>
+    </form>
+  );
+}
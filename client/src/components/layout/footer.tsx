@@ -1,13 +1,13 @@
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { SiteSettings } from "@/lib/types";
-import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
 
 export default function Footer() {
+  const { apiPath, isMemorialAdmin: isAdmin } = useMemorial();
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
-  const { isAdmin } = useAuth();
 
   const footerMessage = settings?.footerMessage || "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\""; 
   const contactEmail = settings?.contactEmail || "";
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
 import { Button } from "@/components/ui/button";
 import { Menu, X } from "lucide-react";
 import AuthModal from "@/components/auth/auth-modal";
@@ -21,15 +22,16 @@ export default function Header({ minimal = false }: HeaderProps) {
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);    // Controls auth modal visibility
 
   // Hook for authentication state and user data
-  const { isLoggedIn, user, isAdmin, logoutMutation } = useAuth();
+  const { isLoggedIn, user, logoutMutation } = useAuth();
+  const { apiPath, isMemorialAdmin: isAdmin } = useMemorial();
 
-  // Current route location using wouter
-  const [location] = useLocation();
+  // Current route location using wouter (relative to the memorial)
+  const [location, setLocation] = useLocation();
 
   // Fetch site settings using React Query
   // This includes background and tribute images
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
     retry: false,
   });
 
@@ -81,7 +83,9 @@ export default function Header({ minimal = false }: HeaderProps) {
   // Handle authentication actions (login/logout)
   const handleAuthAction = () => {
     if (isLoggedIn) {
-      logoutMutation.mutate();
+      logoutMutation.mutate(undefined, {
+        onSettled: () => setLocation("/")
+      });
     } else {
       setIsAuthModalOpen(true);
     }
@@ -90,9 +94,12 @@ export default function Header({ minimal = false }: HeaderProps) {
   // Navigation links configuration
   const navLinks = [
     { name: "Home", path: "/" },
+    { name: "Life Story", path: "/story" },
     { name: "Gallery", path: "/gallery" },
     { name: "Tributes", path: "/#tributes" },
     { name: "Funeral Program", path: "/program" },
+    { name: "Livestream", path: "/live" },
+    { name: "Guestbook", path: "/guestbook" },
   ];
 
   // Helper function to determine if a nav link is active
@@ -113,7 +120,7 @@ export default function Header({ minimal = false }: HeaderProps) {
         targetElement.scrollIntoView({ behavior: 'smooth' });
         
         // Update the URL without triggering a route change
-        window.history.pushState(null, '', path);
+        window.history.pushState(null, '', `#${targetId}`);
       }
     }
   };
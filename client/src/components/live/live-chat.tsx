@@ -0,0 +1,274 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { LiveChat as LiveChatData, LiveChatMessage } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { Eye, EyeOff, Loader2, Lock, LockOpen, Pin, PinOff, Send } from "lucide-react";
+import AuthModal from "@/components/auth/auth-modal";
+
+// Close enough to the bottom that new messages should scroll into view
+const STICK_TO_BOTTOM_PX = 80;
+
+interface ChatMessageProps {
+  message: LiveChatMessage;
+  canModerate: boolean;
+  onChange: (message: LiveChatMessage, changes: { pinned?: boolean; hidden?: boolean }) => void;
+}
+
+function ChatMessage({ message, canModerate, onChange }: ChatMessageProps) {
+  return (
+    <li className={`group py-2 ${message.hidden ? "opacity-50" : ""}`}>
+      <div className="flex items-baseline gap-2">
+        <span className="font-semibold text-sm">{message.user?.name || "Anonymous"}</span>
+        <span className="text-xs text-gray-500">{format(new Date(message.createdAt), "h:mm a")}</span>
+        {message.hidden && <Badge variant="outline" className="text-xs">Hidden</Badge>}
+        {canModerate && (
+          <span className="ml-auto flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => onChange(message, { pinned: !message.pinned })}
+              aria-label={message.pinned ? "Unpin message" : "Pin message"}
+            >
+              {message.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => onChange(message, { hidden: !message.hidden })}
+              aria-label={message.hidden ? "Show message" : "Hide message"}
+            >
+              {message.hidden ? <Eye className="h-3.5 w-3.5" /> : <EyeOff className="h-3.5 w-3.5" />}
+            </Button>
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-800 whitespace-pre-line break-words">{message.content}</p>
+    </li>
+  );
+}
+
+export default function LiveChat() {
+  const { apiPath, isMemorialAdmin } = useMemorial();
+  const { isLoggedIn } = useAuth();
+  const { toast } = useToast();
+  const [content, setContent] = useState("");
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const listRef = useRef<HTMLOListElement>(null);
+  const isAtBottom = useRef(true);
+  
+  const chatPath = apiPath("/live/chat");
+  
+  const { data: chat, isLoading } = useQuery<LiveChatData>({
+    queryKey: [chatPath],
+  });
+  
+  const updateChat = (change: (chat: LiveChatData) => LiveChatData) => {
+    queryClient.setQueryData<LiveChatData>([chatPath], (data) => data && change(data));
+  };
+  
+  // Changed messages are replaced in place; new or unhidden ones are slotted
+  // in by id, which follows the order they were sent
+  const upsertMessage = (message: LiveChatMessage) => updateChat(data => ({
+    ...data,
+    messages: data.messages.some(existing => existing.id === message.id)
+      ? data.messages.map(existing => existing.id === message.id ? message : existing)
+      : [...data.messages, message].sort((a, b) => a.id - b.id)
+  }));
+  
+  useLiveUpdates((update) => {
+    switch (update.type) {
+      case "chat.message":
+        upsertMessage(update.message);
+        break;
+      case "chat.hidden":
+        // Admins keep hidden messages, greyed out
+        updateChat(data => ({
+          ...data,
+          messages: isMemorialAdmin
+            ? data.messages.map(message => message.id === update.messageId ? { ...message, hidden: true } : message)
+            : data.messages.filter(message => message.id !== update.messageId)
+        }));
+        break;
+      case "chat.status":
+        updateChat(data => ({ ...data, closed: update.closed }));
+        break;
+    }
+  }, () => queryClient.invalidateQueries({ queryKey: [chatPath] }));
+  
+  const messageCount = chat?.messages.length || 0;
+  useEffect(() => {
+    if (listRef.current && isAtBottom.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messageCount]);
+  
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (list) {
+      isAtBottom.current = list.scrollHeight - list.scrollTop - list.clientHeight < STICK_TO_BOTTOM_PX;
+    }
+  };
+  
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest("POST", chatPath, { content });
+      return res.json();
+    },
+    onSuccess: (message: LiveChatMessage) => {
+      isAtBottom.current = true;
+      upsertMessage(message);
+      setContent("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const moderateMutation = useMutation({
+    mutationFn: async ({ message, changes }: { message: LiveChatMessage; changes: { pinned?: boolean; hidden?: boolean } }) => {
+      const res = await apiRequest("PUT", apiPath(`/live/chat/${message.id}`), changes);
+      return res.json();
+    },
+    onSuccess: (message: LiveChatMessage) => upsertMessage(message),
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const statusMutation = useMutation({
+    mutationFn: async (closed: boolean) => {
+      const res = await apiRequest("PUT", apiPath("/live/chat-status"), { closed });
+      return res.json();
+    },
+    onSuccess: ({ closed }: { closed: boolean }) => {
+      updateChat(data => ({ ...data, closed }));
+      toast({
+        title: closed ? "Chat closed" : "Chat reopened",
+        description: closed
+          ? "Messages are kept, but no one can send new ones."
+          : "Signed-in visitors can send messages again.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update chat",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+    sendMutation.mutate(content.trim());
+  };
+  
+  const handleModerate = (message: LiveChatMessage, changes: { pinned?: boolean; hidden?: boolean }) => {
+    moderateMutation.mutate({ message, changes });
+  };
+  
+  const pinned = chat?.messages.filter(message => message.pinned && !message.hidden) || [];
+  
+  return (
+    <div className="bg-white rounded-lg shadow-md flex flex-col h-full min-h-[28rem]">
+      <div className="flex items-center justify-between border-b border-gray-200 px-4 py-3">
+        <h2 className="text-lg font-heading font-bold">Condolences</h2>
+        {isMemorialAdmin && chat && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => statusMutation.mutate(!chat.closed)}
+            disabled={statusMutation.isPending}
+          >
+            {chat.closed ? <LockOpen className="mr-1 h-4 w-4" /> : <Lock className="mr-1 h-4 w-4" />}
+            {chat.closed ? "Reopen chat" : "Close chat"}
+          </Button>
+        )}
+      </div>
+      
+      {pinned.length > 0 && (
+        <ul className="border-b border-amber-200 bg-amber-50 px-4 divide-y divide-amber-100">
+          {pinned.map(message => (
+            <li key={message.id} className="py-2 text-sm">
+              <Pin className="inline h-3 w-3 mr-1 text-amber-600" />
+              <span className="font-semibold">{message.user?.name || "Anonymous"}:</span>{" "}
+              <span className="text-gray-800">{message.content}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      
+      {isLoading ? (
+        <div className="flex flex-grow justify-center items-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : messageCount === 0 ? (
+        <div className="flex flex-grow items-center justify-center p-6 text-center">
+          <p className="text-gray-500 text-sm">No messages yet. Share a few words with the family.</p>
+        </div>
+      ) : (
+        <ol
+          ref={listRef}
+          onScroll={handleScroll}
+          className="flex-grow overflow-y-auto px-4 max-h-[28rem] divide-y divide-gray-100"
+          aria-live="polite"
+        >
+          {chat!.messages.map(message => (
+            <ChatMessage
+              key={message.id}
+              message={message}
+              canModerate={isMemorialAdmin}
+              onChange={handleModerate}
+            />
+          ))}
+        </ol>
+      )}
+      
+      <div className="border-t border-gray-200 p-3">
+        {chat?.closed ? (
+          <p className="text-sm text-gray-500 text-center">
+            The chat is closed. Thank you to everyone who shared their condolences.
+          </p>
+        ) : isLoggedIn ? (
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="Write a message"
+              maxLength={500}
+              aria-label="Chat message"
+            />
+            <Button type="submit" disabled={sendMutation.isPending || !content.trim()} aria-label="Send message">
+              {sendMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </form>
+        ) : (
+          <Button variant="outline" className="w-full" onClick={() => setIsAuthModalOpen(true)}>
+            Sign in to join the chat
+          </Button>
+        )}
+      </div>
+      
+      <AuthModal isOpen={isAuthModalOpen} onClose={() => setIsAuthModalOpen(false)} />
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { format } from "date-fns";
+
+const UNITS = [
+  { label: "days", ms: 24 * 60 * 60 * 1000 },
+  { label: "hours", ms: 60 * 60 * 1000 },
+  { label: "minutes", ms: 60 * 1000 },
+  { label: "seconds", ms: 1000 },
+];
+
+interface ServiceCountdownProps {
+  startsAt: Date;
+  now: Date;
+}
+
+export default function ServiceCountdown({ startsAt, now }: ServiceCountdownProps) {
+  let remaining = Math.max(0, startsAt.getTime() - now.getTime());
+  const parts = UNITS.map(unit => {
+    const value = Math.floor(remaining / unit.ms);
+    remaining -= value * unit.ms;
+    return { label: unit.label, value };
+  });
+  
+  return (
+    <div className="aspect-video w-full flex flex-col items-center justify-center rounded-lg bg-neutral-800 p-6 text-center text-white shadow-md">
+      <p className="text-lg mb-6">The stream begins {format(startsAt, "EEEE, MMMM d 'at' h:mm a")}</p>
+      <div className="flex gap-4 md:gap-8" role="timer" aria-live="off">
+        {parts.map(part => (
+          <div key={part.label} className="min-w-16">
+            <div className="text-4xl md:text-6xl font-heading font-bold tabular-nums">
+              {part.value.toString().padStart(2, "0")}
+            </div>
+            <div className="text-xs uppercase tracking-wide text-gray-300">{part.label}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { StreamEmbed } from "@/lib/livestream";
+import { Button } from "@/components/ui/button";
+import { ExternalLink } from "lucide-react";
+
+// Safari and most mobile browsers play HLS natively; elsewhere the stream
+// opens in a new tab instead
+function canPlayHls() {
+  return document.createElement("video").canPlayType("application/vnd.apple.mpegurl") !== "";
+}
+
+interface StreamPlayerProps {
+  embed: StreamEmbed;
+  title: string;
+}
+
+export default function StreamPlayer({ embed, title }: StreamPlayerProps) {
+  if (embed.kind === "youtube" || embed.kind === "vimeo") {
+    return (
+      <div className="aspect-video w-full overflow-hidden rounded-lg bg-black shadow-md">
+        <iframe
+          src={embed.embedUrl}
+          title={title}
+          className="h-full w-full"
+          allow="autoplay; fullscreen; picture-in-picture; encrypted-media"
+          allowFullScreen
+        />
+      </div>
+    );
+  }
+  
+  if (embed.kind === "hls" && canPlayHls()) {
+    return (
+      <div className="aspect-video w-full overflow-hidden rounded-lg bg-black shadow-md">
+        <video src={embed.url} title={title} className="h-full w-full" controls playsInline />
+      </div>
+    );
+  }
+  
+  return (
+    <div className="aspect-video w-full flex flex-col items-center justify-center gap-4 rounded-lg bg-neutral-800 p-6 text-center text-white shadow-md">
+      <p>The stream can't be played on this page, but you can watch it on the streaming site.</p>
+      <Button variant="secondary" className="text-white hover:bg-opacity-90" asChild>
+        <a href={embed.url} target="_blank" rel="noopener noreferrer">
+          <ExternalLink className="mr-2 h-4 w-4" /> Open the stream
+        </a>
+      </Button>
+    </div>
+  );
+}
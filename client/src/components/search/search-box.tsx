@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { SearchResult, SearchResultType } from "@/lib/types";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { useMemorial } from "@/hooks/use-memorial";
+import { Loader2, Search, X } from "lucide-react";
+
+// How long typing has to pause before a search is sent
+const SEARCH_DELAY_MS = 300;
+
+const RESULT_LABELS: Record<SearchResultType, string> = {
+  tribute: "Memory",
+  comment: "Comment",
+  image: "Photo",
+};
+
+// Renders a server snippet, turning its <mark> tags into highlights without
+// treating the rest of the visitor-written text as HTML
+export function HighlightedSnippet({ snippet }: { snippet: string }) {
+  const parts = snippet.split(/<mark>(.*?)<\/mark>/g);
+  
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-yellow-200 rounded-sm px-0.5">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
+
+interface SearchBoxProps {
+  types: SearchResultType[];
+  placeholder: string;
+  onSelect: (result: SearchResult) => void;
+}
+
+export default function SearchBox({ types, placeholder, onSelect }: SearchBoxProps) {
+  const { apiPath } = useMemorial();
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [input]);
+  
+  const searchParams = new URLSearchParams({ q: query, types: types.join(",") });
+  const { data: results, isFetching } = useQuery<SearchResult[]>({
+    queryKey: [apiPath(`/search?${searchParams}`)],
+    enabled: query.length > 0,
+  });
+  
+  const clearSearch = () => {
+    setInput("");
+    setQuery("");
+  };
+  
+  return (
+    <div className="max-w-3xl mx-auto mb-8">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <Input
+          type="search"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === "Escape" && clearSearch()}
+          placeholder={placeholder}
+          className="pl-9 pr-9"
+          maxLength={200}
+          aria-label={placeholder}
+        />
+        {isFetching ? (
+          <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-gray-400" />
+        ) : input && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="absolute right-1 top-1/2 -translate-y-1/2 h-7 w-7 p-0"
+            onClick={clearSearch}
+            aria-label="Clear search"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      
+      {query && results && (
+        <div className="mt-2 border border-gray-200 rounded-lg bg-white shadow-sm" aria-live="polite">
+          {results.length === 0 ? (
+            <p className="p-4 text-sm text-gray-500">No matches for "{query}".</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+              {results.map((result) => (
+                <li key={`${result.type}:${result.id}`}>
+                  <button
+                    type="button"
+                    className="w-full text-left p-4 flex gap-3 hover:bg-neutral-100 focus:bg-neutral-100 focus:outline-none"
+                    onClick={() => onSelect(result)}
+                  >
+                    {result.imageUrl && (
+                      <img src={result.imageUrl} alt="" className="h-12 w-12 rounded object-cover shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-xs text-gray-500 mb-1">
+                        {RESULT_LABELS[result.type]}
+                        {result.authorName && <> by {result.authorName}</>}
+                      </p>
+                      <p className="text-sm text-gray-800">
+                        <HighlightedSnippet snippet={result.snippet} />
+                      </p>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
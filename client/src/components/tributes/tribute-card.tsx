@@ -1,23 +1,22 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
 import { TributeItem } from "@/lib/types";
-import { Flame } from "lucide-react";
+import { MessageCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useAuth } from "@/hooks/use-auth";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { formatDistanceToNow } from "date-fns";
-import AuthModal from "@/components/auth/auth-modal";
+import TributeComments from "./tribute-comments";
+import TributeReactions from "./tribute-reactions";
 
 interface TributeCardProps {
   tribute: TributeItem;
   onUpdate: () => void;
+  // Makes the author's name a link that shows only their tributes
+  onAuthorClick?: (userId: number) => void;
 }
 
-export default function TributeCard({ tribute, onUpdate }: TributeCardProps) {
-  const { isLoggedIn, user } = useAuth();
-  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
-  const { toast } = useToast();
+export default function TributeCard({ tribute, onUpdate, onAuthorClick }: TributeCardProps) {
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false);
   
   const createdAtDate = new Date(tribute.createdAt);
   const formattedDate = createdAtDate.toLocaleDateString("en-US", {
@@ -27,33 +26,7 @@ export default function TributeCard({ tribute, onUpdate }: TributeCardProps) {
   });
   
   const timeAgo = formatDistanceToNow(createdAtDate, { addSuffix: true });
-  
-  const candleMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest("POST", `/api/tributes/${tribute.id}/candle`);
-      return res.json();
-    },
-    onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/tributes"] });
-      onUpdate();
-    },
-    onError: (error: Error) => {
-      toast({
-        title: "Failed to light candle",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-  
-  const handleCandleToggle = () => {
-    if (!isLoggedIn) {
-      setIsAuthModalOpen(true);
-      return;
-    }
-    
-    candleMutation.mutate();
-  };
+  const isPending = tribute.status === "pending";
   
   const userInitials = tribute.user?.name 
     ? tribute.user.name.split(" ").map(n => n[0]).join("").toUpperCase()
@@ -73,9 +46,25 @@ export default function TributeCard({ tribute, onUpdate }: TributeCardProps) {
           {userInitials}
         </div>
         <div>
-          <p className="font-semibold">{tribute.user?.name || "Anonymous"}</p>
+          {onAuthorClick && tribute.user ? (
+            <button
+              type="button"
+              className="font-semibold hover:underline"
+              onClick={() => onAuthorClick(tribute.userId)}
+              title={`Show memories from ${tribute.user.name}`}
+            >
+              {tribute.user.name}
+            </button>
+          ) : (
+            <p className="font-semibold">{tribute.user?.name || "Anonymous"}</p>
+          )}
           <p className="text-sm text-gray-500">{formattedDate}</p>
         </div>
+        {isPending && (
+          <Badge variant="outline" className="ml-auto text-gray-600">
+            Awaiting review
+          </Badge>
+        )}
       </div>
       
       <p className="mb-6 whitespace-pre-line">{tribute.content}</p>
@@ -90,7 +79,19 @@ export default function TributeCard({ tribute, onUpdate }: TributeCardProps) {
         </div>
       )}
       
-      {tribute.mediaUrl && tribute.mediaType === "video" && (
+      {tribute.mediaUrl && tribute.mediaType === "video" && tribute.mediaUrl.startsWith("/uploads/") && (
+        <div className="rounded-lg overflow-hidden bg-gray-900 mb-6 flex items-center justify-center">
+          <video
+            src={tribute.mediaUrl}
+            controls
+            preload="metadata"
+            className="w-full max-h-[480px]"
+          />
+        </div>
+      )}
+      
+      {/* Older tributes link to embeddable videos hosted elsewhere */}
+      {tribute.mediaUrl && tribute.mediaType === "video" && !tribute.mediaUrl.startsWith("/uploads/") && (
         <div className="aspect-w-16 aspect-h-9 rounded-lg overflow-hidden bg-gray-900 mb-6 flex items-center justify-center">
           <iframe
             src={tribute.mediaUrl}
@@ -102,23 +103,26 @@ export default function TributeCard({ tribute, onUpdate }: TributeCardProps) {
         </div>
       )}
       
-      <div className="flex justify-between items-center">
-        <Button
-          variant={tribute.hasLitCandle ? "secondary" : "outline"}
-          className={`inline-flex items-center ${tribute.hasLitCandle ? "bg-memorial-blue text-white" : "text-gray-700 bg-white"} hover:bg-memorial-blue hover:text-white transition`}
-          onClick={handleCandleToggle}
-          disabled={candleMutation.isPending}
-        >
-          <Flame className={`mr-2 ${tribute.hasLitCandle ? "fill-white" : ""}`} /> 
-          {tribute.hasLitCandle ? "Candle Lit" : "Light a Candle"} <span className="ml-2">({tribute.candleCount})</span>
-        </Button>
-        <span className="text-sm text-gray-500">{timeAgo}</span>
-      </div>
-      
-      <AuthModal
-        isOpen={isAuthModalOpen}
-        onClose={() => setIsAuthModalOpen(false)}
-      />
+      <Collapsible open={isCommentsOpen} onOpenChange={setIsCommentsOpen}>
+        <div className="flex justify-between items-center gap-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <TributeReactions tribute={tribute} disabled={isPending} onUpdate={onUpdate} />
+            {!isPending && (
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" className="inline-flex items-center text-gray-700">
+                  <MessageCircle className="mr-2" />
+                  {isCommentsOpen ? "Hide Comments" : "Comments"} <span className="ml-2">({tribute.commentCount ?? 0})</span>
+                </Button>
+              </CollapsibleTrigger>
+            )}
+          </div>
+          <span className="text-sm text-gray-500">{timeAgo}</span>
+        </div>
+        
+        <CollapsibleContent>
+          <TributeComments tributeId={tribute.id} />
+        </CollapsibleContent>
+      </Collapsible>
     </div>
   );
 }
@@ -0,0 +1,217 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TributeComment, TributeCommentThread } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Reply, Trash2 } from "lucide-react";
+import AuthModal from "@/components/auth/auth-modal";
+
+interface TributeCommentsProps {
+  tributeId: number;
+}
+
+interface CommentFormProps {
+  placeholder: string;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (content: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+function CommentForm({ placeholder, submitLabel, isPending, onSubmit, onCancel }: CommentFormProps) {
+  const [content, setContent] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    onSubmit(content.trim()).then(() => setContent(""), () => {});
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <Textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder={placeholder}
+        rows={2}
+        maxLength={2000}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isPending || !content.trim()}>
+          {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default function TributeComments({ tributeId }: TributeCommentsProps) {
+  const { apiPath, isMemorialAdmin } = useMemorial();
+  const { isLoggedIn, user } = useAuth();
+  const { toast } = useToast();
+  const [replyingTo, setReplyingTo] = useState<number | null>(null);
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+
+  const commentsPath = apiPath(`/tributes/${tributeId}/comments`);
+
+  const { data: threads, isLoading } = useQuery<TributeCommentThread[]>({
+    queryKey: [commentsPath],
+  });
+
+  // The tribute list carries the comment counts shown on each card
+  const refreshComments = () => {
+    queryClient.invalidateQueries({ queryKey: [commentsPath] });
+    queryClient.invalidateQueries({ queryKey: [apiPath("/tributes")] });
+  };
+
+  const addCommentMutation = useMutation({
+    mutationFn: async ({ content, parentId }: { content: string; parentId?: number }) => {
+      const res = await apiRequest("POST", commentsPath, { content, parentId });
+      return res.json();
+    },
+    onSuccess: (comment: TributeComment) => {
+      refreshComments();
+      setReplyingTo(null);
+      if (comment.status === "pending") {
+        toast({
+          title: "Comment submitted",
+          description: "Your comment will appear once it has been reviewed.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to post comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteCommentMutation = useMutation({
+    mutationFn: async (commentId: number) => {
+      await apiRequest("DELETE", `${commentsPath}/${commentId}`);
+    },
+    onSuccess: () => {
+      refreshComments();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderComment = (comment: TributeComment, canReply: boolean) => {
+    const canDelete = isLoggedIn && (comment.userId === user?.id || isMemorialAdmin);
+
+    return (
+      <div>
+        <div className="flex items-baseline gap-2">
+          <span className="font-semibold text-sm">{comment.user?.name || "Anonymous"}</span>
+          <span className="text-xs text-gray-500">
+            {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+          </span>
+          {comment.status === "pending" && (
+            <Badge variant="outline" className="text-xs text-gray-600">
+              Awaiting review
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm whitespace-pre-line mt-1">{comment.content}</p>
+        <div className="flex gap-1 mt-1">
+          {canReply && comment.status === "approved" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-gray-600"
+              onClick={() => isLoggedIn ? setReplyingTo(comment.id) : setIsAuthModalOpen(true)}
+            >
+              <Reply className="h-3 w-3 mr-1" /> Reply
+            </Button>
+          )}
+          {canDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-gray-600"
+              onClick={() => deleteCommentMutation.mutate(comment.id)}
+              disabled={deleteCommentMutation.isPending}
+            >
+              <Trash2 className="h-3 w-3 mr-1" /> Delete
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="border-t pt-4 mt-4 space-y-4">
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : threads && threads.length > 0 ? (
+        threads.map((thread) => (
+          <div key={thread.id}>
+            {renderComment(thread, true)}
+
+            {(thread.replies.length > 0 || replyingTo === thread.id) && (
+              <div className="ml-4 mt-3 pl-4 border-l-2 border-gray-200 space-y-3">
+                {thread.replies.map((reply) => (
+                  <div key={reply.id}>{renderComment(reply, false)}</div>
+                ))}
+
+                {replyingTo === thread.id && (
+                  <CommentForm
+                    placeholder={`Reply to ${thread.user?.name || "this comment"}...`}
+                    submitLabel="Reply"
+                    isPending={addCommentMutation.isPending}
+                    onSubmit={(content) => addCommentMutation.mutateAsync({ content, parentId: thread.id })}
+                    onCancel={() => setReplyingTo(null)}
+                  />
+                )}
+              </div>
+            )}
+          </div>
+        ))
+      ) : (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      )}
+
+      {isLoggedIn ? (
+        <CommentForm
+          placeholder="Add a comment..."
+          submitLabel="Post Comment"
+          isPending={addCommentMutation.isPending && replyingTo === null}
+          onSubmit={(content) => addCommentMutation.mutateAsync({ content })}
+        />
+      ) : (
+        <Button variant="link" className="p-0 h-auto" onClick={() => setIsAuthModalOpen(true)}>
+          Sign in to join the conversation
+        </Button>
+      )}
+
+      <AuthModal
+        isOpen={isAuthModalOpen}
+        onClose={() => setIsAuthModalOpen(false)}
+      />
+    </div>
+  );
+}
@@ -1,13 +1,20 @@
-import { useState } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Image, Video } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
+import { Upload } from "lucide-react";
+import { apiRequest, uploadWithProgress } from "@/lib/queryClient";
 import AuthModal from "@/components/auth/auth-modal";
-import {SiteSettings } from "@/lib/types";
+import { SiteSettings, TributeItem } from "@/lib/types";
+import { useMemorial } from "@/hooks/use-memorial";
+
+// Mirrors the per-type limits enforced by POST /api/m/:slug/tributes/upload
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const MAX_VIDEO_SIZE = 100 * 1024 * 1024;
+const ACCEPTED_MEDIA_TYPES = "image/*,video/mp4,video/webm,video/quicktime";
 
 interface TributeFormProps {
   onTributePosted: () => void;
@@ -15,30 +22,45 @@ interface TributeFormProps {
 }
 
 export default function TributeForm({ onTributePosted, visible }: TributeFormProps) {
+  const { apiPath } = useMemorial();
   const { isLoggedIn, user } = useAuth();
   const [content, setContent] = useState("");
   const [mediaUrl, setMediaUrl] = useState("");
   const [mediaType, setMediaType] = useState<"image" | "video" | null>(null);
+  const [previewUrl, setPreviewUrl] = useState("");
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  // Release the local preview when it is replaced or the form unmounts
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const isUploading = uploadProgress !== null;
+
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   const tributeMutation = useMutation({
     mutationFn: async (formData: { content: string; mediaUrl?: string; mediaType?: string }) => {
-      const res = await apiRequest("POST", "/api/tributes", formData);
+      const res = await apiRequest("POST", apiPath("/tributes"), formData);
       return res.json();
     },
-    onSuccess: () => {
+    onSuccess: (tribute: TributeItem) => {
       toast({
         title: "Memory shared",
-        description: "Your memory has been posted to the tribute wall.",
+        description: tribute.status === "pending"
+          ? "Thank you. Your memory will appear on the tribute wall once the family has reviewed it."
+          : "Your memory has been posted to the tribute wall.",
       });
       // Reset form
       setContent("");
-      setMediaUrl("");
-      setMediaType(null);
+      clearMedia();
       // Refresh tributes
       onTributePosted();
     },
@@ -70,11 +92,74 @@ export default function TributeForm({ onTributePosted, visible }: TributeFormPro
     tributeMutation.mutate(formData);
   };
 
-  const handleAddMedia = (type: "image" | "video") => {
-    const url = prompt(`Enter the URL for your ${type}:`);
-    if (url) {
-      setMediaUrl(url);
-      setMediaType(type);
+  const clearMedia = () => {
+    setMediaUrl("");
+    setMediaType(null);
+    setPreviewUrl("");
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleMediaFile = async (file: File) => {
+    const type = file.type.startsWith("image/") 
+      ? "image" 
+      : file.type.startsWith("video/") ? "video" : null;
+    
+    if (!type) {
+      toast({
+        title: "Unsupported file",
+        description: "Please choose a photo or a video.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    if (file.size > (type === "image" ? MAX_IMAGE_SIZE : MAX_VIDEO_SIZE)) {
+      toast({
+        title: "File too large",
+        description: type === "image" 
+          ? "Photos must be 10MB or smaller." 
+          : "Videos must be 100MB or smaller.",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    clearMedia();
+    setPreviewUrl(URL.createObjectURL(file));
+    setMediaType(type);
+    setUploadProgress(0);
+    
+    try {
+      const formData = new FormData();
+      formData.append("media", file);
+      
+      const result = await uploadWithProgress<{ mediaUrl: string; mediaType: "image" | "video" }>(
+        apiPath("/tributes/upload"),
+        formData,
+        setUploadProgress
+      );
+      
+      setMediaUrl(result.mediaUrl);
+      setMediaType(result.mediaType);
+    } catch (error) {
+      clearMedia();
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    
+    const file = e.dataTransfer.files?.[0];
+    if (file && !isUploading) {
+      handleMediaFile(file);
     }
   };
 
@@ -120,70 +205,81 @@ export default function TributeForm({ onTributePosted, visible }: TributeFormPro
             onChange={(e) => setContent(e.target.value)}
           />
           
-          {mediaUrl && (
-            <div className="mb-4 p-2 border rounded-lg">
-              {mediaType === "image" ? (
-                <div className="relative">
+          {previewUrl ? (
+            <div className="mb-6 p-2 border rounded-lg bg-white">
+              <div className="relative">
+                {mediaType === "image" ? (
                   <img 
-                    src={mediaUrl} 
+                    src={previewUrl} 
                     alt="Attached media" 
                     className="max-h-48 rounded"
                   />
+                ) : (
+                  <video 
+                    src={previewUrl} 
+                    className="max-h-48 rounded bg-gray-900" 
+                    controls 
+                    muted
+                  />
+                )}
+                {!isUploading && (
                   <Button
+                    type="button"
                     variant="destructive"
                     size="sm"
                     className="absolute top-2 right-2"
-                    onClick={() => {
-                      setMediaUrl("");
-                      setMediaType(null);
-                    }}
-                  >
-                    Remove
-                  </Button>
-                </div>
-              ) : (
-                <div className="bg-gray-900 text-white p-4 rounded text-center">
-                  <p>Video URL: {mediaUrl}</p>
-                  <Button
-                    variant="destructive"
-                    size="sm"
-                    className="mt-2"
-                    onClick={() => {
-                      setMediaUrl("");
-                      setMediaType(null);
-                    }}
+                    onClick={clearMedia}
                   >
                     Remove
                   </Button>
+                )}
+              </div>
+              {isUploading && (
+                <div className="mt-2">
+                  <Progress value={uploadProgress} className="h-2" />
+                  <p className="text-xs text-gray-500 mt-1">Uploading... {uploadProgress}%</p>
                 </div>
               )}
             </div>
+          ) : (
+            <div
+              className={`mb-6 p-6 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors ${
+                isDragging ? "border-primary bg-white" : "border-gray-300 hover:border-primary"
+              }`}
+              onClick={() => fileInputRef.current?.click()}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragging(true);
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+            >
+              <Upload className="mx-auto h-6 w-6 text-gray-400 mb-2" />
+              <p className="text-gray-600">
+                Drag a photo or video here, or <span className="text-primary font-semibold">browse</span>
+              </p>
+              <p className="text-xs text-gray-500 mt-1">
+                Photos up to 10MB, videos (MP4, WebM, MOV) up to 100MB
+              </p>
+            </div>
           )}
           
-          <div className="flex flex-wrap gap-4 mb-6">
-            <Button
-              type="button"
-              variant="outline"
-              className="text-gray-600 hover:text-primary"
-              onClick={() => handleAddMedia("image")}
-            >
-              <Image className="mr-2 h-4 w-4" /> Add Photo
-            </Button>
-            <Button
-              type="button"
-              variant="outline"
-              className="text-gray-600 hover:text-primary"
-              onClick={() => handleAddMedia("video")}
-            >
-              <Video className="mr-2 h-4 w-4" /> Add Video
-            </Button>
-          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_MEDIA_TYPES}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleMediaFile(file);
+            }}
+          />
           
           <div className="flex justify-end">
             <Button
               type="submit"
               className="bg-primary text-white hover:bg-opacity-90"
-              disabled={tributeMutation.isPending}
+              disabled={tributeMutation.isPending || isUploading}
             >
               {tributeMutation.isPending ? "Posting..." : "Post Memory"}
             </Button>
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ReactionGroup, ReactionKind, SiteSettings, TributeItem } from "@/lib/types";
+import { REACTION_OPTIONS, parseEnabledReactions } from "@/lib/constants";
+import { Button } from "@/components/ui/button";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Bird, Flame, Flower2, Heart, Loader2, LucideIcon } from "lucide-react";
+import AuthModal from "@/components/auth/auth-modal";
+
+const REACTION_ICONS: Record<ReactionKind, LucideIcon> = {
+  candle: Flame,
+  flower: Flower2,
+  heart: Heart,
+  dove: Bird,
+};
+
+interface TributeReactionsProps {
+  tribute: TributeItem;
+  disabled?: boolean;
+  onUpdate: () => void;
+}
+
+export default function TributeReactions({ tribute, disabled, onUpdate }: TributeReactionsProps) {
+  const { apiPath } = useMemorial();
+  const { isLoggedIn } = useAuth();
+  const { toast } = useToast();
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
+  // Who reacted is only fetched once someone hovers over a reaction
+  const [showReactors, setShowReactors] = useState(false);
+  
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+  
+  const reactionsPath = apiPath(`/tributes/${tribute.id}/reactions`);
+  
+  const { data: reactors, isLoading: isLoadingReactors } = useQuery<ReactionGroup[]>({
+    queryKey: [reactionsPath],
+    enabled: showReactors,
+  });
+  
+  const reactionMutation = useMutation({
+    mutationFn: async (kind: ReactionKind) => {
+      const res = await apiRequest("POST", `${reactionsPath}/${kind}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [apiPath("/tributes")] });
+      queryClient.invalidateQueries({ queryKey: [reactionsPath] });
+      onUpdate();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update reaction",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const enabledKinds = parseEnabledReactions(settings?.enabledReactions);
+  const myReactions = tribute.myReactions || [];
+  
+  // Switched-off reactions stay visible while they have counts, but can only be taken back
+  const options = REACTION_OPTIONS.filter(({ kind }) =>
+    enabledKinds.includes(kind) || (tribute.reactionCounts[kind] || 0) > 0
+  );
+  
+  const handleReaction = (kind: ReactionKind) => {
+    if (!isLoggedIn) {
+      setIsAuthModalOpen(true);
+      return;
+    }
+    
+    reactionMutation.mutate(kind);
+  };
+  
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {options.map(({ kind, name, label, activeLabel }, index) => {
+        const Icon = REACTION_ICONS[kind];
+        const count = tribute.reactionCounts[kind] || 0;
+        const hasReacted = myReactions.includes(kind);
+        const canToggle = enabledKinds.includes(kind) || hasReacted;
+        const users = reactors?.find(group => group.kind === kind)?.users || [];
+        
+        return (
+          <HoverCard key={kind} openDelay={300} onOpenChange={(open) => open && count > 0 && setShowReactors(true)}>
+            <HoverCardTrigger asChild>
+              <Button
+                variant={hasReacted ? "secondary" : "outline"}
+                size={index === 0 ? "default" : "sm"}
+                className={`inline-flex items-center ${hasReacted ? "bg-memorial-blue text-white" : "text-gray-700 bg-white"} hover:bg-memorial-blue hover:text-white transition`}
+                onClick={() => handleReaction(kind)}
+                disabled={reactionMutation.isPending || disabled || !canToggle}
+                aria-pressed={hasReacted}
+                aria-label={`${hasReacted ? activeLabel : label} (${count})`}
+              >
+                <Icon className={`mr-2 h-4 w-4 ${hasReacted ? "fill-white" : ""}`} />
+                {/* The first reaction keeps its full label; the rest show an icon and count */}
+                {index === 0 && <span className="mr-2">{hasReacted ? activeLabel : label}</span>}
+                <span>{index === 0 ? `(${count})` : count}</span>
+              </Button>
+            </HoverCardTrigger>
+            {count > 0 && (
+              <HoverCardContent className="w-56 p-3">
+                <p className="text-sm font-semibold mb-1">{name}</p>
+                {isLoadingReactors ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                ) : (
+                  <ul className="text-sm text-gray-600 space-y-0.5 max-h-48 overflow-y-auto">
+                    {users.map(user => (
+                      <li key={user.id}>{user.name}</li>
+                    ))}
+                    {/* Counts from before reactions were tracked per person have no names */}
+                    {count > users.length && (
+                      <li className="text-gray-500">
+                        {users.length > 0 ? `and ${count - users.length} more` : `${count} visitors`}
+                      </li>
+                    )}
+                  </ul>
+                )}
+              </HoverCardContent>
+            )}
+          </HoverCard>
+        );
+      })}
+      
+      <AuthModal
+        isOpen={isAuthModalOpen}
+        onClose={() => setIsAuthModalOpen(false)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+import { useLocation, useSearch } from "wouter";
+import { TributeFilters, TributeMediaFilter, TributeSort } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+
+const SORT_OPTIONS: { value: TributeSort; label: string }[] = [
+  { value: "newest", label: "Newest first" },
+  { value: "oldest", label: "Oldest first" },
+  { value: "candles", label: "Most candles" },
+];
+
+const MEDIA_OPTIONS: { value: TributeMediaFilter; label: string }[] = [
+  { value: "all", label: "All memories" },
+  { value: "any", label: "With photos or videos" },
+  { value: "image", label: "Photos" },
+  { value: "video", label: "Videos" },
+  { value: "none", label: "Text only" },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The wall's sort and filters live in the page URL so a filtered view can be
+// shared or bookmarked and survives a reload
+export function useTributeFilters(): [TributeFilters, (filters: TributeFilters) => void] {
+  const search = useSearch();
+  const [location, setLocation] = useLocation();
+  const params = new URLSearchParams(search);
+  
+  const sort = params.get("sort");
+  const media = params.get("media");
+  const author = parseInt(params.get("author") || "");
+  const from = params.get("from");
+  const to = params.get("to");
+  
+  const filters: TributeFilters = {
+    sort: SORT_OPTIONS.some(option => option.value === sort) ? sort as TributeSort : "newest",
+    media: MEDIA_OPTIONS.some(option => option.value === media) ? media as TributeMediaFilter : "all",
+    author: author > 0 ? author : undefined,
+    from: from && DATE_PATTERN.test(from) ? from : undefined,
+    to: to && DATE_PATTERN.test(to) ? to : undefined,
+  };
+  
+  const setFilters = (next: TributeFilters) => {
+    // Other parameters on the page are left alone
+    const nextParams = new URLSearchParams(search);
+    const entries: [string, string | undefined][] = [
+      ["sort", next.sort === "newest" ? undefined : next.sort],
+      ["media", next.media === "all" ? undefined : next.media],
+      ["author", next.author?.toString()],
+      ["from", next.from],
+      ["to", next.to],
+    ];
+    entries.forEach(([key, value]) => value ? nextParams.set(key, value) : nextParams.delete(key));
+    
+    const query = nextParams.toString();
+    setLocation(query ? `${location}?${query}` : location, { replace: true });
+  };
+  
+  return [filters, setFilters];
+}
+
+// Query string for GET /tributes matching the chosen filters
+export function tributeFilterParams(filters: TributeFilters) {
+  const params = new URLSearchParams({ sort: filters.sort });
+  
+  if (filters.media === "any" || filters.media === "none") {
+    params.set("hasMedia", String(filters.media === "any"));
+  } else if (filters.media !== "all") {
+    params.set("mediaType", filters.media);
+  }
+  if (filters.author) params.set("author", filters.author.toString());
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  
+  return params;
+}
+
+export function hasActiveFilters(filters: TributeFilters) {
+  return filters.media !== "all" || !!filters.author || !!filters.from || !!filters.to;
+}
+
+interface TributeToolbarProps {
+  filters: TributeFilters;
+  onChange: (filters: TributeFilters) => void;
+  // Shown on the chip for the author filter, when known
+  authorName?: string;
+}
+
+export default function TributeToolbar({ filters, onChange, authorName }: TributeToolbarProps) {
+  const update = (changes: Partial<TributeFilters>) => onChange({ ...filters, ...changes });
+  
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="tributeSort" className="text-xs text-gray-600">Sort</Label>
+          <Select value={filters.sort} onValueChange={(sort) => update({ sort: sort as TributeSort })}>
+            <SelectTrigger id="tributeSort" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-1">
+          <Label htmlFor="tributeMedia" className="text-xs text-gray-600">Show</Label>
+          <Select value={filters.media} onValueChange={(media) => update({ media: media as TributeMediaFilter })}>
+            <SelectTrigger id="tributeMedia" className="w-52">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MEDIA_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        
+        <div className="space-y-1">
+          <Label htmlFor="tributeFrom" className="text-xs text-gray-600">From</Label>
+          <Input
+            id="tributeFrom"
+            type="date"
+            className="w-40"
+            value={filters.from || ""}
+            max={filters.to}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </div>
+        
+        <div className="space-y-1">
+          <Label htmlFor="tributeTo" className="text-xs text-gray-600">To</Label>
+          <Input
+            id="tributeTo"
+            type="date"
+            className="w-40"
+            value={filters.to || ""}
+            min={filters.from}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+          />
+        </div>
+        
+        {hasActiveFilters(filters) && (
+          <Button
+            variant="ghost"
+            className="text-gray-600"
+            onClick={() => onChange({ sort: filters.sort, media: "all" })}
+          >
+            Clear filters
+          </Button>
+        )}
+      </div>
+      
+      {filters.author && (
+        <Badge variant="secondary" className="gap-1 pr-1">
+          By {authorName || "one person"}
+          <button
+            type="button"
+            className="rounded-full p-0.5 hover:bg-gray-300"
+            onClick={() => update({ author: undefined })}
+            aria-label="Show memories from everyone"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </Badge>
+      )}
+    </div>
+  );
+}
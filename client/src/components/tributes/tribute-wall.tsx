@@ -1,18 +1,28 @@
 import { useState } from "react";
 import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
-import { TributeItem, SiteSettings } from "@/lib/types";
+import { TributeItem, TributePage, SiteSettings, SearchResult } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import TributeForm from "./tribute-form";
 import TributeCard from "./tribute-card";
-import { Loader2 } from "lucide-react";
+import SearchBox from "@/components/search/search-box";
+import TributeToolbar, { hasActiveFilters, tributeFilterParams, useTributeFilters } from "./tribute-toolbar";
+import { ArrowLeft, ArrowUp, Loader2 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useLiveTributes } from "@/hooks/use-live-tributes";
 
 export default function TributeWall() {
+  const { apiPath } = useMemorial();
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   const { isLoggedIn } = useAuth();
   const [isFormVisible, setIsFormVisible] = useState(true);
+  // A tribute picked from the search results, shown on its own in place of the feed
+  const [selectedTributeId, setSelectedTributeId] = useState<number | null>(null);
+  const [filters, setFilters] = useTributeFilters();
+  const filterParams = tributeFilterParams(filters).toString();
+  const feedKey = [apiPath("/tributes"), filterParams];
   
   const { 
     data, 
@@ -21,19 +31,46 @@ export default function TributeWall() {
     hasNextPage, 
     isFetchingNextPage,
     refetch
-  } = useInfiniteQuery<TributeItem[]>({
-    queryKey: ["/api/tributes"],
-    queryFn: async ({ pageParam = 0 }) => {
-      const res = await fetch(`/api/tributes?offset=${pageParam}&limit=5`);
+  } = useInfiniteQuery({
+    // Keyed under /tributes so invalidating the feed refreshes every filtered view
+    queryKey: feedKey,
+    queryFn: async ({ pageParam }): Promise<TributePage> => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const res = await fetch(apiPath(`/tributes?${filterParams}&limit=5${cursor}`));
       if (!res.ok) throw new Error("Failed to fetch tributes");
       return res.json();
     },
-    getNextPageParam: (lastPage, allPages) => {
-      return lastPage.length === 5 ? allPages.flat().length : undefined;
-    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
-  const tributes = data?.pages.flat() || [];
+  const tributes = data?.pages.flatMap(page => page.tributes) || [];
+  
+  const { newTributes, showNewTributes } = useLiveTributes({
+    feedKey,
+    tributes,
+    canPrepend: filters.sort === "newest" && !hasActiveFilters(filters),
+  });
+  
+  const handleShowNewTributes = () => {
+    showNewTributes();
+    document.getElementById("tribute-feed")?.scrollIntoView({ behavior: "smooth" });
+  };
+  
+  const { 
+    data: selectedTribute, 
+    isLoading: isLoadingSelected,
+    refetch: refetchSelected
+  } = useQuery<TributeItem>({
+    queryKey: [apiPath(`/tributes/${selectedTributeId}`)],
+    enabled: selectedTributeId !== null,
+  });
+  
+  const handleSearchSelect = (result: SearchResult) => {
+    if (result.tributeId !== null) {
+      setSelectedTributeId(result.tributeId);
+    }
+  };
 
   const handleTributePosted = () => {
     refetch();
@@ -53,12 +90,64 @@ export default function TributeWall() {
           visible={isFormVisible}
         />
         
+        <SearchBox
+          types={["tribute", "comment"]}
+          placeholder="Search memories and comments"
+          onSelect={handleSearchSelect}
+        />
+        
+        {selectedTributeId === null && (
+          <div className="max-w-3xl mx-auto">
+            <TributeToolbar
+              filters={filters}
+              onChange={setFilters}
+              authorName={tributes.find(tribute => tribute.userId === filters.author)?.user?.name}
+            />
+          </div>
+        )}
+        
         {/* Tribute Wall Feed */}
-        <div className="max-w-3xl mx-auto">
-          {isLoading ? (
+        <div id="tribute-feed" className="max-w-3xl mx-auto scroll-mt-24">
+          {selectedTributeId === null && newTributes.length > 0 && (
+            <div className="sticky top-20 z-10 flex justify-center mb-4" aria-live="polite">
+              <Button className="rounded-full shadow-md" onClick={handleShowNewTributes}>
+                <ArrowUp className="mr-2 h-4 w-4" />
+                {newTributes.length === 1 ? "1 new memory" : `${newTributes.length} new memories`}
+              </Button>
+            </div>
+          )}
+          
+          {selectedTributeId !== null ? (
+            <>
+              <Button
+                variant="ghost"
+                className="mb-4 text-primary"
+                onClick={() => setSelectedTributeId(null)}
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to all memories
+              </Button>
+              {isLoadingSelected ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : selectedTribute ? (
+                <TributeCard 
+                  tribute={selectedTribute} 
+                  onUpdate={refetchSelected}
+                />
+              ) : (
+                <p className="text-center text-gray-500">This memory is no longer available.</p>
+              )}
+            </>
+          ) : isLoading ? (
             <div className="flex justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
             </div>
+          ) : tributes.length === 0 && hasActiveFilters(filters) ? (
+            <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
+              <p className="text-gray-500">No memories match these filters.</p>
+            </div>
           ) : tributes.length === 0 ? (
             <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg">
               <p className="text-gray-500 mb-4">No memories have been shared yet.</p>
@@ -73,6 +162,7 @@ export default function TributeWall() {
                   key={tribute.id} 
                   tribute={tribute} 
                   onUpdate={refetch}
+                  onAuthorClick={(author) => setFilters({ ...filters, author })}
                 />
               ))}
               
@@ -0,0 +1,61 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AlbumImageLink, AlbumSummary } from "@/lib/types";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useMemorial } from "@/hooks/use-memorial";
+
+interface Assignment {
+  albumId: number;
+  imageId: number;
+  // False to take the image out of the album
+  assigned: boolean;
+}
+
+// Albums and which gallery images are in them, for the gallery manager
+export function useAlbumAssignments() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+
+  const { data: albums, isLoading } = useQuery<AlbumSummary[]>({
+    queryKey: [apiPath("/albums")],
+  });
+
+  const { data: links } = useQuery<AlbumImageLink[]>({
+    queryKey: [apiPath("/album-images")],
+  });
+
+  // Album lists, album pages and the assignments all change together
+  const invalidateAlbums = () => {
+    const prefix = apiPath("/album");
+    queryClient.invalidateQueries({
+      predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith(prefix),
+    });
+  };
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ albumId, imageId, assigned }: Assignment) => {
+      await apiRequest(assigned ? "PUT" : "DELETE", apiPath(`/albums/${albumId}/images/${imageId}`));
+    },
+    onSuccess: invalidateAlbums,
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update album",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const albumsForImage = (imageId: number) => {
+    const albumIds = (links || []).filter(link => link.imageId === imageId).map(link => link.albumId);
+    return (albums || []).filter(album => albumIds.includes(album.id));
+  };
+
+  return {
+    albums: albums || [],
+    isLoading,
+    albumsForImage,
+    setAssignment: assignMutation.mutate,
+    invalidateAlbums,
+  };
+}
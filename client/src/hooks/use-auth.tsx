@@ -3,13 +3,13 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest, getQueryFn } from "@/lib/queryClient";
 import { UserProfile, LoginCredentials, RegisterData } from "@/lib/types";
-import { useLocation } from "wouter";
 
 interface AuthContextType {
   user: UserProfile | null;
   isLoading: boolean;
   isLoggedIn: boolean;
-  isAdmin: boolean;
+  isSuperAdmin: boolean;
+  isAdminOf: (memorialId: number) => boolean;
   loginMutation: ReturnType<typeof useLoginMutation>;
   logoutMutation: ReturnType<typeof useLogoutMutation>;
   registerMutation: ReturnType<typeof useRegisterMutation>;
@@ -18,8 +18,8 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | null>(null);
 
 // Custom hook for login mutation
+// Navigation after login is left to the caller, which knows the current memorial
 function useLoginMutation() {
-  const [_, setLocation] = useLocation();
   const { toast } = useToast();
   
   return useMutation({
@@ -33,7 +33,6 @@ function useLoginMutation() {
         title: "Login successful",
         description: `Welcome back, ${user.name}!`,
       });
-      setLocation("/");
     },
     onError: (error: Error) => {
       toast({
@@ -47,7 +46,6 @@ function useLoginMutation() {
 
 // Custom hook for logout mutation
 function useLogoutMutation() {
-  const [_, setLocation] = useLocation();
   const { toast } = useToast();
   
   return useMutation({
@@ -65,7 +63,6 @@ function useLogoutMutation() {
         title: "Logged out",
         description: "You have been successfully logged out.",
       });
-      setLocation("/");
     },
     onError: (error: Error) => {
       console.error("Logout mutation error:", error);
@@ -75,14 +72,12 @@ function useLogoutMutation() {
         description: "You have been logged out but encountered an error. Please refresh the page.",
         variant: "destructive",
       });
-      setLocation("/");
     },
   });
 }
 
 // Custom hook for register mutation
 function useRegisterMutation() {
-  const [_, setLocation] = useLocation();
   const { toast } = useToast();
   
   return useMutation({
@@ -96,7 +91,6 @@ function useRegisterMutation() {
         title: "Registration successful",
         description: `Welcome, ${user.name}!`,
       });
-      setLocation("/");
     },
     onError: (error: Error) => {
       toast({
@@ -126,7 +120,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const registerMutation = useRegisterMutation();
 
   const isLoggedIn = !!user;
-  const isAdmin = !!user?.isAdmin;
+  const isSuperAdmin = !!user?.isAdmin;
+  // Super-admins administer every memorial
+  const isAdminOf = (memorialId: number) =>
+    isSuperAdmin || !!user?.adminMemorialIds?.includes(memorialId);
 
   return (
     <AuthContext.Provider
@@ -134,7 +131,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         isLoading,
         isLoggedIn,
-        isAdmin,
+        isSuperAdmin,
+        isAdminOf,
         loginMutation,
         logoutMutation,
         registerMutation,
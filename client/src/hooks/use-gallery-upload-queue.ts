@@ -0,0 +1,177 @@
+import { useRef, useState } from "react";
+import { GalleryUploadResult } from "@/lib/types";
+import { queryClient, uploadWithProgress } from "@/lib/queryClient";
+import { useMemorial } from "@/hooks/use-memorial";
+
+// Files are sent a few at a time, with a couple of requests in flight, so a
+// large batch neither waits on one huge request nor floods the server
+const FILES_PER_REQUEST = 5;
+const BYTES_PER_REQUEST = 20 * 1024 * 1024;
+const CONCURRENT_REQUESTS = 2;
+// Matches the server's per-file limit; bigger files fail before uploading
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+
+export type UploadStatus = "ready" | "queued" | "uploading" | "done" | "failed";
+
+export interface UploadItem {
+  key: string;
+  file: File;
+  previewUrl: string;
+  caption: string;
+  isFeatured: boolean;
+  order: number;
+  status: UploadStatus;
+  // 0-100 while uploading
+  progress: number;
+  error?: string;
+}
+
+export type UploadItemDetails = Pick<UploadItem, "caption" | "isFeatured" | "order">;
+
+let nextKey = 1;
+
+// A client-side queue for bulk gallery uploads. Files are added as "ready" so
+// their details can be edited, then start() queues them all. Each file ends up
+// "done" or "failed" on its own; failed files can be retried.
+export function useGalleryUploadQueue() {
+  const { apiPath } = useMemorial();
+  const [items, setItemsState] = useState<UploadItem[]>([]);
+  // The scheduler reads the latest items between renders
+  const itemsRef = useRef<UploadItem[]>([]);
+  const activeRequests = useRef(0);
+
+  const setItems = (update: (items: UploadItem[]) => UploadItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItemsState(itemsRef.current);
+  };
+
+  const patchItems = (keys: string[], changes: Partial<UploadItem> | ((item: UploadItem) => Partial<UploadItem>)) => {
+    setItems(items => items.map(item =>
+      keys.includes(item.key) ? { ...item, ...(typeof changes === "function" ? changes(item) : changes) } : item
+    ));
+  };
+
+  const addFiles = (files: File[], firstOrder: number) => {
+    const added = files.map((file, index): UploadItem => ({
+      key: `upload-${nextKey++}`,
+      file,
+      previewUrl: URL.createObjectURL(file),
+      caption: "",
+      isFeatured: false,
+      order: firstOrder + index,
+      status: "ready",
+      progress: 0,
+    }));
+    setItems(items => [...items, ...added]);
+  };
+
+  const updateItem = (key: string, details: Partial<UploadItemDetails>) => {
+    patchItems([key], details);
+  };
+
+  const removeItem = (key: string) => {
+    const item = itemsRef.current.find(item => item.key === key);
+    if (item) URL.revokeObjectURL(item.previewUrl);
+    setItems(items => items.filter(item => item.key !== key));
+  };
+
+  const clear = () => {
+    itemsRef.current.forEach(item => URL.revokeObjectURL(item.previewUrl));
+    setItems(() => []);
+  };
+
+  // Takes the next queued files that fit in one request
+  const takeBatch = () => {
+    const batch: UploadItem[] = [];
+    let bytes = 0;
+    for (const item of itemsRef.current) {
+      if (item.status !== "queued") continue;
+      if (batch.length > 0 && (batch.length >= FILES_PER_REQUEST || bytes + item.file.size > BYTES_PER_REQUEST)) break;
+      batch.push(item);
+      bytes += item.file.size;
+    }
+    return batch;
+  };
+
+  const sendBatch = async (batch: UploadItem[]) => {
+    const keys = batch.map(item => item.key);
+    patchItems(keys, { status: "uploading", progress: 0, error: undefined });
+
+    const formData = new FormData();
+    formData.append("details", JSON.stringify(batch.map(({ caption, isFeatured, order }) => ({
+      caption: caption.trim() || null,
+      isFeatured,
+      order,
+    }))));
+    batch.forEach(item => formData.append("images", item.file));
+
+    // The request reports progress for the whole body; files are sent in
+    // order, so each file's share is worked out from where it starts
+    const totalBytes = batch.reduce((sum, item) => sum + item.file.size, 0);
+    const onProgress = (percent: number) => {
+      const sentBytes = (percent / 100) * totalBytes;
+      let start = 0;
+      const progress = new Map<string, number>();
+      batch.forEach(item => {
+        const fileProgress = item.file.size > 0 ? (sentBytes - start) / item.file.size : 1;
+        progress.set(item.key, Math.round(Math.min(Math.max(fileProgress, 0), 1) * 100));
+        start += item.file.size;
+      });
+      patchItems(keys, item => ({ progress: progress.get(item.key) ?? item.progress }));
+    };
+
+    try {
+      const { results } = await uploadWithProgress<{ results: GalleryUploadResult[] }>(
+        apiPath("/gallery/upload/batch"),
+        formData,
+        onProgress
+      );
+      batch.forEach((item, index) => {
+        const result = results.find(result => result.index === index);
+        patchItems([item.key], result?.image
+          ? { status: "done", progress: 100 }
+          : { status: "failed", error: result?.error || "No result for this file" });
+      });
+    } catch (error) {
+      patchItems(keys, { status: "failed", error: error instanceof Error ? error.message : "Upload failed" });
+    }
+  };
+
+  const pump = () => {
+    while (activeRequests.current < CONCURRENT_REQUESTS) {
+      const batch = takeBatch();
+      if (batch.length === 0) break;
+
+      activeRequests.current++;
+      sendBatch(batch).finally(() => {
+        activeRequests.current--;
+        pump();
+        if (activeRequests.current === 0) {
+          queryClient.invalidateQueries({ queryKey: [apiPath("/gallery")] });
+          queryClient.invalidateQueries({ queryKey: [apiPath("/gallery/featured")] });
+        }
+      });
+    }
+  };
+
+  const enqueue = (keys: string[]) => {
+    patchItems(keys, item => item.file.size > MAX_FILE_BYTES
+      ? { status: "failed", error: "Images must be 50MB or smaller" }
+      : { status: "queued", progress: 0, error: undefined });
+    pump();
+  };
+
+  const start = () => {
+    enqueue(itemsRef.current.filter(item => item.status === "ready").map(item => item.key));
+  };
+
+  const retry = (key: string) => enqueue([key]);
+
+  const retryFailed = () => {
+    enqueue(itemsRef.current.filter(item => item.status === "failed").map(item => item.key));
+  };
+
+  const isRunning = items.some(item => item.status === "queued" || item.status === "uploading");
+
+  return { items, isRunning, addFiles, updateItem, removeItem, clear, start, retry, retryFailed };
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { InfiniteData, QueryKey } from "@tanstack/react-query";
+import { TributeItem, TributePage } from "@/lib/types";
+import { queryClient } from "@/lib/queryClient";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+
+// The wall caches infinite pages, the admin screens a single page
+type CachedFeed = TributePage | InfiniteData<TributePage, string | null>;
+
+function updateCachedTributes(feedPath: string, update: (tributes: TributeItem[]) => TributeItem[]) {
+  queryClient.setQueriesData<CachedFeed>({ queryKey: [feedPath] }, (data) => {
+    if (!data) return data;
+    if ("pages" in data) {
+      return { ...data, pages: data.pages.map(page => ({ ...page, tributes: update(page.tributes) })) };
+    }
+    return { ...data, tributes: update(data.tributes) };
+  });
+}
+
+interface LiveTributesOptions {
+  // The wall's own feed query and the tributes it currently shows
+  feedKey: QueryKey;
+  tributes: TributeItem[];
+  // New tributes can go straight onto the top of the feed; otherwise the
+  // feed is refetched so they land wherever the sort and filters put them
+  canPrepend: boolean;
+}
+
+// Keeps the tribute wall in step with other visitors. Changes to tributes on
+// screen are applied in place, while new tributes wait until the visitor asks
+// to see them so the page doesn't move under them.
+export function useLiveTributes({ feedKey, tributes, canPrepend }: LiveTributesOptions) {
+  const { apiPath } = useMemorial();
+  const [incoming, setIncoming] = useState<TributeItem[]>([]);
+
+  const feedPath = apiPath("/tributes");
+  const update = (change: (tributes: TributeItem[]) => TributeItem[]) => {
+    updateCachedTributes(feedPath, change);
+    setIncoming(change);
+  };
+
+  useLiveUpdates((message) => {
+    switch (message.type) {
+      case "tribute.created":
+        setIncoming(previous => previous.some(tribute => tribute.id === message.tribute.id)
+          ? previous
+          : [message.tribute, ...previous]);
+        break;
+      case "tribute.deleted":
+        update(list => list.filter(tribute => tribute.id !== message.tributeId));
+        break;
+      case "reactions.changed":
+        update(list => list.map(tribute => tribute.id === message.tributeId
+          ? { ...tribute, reactionCounts: message.reactionCounts }
+          : tribute));
+        break;
+      case "comment.added":
+        update(list => list.map(tribute => tribute.id === message.tributeId
+          ? { ...tribute, commentCount: message.commentCount }
+          : tribute));
+        break;
+    }
+  }, () => queryClient.invalidateQueries({ queryKey: [feedPath] }));
+
+  // Tributes the feed already picked up, e.g. your own after posting, aren't new
+  const shownIds = new Set(tributes.map(tribute => tribute.id));
+  const newTributes = incoming.filter(tribute => !shownIds.has(tribute.id));
+
+  const showNewTributes = () => {
+    if (canPrepend) {
+      queryClient.setQueryData<InfiniteData<TributePage, string | null>>(feedKey, (data) => data && {
+        ...data,
+        pages: data.pages.map((page, index) => index === 0
+          ? { ...page, tributes: [...newTributes, ...page.tributes] }
+          : page)
+      });
+    } else {
+      queryClient.invalidateQueries({ queryKey: feedKey });
+    }
+    setIncoming([]);
+  };
+
+  return { newTributes, showNewTributes };
+}
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+import { LiveUpdate } from "@/lib/types";
+import { useMemorial } from "@/hooks/use-memorial";
+
+// Listens to the memorial's update stream for as long as the component is
+// mounted. onReconnect runs when the stream comes back after dropping, since
+// anything published in between was missed.
+export function useLiveUpdates(onUpdate: (update: LiveUpdate) => void, onReconnect: () => void) {
+  const { slug, apiPath } = useMemorial();
+  // The latest handlers, so re-renders don't reopen the stream
+  const handlers = useRef({ onUpdate, onReconnect });
+  handlers.current = { onUpdate, onReconnect };
+
+  useEffect(() => {
+    const source = new EventSource(apiPath("/updates"));
+    let disconnected = false;
+
+    source.onmessage = (event) => handlers.current.onUpdate(JSON.parse(event.data));
+    source.onerror = () => {
+      disconnected = true;
+    };
+    source.onopen = () => {
+      if (disconnected) {
+        disconnected = false;
+        handlers.current.onReconnect();
+      }
+    };
+
+    return () => source.close();
+  }, [slug]);
+}
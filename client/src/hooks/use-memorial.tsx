@@ -0,0 +1,65 @@
+import { createContext, useContext, ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { Memorial } from "@/lib/types";
+import NotFound from "@/pages/not-found";
+
+interface MemorialContextType {
+  memorial: Memorial;
+  slug: string;
+  // Prefixes a path with this memorial's API base, e.g. "/tributes" -> "/api/m/<slug>/tributes"
+  apiPath: (path: string) => string;
+  isMemorialAdmin: boolean;
+}
+
+const MemorialContext = createContext<MemorialContextType | null>(null);
+
+export function MemorialProvider({ slug, children }: { slug: string; children: ReactNode }) {
+  const { isAdminOf } = useAuth();
+
+  const { data: memorial, isLoading } = useQuery<Memorial>({
+    queryKey: [`/api/memorials/${slug}`],
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!memorial) {
+    return <NotFound />;
+  }
+
+  const apiPath = (path: string) => `/api/m/${slug}${path}`;
+
+  return (
+    <MemorialContext.Provider
+      value={{
+        memorial,
+        slug,
+        apiPath,
+        isMemorialAdmin: isAdminOf(memorial.id),
+      }}
+    >
+      {children}
+    </MemorialContext.Provider>
+  );
+}
+
+export function useMemorial() {
+  const context = useContext(MemorialContext);
+  if (!context) {
+    throw new Error("useMemorial must be used within a MemorialProvider");
+  }
+  return context;
+}
+
+// For components that are also rendered outside a memorial (e.g. the directory)
+export function useOptionalMemorial() {
+  return useContext(MemorialContext);
+}
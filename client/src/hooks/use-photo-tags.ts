@@ -0,0 +1,76 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { PhotoTag, PhotoTagAccess } from "@/lib/types";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
+
+export type PhotoTagDetails = Pick<PhotoTag, "name" | "userId" | "x" | "y" | "width" | "height">;
+
+// People tagged in the gallery, and tag editing for admins and contributors
+export function usePhotoTags() {
+  const { apiPath, isMemorialAdmin } = useMemorial();
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: tags } = useQuery<PhotoTag[]>({
+    queryKey: [apiPath("/photo-tags")],
+  });
+
+  const { data: access } = useQuery<PhotoTagAccess>({
+    queryKey: [apiPath("/photo-tags/access")],
+    enabled: !!user,
+  });
+
+  // Tag lists and people pages change together
+  const invalidateTags = () => {
+    const prefixes = [apiPath("/photo-tags"), apiPath("/people")];
+    queryClient.invalidateQueries({
+      predicate: (query) => typeof query.queryKey[0] === "string"
+        && prefixes.some(prefix => (query.queryKey[0] as string).startsWith(prefix)),
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Failed to save tag",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ imageId, tagId, details }: { imageId: number; tagId: number | null; details: PhotoTagDetails }) => {
+      const res = tagId === null
+        ? await apiRequest("POST", apiPath(`/gallery/${imageId}/tags`), details)
+        : await apiRequest("PUT", apiPath(`/photo-tags/${tagId}`), details);
+      return res.json();
+    },
+    onSuccess: invalidateTags,
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (tagId: number) => {
+      await apiRequest("DELETE", apiPath(`/photo-tags/${tagId}`));
+    },
+    onSuccess: invalidateTags,
+    onError,
+  });
+
+  const tagsForImage = (imageId: number) => (tags || []).filter(tag => tag.imageId === imageId);
+
+  const canTag = !!user && !!access?.canTag;
+  // Matches the server: contributors can change the tags they added
+  const canEditTag = (tag: PhotoTag) => canTag && (isMemorialAdmin || tag.createdById === user?.id);
+
+  return {
+    tagsForImage,
+    canTag,
+    canEditTag,
+    linkableUsers: access?.users || [],
+    saveTag: saveMutation.mutate,
+    deleteTag: deleteMutation.mutate,
+    isSaving: saveMutation.isPending || deleteMutation.isPending,
+  };
+}
@@ -0,0 +1,54 @@
+import { ServiceEvent } from "./types";
+import { EVENT_TYPE_LABELS } from "./constants";
+
+// Mirrors the server's calendar.ics: events without an end are an hour long
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+function eventTimes(event: ServiceEvent) {
+  const start = new Date(event.startsAt);
+  const end = event.endsAt
+    ? new Date(event.endsAt)
+    : new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS);
+  return { start, end };
+}
+
+function eventDetails(event: ServiceEvent, memorialName: string) {
+  return {
+    title: `${event.title || EVENT_TYPE_LABELS[event.type]} – ${memorialName}`,
+    location: [event.venue, event.address].filter(Boolean).join(", "),
+    description: [event.notes, event.streamLink ? `Livestream: ${event.streamLink}` : null]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+}
+
+// 20231021T130000Z
+const toCompactUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export function googleCalendarUrl(event: ServiceEvent, memorialName: string) {
+  const { start, end } = eventTimes(event);
+  const { title, location, description } = eventDetails(event, memorialName);
+  const params = new URLSearchParams({
+    action: "TEMPLATE",
+    text: title,
+    dates: `${toCompactUtc(start)}/${toCompactUtc(end)}`,
+    details: description,
+    location,
+  });
+  return `https://calendar.google.com/calendar/render?${params.toString()}`;
+}
+
+export function outlookCalendarUrl(event: ServiceEvent, memorialName: string) {
+  const { start, end } = eventTimes(event);
+  const { title, location, description } = eventDetails(event, memorialName);
+  const params = new URLSearchParams({
+    path: "/calendar/action/compose",
+    rru: "addevent",
+    subject: title,
+    startdt: start.toISOString(),
+    enddt: end.toISOString(),
+    body: description,
+    location,
+  });
+  return `https://outlook.live.com/calendar/0/deeplink/compose?${params.toString()}`;
+}
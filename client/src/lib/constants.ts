@@ -1,3 +1,5 @@
+import { EventType, ProgramSectionType, ReactionCounts, ReactionKind } from "./types";
+
 export const DEFAULT_FOOTER_MESSAGE = "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\"";
 
 // Default contact information
@@ -15,3 +17,50 @@ export const DEFAULT_RESOURCE_LINK_3 = "#";
 export const SITE_TITLE = "Memorial";
 export const LIFE_DATES = "1960 - 2025";
 export const TRIBUTE_HEADLINE = "A beloved father, husband, and friend whose kindness and spirit touched the lives of everyone around him.";
+
+// Display names for service event types
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  visitation: "Visitation",
+  funeral: "Funeral Service",
+  burial: "Burial",
+  repast: "Repast",
+  other: "Gathering",
+};
+
+// Display names for order of service sections
+export const PROGRAM_SECTION_TYPE_LABELS: Record<ProgramSectionType, string> = {
+  processional: "Processional",
+  welcome: "Welcome",
+  reading: "Reading",
+  hymn: "Hymn",
+  prayer: "Prayer",
+  eulogy: "Eulogy",
+  tribute: "Tribute",
+  committal: "Committal",
+  recessional: "Recessional",
+  other: "Other",
+};
+
+// Typography for the life story, shared by the editor and the story page so
+// the admin sees what visitors will. Blockquotes are styled as pull quotes.
+export const LIFE_STORY_PROSE = "prose prose-lg max-w-none prose-headings:font-heading prose-img:rounded-lg prose-blockquote:border-primary prose-blockquote:text-2xl prose-blockquote:font-heading prose-blockquote:text-gray-700";
+
+// Reactions in the order they are shown. "label" is the button text before
+// reacting and "activeLabel" after.
+export const REACTION_OPTIONS: { kind: ReactionKind; name: string; label: string; activeLabel: string }[] = [
+  { kind: "candle", name: "Candles", label: "Light a Candle", activeLabel: "Candle Lit" },
+  { kind: "flower", name: "Flowers", label: "Leave a Flower", activeLabel: "Flower Left" },
+  { kind: "heart", name: "Hearts", label: "Send Love", activeLabel: "Love Sent" },
+  { kind: "dove", name: "Doves", label: "Release a Dove", activeLabel: "Dove Released" },
+];
+
+// Mirrors the server: no enabledReactions setting means every kind is offered
+export function parseEnabledReactions(value: string | undefined): ReactionKind[] {
+  if (value === undefined) return REACTION_OPTIONS.map(option => option.kind);
+  const enabled = value.split(",").map(kind => kind.trim());
+  return REACTION_OPTIONS.map(option => option.kind).filter(kind => enabled.includes(kind));
+}
+
+export function totalReactions(counts: ReactionCounts | undefined) {
+  return Object.values(counts || {}).reduce((sum, count) => sum + (count || 0), 0);
+}
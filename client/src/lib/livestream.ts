@@ -0,0 +1,72 @@
+import { ServiceEvent } from "@/lib/types";
+
+// How the stream link can be shown on the page. Links that aren't YouTube,
+// Vimeo or an HLS playlist are only offered as an outbound link.
+export type StreamEmbed =
+  | { kind: "youtube"; embedUrl: string }
+  | { kind: "vimeo"; embedUrl: string }
+  | { kind: "hls"; url: string }
+  | { kind: "link"; url: string };
+
+// Services without an end time are treated as this long
+const DEFAULT_SERVICE_MS = 2 * 60 * 60 * 1000;
+
+export function detectStream(link: string): StreamEmbed {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return { kind: "link", url: link };
+  }
+
+  const host = url.hostname.replace(/^(www|m)\./, "");
+  const segments = url.pathname.split("/").filter(Boolean);
+
+  if (host === "youtu.be" || host === "youtube.com" || host === "youtube-nocookie.com") {
+    // youtu.be/ID, /watch?v=ID, /live/ID and /embed/ID
+    const videoId = host === "youtu.be"
+      ? segments[0]
+      : url.searchParams.get("v") || (["live", "embed"].includes(segments[0]) ? segments[1] : undefined);
+    if (videoId) {
+      return { kind: "youtube", embedUrl: `https://www.youtube.com/embed/${encodeURIComponent(videoId)}` };
+    }
+  }
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    // Scheduled live events have their own player
+    if (segments[0] === "event" && segments[1]) {
+      return { kind: "vimeo", embedUrl: `https://vimeo.com/event/${encodeURIComponent(segments[1])}/embed` };
+    }
+    const videoId = segments.find(segment => /^\d+$/.test(segment));
+    if (videoId) {
+      return { kind: "vimeo", embedUrl: `https://player.vimeo.com/video/${videoId}` };
+    }
+  }
+
+  if (url.pathname.toLowerCase().endsWith(".m3u8")) {
+    return { kind: "hls", url: link };
+  }
+
+  return { kind: "link", url: link };
+}
+
+export type ServicePhase = "upcoming" | "live" | "replay";
+
+// The service the stream belongs to: the funeral itself, or failing that the
+// first event on the schedule
+export function streamedService(events: ServiceEvent[]) {
+  const event = events.find(event => event.type === "funeral") || events[0];
+  if (!event) return undefined;
+
+  const startsAt = new Date(event.startsAt);
+  const endsAt = event.endsAt
+    ? new Date(event.endsAt)
+    : new Date(startsAt.getTime() + DEFAULT_SERVICE_MS);
+
+  return { event, startsAt, endsAt };
+}
+
+export function servicePhase(service: { startsAt: Date; endsAt: Date }, now: Date): ServicePhase {
+  if (now < service.startsAt) return "upcoming";
+  return now < service.endsAt ? "live" : "replay";
+}
@@ -0,0 +1,38 @@
+import { apiRequest } from "./queryClient";
+
+export interface ProofOfWork {
+  challenge: string;
+  nonce: string;
+}
+
+function leadingZeroBits(hash: Uint8Array) {
+  let bits = 0;
+  for (let i = 0; i < hash.length; i++) {
+    if (hash[i] !== 0) {
+      return bits + Math.clz32(hash[i]) - 24;
+    }
+    bits += 8;
+  }
+  return bits;
+}
+
+// Finds a nonce whose SHA-256 of "challenge:nonce" starts with `difficulty`
+// zero bits, mirroring the check in server/proof-of-work.ts
+export async function solveChallenge(challenge: string, difficulty: number): Promise<string> {
+  const encoder = new TextEncoder();
+
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest("SHA-256", encoder.encode(`${challenge}:${nonce}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= difficulty) {
+      return nonce.toString();
+    }
+  }
+}
+
+// Fetches a fresh challenge from the given endpoint and solves it, ready to
+// send along with an anonymous submission
+export async function proveWork(challengeUrl: string): Promise<ProofOfWork> {
+  const res = await apiRequest("GET", challengeUrl);
+  const { challenge, difficulty } = await res.json() as { challenge: string; difficulty: number };
+  return { challenge, nonce: await solveChallenge(challenge, difficulty) };
+}
@@ -1,4 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
+import { useOptionalMemorial } from "@/hooks/use-memorial";
 import { Loader2 } from "lucide-react";
 import { Redirect, Route } from "wouter";
 
@@ -6,12 +7,17 @@ export function ProtectedRoute({
   path,
   component: Component,
   adminOnly = false,
+  superAdminOnly = false,
 }: {
   path: string;
   component: () => React.JSX.Element;
   adminOnly?: boolean;
+  superAdminOnly?: boolean;
 }) {
-  const { user, isLoading, isAdmin } = useAuth();
+  const { user, isLoading, isSuperAdmin } = useAuth();
+  // adminOnly routes live inside a memorial and check that memorial's admins
+  const memorial = useOptionalMemorial();
+  const isMemorialAdmin = !!memorial?.isMemorialAdmin;
 
   return (
     <Route path={path}>
@@ -20,8 +26,8 @@ export function ProtectedRoute({
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
         </div>
       ) : !user ? (
-        <Redirect to="/auth" />
-      ) : adminOnly && !isAdmin ? (
+        <Redirect to={superAdminOnly ? "/" : "/auth"} />
+      ) : (adminOnly && !isMemorialAdmin) || (superAdminOnly && !isSuperAdmin) ? (
         <Redirect to="/" />
       ) : (
         <Component />
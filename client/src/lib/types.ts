@@ -6,6 +6,18 @@ export interface TributeUser {
   name: string;
 }
 
+export type TributeStatus = "pending" | "approved" | "rejected";
+
+export type ReactionKind = "candle" | "flower" | "heart" | "dove";
+
+export type ReactionCounts = Partial<Record<ReactionKind, number>>;
+
+// Who left one kind of reaction on a tribute
+export interface ReactionGroup {
+  kind: ReactionKind;
+  users: { id: number; name: string }[];
+}
+
 export interface TributeItem {
   id: number;
   userId: number;
@@ -13,9 +25,69 @@ export interface TributeItem {
   mediaUrl?: string;
   mediaType?: string;
   createdAt: Date;
-  candleCount: number;
+  reactionCounts: ReactionCounts;
+  status: TributeStatus;
+  moderationReason?: string;
+  moderatedAt?: Date;
   user?: TributeUser;
-  hasLitCandle?: boolean;
+  // Reactions left by the signed-in user
+  myReactions?: ReactionKind[];
+  // Approved comments, including replies
+  commentCount?: number;
+}
+
+// One page of the tribute wall; nextCursor fetches the page after it
+export interface TributePage {
+  tributes: TributeItem[];
+  nextCursor: string | null;
+}
+
+// Pushed to open tribute walls over GET /updates
+export type LiveUpdate =
+  | { type: "tribute.created"; tribute: TributeItem }
+  | { type: "tribute.deleted"; tributeId: number }
+  | { type: "reactions.changed"; tributeId: number; reactionCounts: ReactionCounts }
+  | { type: "comment.added"; tributeId: number; commentCount: number }
+  // A new chat message, or one that was pinned, unpinned or unhidden
+  | { type: "chat.message"; message: LiveChatMessage }
+  | { type: "chat.hidden"; messageId: number }
+  | { type: "chat.status"; closed: boolean };
+
+export type TributeSort = "newest" | "oldest" | "candles";
+
+// "any" is any photo or video, "none" is text-only tributes
+export type TributeMediaFilter = "all" | "any" | "image" | "video" | "none";
+
+export interface TributeFilters {
+  sort: TributeSort;
+  media: TributeMediaFilter;
+  author?: number;
+  // Inclusive YYYY-MM-DD dates
+  from?: string;
+  to?: string;
+}
+
+export interface TributeComment {
+  id: number;
+  tributeId: number;
+  userId: number;
+  parentId: number | null;
+  content: string;
+  createdAt: Date;
+  status: TributeStatus;
+  moderationReason?: string;
+  user?: TributeUser;
+}
+
+// Top-level comment as returned by the comments endpoint
+export interface TributeCommentThread extends TributeComment {
+  replies: TributeComment[];
+}
+
+export interface ImageVariant {
+  url: string;
+  width: number;
+  height: number;
 }
 
 export interface GalleryImage {
@@ -24,19 +96,61 @@ export interface GalleryImage {
   caption?: string;
   isFeatured: boolean;
   order: number;
+  width?: number;
+  height?: number;
+  variants?: ImageVariant[];
+  placeholder?: string;
+  // Photos shared by visitors are "pending" until an admin reviews them
+  status: TributeStatus;
+  submittedById: number | null;
+  year: number | null;
+  peoplePictured: string | null;
+  sharedBy?: { id: number; name: string } | null;
 }
 
 export interface FuneralProgram {
   id: number;
-  date: string;
-  time: string;
-  location: string;
-  address: string;
   streamLink?: string;
   programPdfUrl?: string;
   serviceDescription?: string;
 }
 
+export type EventType = "visitation" | "funeral" | "burial" | "repast" | "other";
+
+export interface ServiceEvent {
+  id: number;
+  type: EventType;
+  title: string | null;
+  // ISO timestamps
+  startsAt: string;
+  endsAt: string | null;
+  venue: string;
+  address: string | null;
+  streamLink: string | null;
+  notes: string | null;
+}
+
+export type ProgramSectionType =
+  | "processional"
+  | "welcome"
+  | "reading"
+  | "hymn"
+  | "prayer"
+  | "eulogy"
+  | "tribute"
+  | "committal"
+  | "recessional"
+  | "other";
+
+export interface ProgramSection {
+  id: number;
+  type: ProgramSectionType;
+  title: string;
+  participants: string | null;
+  content: string | null;
+  order: number;
+}
+
 export interface SiteSettings {
   backgroundImage: string;
   tributeImage: string;
@@ -60,7 +174,18 @@ export interface UserProfile {
   username: string;
   name: string;
   email?: string;
+  // True for super-admins, who manage every memorial
   isAdmin: boolean;
+  // Memorials this user has been made an admin of
+  adminMemorialIds?: number[];
+}
+
+export interface Memorial {
+  id: number;
+  slug: string;
+  name: string;
+  isArchived: boolean;
+  createdAt: string;
 }
 
 export interface AuthState {
@@ -79,3 +204,160 @@ export interface RegisterData {
   name: string;
   email?: string;
 }
+
+export interface Rsvp {
+  id: number;
+  userId: number | null;
+  name: string;
+  email: string | null;
+  partySize: number;
+  dietaryNotes: string | null;
+  eventIds: number[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RsvpSummary {
+  rsvps: Rsvp[];
+  totals: {
+    responses: number;
+    guests: number;
+    events: Array<{ eventId: number; responses: number; guests: number }>;
+  };
+}
+
+export type NotificationKind = "tributeModeration" | "tributeReply" | "serviceReminder";
+
+export interface NotificationSettings {
+  preferences: Record<NotificationKind, boolean>;
+  // Where notifications are sent; null when the account has no email
+  email: string | null;
+}
+
+export interface GuestbookEntry {
+  id: number;
+  name: string;
+  town: string | null;
+  relationship: string | null;
+  message: string;
+  createdAt: string;
+}
+
+export interface GuestCandles {
+  count: number;
+  // Whether this browser has already lit a candle
+  lit: boolean;
+}
+
+export type SearchResultType = "tribute" | "comment" | "image";
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  tributeId: number | null;
+  authorName: string | null;
+  imageUrl: string | null;
+  // Matched words are wrapped in <mark>
+  snippet: string;
+  rank: number;
+}
+
+export interface LiveChatMessage {
+  id: number;
+  userId: number;
+  content: string;
+  pinned: boolean;
+  // Only admins ever receive hidden messages
+  hidden: boolean;
+  createdAt: string;
+  user: { id: number; name: string } | null;
+}
+
+export interface LiveChat {
+  closed: boolean;
+  messages: LiveChatMessage[];
+}
+
+export interface LifeStoryRevision {
+  id: number;
+  // Sanitized HTML
+  content: string;
+  authorId: number;
+  // The revision this one restored, if any
+  revertedFromId: number | null;
+  createdAt: string;
+  author: { id: number; name: string } | null;
+}
+
+export interface Album {
+  id: number;
+  // Used in the album page address, /gallery/:slug
+  slug: string;
+  title: string;
+  description: string | null;
+  coverImageId: number | null;
+  order: number;
+  createdAt: string;
+}
+
+// As listed on the gallery page; the cover falls back to the first image
+export interface AlbumSummary extends Album {
+  imageCount: number;
+  coverImage: GalleryImage | null;
+}
+
+export interface AlbumWithImages extends Album {
+  images: GalleryImage[];
+}
+
+export interface AlbumImageLink {
+  id: number;
+  albumId: number;
+  imageId: number;
+  order: number;
+}
+
+// One file's outcome from a bulk gallery upload
+export interface GalleryUploadResult {
+  index: number;
+  filename: string;
+  image?: GalleryImage;
+  error?: string;
+}
+
+// A person tagged in a gallery photo. The region is given as fractions of the
+// image's width and height.
+export interface PhotoTag {
+  id: number;
+  imageId: number;
+  name: string;
+  userId: number | null;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  createdById: number;
+  createdAt: string;
+  // Shared by every tag of the same person; used in their page address
+  personKey: string;
+  user: { id: number; name: string } | null;
+}
+
+export interface PersonSummary {
+  key: string;
+  name: string;
+  userId: number | null;
+  imageCount: number;
+}
+
+export interface PersonPage {
+  person: PersonSummary;
+  images: GalleryImage[];
+  tributes: TributeItem[];
+}
+
+// Whether the signed-in user can tag photos, and who tags can be linked to
+export interface PhotoTagAccess {
+  canTag: boolean;
+  users: { id: number; name: string }[];
+}
@@ -1,5 +1,6 @@
 import { useEffect } from "react";
 import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import AdminDashboard from "@/components/admin/admin-dashboard";
@@ -7,14 +8,15 @@ import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 
 export default function AdminPage() {
-  const { isLoggedIn, isAdmin, user } = useAuth();
+  const { isLoggedIn, user } = useAuth();
+  const { memorial, isMemorialAdmin: isAdmin } = useMemorial();
   const { toast } = useToast();
   const [location, setLocation] = useLocation();
   
   // Set page title
   useEffect(() => {
-    document.title = "Admin Dashboard - Chris Murphey Memorial";
-  }, []);
+    document.title = `Admin Dashboard - ${memorial.name} Memorial`;
+  }, [memorial.name]);
   
   // Redirect non-admin users
   useEffect(() => {
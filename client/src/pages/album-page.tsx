@@ -0,0 +1,93 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import { AlbumWithImages, SiteSettings } from "@/lib/types";
+import ImageLightbox from "@/components/gallery/image-lightbox";
+import ImageGrid from "@/components/gallery/image-grid";
+import { ArrowLeft } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+
+export default function AlbumPage() {
+  const { apiPath } = useMemorial();
+  const { albumSlug } = useParams<{ albumSlug: string }>();
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+  
+  const { data: album, isLoading } = useQuery<AlbumWithImages>({
+    queryKey: [apiPath(`/albums/${encodeURIComponent(albumSlug)}`)],
+    retry: false,
+  });
+  
+  useEffect(() => {
+    document.title = `${album?.title || "Album"} - ${settings?.siteTitle || "Memorial"}`;
+  }, [album, settings]);
+  
+  const handleImageClick = (index: number) => {
+    setCurrentImageIndex(index);
+    setIsLightboxOpen(true);
+  };
+  
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header minimal />
+      
+      <main className="flex-grow py-16 px-6 bg-white">
+        <div className="container mx-auto">
+          <Link href="/gallery" className="inline-flex items-center text-sm text-gray-600 hover:text-primary mb-8">
+            <ArrowLeft className="mr-2 h-4 w-4" /> All albums
+          </Link>
+          
+          {isLoading ? (
+            <>
+              <Skeleton className="h-10 w-1/3 mx-auto mb-12" />
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {Array.from({ length: 8 }).map((_, index) => (
+                  <Skeleton key={index} className="aspect-square rounded-lg" />
+                ))}
+              </div>
+            </>
+          ) : !album ? (
+            <div className="text-center p-12 border border-dashed border-gray-300 rounded-lg">
+              <p className="text-gray-500">This album could not be found.</p>
+            </div>
+          ) : (
+            <>
+              <header className="text-center mb-12">
+                <h1 className="text-4xl font-heading font-bold mb-4">{album.title}</h1>
+                {album.description && (
+                  <p className="text-gray-600 max-w-2xl mx-auto whitespace-pre-line">{album.description}</p>
+                )}
+              </header>
+              
+              {album.images.length === 0 ? (
+                <div className="text-center p-12 border border-dashed border-gray-300 rounded-lg">
+                  <p className="text-gray-500">There are no photos in this album yet.</p>
+                </div>
+              ) : (
+                <ImageGrid images={album.images} onImageClick={handleImageClick} />
+              )}
+            </>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+      
+      {isLightboxOpen && album && (
+        <ImageLightbox
+          images={album.images}
+          currentIndex={currentImageIndex}
+          onClose={() => setIsLightboxOpen(false)}
+          onIndexChange={setCurrentImageIndex}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
+import { useMemorial } from "@/hooks/use-memorial";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -15,6 +16,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { SiteSettings } from "@/lib/types";
+import ForgotPasswordForm from "@/components/auth/forgot-password-form";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -34,10 +36,12 @@ type RegisterFormValues = z.infer<typeof registerSchema>;
 export default function AuthPage() {
   const [location, setLocation] = useLocation();
   const { isLoggedIn, user, loginMutation, registerMutation } = useAuth();
+  const { apiPath, isMemorialAdmin } = useMemorial();
+  const [tab, setTab] = useState("login");
   
   // Fetch settings
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   
   // Set page title
@@ -48,13 +52,13 @@ export default function AuthPage() {
   // Redirect if already logged in
   useEffect(() => {
     if (isLoggedIn && user) {
-      if (user.isAdmin) {
+      if (isMemorialAdmin) {
         setLocation("/admin");
       } else {
         setLocation("/");
       }
     }
-  }, [isLoggedIn, user, setLocation]);
+  }, [isLoggedIn, user, isMemorialAdmin, setLocation]);
   
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -106,7 +110,7 @@ export default function AuthPage() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <Tabs defaultValue="login" className="w-full">
+                  <Tabs value={tab} onValueChange={setTab} className="w-full">
                     <TabsList className="grid w-full grid-cols-2 mb-6">
                       <TabsTrigger value="login">Sign In</TabsTrigger>
                       <TabsTrigger value="register">Create Account</TabsTrigger>
@@ -134,7 +138,17 @@ export default function AuthPage() {
                             name="password"
                             render={({ field }) => (
                               <FormItem>
-                                <FormLabel>Password</FormLabel>
+                                <div className="flex items-center justify-between">
+                                  <FormLabel>Password</FormLabel>
+                                  <Button
+                                    type="button"
+                                    variant="link"
+                                    className="p-0 h-auto text-xs"
+                                    onClick={() => setTab("forgot")}
+                                  >
+                                    Forgot password?
+                                  </Button>
+                                </div>
                                 <FormControl>
                                   <Input type="password" placeholder="Enter your password" {...field} />
                                 </FormControl>
@@ -161,6 +175,10 @@ export default function AuthPage() {
                       </Form>
                     </TabsContent>
                     
+                    <TabsContent value="forgot">
+                      <ForgotPasswordForm onBack={() => setTab("login")} />
+                    </TabsContent>
+                    
                     <TabsContent value="register">
                       <Form {...registerForm}>
                         <form onSubmit={registerForm.handleSubmit(handleRegisterSubmit)} className="space-y-4">
@@ -1,19 +1,35 @@
 import { useState, useEffect } from "react";
+import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
-import { GalleryImage, SiteSettings } from "@/lib/types";
+import { AlbumSummary, GalleryImage, PersonSummary, PhotoTag, SiteSettings, SearchResult } from "@/lib/types";
 import ImageLightbox from "@/components/gallery/image-lightbox";
-import { Loader2 } from "lucide-react";
+import ImageGrid from "@/components/gallery/image-grid";
+import AlbumGrid from "@/components/gallery/album-grid";
+import SharePhotoDialog from "@/components/gallery/share-photo-dialog";
+import SearchBox from "@/components/search/search-box";
+import AuthModal from "@/components/auth/auth-modal";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ImagePlus } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useAuth } from "@/hooks/use-auth";
 
 export default function GalleryPage() {
+  const { apiPath } = useMemorial();
+  const { isLoggedIn } = useAuth();
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  // Shows only the photos this person is tagged in
+  const [personKey, setPersonKey] = useState<string | null>(null);
   
   // Fetch settings
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   
   // Set page title
@@ -22,21 +38,101 @@ export default function GalleryPage() {
   }, [settings]);
   
   const { data: images, isLoading } = useQuery<GalleryImage[]>({
-    queryKey: ["/api/gallery"],
+    queryKey: [apiPath("/gallery")],
   });
   
+  const { data: albums } = useQuery<AlbumSummary[]>({
+    queryKey: [apiPath("/albums")],
+  });
+  
+  const { data: people } = useQuery<PersonSummary[]>({
+    queryKey: [apiPath("/people")],
+  });
+  
+  const { data: tags } = useQuery<PhotoTag[]>({
+    queryKey: [apiPath("/photo-tags")],
+  });
+  
+  const selectedPerson = people?.find(person => person.key === personKey);
+  const shownImages = selectedPerson
+    ? images?.filter(image => tags?.some(tag => tag.imageId === image.id && tag.personKey === selectedPerson.key))
+    : images;
+  
   const handleImageClick = (index: number) => {
     setCurrentImageIndex(index);
     setIsLightboxOpen(true);
   };
   
+  const handleSearchSelect = (result: SearchResult) => {
+    const index = images?.findIndex(image => image.id === result.id) ?? -1;
+    if (index !== -1) {
+      // The result may not be among the filtered photos
+      setPersonKey(null);
+      handleImageClick(index);
+    }
+  };
+  
   return (
     <div className="min-h-screen flex flex-col">
       <Header minimal />
       
       <main className="flex-grow py-16 px-6 bg-white">
         <div className="container mx-auto">
-          <h1 className="text-4xl font-heading font-bold text-center mb-12">Gallery of Memories</h1>
+          <h1 className="text-4xl font-heading font-bold text-center mb-4">Gallery of Memories</h1>
+          <div className="text-center mb-12">
+            <Button 
+              variant="outline" 
+              onClick={() => isLoggedIn ? setIsShareDialogOpen(true) : setIsAuthModalOpen(true)}
+            >
+              <ImagePlus className="mr-2 h-4 w-4" /> Share a Photo
+            </Button>
+          </div>
+          
+          <SearchBox
+            types={["image"]}
+            placeholder="Search photo captions"
+            onSelect={handleSearchSelect}
+          />
+          
+          {/* Without albums the page is a single list of photos, as before */}
+          {albums && albums.length > 0 && (
+            <>
+              <section className="mb-16">
+                <h2 className="text-2xl font-heading font-semibold mb-6">Albums</h2>
+                <AlbumGrid albums={albums} />
+              </section>
+              <h2 className="text-2xl font-heading font-semibold mb-6">All Photos</h2>
+            </>
+          )}
+          
+          {people && people.length > 0 && (
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <Select
+                value={selectedPerson?.key ?? "everyone"}
+                onValueChange={(value) => setPersonKey(value === "everyone" ? null : value)}
+              >
+                <SelectTrigger className="w-56" aria-label="Show photos of">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="everyone">Everyone</SelectItem>
+                  {people.map((person) => (
+                    <SelectItem key={person.key} value={person.key}>
+                      {person.name} ({person.imageCount})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedPerson && (
+                <Link
+                  href={`/people/${encodeURIComponent(selectedPerson.key)}`}
+                  className="text-sm text-primary hover:underline"
+                >
+                  More about {selectedPerson.name}
+                </Link>
+              )}
+            </div>
+          )}
           
           {isLoading ? (
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
@@ -44,42 +140,24 @@ export default function GalleryPage() {
                 <Skeleton key={index} className="aspect-square rounded-lg" />
               ))}
             </div>
-          ) : !images || images.length === 0 ? (
+          ) : !shownImages || shownImages.length === 0 ? (
             <div className="text-center p-12 border border-dashed border-gray-300 rounded-lg">
               <p className="text-gray-500">No gallery images available.</p>
             </div>
           ) : (
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
-              {images.map((image, index) => (
-                <div 
-                  key={image.id}
-                  className="overflow-hidden rounded-lg shadow-md cursor-pointer hover:shadow-lg transition-shadow"
-                  onClick={() => handleImageClick(index)}
-                >
-                  <div className="aspect-square">
-                    <img 
-                      src={image.imageUrl} 
-                      alt={image.caption || `Memory ${index + 1}`} 
-                      className="w-full h-full object-cover hover:scale-105 transition duration-500"
-                    />
-                  </div>
-                  {image.caption && (
-                    <div className="p-3 bg-white">
-                      <p className="text-sm text-gray-700">{image.caption}</p>
-                    </div>
-                  )}
-                </div>
-              ))}
-            </div>
+            <ImageGrid images={shownImages} onImageClick={handleImageClick} />
           )}
         </div>
       </main>
       
       <Footer />
       
-      {isLightboxOpen && images && (
+      <SharePhotoDialog isOpen={isShareDialogOpen} onClose={() => setIsShareDialogOpen(false)} />
+      <AuthModal isOpen={isAuthModalOpen} onClose={() => setIsAuthModalOpen(false)} />
+      
+      {isLightboxOpen && shownImages && (
         <ImageLightbox
-          images={images}
+          images={shownImages}
           currentIndex={currentImageIndex}
           onClose={() => setIsLightboxOpen(false)}
           onIndexChange={setCurrentImageIndex}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import GuestbookForm from "@/components/guestbook/guestbook-form";
+import { GuestbookEntry, GuestCandles, SiteSettings } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { proveWork } from "@/lib/proof-of-work";
+import { Flame, Loader2 } from "lucide-react";
+
+export default function GuestbookPage() {
+  const { apiPath } = useMemorial();
+  const { toast } = useToast();
+  const [isVerifying, setIsVerifying] = useState(false);
+  
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+  
+  useEffect(() => {
+    document.title = `Guestbook - ${settings?.siteTitle || "Memorial"}`;
+  }, [settings]);
+  
+  const { data: entries, isLoading } = useQuery<GuestbookEntry[]>({
+    queryKey: [apiPath("/guestbook")],
+  });
+  
+  const { data: candles } = useQuery<GuestCandles>({
+    queryKey: [apiPath("/guestbook/candles")],
+  });
+  
+  const candleMutation = useMutation({
+    mutationFn: async () => {
+      setIsVerifying(true);
+      const proof = await proveWork(apiPath("/guestbook/challenge")).finally(() => setIsVerifying(false));
+      const res = await apiRequest("POST", apiPath("/guestbook/candles"), proof);
+      return res.json();
+    },
+    onSuccess: (result: GuestCandles) => {
+      queryClient.setQueryData([apiPath("/guestbook/candles")], result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not light a candle",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const candleCount = candles?.count || 0;
+  
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header minimal />
+      
+      <main className="flex-grow py-16 px-6 bg-neutral-100">
+        <div className="container mx-auto max-w-4xl">
+          <h1 className="text-4xl font-heading font-bold text-center mb-4">Guestbook</h1>
+          <p className="text-center text-gray-600 mb-12">
+            Leave your name and a few words for the family. No account is needed.
+          </p>
+          
+          <div className="bg-white rounded-lg shadow-md p-8 mb-12 flex flex-col md:flex-row items-center gap-6">
+            <Flame className={`h-12 w-12 shrink-0 ${candles?.lit ? "text-amber-500 fill-amber-300" : "text-gray-400"}`} />
+            <div className="flex-grow text-center md:text-left">
+              <h3 className="text-2xl font-heading font-bold mb-1">Light a Candle</h3>
+              <p className="text-gray-600">
+                {candleCount === 1 ? "1 candle has" : `${candleCount} candles have`} been lit in remembrance.
+              </p>
+            </div>
+            <Button
+              onClick={() => candleMutation.mutate()}
+              disabled={candles?.lit || candleMutation.isPending}
+              className="bg-memorial-blue hover:bg-memorial-blue/90 text-white"
+            >
+              {candleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {candles?.lit ? "You lit a candle" : isVerifying ? "Verifying..." : "Light a Candle"}
+            </Button>
+          </div>
+          
+          <div className="bg-white rounded-lg shadow-md p-8 mb-12">
+            <h3 className="text-2xl font-heading font-bold mb-6">Sign the Guestbook</h3>
+            <GuestbookForm />
+          </div>
+          
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-24 w-full" />
+              <Skeleton className="h-24 w-full" />
+            </div>
+          ) : entries && entries.length > 0 ? (
+            <div className="space-y-4">
+              {entries.map((entry) => (
+                <div key={entry.id} className="bg-white rounded-lg shadow-md p-6">
+                  <p className="whitespace-pre-line mb-4">{entry.message}</p>
+                  <div className="flex flex-wrap items-baseline justify-between gap-2 text-sm text-gray-600">
+                    <span>
+                      <span className="font-semibold text-gray-800">{entry.name}</span>
+                      {entry.relationship && <span> &middot; {entry.relationship}</span>}
+                      {entry.town && <span> &middot; {entry.town}</span>}
+                    </span>
+                    <span>{format(new Date(entry.createdAt), "MMMM d, yyyy")}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500">Be the first to sign the guestbook.</p>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+}
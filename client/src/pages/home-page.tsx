@@ -6,11 +6,14 @@ import FuneralService from "@/components/funeral/funeral-service";
 import TributeWall from "@/components/tributes/tribute-wall";
 import { useQuery } from "@tanstack/react-query";
 import { SiteSettings } from "@/lib/types";
+import { useMemorial } from "@/hooks/use-memorial";
 
 export default function HomePage() {
+  const { apiPath } = useMemorial();
+  
   // Get site settings
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   
   // Set page title based on site settings
@@ -0,0 +1,94 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import StreamPlayer from "@/components/live/stream-player";
+import ServiceCountdown from "@/components/live/service-countdown";
+import LiveChat from "@/components/live/live-chat";
+import { FuneralProgram, ServiceEvent, SiteSettings } from "@/lib/types";
+import { EVENT_TYPE_LABELS } from "@/lib/constants";
+import { detectStream, servicePhase, streamedService } from "@/lib/livestream";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+
+export default function LivePage() {
+  const { apiPath } = useMemorial();
+  const [now, setNow] = useState(() => new Date());
+  
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+  const { data: program, isLoading: isLoadingProgram } = useQuery<FuneralProgram>({
+    queryKey: [apiPath("/funeral-program")],
+  });
+  const { data: events, isLoading: isLoadingEvents } = useQuery<ServiceEvent[]>({
+    queryKey: [apiPath("/events")],
+  });
+  
+  useEffect(() => {
+    document.title = `Livestream - ${settings?.siteTitle || "Memorial"}`;
+  }, [settings]);
+  
+  // Drives the countdown, and moves the page on to live and then replay
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+  
+  const service = streamedService(events || []);
+  // Without a scheduled service the stream is simply shown
+  const phase = service ? servicePhase(service, now) : "live";
+  const embed = program?.streamLink ? detectStream(program.streamLink) : undefined;
+  
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header minimal />
+      
+      <main className="flex-grow py-16 px-6 bg-neutral-100">
+        <div className="container mx-auto max-w-6xl">
+          <h1 className="text-4xl font-heading font-bold text-center mb-4">Livestream</h1>
+          {service && (
+            <p className="text-center text-gray-600 mb-12">
+              {service.event.title || EVENT_TYPE_LABELS[service.event.type]} at {service.event.venue}
+            </p>
+          )}
+          
+          <div className="grid gap-8 lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              {isLoadingProgram || isLoadingEvents ? (
+                <Skeleton className="aspect-video w-full" />
+              ) : !embed ? (
+                <div className="aspect-video w-full flex items-center justify-center rounded-lg border border-dashed border-gray-300 bg-white p-6 text-center">
+                  <p className="text-gray-500">The family hasn't shared a livestream for the service.</p>
+                </div>
+              ) : phase === "upcoming" ? (
+                <ServiceCountdown startsAt={service!.startsAt} now={now} />
+              ) : (
+                <>
+                  <div className="mb-3">
+                    {phase === "live" ? (
+                      <Badge className="bg-red-600 hover:bg-red-600">Live</Badge>
+                    ) : (
+                      <Badge variant="secondary">Replay</Badge>
+                    )}
+                  </div>
+                  <StreamPlayer embed={embed} title={`Livestream of the service for ${settings?.siteTitle || "the memorial"}`} />
+                  {phase === "replay" && (
+                    <p className="mt-3 text-sm text-gray-600">
+                      The service has ended. The recording stays here for anyone who couldn't watch it live.
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+            
+            <LiveChat />
+          </div>
+        </div>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Memorial } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus } from "lucide-react";
+
+const MEMORIALS_KEY = "/api/memorials?includeArchived=true";
+
+// Turns a name into a URL-friendly slug, e.g. "Chris Murphey" -> "chris-murphey"
+function slugify(value: string) {
+  return value.toLowerCase().trim().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+// Super-admin page for creating, renaming and archiving memorials
+export default function ManageMemorialsPage() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [slugEdited, setSlugEdited] = useState(false);
+
+  useEffect(() => {
+    document.title = "Manage Memorials";
+  }, []);
+
+  const { data: memorials, isLoading } = useQuery<Memorial[]>({
+    queryKey: [MEMORIALS_KEY],
+  });
+
+  const invalidateMemorials = () => {
+    queryClient.invalidateQueries({ queryKey: [MEMORIALS_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/memorials"] });
+  };
+
+  const createMemorialMutation = useMutation({
+    mutationFn: async (data: { name: string; slug: string }) => {
+      const res = await apiRequest("POST", "/api/memorials", data);
+      return res.json();
+    },
+    onSuccess: (memorial: Memorial) => {
+      invalidateMemorials();
+      setName("");
+      setSlug("");
+      setSlugEdited(false);
+      toast({
+        title: "Memorial created",
+        description: `${memorial.name} is available at /m/${memorial.slug}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create memorial",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMemorialMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<Memorial> }) => {
+      const res = await apiRequest("PUT", `/api/memorials/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      invalidateMemorials();
+      toast({
+        title: "Memorial updated",
+        description: "The memorial has been updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update memorial",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    // Keep the slug in step with the name until it is edited by hand
+    if (!slugEdited) {
+      setSlug(slugify(value));
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMemorialMutation.mutate({ name: name.trim(), slug });
+  };
+
+  const handleRename = (memorial: Memorial) => {
+    const newName = window.prompt("Memorial name", memorial.name);
+    if (newName && newName.trim() && newName.trim() !== memorial.name) {
+      updateMemorialMutation.mutate({ id: memorial.id, data: { name: newName.trim() } });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-neutral-100">
+      <header className="bg-primary px-6 py-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <Link href="/" className="text-white text-xl font-heading font-bold">
+            Memorials
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-grow py-12 px-6">
+        <div className="container mx-auto max-w-5xl space-y-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>New Memorial</CardTitle>
+              <CardDescription>
+                Each memorial has its own tributes, gallery, program and settings
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="memorialName">Name</Label>
+                  <Input
+                    id="memorialName"
+                    value={name}
+                    onChange={(e) => handleNameChange(e.target.value)}
+                    placeholder="Full name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="memorialSlug">URL slug</Label>
+                  <Input
+                    id="memorialSlug"
+                    value={slug}
+                    onChange={(e) => {
+                      setSlug(slugify(e.target.value));
+                      setSlugEdited(true);
+                    }}
+                    placeholder="full-name"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={!name.trim() || !slug || createMemorialMutation.isPending}
+                >
+                  {createMemorialMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  Create
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>All Memorials</CardTitle>
+              <CardDescription>
+                Archived memorials are hidden from visitors but kept for their admins
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>URL</TableHead>
+                      <TableHead>Archived</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {memorials?.map((memorial) => (
+                      <TableRow key={memorial.id}>
+                        <TableCell className="font-medium">
+                          {memorial.name}
+                          {memorial.isArchived && (
+                            <Badge variant="secondary" className="ml-2">Archived</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Link href={`/m/${memorial.slug}`} className="text-primary hover:underline">
+                            /m/{memorial.slug}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={memorial.isArchived}
+                            onCheckedChange={(checked) => updateMemorialMutation.mutate({
+                              id: memorial.id,
+                              data: { isArchived: checked }
+                            })}
+                            disabled={updateMemorialMutation.isPending}
+                          />
+                        </TableCell>
+                        <TableCell className="space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => handleRename(memorial)}>
+                            Rename
+                          </Button>
+                          <Link href={`/m/${memorial.slug}/admin`}>
+                            <Button variant="outline" size="sm">Admin</Button>
+                          </Link>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
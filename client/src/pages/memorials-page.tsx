@@ -0,0 +1,74 @@
+import { useEffect } from "react";
+import { Link, Redirect } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { Memorial } from "@/lib/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+// Landing page listing every public memorial hosted on this deployment
+export default function MemorialsPage() {
+  const { isSuperAdmin } = useAuth();
+  
+  const { data: memorials, isLoading } = useQuery<Memorial[]>({
+    queryKey: ["/api/memorials"],
+  });
+  
+  useEffect(() => {
+    document.title = "Memorials";
+  }, []);
+  
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+  
+  // Single-memorial deployments go straight to the memorial
+  if (memorials?.length === 1 && !isSuperAdmin) {
+    return <Redirect to={`/m/${memorials[0].slug}`} replace />;
+  }
+  
+  return (
+    <div className="min-h-screen flex flex-col bg-neutral-100">
+      <header className="bg-primary px-6 py-4">
+        <div className="container mx-auto flex justify-between items-center">
+          <span className="text-white text-xl font-heading font-bold">Memorials</span>
+          {isSuperAdmin && (
+            <Link href="/admin/memorials">
+              <Button variant="secondary" className="text-white">Manage Memorials</Button>
+            </Link>
+          )}
+        </div>
+      </header>
+      
+      <main className="flex-grow py-16 px-6">
+        <div className="container mx-auto max-w-4xl">
+          <h1 className="text-4xl font-heading font-bold text-center mb-12">In Loving Memory</h1>
+          
+          {memorials && memorials.length > 0 ? (
+            <div className="grid gap-6 sm:grid-cols-2">
+              {memorials.map((memorial) => (
+                <Link key={memorial.id} href={`/m/${memorial.slug}`}>
+                  <Card className="cursor-pointer hover:shadow-lg transition">
+                    <CardHeader>
+                      <CardTitle className="font-heading">{memorial.name}</CardTitle>
+                    </CardHeader>
+                    <CardContent className="text-sm text-muted-foreground">
+                      Visit memorial
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-muted-foreground">No memorials have been created yet.</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState, useEffect } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import { PersonPage as PersonPageData, SiteSettings } from "@/lib/types";
+import ImageLightbox from "@/components/gallery/image-lightbox";
+import ImageGrid from "@/components/gallery/image-grid";
+import TributeCard from "@/components/tributes/tribute-card";
+import { ArrowLeft } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+
+// Everyone tagged in the gallery has a page with their photos, and the
+// tributes they've written when their tags are linked to an account
+export default function PersonPage() {
+  const { apiPath } = useMemorial();
+  const { personKey } = useParams<{ personKey: string }>();
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+  
+  const { data, isLoading, refetch } = useQuery<PersonPageData>({
+    queryKey: [apiPath(`/people/${encodeURIComponent(personKey)}`)],
+    retry: false,
+  });
+  
+  useEffect(() => {
+    document.title = `${data?.person.name || "Photos"} - ${settings?.siteTitle || "Memorial"}`;
+  }, [data, settings]);
+  
+  const handleImageClick = (index: number) => {
+    setCurrentImageIndex(index);
+    setIsLightboxOpen(true);
+  };
+  
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header minimal />
+      
+      <main className="flex-grow py-16 px-6 bg-white">
+        <div className="container mx-auto">
+          <Link href="/gallery" className="inline-flex items-center text-sm text-gray-600 hover:text-primary mb-8">
+            <ArrowLeft className="mr-2 h-4 w-4" /> Gallery
+          </Link>
+          
+          {isLoading ? (
+            <>
+              <Skeleton className="h-10 w-1/3 mx-auto mb-12" />
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
+                {Array.from({ length: 8 }).map((_, index) => (
+                  <Skeleton key={index} className="aspect-square rounded-lg" />
+                ))}
+              </div>
+            </>
+          ) : !data ? (
+            <div className="text-center p-12 border border-dashed border-gray-300 rounded-lg">
+              <p className="text-gray-500">No one by this name has been tagged in the gallery.</p>
+            </div>
+          ) : (
+            <>
+              <h1 className="text-4xl font-heading font-bold text-center mb-12">Photos of {data.person.name}</h1>
+              
+              {data.images.length === 0 ? (
+                <div className="text-center p-12 border border-dashed border-gray-300 rounded-lg">
+                  <p className="text-gray-500">There are no photos of {data.person.name} yet.</p>
+                </div>
+              ) : (
+                <ImageGrid images={data.images} onImageClick={handleImageClick} />
+              )}
+              
+              {data.tributes.length > 0 && (
+                <section className="max-w-3xl mx-auto mt-16">
+                  <h2 className="text-2xl font-heading font-semibold mb-6">Tributes from {data.person.name}</h2>
+                  {data.tributes.map((tribute) => (
+                    <TributeCard key={tribute.id} tribute={tribute} onUpdate={() => refetch()} />
+                  ))}
+                </section>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+      
+      <Footer />
+      
+      {isLightboxOpen && data && (
+        <ImageLightbox
+          images={data.images}
+          currentIndex={currentImageIndex}
+          onClose={() => setIsLightboxOpen(false)}
+          onIndexChange={setCurrentImageIndex}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,23 @@
 import { useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import Header from "@/components/layout/header";
 import Footer from "@/components/layout/footer";
-import { FuneralProgram, SiteSettings } from "@/lib/types";
+import { FuneralProgram, ProgramSection, ServiceEvent, SiteSettings } from "@/lib/types";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, MapPin, FileText, Video } from "lucide-react";
+import { BookOpen, FileText, Video } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+import AddToCalendar from "@/components/funeral/add-to-calendar";
+import EventTimeline from "@/components/funeral/event-timeline";
+import RsvpForm from "@/components/funeral/rsvp-form";
 
 export default function ProgramPage() {
+  const { apiPath } = useMemorial();
+  
   // Fetch settings
   const { data: settings } = useQuery<SiteSettings>({
-    queryKey: ["/api/settings"],
+    queryKey: [apiPath("/settings")],
   });
   
   // Set page title
@@ -18,10 +25,29 @@ export default function ProgramPage() {
     document.title = `Funeral Program - ${settings?.siteTitle || "Memorial"}`;
   }, [settings]);
   
-  const { data: program, isLoading } = useQuery<FuneralProgram>({
-    queryKey: ["/api/funeral-program"],
+  const { data: program, isLoading: isLoadingProgram } = useQuery<FuneralProgram>({
+    queryKey: [apiPath("/funeral-program")],
+  });
+  
+  const { data: events, isLoading: isLoadingEvents } = useQuery<ServiceEvent[]>({
+    queryKey: [apiPath("/events")],
+  });
+  
+  const { data: sections } = useQuery<ProgramSection[]>({
+    queryKey: [apiPath("/program-sections")],
   });
   
+  // The generated program replaces a pasted PDF link once sections exist
+  const hasGeneratedProgram = !!sections && sections.length > 0;
+  const programUrl = hasGeneratedProgram ? apiPath("/funeral-program/program.pdf") : program?.programPdfUrl;
+  
+  const isLoading = isLoadingProgram || isLoadingEvents;
+  
+  // Only events that haven't finished yet can be RSVP'd to
+  const upcomingEvents = (events || []).filter(
+    event => new Date(event.endsAt || event.startsAt).getTime() >= Date.now()
+  );
+  
   return (
     <div className="min-h-screen flex flex-col">
       <Header minimal />
@@ -69,7 +95,7 @@ export default function ProgramPage() {
                 </div>
               </div>
             </div>
-          ) : !program ? (
+          ) : !program && !events?.length ? (
             <div className="text-center p-8 border border-dashed border-gray-300 rounded-lg bg-white">
               <p className="text-gray-500">Funeral service details are not available.</p>
             </div>
@@ -88,39 +114,26 @@ export default function ProgramPage() {
                   </div>
                   <div className="md:w-2/3">
                     <h2 className="text-3xl font-heading font-bold mb-6">Celebration of Life</h2>
-                    <div className="space-y-4 mb-8">
-                      <div className="flex gap-3">
-                        <Calendar className="text-primary mt-1 h-5 w-5" />
-                        <div>
-                          <p className="font-semibold">Date</p>
-                          <p className="text-lg">{program.date}</p>
-                        </div>
-                      </div>
-                      <div className="flex gap-3">
-                        <Clock className="text-primary mt-1 h-5 w-5" />
-                        <div>
-                          <p className="font-semibold">Time</p>
-                          <p className="text-lg">{program.time}</p>
-                        </div>
-                      </div>
-                      <div className="flex gap-3">
-                        <MapPin className="text-primary mt-1 h-5 w-5" />
-                        <div>
-                          <p className="font-semibold">Location</p>
-                          <p className="text-lg">{program.location}</p>
-                          <p>{program.address}</p>
-                        </div>
-                      </div>
+                    <div className="mb-8">
+                      {events && events.length > 0 ? (
+                        <EventTimeline events={events} />
+                      ) : (
+                        <p className="text-gray-500">Service times will be shared soon.</p>
+                      )}
                     </div>
                     <div className="flex flex-wrap gap-4">
-                      {program.programPdfUrl && (
+                      {events && events.length > 1 && (
+                        <AddToCalendar size="lg" />
+                      )}
+                      
+                      {programUrl && (
                         <Button 
                           className="bg-primary text-white hover:bg-opacity-90 px-6 py-3"
                           size="lg"
                           asChild
                         >
                           <a 
-                            href={program.programPdfUrl} 
+                            href={programUrl} 
                             target="_blank" 
                             rel="noopener noreferrer"
                           >
@@ -129,31 +142,46 @@ export default function ProgramPage() {
                         </Button>
                       )}
                       
-                      {program.streamLink && (
+                      {hasGeneratedProgram && (
                         <Button 
-                          variant="secondary"
-                          className="text-white hover:bg-opacity-90 px-6 py-3"
+                          variant="outline"
+                          className="px-6 py-3"
                           size="lg"
                           asChild
                         >
                           <a 
-                            href={program.streamLink} 
+                            href={apiPath("/funeral-program/program.pdf?layout=booklet")} 
                             target="_blank" 
                             rel="noopener noreferrer"
                           >
-                            <Video className="mr-2 h-5 w-5" /> Live Stream
+                            <BookOpen className="mr-2 h-5 w-5" /> Print Booklet
                           </a>
                         </Button>
                       )}
+                      
+                      {program?.streamLink && (
+                        <Button 
+                          variant="secondary"
+                          className="text-white hover:bg-opacity-90 px-6 py-3"
+                          size="lg"
+                          asChild
+                        >
+                          <Link href="/live">
+                            <Video className="mr-2 h-5 w-5" /> Live Stream
+                          </Link>
+                        </Button>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
               
+              <RsvpForm events={upcomingEvents} />
+              
               <div className="bg-white rounded-lg shadow-md p-8">
                 <h3 className="text-2xl font-heading font-bold mb-4">About the Service</h3>
                 <div className="prose max-w-none">
-                  {program.serviceDescription ? (
+                  {program?.serviceDescription ? (
                     program.serviceDescription.split('\n').map((paragraph, index) => (
                       <p key={index}>{paragraph}</p>
                     ))
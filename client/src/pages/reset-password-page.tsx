@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { CheckCircle, Loader2 } from "lucide-react";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "Password must be at least 8 characters long"),
+  confirmPassword: z.string(),
+}).refine((values) => values.password === values.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+// Landing page for the link in password reset emails. Accounts are shared by
+// every memorial, so this lives outside /m/:slug; ?memorial= says where to
+// send the user afterwards.
+export default function ResetPasswordPage() {
+  const params = new URLSearchParams(useSearch());
+  const token = params.get("token");
+  const memorialSlug = params.get("memorial");
+  const signInPath = memorialSlug ? `/m/${memorialSlug}/auth` : "/";
+  const [error, setError] = useState<string | null>(null);
+  
+  useEffect(() => {
+    document.title = "Reset Password";
+  }, []);
+  
+  const form = useForm({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" }
+  });
+  
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (values: z.infer<typeof resetPasswordSchema>) => {
+      const res = await fetch("/api/password-reset/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, password: values.password }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.message || "Failed to reset password");
+      }
+      return data;
+    },
+    onMutate: () => setError(null),
+    onError: (error: Error) => setError(error.message),
+  });
+  
+  return (
+    <div className="min-h-screen flex flex-col bg-neutral-100">
+      <header className="bg-primary px-6 py-4">
+        <div className="container mx-auto">
+          <span className="text-white text-xl font-heading font-bold">Memorials</span>
+        </div>
+      </header>
+      
+      <main className="flex-grow py-16 px-6">
+        <div className="container mx-auto max-w-md">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Choose a New Password</CardTitle>
+              <CardDescription>
+                Reset links work once and expire after an hour
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {!token ? (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    This link is missing its reset code. Please use the full link from your email.
+                  </AlertDescription>
+                </Alert>
+              ) : resetPasswordMutation.isSuccess ? (
+                <div className="flex flex-col items-center text-center gap-4 py-4">
+                  <CheckCircle className="h-10 w-10 text-primary" />
+                  <p>{resetPasswordMutation.data.message}</p>
+                  <Link href={signInPath}>
+                    <Button>Sign In</Button>
+                  </Link>
+                </div>
+              ) : (
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((values) => resetPasswordMutation.mutate(values))} className="space-y-4">
+                    {error && (
+                      <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                      </Alert>
+                    )}
+                    
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>New Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" placeholder="At least 8 characters" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" autoComplete="new-password" placeholder="Enter it again" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <Button
+                      type="submit"
+                      className="w-full"
+                      disabled={resetPasswordMutation.isPending}
+                    >
+                      {resetPasswordMutation.isPending ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Saving...
+                        </>
+                      ) : (
+                        "Reset Password"
+                      )}
+                    </Button>
+                  </form>
+                </Form>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Header from "@/components/layout/header";
+import Footer from "@/components/layout/footer";
+import { LifeStoryRevision, SiteSettings } from "@/lib/types";
+import { LIFE_STORY_PROSE } from "@/lib/constants";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMemorial } from "@/hooks/use-memorial";
+
+export default function StoryPage() {
+  const { apiPath } = useMemorial();
+  
+  const { data: settings } = useQuery<SiteSettings>({
+    queryKey: [apiPath("/settings")],
+  });
+  
+  const { data: story, isLoading } = useQuery<LifeStoryRevision | null>({
+    queryKey: [apiPath("/story")],
+  });
+  
+  useEffect(() => {
+    document.title = `Life Story - ${settings?.siteTitle || "Memorial"}`;
+  }, [settings]);
+  
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header minimal />
+      
+      <main className="flex-grow py-16 px-6 bg-neutral-100">
+        <article className="container mx-auto max-w-3xl bg-white rounded-lg shadow-md p-8 md:p-12">
+          <header className="text-center mb-10">
+            <h1 className="text-4xl font-heading font-bold mb-2">{settings?.siteTitle || "Life Story"}</h1>
+            {settings?.lifeDates && <p className="text-gray-600">{settings.lifeDates}</p>}
+          </header>
+          
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-6 w-1/2" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-full" />
+              <Skeleton className="h-4 w-3/4" />
+            </div>
+          ) : story?.content ? (
+            // Sanitized by the server before it was stored
+            <div className={LIFE_STORY_PROSE} dangerouslySetInnerHTML={{ __html: story.content }} />
+          ) : (
+            <p className="text-center text-gray-500">The family hasn't shared a life story yet.</p>
+          )}
+        </article>
+      </main>
+      
+      <Footer />
+    </div>
+  );
+}
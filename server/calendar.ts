@@ -0,0 +1,110 @@
+import type { ServiceEvent } from "@shared/schema";
+
+// Events without an end time are shown as one hour long
+const DEFAULT_EVENT_DURATION_MS = 60 * 60 * 1000;
+
+export interface CalendarOptions {
+  // Used in each event summary, e.g. "Funeral Service – Chris Murphey"
+  memorialName: string;
+  // Domain part of each UID so they stay unique across deployments
+  host: string;
+  // Link back to the program page, added to every description
+  programUrl?: string;
+}
+
+// 20231021T130000Z
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545 3.3.11: backslash, semicolon, comma and newlines must be escaped
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 3.1: lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (currentBytes + charBytes > limit) {
+      chunks.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+
+  return chunks.join("\r\n ");
+}
+
+export function eventSummary(event: ServiceEvent) {
+  return event.title || event.type.charAt(0).toUpperCase() + event.type.slice(1);
+}
+
+export function eventLocation(event: ServiceEvent) {
+  return [event.venue, event.address].filter(Boolean).join(", ");
+}
+
+function eventDescription(event: ServiceEvent, programUrl?: string) {
+  return [
+    event.notes,
+    event.streamLink ? `Livestream: ${event.streamLink}` : null,
+    programUrl ? `Program: ${programUrl}` : null,
+  ].filter(Boolean).join("\n\n");
+}
+
+// Builds an iCalendar file with one VEVENT per service event
+export function buildCalendar(events: ServiceEvent[], options: CalendarOptions) {
+  const stamp = formatUtc(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Memorial//Funeral Program//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${options.memorialName} – Services`)}`,
+  ];
+
+  for (const event of events) {
+    const startsAt = new Date(event.startsAt);
+    const endsAt = event.endsAt
+      ? new Date(event.endsAt)
+      : new Date(startsAt.getTime() + DEFAULT_EVENT_DURATION_MS);
+    const description = eventDescription(event, options.programUrl);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:event-${event.id}@${options.host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatUtc(startsAt)}`,
+      `DTEND:${formatUtc(endsAt)}`,
+      `SUMMARY:${escapeText(`${eventSummary(event)} – ${options.memorialName}`)}`,
+      `LOCATION:${escapeText(eventLocation(event))}`,
+    );
+
+    if (description) {
+      lines.push(`DESCRIPTION:${escapeText(description)}`);
+    }
+    if (event.streamLink) {
+      lines.push(`URL:${event.streamLink}`);
+    }
+
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
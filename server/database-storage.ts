@@ -1,12 +1,29 @@
-import { eq, and, desc } from 'drizzle-orm';
+import { eq, and, or, asc, desc, gte, lt, lte, gt, inArray, isNull, sql, SQLWrapper } from 'drizzle-orm';
 import { db } from './db';
 import { 
   users, User, InsertUser, 
-  tributes, Tribute, InsertTribute,
+  passwordResetTokens, PasswordResetToken,
+  memorials, Memorial, InsertMemorial,
+  memorialAdmins,
+  tributes, Tribute, InsertTribute, TributeStatus, TributeQuery, TributeFeedItem,
+  tributeComments, TributeComment, InsertTributeComment,
   gallery, GalleryImage, InsertGalleryImage,
+  albums, Album, InsertAlbum, albumImages, AlbumImage, AlbumSummary,
+  photoTags, PhotoTag, InsertPhotoTag,
   settings, Setting, InsertSetting,
   funeralProgram, FuneralProgram, InsertFuneralProgram,
-  candles, Candle, InsertCandle
+  events, ServiceEvent, InsertServiceEvent,
+  programSections, ProgramSection, InsertProgramSection,
+  rsvps, Rsvp, InsertRsvp,
+  candles,
+  reactions, Reaction, ReactionKind, ReactionCounts,
+  guestbookEntries, GuestbookEntry, InsertGuestbookEntry,
+  guestCandles,
+  lifeStoryRevisions, LifeStoryRevision, InsertLifeStoryRevision, LifeStoryItem,
+  liveChatMessages, LiveChatMessage, InsertLiveChatMessage, LiveChatItem,
+  emailOutbox, OutboxEmail, InsertOutboxEmail,
+  notificationPreferences, NotificationKind, NotificationPreferences, notificationKinds,
+  SearchResult, SearchResultType
 } from "@shared/schema";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
@@ -17,9 +34,33 @@ const { Pool } = pg;
 
 const PostgresSessionStore = connectPg(session);
 
+// Best-effort parse of the old free-text program fields, e.g.
+// "Saturday, October 21, 2023" + "1:00 PM - 3:00 PM"
+function parseLegacyProgramTimes(date: string, time: string | null) {
+  const [start, end] = (time || "").split(/\s+-\s+/);
+  const startsAt = new Date(`${date} ${start || ""}`.trim());
+  const endsAt = end ? new Date(`${date} ${end}`) : null;
+  
+  if (isNaN(startsAt.getTime())) {
+    return undefined;
+  }
+  
+  return {
+    startsAt,
+    endsAt: endsAt && !isNaN(endsAt.getTime()) && endsAt >= startsAt ? endsAt : null
+  };
+}
+
+// Same expressions as the GIN indexes in the schema, so the planner can use them
+const searchVector = (text: SQLWrapper) => sql`to_tsvector('english', ${text})`;
+const searchHeadline = (text: SQLWrapper, query: SQLWrapper) =>
+  sql<string>`ts_headline('english', ${text}, ${query}, 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15')`;
+
 export class DatabaseStorage implements IStorage {
   sessionStore: any; // Using 'any' to resolve SessionStore type issue
   pool: any; // Using 'any' to resolve Pool type issue
+  // Settles once default data and startup migrations have run
+  ready: Promise<void>;
 
   constructor() {
     // Create a pool for the session store connection
@@ -35,22 +76,38 @@ export class DatabaseStorage implements IStorage {
     });
 
     // Initialize default data if needed
-    this.initializeDefaultData();
+    this.ready = this.initializeDefaultData();
   }
 
   private async initializeDefaultData() {
     try {
+      // Content created before multi-memorial support has memorial_id 1, so
+      // make sure a first memorial exists to own it
+      let memorial = (await this.getMemorials(true))[0];
+      
+      if (!memorial) {
+        const siteTitle = (await db.select().from(settings).where(eq(settings.key, "siteTitle")))[0]?.value;
+        const name = siteTitle?.replace(/ Memorial$/, "") || "Memorial";
+        const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "memorial";
+        memorial = await this.createMemorial({ slug, name });
+      }
+      
+      const memorialId = memorial.id;
+      
       // Check if we have any settings
-      const existingSettings = await this.getAllSettings();
+      const existingSettings = await this.getAllSettings(memorialId);
       
       if (existingSettings.length === 0) {
         // Initialize default settings
-        await this.upsertSetting({ key: "backgroundImage", value: "" });
-        await this.upsertSetting({ key: "tributeImage", value: "" });
-        await this.upsertSetting({ key: "footerMessage", value: "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\"" });
+        await this.upsertSetting({ memorialId, key: "backgroundImage", value: "" });
+        await this.upsertSetting({ memorialId, key: "tributeImage", value: "" });
+        await this.upsertSetting({ memorialId, key: "footerMessage", value: "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\"" });
+        await this.upsertSetting({ memorialId, key: "requireTributeApproval", value: "false" });
+        await this.upsertSetting({ memorialId, key: "enabledReactions", value: "candle,flower,heart,dove" });
         
         // Add sample gallery image
         await this.createGalleryImage({
+          memorialId,
           imageUrl: "https://images.unsplash.com/photo-1472791108553-c9405341e398",
           caption: "Chris at the beach",
           isFeatured: true,
@@ -58,22 +115,105 @@ export class DatabaseStorage implements IStorage {
         });
 
         // Initialize funeral program
-        await this.updateFuneralProgram({
-          date: "Saturday, October 21, 2023",
-          time: "1:00 PM - 3:00 PM",
-          location: "Seaside Memorial Chapel",
-          address: "1234 Coastal Highway, Oceanview, CA 92123",
+        await this.updateFuneralProgram(memorialId, {
           streamLink: "https://example.com/stream",
           programPdfUrl: "https://example.com/program.pdf"
         });
         
+        await this.createEvent({
+          memorialId,
+          type: "funeral",
+          title: "Celebration of Life",
+          startsAt: new Date("2023-10-21T13:00:00"),
+          endsAt: new Date("2023-10-21T15:00:00"),
+          venue: "Seaside Memorial Chapel",
+          address: "1234 Coastal Highway, Oceanview, CA 92123",
+          streamLink: "https://example.com/stream"
+        });
+        
         console.log("Default data initialized successfully");
       }
+      
+      await this.migrateLegacyPrograms();
+      await this.migrateLegacyCandles();
     } catch (error) {
       console.error("Error initializing default data:", error);
     }
   }
 
+  // Turns single-service funeral programs into a "funeral" event, once
+  private async migrateLegacyPrograms() {
+    const legacyPrograms = await db.select().from(funeralProgram);
+    
+    for (const program of legacyPrograms) {
+      if (!program.date || !program.location) continue;
+      
+      const existingEvents = await this.getEvents(program.memorialId);
+      
+      if (existingEvents.length === 0) {
+        const times = parseLegacyProgramTimes(program.date, program.time);
+        
+        if (!times) {
+          console.warn(`Could not migrate funeral program for memorial ${program.memorialId}: unrecognised date "${program.date}"`);
+          continue;
+        }
+        
+        await this.createEvent({
+          memorialId: program.memorialId,
+          type: "funeral",
+          ...times,
+          venue: program.location,
+          address: program.address,
+          streamLink: program.streamLink
+        });
+      }
+      
+      // Clear the old fields so the migration does not run again
+      await db.update(funeralProgram)
+        .set({ date: null, time: null, location: null, address: null })
+        .where(eq(funeralProgram.id, program.id));
+    }
+  }
+
+  // Moves candles lit before reactions existed into reactions, once. A
+  // tribute keeps whichever is higher of its old candleCount and its number of
+  // candle rows, so no count goes down. Candles beyond the rows are kept in
+  // legacyCandleCount for recounts.
+  async migrateLegacyCandles(): Promise<void> {
+    const legacyCandles = await db.select().from(candles);
+    const legacyTributeIds = Array.from(new Set(legacyCandles.map(candle => candle.tributeId)));
+    
+    const needsMigration = legacyTributeIds.length > 0
+      ? or(gt(tributes.candleCount, 0), inArray(tributes.id, legacyTributeIds))
+      : gt(tributes.candleCount, 0);
+    
+    await db.transaction(async (tx) => {
+      if (legacyCandles.length > 0) {
+        await tx.insert(reactions)
+          .values(legacyCandles.map(candle => ({ tributeId: candle.tributeId, userId: candle.userId, kind: "candle" as const })))
+          .onConflictDoNothing();
+      }
+      
+      const candleRows = sql`(select count(*)::int from ${reactions} where ${reactions.tributeId} = ${tributes.id} and ${reactions.kind} = 'candle')`;
+      const migrated = await tx.update(tributes)
+        .set({
+          reactionCounts: sql`jsonb_set(${tributes.reactionCounts}, '{candle}', to_jsonb(greatest(${tributes.candleCount}, ${candleRows})))`,
+          legacyCandleCount: sql`${tributes.legacyCandleCount} + greatest(${tributes.candleCount} - ${candleRows}, 0)`,
+          candleCount: 0
+        })
+        .where(needsMigration)
+        .returning({ id: tributes.id });
+      
+      if (legacyCandles.length > 0) {
+        await tx.delete(candles);
+      }
+      
+      if (migrated.length > 0) {
+        console.log(`Moved candles on ${migrated.length} tributes into reactions`);
+      }
+    });
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     try {
@@ -128,6 +268,15 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async getUsersByEmail(email: string): Promise<User[]> {
+    try {
+      return await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    } catch (error) {
+      console.error("Error getting users by email:", error);
+      return [];
+    }
+  }
+
   async getAllUsers(): Promise<User[]> {
     try {
       return await db.select().from(users);
@@ -137,322 +286,1631 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Tribute methods
-  async getTributes(limit?: number, offset = 0): Promise<Tribute[]> {
+  // Password reset token methods
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
     try {
-      let result = await db.select().from(tributes).orderBy(desc(tributes.createdAt));
-      
-      if (limit !== undefined) {
-        result = result.slice(offset, offset + limit);
-      }
-      
-      return result;
+      const result = await db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt }).returning();
+      return result[0];
     } catch (error) {
-      console.error("Error getting tributes:", error);
-      return [];
+      console.error("Error creating password reset token:", error);
+      throw error;
     }
   }
 
-  async getTributeById(id: number): Promise<Tribute | undefined> {
+  async consumePasswordResetToken(tokenHash: string, now: Date): Promise<PasswordResetToken | undefined> {
     try {
-      const result = await db.select().from(tributes).where(eq(tributes.id, id));
+      // A single conditional update, so two requests can't both use the token
+      const result = await db.update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, now)
+        ))
+        .returning();
       return result[0];
     } catch (error) {
-      console.error("Error getting tribute by id:", error);
+      console.error("Error consuming password reset token:", error);
       return undefined;
     }
   }
 
-  async getTributesByUserId(userId: number): Promise<Tribute[]> {
+  async deletePasswordResetTokens(userId: number): Promise<void> {
     try {
-      return await db.select().from(tributes).where(eq(tributes.userId, userId));
+      await db.delete(passwordResetTokens).where(eq(passwordResetTokens.userId, userId));
     } catch (error) {
-      console.error("Error getting tributes by user id:", error);
+      console.error("Error deleting password reset tokens:", error);
+    }
+  }
+
+  // Memorial methods
+  async getMemorials(includeArchived = false): Promise<Memorial[]> {
+    try {
+      return await db.select()
+        .from(memorials)
+        .where(includeArchived ? undefined : eq(memorials.isArchived, false))
+        .orderBy(asc(memorials.name));
+    } catch (error) {
+      console.error("Error getting memorials:", error);
       return [];
     }
   }
 
-  async createTribute(tribute: InsertTribute): Promise<Tribute> {
+  async getMemorialById(id: number): Promise<Memorial | undefined> {
     try {
-      const result = await db.insert(tributes).values({
-        ...tribute,
-        createdAt: new Date(),
-        candleCount: 0
-      }).returning();
+      const result = await db.select().from(memorials).where(eq(memorials.id, id));
       return result[0];
     } catch (error) {
-      console.error("Error creating tribute:", error);
+      console.error("Error getting memorial by id:", error);
+      return undefined;
+    }
+  }
+
+  async getMemorialBySlug(slug: string): Promise<Memorial | undefined> {
+    try {
+      const result = await db.select().from(memorials).where(eq(memorials.slug, slug));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting memorial by slug:", error);
+      return undefined;
+    }
+  }
+
+  async createMemorial(memorial: InsertMemorial): Promise<Memorial> {
+    try {
+      const result = await db.insert(memorials).values(memorial).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating memorial:", error);
       throw error;
     }
   }
 
-  async updateTribute(id: number, tributeData: Partial<Tribute>): Promise<Tribute | undefined> {
+  async updateMemorial(id: number, memorialData: Partial<Memorial>): Promise<Memorial | undefined> {
     try {
-      const result = await db.update(tributes)
-        .set(tributeData)
-        .where(eq(tributes.id, id))
+      const { id: _, ...data } = memorialData;
+      const result = await db.update(memorials)
+        .set(data)
+        .where(eq(memorials.id, id))
         .returning();
       return result[0];
     } catch (error) {
-      console.error("Error updating tribute:", error);
+      console.error("Error updating memorial:", error);
       return undefined;
     }
   }
 
-  async deleteTribute(id: number): Promise<boolean> {
+  // Memorial admin methods
+  async getMemorialAdminUserIds(memorialId: number): Promise<number[]> {
     try {
-      // First delete associated candles
-      await db.delete(candles).where(eq(candles.tributeId, id));
-      
-      // Then delete the tribute
-      const result = await db.delete(tributes).where(eq(tributes.id, id)).returning();
+      const result = await db.select()
+        .from(memorialAdmins)
+        .where(eq(memorialAdmins.memorialId, memorialId));
+      return result.map(admin => admin.userId);
+    } catch (error) {
+      console.error("Error getting memorial admins:", error);
+      return [];
+    }
+  }
+
+  async getAdministeredMemorialIds(userId: number): Promise<number[]> {
+    try {
+      const result = await db.select()
+        .from(memorialAdmins)
+        .where(eq(memorialAdmins.userId, userId));
+      return result.map(admin => admin.memorialId);
+    } catch (error) {
+      console.error("Error getting administered memorials:", error);
+      return [];
+    }
+  }
+
+  async isMemorialAdmin(memorialId: number, userId: number): Promise<boolean> {
+    try {
+      const result = await db.select()
+        .from(memorialAdmins)
+        .where(
+          and(
+            eq(memorialAdmins.memorialId, memorialId),
+            eq(memorialAdmins.userId, userId)
+          )
+        );
       return result.length > 0;
     } catch (error) {
-      console.error("Error deleting tribute:", error);
+      console.error("Error checking memorial admin:", error);
       return false;
     }
   }
 
-  // Gallery methods
-  async getGalleryImages(limit?: number, offset = 0): Promise<GalleryImage[]> {
+  async addMemorialAdmin(memorialId: number, userId: number): Promise<void> {
+    try {
+      await db.insert(memorialAdmins)
+        .values({ memorialId, userId })
+        .onConflictDoNothing();
+    } catch (error) {
+      console.error("Error adding memorial admin:", error);
+      throw error;
+    }
+  }
+
+  async removeMemorialAdmin(memorialId: number, userId: number): Promise<boolean> {
+    try {
+      const result = await db.delete(memorialAdmins)
+        .where(
+          and(
+            eq(memorialAdmins.memorialId, memorialId),
+            eq(memorialAdmins.userId, userId)
+          )
+        )
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error removing memorial admin:", error);
+      return false;
+    }
+  }
+
+  // Tribute methods
+  async getTributeFeed(memorialId: number, query: TributeQuery = {}): Promise<TributeFeedItem[]> {
     try {
-      let result = await db.select().from(gallery).orderBy(gallery.order);
+      const { limit, after, viewerId, sort = "newest" } = query;
       
-      if (limit !== undefined) {
-        result = result.slice(offset, offset + limit);
+      const visibility = viewerId !== undefined
+        ? or(
+            eq(tributes.status, "approved"),
+            and(eq(tributes.userId, viewerId), eq(tributes.status, "pending"))
+          )
+        : eq(tributes.status, "approved");
+      
+      // Cursors carry JavaScript dates, so rows are ordered and compared at
+      // millisecond precision; anything finer could skip rows between pages
+      const createdAt = sql`date_trunc('milliseconds', ${tributes.createdAt})`;
+      const candles = sql`coalesce((${tributes.reactionCounts}->>'candle')::int, 0)`;
+      
+      // Ties fall back to age and then id so every row has exactly one place in the order
+      const ordering = sort === "oldest"
+        ? [asc(createdAt), asc(tributes.id)]
+        : sort === "candles"
+          ? [desc(candles), desc(createdAt), desc(tributes.id)]
+          : [desc(createdAt), desc(tributes.id)];
+      
+      let afterCursor;
+      if (after) {
+        // Timestamps are stored without a time zone, as UTC
+        const afterCreatedAt = sql`${after.createdAt.toISOString()}::timestamp`;
+        afterCursor = sort === "oldest"
+          ? sql`(${createdAt}, ${tributes.id}) > (${afterCreatedAt}, ${after.id})`
+          : sort === "candles"
+            ? sql`(${candles}, ${createdAt}, ${tributes.id}) < (${after.candles}, ${afterCreatedAt}, ${after.id})`
+            : sql`(${createdAt}, ${tributes.id}) < (${afterCreatedAt}, ${after.id})`;
       }
       
-      return result;
+      const hasMedia = sql`coalesce(${tributes.mediaUrl}, '') <> ''`;
+      const filters = and(
+        eq(tributes.memorialId, memorialId),
+        visibility,
+        afterCursor,
+        query.hasMedia === undefined ? undefined : query.hasMedia ? hasMedia : sql`not ${hasMedia}`,
+        query.mediaType === undefined ? undefined : eq(tributes.mediaType, query.mediaType),
+        query.authorId === undefined ? undefined : eq(tributes.userId, query.authorId),
+        query.createdFrom === undefined ? undefined : gte(tributes.createdAt, query.createdFrom),
+        query.createdBefore === undefined ? undefined : lt(tributes.createdAt, query.createdBefore)
+      );
+      
+      // Author, the viewer's reactions and the comment count come back with
+      // each row rather than as a query per tribute
+      const myReactions = viewerId !== undefined
+        ? sql<ReactionKind[]>`coalesce((
+            select array_agg(${reactions.kind} order by ${reactions.kind}) from ${reactions}
+            where ${reactions.tributeId} = ${tributes.id} and ${reactions.userId} = ${viewerId}
+          ), '{}')`
+        : sql<ReactionKind[]>`'{}'::text[]`;
+      const commentCount = sql<number>`(
+        select count(*)::int from ${tributeComments}
+        where ${tributeComments.tributeId} = ${tributes.id} and ${tributeComments.status} = 'approved'
+      )`;
+      
+      const result = db.select({
+          tribute: tributes,
+          user: { id: users.id, username: users.username, name: users.name },
+          myReactions,
+          commentCount
+        })
+        .from(tributes)
+        .leftJoin(users, eq(users.id, tributes.userId))
+        .where(filters)
+        .orderBy(...ordering);
+      
+      const rows = limit !== undefined ? await result.limit(limit) : await result;
+      return rows.map(({ tribute, ...details }) => ({ ...tribute, ...details }));
     } catch (error) {
-      console.error("Error getting gallery images:", error);
+      console.error("Error getting tribute feed:", error);
       return [];
     }
   }
 
-  async getFeaturedGalleryImages(): Promise<GalleryImage[]> {
+  async getTributesByStatus(memorialId: number, status: TributeStatus): Promise<Tribute[]> {
     try {
       return await db.select()
-        .from(gallery)
-        .where(eq(gallery.isFeatured, true))
-        .orderBy(gallery.order);
+        .from(tributes)
+        .where(and(eq(tributes.memorialId, memorialId), eq(tributes.status, status)))
+        .orderBy(desc(tributes.createdAt));
     } catch (error) {
-      console.error("Error getting featured gallery images:", error);
+      console.error("Error getting tributes by status:", error);
       return [];
     }
   }
 
-  async getGalleryImageById(id: number): Promise<GalleryImage | undefined> {
+  async getTributeById(memorialId: number, id: number): Promise<Tribute | undefined> {
     try {
-      const result = await db.select().from(gallery).where(eq(gallery.id, id));
+      const result = await db.select()
+        .from(tributes)
+        .where(and(eq(tributes.memorialId, memorialId), eq(tributes.id, id)));
       return result[0];
     } catch (error) {
-      console.error("Error getting gallery image by id:", error);
+      console.error("Error getting tribute by id:", error);
       return undefined;
     }
   }
 
-  async createGalleryImage(image: InsertGalleryImage): Promise<GalleryImage> {
+  async getTributesByUserId(memorialId: number, userId: number): Promise<Tribute[]> {
     try {
-      const result = await db.insert(gallery).values(image).returning();
+      return await db.select()
+        .from(tributes)
+        .where(and(eq(tributes.memorialId, memorialId), eq(tributes.userId, userId)));
+    } catch (error) {
+      console.error("Error getting tributes by user id:", error);
+      return [];
+    }
+  }
+
+  async createTribute(tribute: InsertTribute): Promise<Tribute> {
+    try {
+      const result = await db.insert(tributes).values({
+        ...tribute,
+        createdAt: new Date(),
+        reactionCounts: {}
+      }).returning();
       return result[0];
     } catch (error) {
-      console.error("Error creating gallery image:", error);
+      console.error("Error creating tribute:", error);
       throw error;
     }
   }
 
-  async updateGalleryImage(id: number, imageData: Partial<GalleryImage>): Promise<GalleryImage | undefined> {
+  async updateTribute(memorialId: number, id: number, tributeData: Partial<Tribute>): Promise<Tribute | undefined> {
     try {
-      const result = await db.update(gallery)
-        .set(imageData)
-        .where(eq(gallery.id, id))
+      // Never allow a tribute to be moved to another memorial
+      const { id: _, memorialId: __, ...data } = tributeData;
+      const result = await db.update(tributes)
+        .set(data)
+        .where(and(eq(tributes.memorialId, memorialId), eq(tributes.id, id)))
         .returning();
       return result[0];
     } catch (error) {
-      console.error("Error updating gallery image:", error);
+      console.error("Error updating tribute:", error);
+      return undefined;
+    }
+  }
+
+  async setTributeStatus(memorialId: number, id: number, status: TributeStatus, reason?: string): Promise<Tribute | undefined> {
+    try {
+      const result = await db.update(tributes)
+        .set({
+          status,
+          moderationReason: reason || null,
+          moderatedAt: new Date()
+        })
+        .where(and(eq(tributes.memorialId, memorialId), eq(tributes.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error setting tribute status:", error);
       return undefined;
     }
   }
 
-  async deleteGalleryImage(id: number): Promise<boolean> {
+  async deleteTribute(memorialId: number, id: number): Promise<boolean> {
     try {
-      const result = await db.delete(gallery).where(eq(gallery.id, id)).returning();
+      if (!(await this.getTributeById(memorialId, id))) {
+        return false;
+      }
+      
+      // First delete associated reactions and comments
+      await db.delete(reactions).where(eq(reactions.tributeId, id));
+      await db.delete(tributeComments).where(eq(tributeComments.tributeId, id));
+      
+      // Then delete the tribute
+      const result = await db.delete(tributes).where(eq(tributes.id, id)).returning();
       return result.length > 0;
     } catch (error) {
-      console.error("Error deleting gallery image:", error);
+      console.error("Error deleting tribute:", error);
       return false;
     }
   }
 
-  // Settings methods
-  async getAllSettings(): Promise<Setting[]> {
+  // Tribute comment methods
+  async getTributeComments(memorialId: number, tributeId: number, viewerId?: number): Promise<TributeComment[]> {
     try {
-      return await db.select().from(settings);
+      const visibility = viewerId !== undefined
+        ? or(
+            eq(tributeComments.status, "approved"),
+            and(eq(tributeComments.userId, viewerId), eq(tributeComments.status, "pending"))
+          )
+        : eq(tributeComments.status, "approved");
+      
+      return await db.select()
+        .from(tributeComments)
+        .where(and(
+          eq(tributeComments.memorialId, memorialId),
+          eq(tributeComments.tributeId, tributeId),
+          visibility
+        ))
+        .orderBy(asc(tributeComments.createdAt), asc(tributeComments.id));
     } catch (error) {
-      console.error("Error getting all settings:", error);
+      console.error("Error getting tribute comments:", error);
+      return [];
+    }
+  }
+
+  async getTributeCommentsByStatus(memorialId: number, status: TributeStatus): Promise<TributeComment[]> {
+    try {
+      return await db.select()
+        .from(tributeComments)
+        .where(and(eq(tributeComments.memorialId, memorialId), eq(tributeComments.status, status)))
+        .orderBy(desc(tributeComments.createdAt));
+    } catch (error) {
+      console.error("Error getting tribute comments by status:", error);
       return [];
     }
   }
 
-  async getSetting(key: string): Promise<Setting | undefined> {
+  async getTributeCommentById(memorialId: number, id: number): Promise<TributeComment | undefined> {
     try {
-      const result = await db.select().from(settings).where(eq(settings.key, key));
+      const result = await db.select()
+        .from(tributeComments)
+        .where(and(eq(tributeComments.memorialId, memorialId), eq(tributeComments.id, id)));
       return result[0];
     } catch (error) {
-      console.error("Error getting setting by key:", error);
+      console.error("Error getting tribute comment by id:", error);
       return undefined;
     }
   }
 
-  async upsertSetting(setting: InsertSetting): Promise<Setting> {
+  async getTributeCommentCounts(memorialId: number, tributeIds: number[]): Promise<Record<number, number>> {
+    if (tributeIds.length === 0) {
+      return {};
+    }
+    
     try {
-      // Check if setting exists
-      const existingSetting = await this.getSetting(setting.key);
+      const rows = await db.select({
+          tributeId: tributeComments.tributeId,
+          count: sql<number>`count(*)::int`
+        })
+        .from(tributeComments)
+        .where(and(
+          eq(tributeComments.memorialId, memorialId),
+          eq(tributeComments.status, "approved"),
+          inArray(tributeComments.tributeId, tributeIds)
+        ))
+        .groupBy(tributeComments.tributeId);
       
-      if (existingSetting) {
-        // Update existing setting
-        const result = await db.update(settings)
-          .set({ value: setting.value })
-          .where(eq(settings.key, setting.key))
-          .returning();
-        return result[0];
-      } else {
-        // Insert new setting
-        const result = await db.insert(settings).values(setting).returning();
-        return result[0];
+      const counts: Record<number, number> = {};
+      for (const row of rows) {
+        counts[row.tributeId] = row.count;
       }
+      return counts;
     } catch (error) {
-      console.error("Error upserting setting:", error);
-      throw error;
+      console.error("Error counting tribute comments:", error);
+      return {};
     }
   }
 
-  // Funeral program methods
-  async getFuneralProgram(): Promise<FuneralProgram | undefined> {
+  async createTributeComment(comment: InsertTributeComment): Promise<TributeComment> {
     try {
-      const result = await db.select().from(funeralProgram);
+      const result = await db.insert(tributeComments).values({
+        ...comment,
+        createdAt: new Date()
+      }).returning();
       return result[0];
     } catch (error) {
-      console.error("Error getting funeral program:", error);
-      return undefined;
+      console.error("Error creating tribute comment:", error);
+      throw error;
     }
   }
 
-  async updateFuneralProgram(program: InsertFuneralProgram): Promise<FuneralProgram> {
+  async setTributeCommentStatus(memorialId: number, id: number, status: TributeStatus, reason?: string): Promise<TributeComment | undefined> {
     try {
-      // Check if program exists
-      const existingProgram = await this.getFuneralProgram();
-      
-      if (existingProgram) {
-        // Update existing program
-        const result = await db.update(funeralProgram)
-          .set(program)
-          .where(eq(funeralProgram.id, existingProgram.id))
-          .returning();
-        return result[0];
-      } else {
-        // Insert new program
-        const result = await db.insert(funeralProgram).values(program).returning();
-        return result[0];
-      }
+      const result = await db.update(tributeComments)
+        .set({
+          status,
+          moderationReason: reason || null,
+          moderatedAt: new Date()
+        })
+        .where(and(eq(tributeComments.memorialId, memorialId), eq(tributeComments.id, id)))
+        .returning();
+      return result[0];
     } catch (error) {
-      console.error("Error updating funeral program:", error);
-      throw error;
+      console.error("Error setting tribute comment status:", error);
+      return undefined;
     }
   }
 
-  // Candle methods
-  async addCandle(candle: InsertCandle): Promise<Candle> {
+  async deleteTributeComment(memorialId: number, id: number): Promise<boolean> {
     try {
-      // Check if user has already lit a candle for this tribute
-      const hasCandle = await this.hasUserLitCandle(candle.userId, candle.tributeId);
-      
-      if (hasCandle) {
-        // Return existing candle
-        const existing = await db.select()
-          .from(candles)
-          .where(
-            and(
-              eq(candles.userId, candle.userId),
-              eq(candles.tributeId, candle.tributeId)
-            )
-          );
-        return existing[0];
+      if (!(await this.getTributeCommentById(memorialId, id))) {
+        return false;
       }
       
-      // Insert new candle
-      const result = await db.insert(candles).values(candle).returning();
-      
-      // Update tribute candle count
-      const tribute = await this.getTributeById(candle.tributeId);
-      if (tribute) {
-        await this.updateTribute(tribute.id, { 
-          candleCount: tribute.candleCount + 1 
-        });
-      }
+      await db.delete(tributeComments).where(eq(tributeComments.parentId, id));
       
-      return result[0];
+      const result = await db.delete(tributeComments).where(eq(tributeComments.id, id)).returning();
+      return result.length > 0;
     } catch (error) {
-      console.error("Error adding candle:", error);
-      throw error;
+      console.error("Error deleting tribute comment:", error);
+      return false;
     }
   }
 
-  async removeCandle(userId: number, tributeId: number): Promise<boolean> {
+  // Gallery methods
+  async getGalleryImages(memorialId: number, limit?: number, offset = 0): Promise<GalleryImage[]> {
     try {
-      // Remove the candle
-      const result = await db.delete(candles)
-        .where(
-          and(
-            eq(candles.userId, userId),
-            eq(candles.tributeId, tributeId)
-          )
-        )
-        .returning();
+      let result = await db.select()
+        .from(gallery)
+        .where(and(eq(gallery.memorialId, memorialId), eq(gallery.status, "approved")))
+        .orderBy(gallery.order, gallery.id);
       
-      // Update tribute candle count if candle was found and deleted
-      if (result.length > 0) {
-        const tribute = await this.getTributeById(tributeId);
-        if (tribute && tribute.candleCount > 0) {
-          await this.updateTribute(tribute.id, { 
-            candleCount: tribute.candleCount - 1 
-          });
-        }
-        return true;
+      if (limit !== undefined) {
+        result = result.slice(offset, offset + limit);
       }
       
-      return false;
+      return result;
     } catch (error) {
-      console.error("Error removing candle:", error);
-      return false;
+      console.error("Error getting gallery images:", error);
+      return [];
     }
   }
 
-  async getCandles(tributeId: number): Promise<Candle[]> {
+  async getFeaturedGalleryImages(memorialId: number): Promise<GalleryImage[]> {
     try {
       return await db.select()
-        .from(candles)
-        .where(eq(candles.tributeId, tributeId));
+        .from(gallery)
+        .where(and(
+          eq(gallery.memorialId, memorialId),
+          eq(gallery.isFeatured, true),
+          eq(gallery.status, "approved")
+        ))
+        .orderBy(gallery.order, gallery.id);
     } catch (error) {
-      console.error("Error getting candles:", error);
+      console.error("Error getting featured gallery images:", error);
       return [];
     }
   }
 
-  async hasUserLitCandle(userId: number, tributeId: number): Promise<boolean> {
+  async getGallerySubmissions(memorialId: number): Promise<GalleryImage[]> {
     try {
+      return await db.select()
+        .from(gallery)
+        .where(and(eq(gallery.memorialId, memorialId), eq(gallery.status, "pending")))
+        .orderBy(asc(gallery.id));
+    } catch (error) {
+      console.error("Error getting gallery submissions:", error);
+      return [];
+    }
+  }
+
+  async getGalleryImageById(memorialId: number, id: number): Promise<GalleryImage | undefined> {
+    try {
+      const result = await db.select()
+        .from(gallery)
+        .where(and(eq(gallery.memorialId, memorialId), eq(gallery.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting gallery image by id:", error);
+      return undefined;
+    }
+  }
+
+  async createGalleryImage(image: InsertGalleryImage): Promise<GalleryImage> {
+    try {
+      const result = await db.insert(gallery).values(image).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating gallery image:", error);
+      throw error;
+    }
+  }
+
+  async updateGalleryImage(memorialId: number, id: number, imageData: Partial<GalleryImage>): Promise<GalleryImage | undefined> {
+    try {
+      const { id: _, memorialId: __, ...data } = imageData;
+      const result = await db.update(gallery)
+        .set(data)
+        .where(and(eq(gallery.memorialId, memorialId), eq(gallery.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating gallery image:", error);
+      return undefined;
+    }
+  }
+
+  async deleteGalleryImage(memorialId: number, id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx.delete(gallery)
+          .where(and(eq(gallery.memorialId, memorialId), eq(gallery.id, id)))
+          .returning();
+        if (result.length === 0) return false;
+        
+        await tx.delete(albumImages).where(eq(albumImages.imageId, id));
+        await tx.update(albums)
+          .set({ coverImageId: null })
+          .where(and(eq(albums.memorialId, memorialId), eq(albums.coverImageId, id)));
+        await tx.delete(photoTags).where(eq(photoTags.imageId, id));
+        return true;
+      });
+    } catch (error) {
+      console.error("Error deleting gallery image:", error);
+      return false;
+    }
+  }
+
+  async reorderGalleryImages(memorialId: number, ids: number[]): Promise<GalleryImage[]> {
+    try {
+      await db.transaction(async (tx) => {
+        for (let index = 0; index < ids.length; index++) {
+          await tx.update(gallery)
+            .set({ order: index })
+            .where(and(eq(gallery.memorialId, memorialId), eq(gallery.id, ids[index])));
+        }
+      });
+      return await this.getGalleryImages(memorialId);
+    } catch (error) {
+      console.error("Error reordering gallery images:", error);
+      throw error;
+    }
+  }
+
+  // Album methods
+  async getAlbums(memorialId: number): Promise<AlbumSummary[]> {
+    try {
+      const imageCount = sql<number>`(
+        select count(*)::int from ${albumImages} where ${albumImages.albumId} = ${albums.id}
+      )`;
+      const firstImageId = sql<number | null>`(
+        select ${albumImages.imageId} from ${albumImages}
+        where ${albumImages.albumId} = ${albums.id}
+        order by ${albumImages.order}, ${albumImages.id}
+        limit 1
+      )`;
+      
+      const rows = await db.select({ album: albums, imageCount, firstImageId })
+        .from(albums)
+        .where(eq(albums.memorialId, memorialId))
+        .orderBy(albums.order, albums.id);
+      
+      const coverIds = rows
+        .map(({ album, firstImageId }) => album.coverImageId ?? firstImageId)
+        .filter((id): id is number => id !== null);
+      const covers = coverIds.length > 0
+        ? await db.select().from(gallery).where(inArray(gallery.id, coverIds))
+        : [];
+      
+      return rows.map(({ album, imageCount, firstImageId }) => ({
+        ...album,
+        imageCount,
+        coverImage: covers.find(image => image.id === (album.coverImageId ?? firstImageId)) || null,
+      }));
+    } catch (error) {
+      console.error("Error getting albums:", error);
+      return [];
+    }
+  }
+
+  async getAlbumById(memorialId: number, id: number): Promise<Album | undefined> {
+    try {
+      const result = await db.select()
+        .from(albums)
+        .where(and(eq(albums.memorialId, memorialId), eq(albums.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting album by ID:", error);
+      return undefined;
+    }
+  }
+
+  async getAlbumBySlug(memorialId: number, slug: string): Promise<Album | undefined> {
+    try {
+      const result = await db.select()
+        .from(albums)
+        .where(and(eq(albums.memorialId, memorialId), eq(albums.slug, slug)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting album by slug:", error);
+      return undefined;
+    }
+  }
+
+  async createAlbum(album: InsertAlbum): Promise<Album> {
+    try {
+      const result = await db.insert(albums)
+        .values({ ...album, createdAt: new Date() })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating album:", error);
+      throw error;
+    }
+  }
+
+  async updateAlbum(memorialId: number, id: number, albumData: Partial<Album>): Promise<Album | undefined> {
+    try {
+      const { id: _, memorialId: __, ...data } = albumData;
+      const result = await db.update(albums)
+        .set(data)
+        .where(and(eq(albums.memorialId, memorialId), eq(albums.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating album:", error);
+      return undefined;
+    }
+  }
+
+  async deleteAlbum(memorialId: number, id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const result = await tx.delete(albums)
+          .where(and(eq(albums.memorialId, memorialId), eq(albums.id, id)))
+          .returning();
+        if (result.length === 0) return false;
+        
+        await tx.delete(albumImages).where(eq(albumImages.albumId, id));
+        return true;
+      });
+    } catch (error) {
+      console.error("Error deleting album:", error);
+      return false;
+    }
+  }
+
+  async reorderAlbums(memorialId: number, ids: number[]): Promise<AlbumSummary[]> {
+    try {
+      await db.transaction(async (tx) => {
+        for (let index = 0; index < ids.length; index++) {
+          await tx.update(albums)
+            .set({ order: index })
+            .where(and(eq(albums.memorialId, memorialId), eq(albums.id, ids[index])));
+        }
+      });
+      return await this.getAlbums(memorialId);
+    } catch (error) {
+      console.error("Error reordering albums:", error);
+      throw error;
+    }
+  }
+
+  async getAlbumImages(memorialId: number, albumId: number): Promise<GalleryImage[]> {
+    try {
+      const rows = await db.select({ image: gallery })
+        .from(albumImages)
+        .innerJoin(gallery, eq(gallery.id, albumImages.imageId))
+        .where(and(
+          eq(albumImages.albumId, albumId),
+          eq(gallery.memorialId, memorialId),
+          eq(gallery.status, "approved")
+        ))
+        .orderBy(albumImages.order, albumImages.id);
+      return rows.map(({ image }) => image);
+    } catch (error) {
+      console.error("Error getting album images:", error);
+      return [];
+    }
+  }
+
+  async getAlbumImageLinks(memorialId: number): Promise<AlbumImage[]> {
+    try {
+      const rows = await db.select({ link: albumImages })
+        .from(albumImages)
+        .innerJoin(albums, eq(albums.id, albumImages.albumId))
+        .where(eq(albums.memorialId, memorialId));
+      return rows.map(({ link }) => link);
+    } catch (error) {
+      console.error("Error getting album image links:", error);
+      return [];
+    }
+  }
+
+  async addImageToAlbum(memorialId: number, albumId: number, imageId: number): Promise<boolean> {
+    try {
+      const image = await this.getGalleryImageById(memorialId, imageId);
+      if (!(await this.getAlbumById(memorialId, albumId)) || image?.status !== "approved") {
+        return false;
+      }
+      
+      // Appended after the album's last image
+      await db.insert(albumImages)
+        .values({
+          albumId,
+          imageId,
+          order: sql`(select coalesce(max(${albumImages.order}) + 1, 0) from ${albumImages} where ${albumImages.albumId} = ${albumId})`,
+        })
+        .onConflictDoNothing();
+      return true;
+    } catch (error) {
+      console.error("Error adding image to album:", error);
+      throw error;
+    }
+  }
+
+  async removeImageFromAlbum(memorialId: number, albumId: number, imageId: number): Promise<boolean> {
+    try {
+      if (!(await this.getAlbumById(memorialId, albumId))) return false;
+      
+      const result = await db.delete(albumImages)
+        .where(and(eq(albumImages.albumId, albumId), eq(albumImages.imageId, imageId)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error removing image from album:", error);
+      return false;
+    }
+  }
+
+  // Photo tag methods
+  async getPhotoTags(memorialId: number): Promise<PhotoTag[]> {
+    try {
+      const rows = await db.select({ tag: photoTags })
+        .from(photoTags)
+        .innerJoin(gallery, eq(gallery.id, photoTags.imageId))
+        .where(and(eq(photoTags.memorialId, memorialId), eq(gallery.status, "approved")))
+        .orderBy(photoTags.imageId, photoTags.id);
+      return rows.map(row => row.tag);
+    } catch (error) {
+      console.error("Error getting photo tags:", error);
+      return [];
+    }
+  }
+
+  async getPhotoTagById(memorialId: number, id: number): Promise<PhotoTag | undefined> {
+    try {
+      const result = await db.select()
+        .from(photoTags)
+        .where(and(eq(photoTags.memorialId, memorialId), eq(photoTags.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting photo tag by id:", error);
+      return undefined;
+    }
+  }
+
+  async createPhotoTag(tag: InsertPhotoTag): Promise<PhotoTag> {
+    try {
+      const result = await db.insert(photoTags).values(tag).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating photo tag:", error);
+      throw error;
+    }
+  }
+
+  async updatePhotoTag(memorialId: number, id: number, tagData: Partial<PhotoTag>): Promise<PhotoTag | undefined> {
+    try {
+      const { id: _, memorialId: __, ...data } = tagData;
+      const result = await db.update(photoTags)
+        .set(data)
+        .where(and(eq(photoTags.memorialId, memorialId), eq(photoTags.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating photo tag:", error);
+      return undefined;
+    }
+  }
+
+  async deletePhotoTag(memorialId: number, id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(photoTags)
+        .where(and(eq(photoTags.memorialId, memorialId), eq(photoTags.id, id)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting photo tag:", error);
+      return false;
+    }
+  }
+
+  async getContributorIds(memorialId: number): Promise<number[]> {
+    try {
+      const authors = await db.selectDistinct({ userId: tributes.userId })
+        .from(tributes)
+        .where(and(eq(tributes.memorialId, memorialId), eq(tributes.status, "approved")));
+      const sharers = await db.selectDistinct({ userId: gallery.submittedById })
+        .from(gallery)
+        .where(and(eq(gallery.memorialId, memorialId), eq(gallery.status, "approved")));
+      
+      const userIds = new Set<number>();
+      authors.forEach(row => userIds.add(row.userId));
+      sharers.forEach(row => {
+        if (row.userId !== null) userIds.add(row.userId);
+      });
+      return Array.from(userIds);
+    } catch (error) {
+      console.error("Error getting contributor ids:", error);
+      return [];
+    }
+  }
+
+  // Settings methods
+  async getAllSettings(memorialId: number): Promise<Setting[]> {
+    try {
+      return await db.select().from(settings).where(eq(settings.memorialId, memorialId));
+    } catch (error) {
+      console.error("Error getting all settings:", error);
+      return [];
+    }
+  }
+
+  async getSetting(memorialId: number, key: string): Promise<Setting | undefined> {
+    try {
+      const result = await db.select()
+        .from(settings)
+        .where(and(eq(settings.memorialId, memorialId), eq(settings.key, key)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting setting by key:", error);
+      return undefined;
+    }
+  }
+
+  async upsertSetting(setting: InsertSetting): Promise<Setting> {
+    try {
+      // Check if setting exists
+      const existingSetting = await this.getSetting(setting.memorialId, setting.key);
+      
+      if (existingSetting) {
+        // Update existing setting
+        const result = await db.update(settings)
+          .set({ value: setting.value })
+          .where(eq(settings.id, existingSetting.id))
+          .returning();
+        return result[0];
+      } else {
+        // Insert new setting
+        const result = await db.insert(settings).values(setting).returning();
+        return result[0];
+      }
+    } catch (error) {
+      console.error("Error upserting setting:", error);
+      throw error;
+    }
+  }
+
+  // Funeral program methods
+  async getFuneralProgram(memorialId: number): Promise<FuneralProgram | undefined> {
+    try {
+      const result = await db.select()
+        .from(funeralProgram)
+        .where(eq(funeralProgram.memorialId, memorialId));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting funeral program:", error);
+      return undefined;
+    }
+  }
+
+  async updateFuneralProgram(memorialId: number, programData: Partial<InsertFuneralProgram>): Promise<FuneralProgram> {
+    try {
+      const { id: _, memorialId: __, ...program } = programData as Partial<FuneralProgram>;
+      // Check if program exists
+      const existingProgram = await this.getFuneralProgram(memorialId);
+      
+      if (existingProgram) {
+        // Update existing program
+        const result = await db.update(funeralProgram)
+          .set(program)
+          .where(eq(funeralProgram.id, existingProgram.id))
+          .returning();
+        return result[0];
+      } else {
+        // Insert new program
+        const result = await db.insert(funeralProgram).values({ ...program, memorialId }).returning();
+        return result[0];
+      }
+    } catch (error) {
+      console.error("Error updating funeral program:", error);
+      throw error;
+    }
+  }
+
+  // Service event methods
+  async getEvents(memorialId: number): Promise<ServiceEvent[]> {
+    try {
+      return await db.select()
+        .from(events)
+        .where(eq(events.memorialId, memorialId))
+        .orderBy(asc(events.startsAt), asc(events.id));
+    } catch (error) {
+      console.error("Error getting events:", error);
+      return [];
+    }
+  }
+
+  async getEventsStartingBetween(from: Date, to: Date): Promise<ServiceEvent[]> {
+    try {
+      return await db.select()
+        .from(events)
+        .where(and(gte(events.startsAt, from), lt(events.startsAt, to)))
+        .orderBy(asc(events.startsAt), asc(events.id));
+    } catch (error) {
+      console.error("Error getting upcoming events:", error);
+      return [];
+    }
+  }
+
+  async getEventById(memorialId: number, id: number): Promise<ServiceEvent | undefined> {
+    try {
+      const result = await db.select()
+        .from(events)
+        .where(and(eq(events.memorialId, memorialId), eq(events.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting event by ID:", error);
+      return undefined;
+    }
+  }
+
+  async createEvent(event: InsertServiceEvent): Promise<ServiceEvent> {
+    try {
+      const result = await db.insert(events).values(event).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating event:", error);
+      throw error;
+    }
+  }
+
+  async updateEvent(memorialId: number, id: number, eventData: Partial<ServiceEvent>): Promise<ServiceEvent | undefined> {
+    try {
+      const { id: _, memorialId: __, ...data } = eventData;
+      const result = await db.update(events)
+        .set(data)
+        .where(and(eq(events.memorialId, memorialId), eq(events.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating event:", error);
+      return undefined;
+    }
+  }
+
+  async deleteEvent(memorialId: number, id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(events)
+        .where(and(eq(events.memorialId, memorialId), eq(events.id, id)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting event:", error);
+      return false;
+    }
+  }
+
+  // Order of service methods
+  async getProgramSections(memorialId: number): Promise<ProgramSection[]> {
+    try {
+      return await db.select()
+        .from(programSections)
+        .where(eq(programSections.memorialId, memorialId))
+        .orderBy(asc(programSections.order), asc(programSections.id));
+    } catch (error) {
+      console.error("Error getting program sections:", error);
+      return [];
+    }
+  }
+
+  async getProgramSectionById(memorialId: number, id: number): Promise<ProgramSection | undefined> {
+    try {
+      const result = await db.select()
+        .from(programSections)
+        .where(and(eq(programSections.memorialId, memorialId), eq(programSections.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting program section by ID:", error);
+      return undefined;
+    }
+  }
+
+  async createProgramSection(section: InsertProgramSection): Promise<ProgramSection> {
+    try {
+      const result = await db.insert(programSections).values(section).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating program section:", error);
+      throw error;
+    }
+  }
+
+  async updateProgramSection(memorialId: number, id: number, sectionData: Partial<ProgramSection>): Promise<ProgramSection | undefined> {
+    try {
+      const { id: _, memorialId: __, ...data } = sectionData;
+      const result = await db.update(programSections)
+        .set(data)
+        .where(and(eq(programSections.memorialId, memorialId), eq(programSections.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating program section:", error);
+      return undefined;
+    }
+  }
+
+  async deleteProgramSection(memorialId: number, id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(programSections)
+        .where(and(eq(programSections.memorialId, memorialId), eq(programSections.id, id)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting program section:", error);
+      return false;
+    }
+  }
+
+  async reorderProgramSections(memorialId: number, ids: number[]): Promise<ProgramSection[]> {
+    try {
+      await db.transaction(async (tx) => {
+        for (let index = 0; index < ids.length; index++) {
+          await tx.update(programSections)
+            .set({ order: index })
+            .where(and(eq(programSections.memorialId, memorialId), eq(programSections.id, ids[index])));
+        }
+      });
+      return await this.getProgramSections(memorialId);
+    } catch (error) {
+      console.error("Error reordering program sections:", error);
+      throw error;
+    }
+  }
+
+  // RSVP methods
+  async getRsvps(memorialId: number): Promise<Rsvp[]> {
+    try {
+      return await db.select()
+        .from(rsvps)
+        .where(eq(rsvps.memorialId, memorialId))
+        .orderBy(desc(rsvps.createdAt));
+    } catch (error) {
+      console.error("Error getting RSVPs:", error);
+      return [];
+    }
+  }
+
+  async findRsvp(memorialId: number, userId: number | null, email: string | null): Promise<Rsvp | undefined> {
+    try {
+      const matches = [];
+      if (userId !== null) matches.push(eq(rsvps.userId, userId));
+      if (email) matches.push(eq(rsvps.email, email));
+      if (matches.length === 0) return undefined;
+      
       const result = await db.select()
-        .from(candles)
-        .where(
-          and(
-            eq(candles.userId, userId),
-            eq(candles.tributeId, tributeId)
-          )
+        .from(rsvps)
+        .where(and(eq(rsvps.memorialId, memorialId), or(...matches)));
+      return result.find(rsvp => userId !== null && rsvp.userId === userId) ?? result[0];
+    } catch (error) {
+      console.error("Error finding RSVP:", error);
+      return undefined;
+    }
+  }
+
+  async createRsvp(rsvp: InsertRsvp): Promise<Rsvp> {
+    try {
+      const result = await db.insert(rsvps).values(rsvp).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating RSVP:", error);
+      throw error;
+    }
+  }
+
+  async updateRsvp(memorialId: number, id: number, rsvpData: Partial<Rsvp>): Promise<Rsvp | undefined> {
+    try {
+      const { id: _, memorialId: __, ...data } = rsvpData;
+      const result = await db.update(rsvps)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(rsvps.memorialId, memorialId), eq(rsvps.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating RSVP:", error);
+      throw error;
+    }
+  }
+
+  async deleteRsvp(memorialId: number, id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(rsvps)
+        .where(and(eq(rsvps.memorialId, memorialId), eq(rsvps.id, id)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting RSVP:", error);
+      return false;
+    }
+  }
+
+  // Reaction methods
+  async setReaction(userId: number, tributeId: number, kind: ReactionKind, reacted: boolean): Promise<ReactionCounts | undefined> {
+    try {
+      // The row change and the count change commit together. The count is
+      // adjusted in SQL rather than from a value read earlier, and only when a
+      // row was actually inserted or deleted, so concurrent clicks can't drift it.
+      return await db.transaction(async (tx) => {
+        const match = and(
+          eq(reactions.userId, userId),
+          eq(reactions.tributeId, tributeId),
+          eq(reactions.kind, kind)
         );
+        
+        const changed = reacted
+          ? await tx.insert(reactions)
+              .values({ userId, tributeId, kind, createdAt: new Date() })
+              .onConflictDoNothing()
+              .returning({ id: reactions.id })
+          : await tx.delete(reactions)
+              .where(match)
+              .returning({ id: reactions.id });
+        
+        const [tribute] = changed.length > 0
+          ? await tx.update(tributes)
+              .set({ reactionCounts: this.adjustReactionCount(kind, reacted ? 1 : -1) })
+              .where(eq(tributes.id, tributeId))
+              .returning({ reactionCounts: tributes.reactionCounts })
+          : await tx.select({ reactionCounts: tributes.reactionCounts })
+              .from(tributes)
+              .where(eq(tributes.id, tributeId));
+        
+        return tribute?.reactionCounts;
+      });
+    } catch (error) {
+      console.error("Error setting reaction:", error);
+      throw error;
+    }
+  }
+
+  // SQL that adds delta to one kind's entry in tributes.reaction_counts, never going below zero
+  private adjustReactionCount(kind: ReactionKind, delta: number) {
+    return sql`jsonb_set(
+      ${tributes.reactionCounts},
+      ARRAY[${kind}::text],
+      to_jsonb(greatest(coalesce((${tributes.reactionCounts} ->> ${kind}::text)::int, 0) + ${delta}, 0))
+    )`;
+  }
+
+  async getReactions(tributeId: number): Promise<Reaction[]> {
+    try {
+      return await db.select()
+        .from(reactions)
+        .where(eq(reactions.tributeId, tributeId))
+        .orderBy(asc(reactions.id));
+    } catch (error) {
+      console.error("Error getting reactions:", error);
+      return [];
+    }
+  }
+
+  async getUserReactionKinds(userId: number, tributeIds: number[]): Promise<Record<number, ReactionKind[]>> {
+    if (tributeIds.length === 0) {
+      return {};
+    }
+    
+    try {
+      const rows = await db.select({ tributeId: reactions.tributeId, kind: reactions.kind })
+        .from(reactions)
+        .where(and(eq(reactions.userId, userId), inArray(reactions.tributeId, tributeIds)));
+      
+      const kinds: Record<number, ReactionKind[]> = {};
+      for (const row of rows) {
+        (kinds[row.tributeId] ??= []).push(row.kind);
+      }
+      return kinds;
+    } catch (error) {
+      console.error("Error getting user reactions:", error);
+      return {};
+    }
+  }
+
+  async recountReactions(memorialId: number): Promise<{ checked: number; corrected: number }> {
+    try {
+      // Rows per kind, plus the migrated candles that have no rows
+      const actualCounts = sql`coalesce((
+        select jsonb_object_agg(kind, total)
+        from (
+          select kind, sum(total)::int as total
+          from (
+            select ${reactions.kind} as kind, count(*)::int as total
+            from ${reactions}
+            where ${reactions.tributeId} = ${tributes.id}
+            group by ${reactions.kind}
+            union all
+            select 'candle', ${tributes.legacyCandleCount}
+            where ${tributes.legacyCandleCount} > 0
+          ) parts
+          group by kind
+        ) counted
+      ), '{}'::jsonb)`;
+      
+      // Kinds with a zero count are dropped from the stored object, so
+      // compare without them
+      const storedCounts = sql`coalesce((
+        select jsonb_object_agg(key, value)
+        from jsonb_each(${tributes.reactionCounts})
+        where value <> '0'::jsonb
+      ), '{}'::jsonb)`;
+      
+      return await db.transaction(async (tx) => {
+        const [{ checked }] = await tx.select({ checked: sql<number>`count(*)::int` })
+          .from(tributes)
+          .where(eq(tributes.memorialId, memorialId));
+        
+        const corrected = await tx.update(tributes)
+          .set({ reactionCounts: actualCounts })
+          .where(and(eq(tributes.memorialId, memorialId), sql`${storedCounts} <> ${actualCounts}`))
+          .returning({ id: tributes.id });
+        
+        return { checked, corrected: corrected.length };
+      });
+    } catch (error) {
+      console.error("Error recounting reactions:", error);
+      throw error;
+    }
+  }
+
+  // Guestbook methods
+  async getGuestbookEntries(memorialId: number): Promise<GuestbookEntry[]> {
+    try {
+      return await db.select()
+        .from(guestbookEntries)
+        .where(eq(guestbookEntries.memorialId, memorialId))
+        .orderBy(desc(guestbookEntries.createdAt), desc(guestbookEntries.id));
+    } catch (error) {
+      console.error("Error getting guestbook entries:", error);
+      return [];
+    }
+  }
+
+  async createGuestbookEntry(entry: InsertGuestbookEntry): Promise<GuestbookEntry> {
+    try {
+      const result = await db.insert(guestbookEntries).values({
+        ...entry,
+        town: entry.town || null,
+        relationship: entry.relationship || null,
+        createdAt: new Date()
+      }).returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating guestbook entry:", error);
+      throw error;
+    }
+  }
+
+  async deleteGuestbookEntry(memorialId: number, id: number): Promise<boolean> {
+    try {
+      const result = await db.delete(guestbookEntries)
+        .where(and(eq(guestbookEntries.memorialId, memorialId), eq(guestbookEntries.id, id)))
+        .returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error deleting guestbook entry:", error);
+      return false;
+    }
+  }
+
+  // Guest candle methods
+  async getGuestCandleCount(memorialId: number): Promise<number> {
+    try {
+      const [row] = await db.select({ count: sql<number>`count(*)::int` })
+        .from(guestCandles)
+        .where(eq(guestCandles.memorialId, memorialId));
+      return row?.count ?? 0;
+    } catch (error) {
+      console.error("Error counting guest candles:", error);
+      return 0;
+    }
+  }
+
+  async hasGuestCandle(memorialId: number, visitorId: string): Promise<boolean> {
+    try {
+      const result = await db.select({ id: guestCandles.id })
+        .from(guestCandles)
+        .where(and(eq(guestCandles.memorialId, memorialId), eq(guestCandles.visitorId, visitorId)));
       return result.length > 0;
     } catch (error) {
-      console.error("Error checking if user lit candle:", error);
+      console.error("Error checking guest candle:", error);
       return false;
     }
   }
-}
\ No newline at end of file
+
+  async lightGuestCandle(memorialId: number, visitorId: string): Promise<boolean> {
+    try {
+      // The unique index makes a second candle from the same visitor a no-op
+      const result = await db.insert(guestCandles)
+        .values({ memorialId, visitorId, createdAt: new Date() })
+        .onConflictDoNothing()
+        .returning({ id: guestCandles.id });
+      return result.length > 0;
+    } catch (error) {
+      console.error("Error lighting guest candle:", error);
+      throw error;
+    }
+  }
+
+  // Life story methods
+  async getLifeStoryRevisions(memorialId: number, limit?: number): Promise<LifeStoryItem[]> {
+    try {
+      const query = db.select({
+        revision: lifeStoryRevisions,
+        author: { id: users.id, name: users.name }
+      })
+        .from(lifeStoryRevisions)
+        .leftJoin(users, eq(users.id, lifeStoryRevisions.authorId))
+        .where(eq(lifeStoryRevisions.memorialId, memorialId))
+        .orderBy(desc(lifeStoryRevisions.id));
+      
+      const rows = limit !== undefined ? await query.limit(limit) : await query;
+      return rows.map(({ revision, author }) => ({ ...revision, author }));
+    } catch (error) {
+      console.error("Error getting life story revisions:", error);
+      return [];
+    }
+  }
+
+  async getLifeStoryRevisionById(memorialId: number, id: number): Promise<LifeStoryRevision | undefined> {
+    try {
+      const result = await db.select()
+        .from(lifeStoryRevisions)
+        .where(and(eq(lifeStoryRevisions.memorialId, memorialId), eq(lifeStoryRevisions.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting life story revision by ID:", error);
+      return undefined;
+    }
+  }
+
+  async createLifeStoryRevision(revision: InsertLifeStoryRevision): Promise<LifeStoryRevision> {
+    try {
+      const result = await db.insert(lifeStoryRevisions)
+        .values({ ...revision, createdAt: new Date() })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating life story revision:", error);
+      throw error;
+    }
+  }
+
+  // Live chat methods
+  async getLiveChat(memorialId: number, includeHidden: boolean): Promise<LiveChatItem[]> {
+    try {
+      const rows = await db.select({
+        message: liveChatMessages,
+        user: { id: users.id, name: users.name }
+      })
+        .from(liveChatMessages)
+        .leftJoin(users, eq(users.id, liveChatMessages.userId))
+        .where(and(
+          eq(liveChatMessages.memorialId, memorialId),
+          includeHidden ? undefined : eq(liveChatMessages.hidden, false)
+        ))
+        .orderBy(asc(liveChatMessages.createdAt), asc(liveChatMessages.id));
+      return rows.map(({ message, user }) => ({ ...message, user }));
+    } catch (error) {
+      console.error("Error getting live chat:", error);
+      return [];
+    }
+  }
+
+  async getLiveChatMessageById(memorialId: number, id: number): Promise<LiveChatMessage | undefined> {
+    try {
+      const result = await db.select()
+        .from(liveChatMessages)
+        .where(and(eq(liveChatMessages.memorialId, memorialId), eq(liveChatMessages.id, id)));
+      return result[0];
+    } catch (error) {
+      console.error("Error getting live chat message by ID:", error);
+      return undefined;
+    }
+  }
+
+  async createLiveChatMessage(message: InsertLiveChatMessage): Promise<LiveChatMessage> {
+    try {
+      const result = await db.insert(liveChatMessages)
+        .values({ ...message, createdAt: new Date() })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error creating live chat message:", error);
+      throw error;
+    }
+  }
+
+  async updateLiveChatMessage(memorialId: number, id: number, changes: { pinned?: boolean; hidden?: boolean }): Promise<LiveChatMessage | undefined> {
+    try {
+      const result = await db.update(liveChatMessages)
+        .set(changes)
+        .where(and(eq(liveChatMessages.memorialId, memorialId), eq(liveChatMessages.id, id)))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating live chat message:", error);
+      return undefined;
+    }
+  }
+
+  // Email outbox methods
+  async queueEmail(email: InsertOutboxEmail): Promise<OutboxEmail | undefined> {
+    try {
+      const result = await db.insert(emailOutbox)
+        .values(email)
+        .onConflictDoNothing({ target: emailOutbox.dedupeKey })
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error queueing email:", error);
+      throw error;
+    }
+  }
+
+  async getDueEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    try {
+      return await db.select()
+        .from(emailOutbox)
+        .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)))
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error getting due emails:", error);
+      return [];
+    }
+  }
+
+  async updateEmail(id: number, emailData: Partial<OutboxEmail>): Promise<OutboxEmail | undefined> {
+    try {
+      const { id: _, ...data } = emailData;
+      const result = await db.update(emailOutbox)
+        .set(data)
+        .where(eq(emailOutbox.id, id))
+        .returning();
+      return result[0];
+    } catch (error) {
+      console.error("Error updating email:", error);
+      return undefined;
+    }
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(memorialId: number, userId: number): Promise<NotificationPreferences> {
+    const preferences = Object.fromEntries(notificationKinds.map(kind => [kind, true])) as NotificationPreferences;
+    
+    try {
+      const rows = await db.select()
+        .from(notificationPreferences)
+        .where(and(eq(notificationPreferences.memorialId, memorialId), eq(notificationPreferences.userId, userId)));
+      
+      for (const row of rows) {
+        preferences[row.kind] = row.enabled;
+      }
+    } catch (error) {
+      console.error("Error getting notification preferences:", error);
+    }
+    
+    return preferences;
+  }
+
+  async setNotificationPreference(memorialId: number, userId: number, kind: NotificationKind, enabled: boolean): Promise<void> {
+    try {
+      await db.insert(notificationPreferences)
+        .values({ memorialId, userId, kind, enabled })
+        .onConflictDoUpdate({
+          target: [notificationPreferences.memorialId, notificationPreferences.userId, notificationPreferences.kind],
+          set: { enabled }
+        });
+    } catch (error) {
+      console.error("Error setting notification preference:", error);
+      throw error;
+    }
+  }
+  
+  // Search methods
+  async search(memorialId: number, query: string, types: SearchResultType[], limit: number): Promise<SearchResult[]> {
+    try {
+      const tsQuery = sql`plainto_tsquery('english', ${query})`;
+      const results: SearchResult[] = [];
+      
+      if (types.includes("tribute")) {
+        const authorName = sql`coalesce(${users.name}, '')`;
+        const rank = sql<number>`ts_rank(${searchVector(sql`${tributes.content} || ' ' || ${authorName}`)}, ${tsQuery})::float8`;
+        
+        const rows = await db.select({
+            id: tributes.id,
+            authorName: users.name,
+            snippet: searchHeadline(tributes.content, tsQuery),
+            rank
+          })
+          .from(tributes)
+          .leftJoin(users, eq(users.id, tributes.userId))
+          .where(and(
+            eq(tributes.memorialId, memorialId),
+            eq(tributes.status, "approved"),
+            or(
+              sql`${searchVector(tributes.content)} @@ ${tsQuery}`,
+              sql`${searchVector(authorName)} @@ ${tsQuery}`
+            )
+          ))
+          .orderBy(desc(rank))
+          .limit(limit);
+        
+        for (const row of rows) {
+          results.push({ type: "tribute", tributeId: row.id, imageUrl: null, ...row });
+        }
+      }
+      
+      if (types.includes("comment")) {
+        const rank = sql<number>`ts_rank(${searchVector(tributeComments.content)}, ${tsQuery})::float8`;
+        
+        const rows = await db.select({
+            id: tributeComments.id,
+            tributeId: tributeComments.tributeId,
+            authorName: users.name,
+            snippet: searchHeadline(tributeComments.content, tsQuery),
+            rank
+          })
+          .from(tributeComments)
+          .innerJoin(tributes, eq(tributes.id, tributeComments.tributeId))
+          .leftJoin(users, eq(users.id, tributeComments.userId))
+          .where(and(
+            eq(tributeComments.memorialId, memorialId),
+            eq(tributeComments.status, "approved"),
+            eq(tributes.status, "approved"),
+            sql`${searchVector(tributeComments.content)} @@ ${tsQuery}`
+          ))
+          .orderBy(desc(rank))
+          .limit(limit);
+        
+        for (const row of rows) {
+          results.push({ type: "comment", imageUrl: null, ...row });
+        }
+      }
+      
+      if (types.includes("image")) {
+        const caption = sql`coalesce(${gallery.caption}, '')`;
+        const rank = sql<number>`ts_rank(${searchVector(caption)}, ${tsQuery})::float8`;
+        
+        const rows = await db.select({
+            id: gallery.id,
+            imageUrl: gallery.imageUrl,
+            snippet: searchHeadline(caption, tsQuery),
+            rank
+          })
+          .from(gallery)
+          .where(and(
+            eq(gallery.memorialId, memorialId),
+            eq(gallery.status, "approved"),
+            sql`${searchVector(caption)} @@ ${tsQuery}`
+          ))
+          .orderBy(desc(rank))
+          .limit(limit);
+        
+        for (const row of rows) {
+          results.push({ type: "image", tributeId: null, authorName: null, ...row });
+        }
+      }
+      
+      return results.sort((a, b) => b.rank - a.rank).slice(0, limit);
+    } catch (error) {
+      console.error("Error searching:", error);
+      return [];
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { format } from "date-fns";
+import type { Memorial, ServiceEvent, Tribute } from "@shared/schema";
+import { eventLocation, eventSummary } from "./calendar";
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export type EmailTemplate = "tributeModeration" | "tributeReply" | "passwordReset" | "serviceReminder";
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Tributes can be long; emails only need enough to recognise them
+function excerpt(content: string, length = 280) {
+  return content.length > length ? `${content.slice(0, length).trimEnd()}…` : content;
+}
+
+interface Layout {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  // Shown as a quote block, e.g. the tribute being moderated
+  quote?: string;
+  action: { label: string; url: string };
+  footer: string;
+}
+
+// Every email shares the same plain layout, rendered as both text and HTML
+function render({ subject, heading, paragraphs, quote, action, footer }: Layout): RenderedEmail {
+  const text = [
+    heading,
+    ...paragraphs,
+    ...(quote ? [quote.split("\n").map(line => `> ${line}`).join("\n")] : []),
+    `${action.label}: ${action.url}`,
+    "--",
+    footer,
+  ].join("\n\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f5f4;font-family:Georgia,serif;color:#1f2937;">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:32px;">
+      <h1 style="font-size:22px;margin:0 0 16px;">${escapeHtml(heading)}</h1>
+      ${paragraphs.map(paragraph => `<p style="line-height:1.5;white-space:pre-line;">${escapeHtml(paragraph)}</p>`).join("\n      ")}
+      ${quote ? `<blockquote style="margin:16px 0;padding:12px 16px;border-left:3px solid #1e3a8a;background:#f8fafc;white-space:pre-line;">${escapeHtml(quote)}</blockquote>` : ""}
+      <p style="margin:24px 0;">
+        <a href="${escapeHtml(action.url)}" style="background:#1e3a8a;color:#ffffff;padding:10px 18px;border-radius:6px;text-decoration:none;">${escapeHtml(action.label)}</a>
+      </p>
+      <p style="font-size:12px;color:#6b7280;">${escapeHtml(footer)}</p>
+    </div>
+  </body>
+</html>`;
+
+  return { subject, text, html };
+}
+
+export function tributeModerationEmail(memorial: Memorial, tribute: Tribute, authorName: string, adminUrl: string) {
+  return render({
+    subject: `New tribute awaiting approval – ${memorial.name}`,
+    heading: "A new tribute is awaiting approval",
+    paragraphs: [`${authorName} shared a tribute on the ${memorial.name} memorial. It will appear on the wall once an admin approves it.`],
+    quote: excerpt(tribute.content),
+    action: { label: "Review tributes", url: adminUrl },
+    footer: "You can turn these emails off from the admin dashboard.",
+  });
+}
+
+export function tributeReplyEmail(memorial: Memorial, recipientName: string, replierName: string, reply: string, tributeUrl: string) {
+  return render({
+    subject: `${replierName} replied to your tribute – ${memorial.name}`,
+    heading: `${replierName} replied to your tribute`,
+    paragraphs: [`Hi ${recipientName}, ${replierName} responded to the tribute you shared for ${memorial.name}.`],
+    quote: excerpt(reply),
+    action: { label: "View the conversation", url: tributeUrl },
+    footer: "You received this because you shared a tribute on this memorial.",
+  });
+}
+
+export function passwordResetEmail(recipientName: string, resetUrl: string, expiresInMinutes: number) {
+  return render({
+    subject: "Reset your password",
+    heading: "Reset your password",
+    paragraphs: [
+      `Hi ${recipientName}, we received a request to reset the password for your account.`,
+      `The link below works once and expires in ${expiresInMinutes} minutes. If you didn't ask for this, you can ignore this email and your password will stay the same.`,
+    ],
+    action: { label: "Choose a new password", url: resetUrl },
+    footer: "This email was sent because someone asked to reset your password.",
+  });
+}
+
+// Times are shown in the server's time zone, as in the printed program
+export function serviceReminderEmail(memorial: Memorial, event: ServiceEvent, recipientName: string, programUrl: string) {
+  const startsAt = new Date(event.startsAt);
+
+  return render({
+    subject: `Reminder: ${eventSummary(event)} for ${memorial.name}, ${format(startsAt, "EEEE 'at' h:mm a")}`,
+    heading: `${eventSummary(event)} – ${memorial.name}`,
+    paragraphs: [
+      `Hi ${recipientName}, this is a reminder that you plan to attend:`,
+      `${format(startsAt, "EEEE, MMMM d, yyyy 'at' h:mm a")}\n${eventLocation(event)}`,
+      ...(event.notes ? [event.notes] : []),
+      ...(event.streamLink ? [`If you can't be there in person, the service will be streamed at ${event.streamLink}`] : []),
+    ],
+    action: { label: "View the program", url: programUrl },
+    footer: "You are receiving this because you RSVP'd to this service.",
+  });
+}
@@ -0,0 +1,138 @@
+// Allowlist HTML sanitizer for admin-written rich text such as the life
+// story. Anything not listed is dropped: unknown tags are unwrapped (their
+// text is kept), script-like elements are removed with their content, and
+// only the attributes below survive, with URLs limited to safe schemes.
+// The output is well-formed, with every open tag closed.
+
+const ALLOWED_TAGS = new Set([
+  "p", "br", "h2", "h3", "strong", "b", "em", "i", "u", "s",
+  "ul", "ol", "li", "blockquote", "a", "img", "hr", "figure", "figcaption",
+]);
+
+const VOID_TAGS = new Set(["br", "img", "hr"]);
+
+// Dropped along with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "object", "embed", "template", "noscript",
+  "textarea", "title", "svg", "math", "select",
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href"],
+  img: ["src", "alt"],
+};
+
+const URL_ATTRIBUTES = new Set(["href", "src"]);
+
+// Blocks that end an open paragraph, as browsers do when parsing
+const BLOCK_TAGS = new Set(["p", "h2", "h3", "ul", "ol", "blockquote", "hr", "figure"]);
+
+// Site-relative paths, web links and email addresses. "//host" and "/\host"
+// are links to another site, so a path's leading slash can't be followed by
+// another slash or a backslash.
+const SAFE_URL = /^(\/(?![\/\\])|#|https?:|mailto:)/i;
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:-->|$)|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE_PATTERN = /([^\s"'>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " ",
+};
+
+function decodeEntities(value: string) {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);?/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function escapeText(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttribute(value: string) {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+function sanitizeAttributes(tag: string, source: string) {
+  const allowed = ALLOWED_ATTRIBUTES[tag];
+  if (!allowed) return "";
+
+  let attributes = "";
+  const seen = new Set<string>();
+  for (const match of Array.from(source.matchAll(ATTRIBUTE_PATTERN))) {
+    const name = match[1].toLowerCase();
+    if (!allowed.includes(name) || seen.has(name)) continue;
+
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "").trim();
+    // Browsers ignore whitespace and control characters inside a scheme,
+    // so "java\tscript:" has to be caught too
+    if (URL_ATTRIBUTES.has(name) && !SAFE_URL.test(value.replace(/[\u0000- ]/g, ""))) continue;
+
+    seen.add(name);
+    attributes += ` ${name}="${escapeAttribute(value)}"`;
+  }
+  return attributes;
+}
+
+export function sanitizeHtml(html: string): string {
+  let output = "";
+  const open: string[] = [];
+  // While inside a dropped element, the tag whose closing tag ends it
+  let droppingUntil: string | undefined;
+  let cursor = 0;
+
+  const appendText = (text: string) => {
+    if (!droppingUntil) output += escapeText(decodeEntities(text));
+  };
+
+  for (const match of Array.from(html.matchAll(TOKEN_PATTERN))) {
+    appendText(html.slice(cursor, match.index));
+    cursor = match.index! + match[0].length;
+
+    // Comments
+    if (!match[2]) continue;
+
+    const isClosing = match[1] === "/";
+    const tag = match[2].toLowerCase();
+
+    if (droppingUntil) {
+      if (isClosing && tag === droppingUntil) droppingUntil = undefined;
+      continue;
+    }
+    if (DROPPED_TAGS.has(tag)) {
+      if (!isClosing && !match[3].trim().endsWith("/")) droppingUntil = tag;
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) continue;
+
+    if (!isClosing) {
+      const attributes = sanitizeAttributes(tag, match[3]);
+      if (tag === "img" && !attributes.includes(" src=")) continue;
+
+      // A new list item ends the previous one, and a block ends a paragraph
+      const last = open[open.length - 1];
+      if ((tag === "li" && last === "li") || (BLOCK_TAGS.has(tag) && last === "p")) {
+        output += `</${open.pop()}>`;
+      }
+
+      output += `<${tag}${attributes}>`;
+      if (!VOID_TAGS.has(tag)) open.push(tag);
+    } else if (open.includes(tag)) {
+      // Close anything left open inside it first
+      while (open.length > 0) {
+        const last = open.pop()!;
+        output += `</${last}>`;
+        if (last === tag) break;
+      }
+    }
+  }
+
+  appendText(html.slice(cursor));
+  while (open.length > 0) output += `</${open.pop()}>`;
+
+  return output;
+}
@@ -0,0 +1,80 @@
+import sharp from "sharp";
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import type { ImageVariant } from "@shared/schema";
+
+// Widths generated for srcset; images are never upscaled past their own width
+export const IMAGE_VARIANT_WIDTHS = [320, 640, 1024, 1600, 2400];
+
+const PLACEHOLDER_WIDTH = 16;
+
+export interface ProcessedImage {
+  // URL of the largest variant, used wherever a single src is needed
+  imageUrl: string;
+  width: number;
+  height: number;
+  variants: ImageVariant[];
+  // Tiny blurred preview encoded as a data URL
+  placeholder: string;
+}
+
+// Resizes an uploaded image into WebP variants under /uploads/<folder>.
+// rotate() without arguments applies the EXIF orientation, and sharp drops all
+// metadata (EXIF, GPS, XMP) on output unless withMetadata() is called, so
+// nothing written to disk carries the original file's metadata.
+export async function processImage(input: Buffer, folder: string): Promise<ProcessedImage> {
+  const metadata = await sharp(input).metadata();
+
+  if (!metadata.width || !metadata.height) {
+    throw new Error("Unable to read image dimensions");
+  }
+
+  // EXIF orientations 5-8 are rotated by 90 degrees, which swaps width and height
+  const isRotated = (metadata.orientation ?? 1) >= 5;
+  const width = isRotated ? metadata.height : metadata.width;
+
+  const maxWidth = IMAGE_VARIANT_WIDTHS[IMAGE_VARIANT_WIDTHS.length - 1];
+  const targetWidths = IMAGE_VARIANT_WIDTHS.filter(w => w < width);
+  if (width <= maxWidth) {
+    targetWidths.push(width);
+  }
+
+  const outputDir = path.join(process.cwd(), "uploads", folder);
+  await fs.promises.mkdir(outputDir, { recursive: true });
+
+  const baseName = uuidv4();
+  const variants: ImageVariant[] = [];
+
+  for (const targetWidth of targetWidths) {
+    const filename = `${baseName}-${targetWidth}w.webp`;
+    const info = await sharp(input)
+      .rotate()
+      .resize({ width: targetWidth, withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toFile(path.join(outputDir, filename));
+
+    variants.push({
+      url: `/uploads/${folder}/${filename}`,
+      width: info.width,
+      height: info.height,
+    });
+  }
+
+  const placeholderBuffer = await sharp(input)
+    .rotate()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .blur()
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  const largest = variants[variants.length - 1];
+
+  return {
+    imageUrl: largest.url,
+    width: largest.width,
+    height: largest.height,
+    variants,
+    placeholder: `data:image/webp;base64,${placeholderBuffer.toString("base64")}`,
+  };
+}
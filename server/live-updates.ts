@@ -0,0 +1,51 @@
+import type { Request, Response } from "express";
+import type { LiveChatItem, ReactionCounts, TributeFeedItem } from "@shared/schema";
+
+export type LiveUpdate =
+  | { type: "tribute.created"; tribute: TributeFeedItem }
+  | { type: "tribute.deleted"; tributeId: number }
+  | { type: "reactions.changed"; tributeId: number; reactionCounts: ReactionCounts }
+  | { type: "comment.added"; tributeId: number; commentCount: number }
+  // A new chat message, or one that was pinned, unpinned or unhidden
+  | { type: "chat.message"; message: LiveChatItem }
+  | { type: "chat.hidden"; messageId: number }
+  | { type: "chat.status"; closed: boolean };
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+// How long browsers wait before reconnecting after the stream drops
+const RECONNECT_MS = 5 * 1000;
+
+// Open Server-Sent Events streams, per memorial. Updates are fanned out
+// within this process only, which is all a single server needs.
+const streams = new Map<number, Set<Response>>();
+
+// Turns the request into an event stream that receives every update
+// published for the memorial until the browser disconnects
+export function streamLiveUpdates(memorialId: number, req: Request, res: Response) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    "Connection": "keep-alive",
+    // Stop nginx-style proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RECONNECT_MS}\n\n`);
+
+  if (!streams.has(memorialId)) streams.set(memorialId, new Set());
+  const memorialStreams = streams.get(memorialId)!;
+  memorialStreams.add(res);
+
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    memorialStreams.delete(res);
+    if (memorialStreams.size === 0) streams.delete(memorialId);
+  });
+}
+
+export function publishLiveUpdate(memorialId: number, update: LiveUpdate) {
+  const message = `data: ${JSON.stringify(update)}\n\n`;
+  streams.get(memorialId)?.forEach(res => res.write(message));
+}
@@ -0,0 +1,84 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Anything that can deliver a message; send() rejects when delivery fails so
+// the outbox can retry it later
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Delivers through an SMTP relay configured with SMTP_* environment variables
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+// Writes each message as an .eml file instead of sending it. Used in
+// development and tests; the files open in any mail client.
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+  private composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "windows" });
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.composer.sendMail(message);
+    await fs.promises.mkdir(this.directory, { recursive: true });
+
+    const filename = `${new Date().toISOString().replace(/[:.]/g, "-")}-${uuidv4()}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, filename), info.message as Buffer);
+  }
+}
+
+export const MAIL_FROM = process.env.MAIL_FROM || "Memorial <no-reply@localhost>";
+
+// MAIL_TRANSPORT picks the transport explicitly; otherwise SMTP is used when
+// SMTP_HOST is set and messages are written to MAIL_DROP_DIR when it is not
+export function createMailTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "file");
+
+  if (transport === "smtp") {
+    if (!process.env.SMTP_HOST) {
+      throw new Error("SMTP_HOST is required when MAIL_TRANSPORT is smtp");
+    }
+
+    const port = parseInt(process.env.SMTP_PORT || "587");
+    return new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    });
+  }
+
+  if (transport === "file") {
+    return new FileTransport(process.env.MAIL_DROP_DIR || path.join(process.cwd(), "mail"));
+  }
+
+  throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+}
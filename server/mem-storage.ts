@@ -0,0 +1,1336 @@
+import {
+  User, InsertUser,
+  PasswordResetToken,
+  Memorial, InsertMemorial,
+  Tribute, InsertTribute, TributeStatus, TributeQuery, TributeFeedItem,
+  TributeComment, InsertTributeComment,
+  GalleryImage, InsertGalleryImage,
+  Album, InsertAlbum, AlbumImage, AlbumSummary,
+  PhotoTag, InsertPhotoTag,
+  Setting, InsertSetting,
+  FuneralProgram, InsertFuneralProgram,
+  ServiceEvent, InsertServiceEvent,
+  ProgramSection, InsertProgramSection,
+  Rsvp, InsertRsvp,
+  Reaction, ReactionKind, ReactionCounts,
+  GuestbookEntry, InsertGuestbookEntry,
+  LifeStoryRevision, InsertLifeStoryRevision, LifeStoryItem,
+  LiveChatMessage, InsertLiveChatMessage, LiveChatItem,
+  OutboxEmail, InsertOutboxEmail,
+  NotificationKind, NotificationPreferences, notificationKinds,
+  SearchResult, SearchResultType
+} from "@shared/schema";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { SearchIndex, highlight } from "./search-index";
+import { IStorage } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+export class MemStorage implements IStorage {
+  private _users: Map<number, User>;
+  private _passwordResetTokens: Map<string, PasswordResetToken>;
+  private _memorials: Map<number, Memorial>;
+  private _memorialAdmins: Set<string>;
+  private _tributes: Map<number, Tribute>;
+  private _tributeComments: Map<number, TributeComment>;
+  private _gallery: Map<number, GalleryImage>;
+  private _albums: Map<number, Album>;
+  private _albumImages: Map<number, AlbumImage>;
+  private _photoTags: Map<number, PhotoTag>;
+  private _settings: Map<string, Setting>;
+  private _funeralPrograms: Map<number, FuneralProgram>;
+  private _events: Map<number, ServiceEvent>;
+  private _programSections: Map<number, ProgramSection>;
+  private _rsvps: Map<number, Rsvp>;
+  private _reactions: Map<number, Reaction>;
+  private _guestbook: Map<number, GuestbookEntry>;
+  // memorialId:visitorId of every guest candle
+  private _guestCandles: Set<string>;
+  private _lifeStory: Map<number, LifeStoryRevision>;
+  private _liveChat: Map<number, LiveChatMessage>;
+  private _outbox: Map<number, OutboxEmail>;
+  // Keyed by memorialId:userId:kind
+  private _notificationPreferences: Map<string, boolean>;
+  // Keyed by "tribute:id", "comment:id" and "image:id"
+  private _searchIndex: SearchIndex;
+  private _currentUserId: number;
+  private _currentResetTokenId: number;
+  private _currentMemorialId: number;
+  private _currentTributeId: number;
+  private _currentTributeCommentId: number;
+  private _currentGalleryId: number;
+  private _currentAlbumId: number;
+  private _currentAlbumImageId: number;
+  private _currentPhotoTagId: number;
+  private _currentSettingId: number;
+  private _currentProgramId: number;
+  private _currentEventId: number;
+  private _currentProgramSectionId: number;
+  private _currentRsvpId: number;
+  private _currentReactionId: number;
+  private _currentGuestbookId: number;
+  private _currentLifeStoryId: number;
+  private _currentLiveChatId: number;
+  private _currentEmailId: number;
+  
+  sessionStore: any; // Using 'any' to resolve SessionStore type issue
+  
+  constructor() {
+    this._users = new Map();
+    this._passwordResetTokens = new Map();
+    this._memorials = new Map();
+    this._memorialAdmins = new Set();
+    this._tributes = new Map();
+    this._tributeComments = new Map();
+    this._gallery = new Map();
+    this._albums = new Map();
+    this._albumImages = new Map();
+    this._photoTags = new Map();
+    this._settings = new Map();
+    this._funeralPrograms = new Map();
+    this._events = new Map();
+    this._programSections = new Map();
+    this._rsvps = new Map();
+    this._reactions = new Map();
+    this._guestbook = new Map();
+    this._guestCandles = new Set();
+    this._lifeStory = new Map();
+    this._liveChat = new Map();
+    this._outbox = new Map();
+    this._notificationPreferences = new Map();
+    this._searchIndex = new SearchIndex();
+    
+    this._currentUserId = 1;
+    this._currentResetTokenId = 1;
+    this._currentMemorialId = 1;
+    this._currentTributeId = 1;
+    this._currentTributeCommentId = 1;
+    this._currentGalleryId = 1;
+    this._currentAlbumId = 1;
+    this._currentAlbumImageId = 1;
+    this._currentPhotoTagId = 1;
+    this._currentSettingId = 1;
+    this._currentProgramId = 1;
+    this._currentEventId = 1;
+    this._currentProgramSectionId = 1;
+    this._currentRsvpId = 1;
+    this._currentReactionId = 1;
+    this._currentGuestbookId = 1;
+    this._currentLifeStoryId = 1;
+    this._currentLiveChatId = 1;
+    this._currentEmailId = 1;
+    
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // 24 hours
+    });
+    
+    // Create the default memorial that all sample data belongs to
+    const memorialId = this._currentMemorialId++;
+    this._memorials.set(memorialId, {
+      id: memorialId,
+      slug: "chris-murphey",
+      name: "Chris Murphey",
+      isArchived: false,
+      createdAt: new Date()
+    });
+    
+    // Initialize with default settings
+    this.upsertSetting({
+      memorialId,
+      key: "backgroundImage",
+      value: "https://images.unsplash.com/photo-1507525428034-b723cf961d3e"
+    });
+    
+    this.upsertSetting({
+      memorialId,
+      key: "tributeImage",
+      value: "https://images.unsplash.com/photo-1552058544-f2b08422138a"
+    });
+    
+    this.upsertSetting({
+      memorialId,
+      key: "footerMessage",
+      value: "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\""
+    });
+    
+    this.upsertSetting({
+      memorialId,
+      key: "requireTributeApproval",
+      value: "false"
+    });
+    
+    this.upsertSetting({
+      memorialId,
+      key: "enabledReactions",
+      value: "candle,flower,heart,dove"
+    });
+    
+    // Add an admin user
+    this.createUser({
+      username: "admin",
+      password: "admin123",
+      name: "Administrator",
+      isAdmin: true,
+      email: "admin@example.com"
+    });
+    
+    // Initialize funeral program
+    this.updateFuneralProgram(memorialId, {
+      streamLink: "https://example.com/stream",
+      programPdfUrl: "https://example.com/program.pdf"
+    });
+    
+    // Add sample service events
+    this.createEvent({
+      memorialId,
+      type: "visitation",
+      startsAt: new Date("2023-10-20T17:00:00"),
+      endsAt: new Date("2023-10-20T19:00:00"),
+      venue: "Seaside Memorial Chapel",
+      address: "1234 Coastal Highway, Oceanview, CA 92123"
+    });
+    
+    this.createEvent({
+      memorialId,
+      type: "funeral",
+      title: "Celebration of Life",
+      startsAt: new Date("2023-10-21T13:00:00"),
+      endsAt: new Date("2023-10-21T15:00:00"),
+      venue: "Seaside Memorial Chapel",
+      address: "1234 Coastal Highway, Oceanview, CA 92123",
+      streamLink: "https://example.com/stream"
+    });
+    
+    // Sample order of service
+    const sampleSections: Omit<InsertProgramSection, "memorialId" | "order">[] = [
+      { type: "processional", title: "Processional", participants: "Family and pallbearers" },
+      { type: "welcome", title: "Welcome and Opening Prayer", participants: "Rev. Anne Walker" },
+      {
+        type: "hymn",
+        title: "Amazing Grace",
+        participants: "Congregation",
+        content: "Amazing grace! How sweet the sound\nThat saved a wretch like me!\nI once was lost, but now am found;\nWas blind, but now I see."
+      },
+      { type: "eulogy", title: "Eulogy", participants: "Sarah Murphey" },
+      { type: "recessional", title: "Recessional" },
+    ];
+    sampleSections.forEach((section, order) => {
+      this.createProgramSection({ ...section, memorialId, order });
+    });
+    
+    // Add sample gallery images
+    this.createGalleryImage({
+      memorialId,
+      imageUrl: "https://images.unsplash.com/photo-1472791108553-c9405341e398",
+      caption: "Chris at the beach",
+      isFeatured: true,
+      order: 1
+    });
+  }
+  
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    return this._users.get(id);
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this._users.values()).find(
+      (user) => user.username === username
+    );
+  }
+  
+  async getUsersByEmail(email: string): Promise<User[]> {
+    return Array.from(this._users.values()).filter(
+      (user) => user.email?.toLowerCase() === email.toLowerCase()
+    );
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this._users.values());
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this._currentUserId++;
+    const user: User = { ...insertUser, id };
+    this._users.set(id, user);
+    return user;
+  }
+  
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const user = this._users.get(id);
+    if (!user) return undefined;
+    
+    const updatedUser: User = { ...user, ...userData };
+    this._users.set(id, updatedUser);
+    
+    // Tributes are found by their author's name too
+    if (updatedUser.name !== user.name) {
+      this._tributes.forEach(tribute => {
+        if (tribute.userId === id) this.indexTribute(tribute);
+      });
+    }
+    
+    return updatedUser;
+  }
+  
+  async deleteUser(id: number): Promise<boolean> {
+    return this._users.delete(id);
+  }
+  
+  // Password reset token methods
+  async createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const token: PasswordResetToken = {
+      id: this._currentResetTokenId++,
+      userId,
+      tokenHash,
+      expiresAt,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this._passwordResetTokens.set(tokenHash, token);
+    return token;
+  }
+  
+  async consumePasswordResetToken(tokenHash: string, now: Date): Promise<PasswordResetToken | undefined> {
+    const token = this._passwordResetTokens.get(tokenHash);
+    if (!token || token.usedAt || token.expiresAt <= now) return undefined;
+    
+    token.usedAt = now;
+    return token;
+  }
+  
+  async deletePasswordResetTokens(userId: number): Promise<void> {
+    Array.from(this._passwordResetTokens.values())
+      .filter(token => token.userId === userId)
+      .forEach(token => this._passwordResetTokens.delete(token.tokenHash));
+  }
+  
+  // Memorial methods
+  async getMemorials(includeArchived = false): Promise<Memorial[]> {
+    return Array.from(this._memorials.values())
+      .filter(memorial => includeArchived || !memorial.isArchived)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  
+  async getMemorialById(id: number): Promise<Memorial | undefined> {
+    return this._memorials.get(id);
+  }
+  
+  async getMemorialBySlug(slug: string): Promise<Memorial | undefined> {
+    return Array.from(this._memorials.values()).find(
+      memorial => memorial.slug === slug
+    );
+  }
+  
+  async createMemorial(insertMemorial: InsertMemorial): Promise<Memorial> {
+    if (await this.getMemorialBySlug(insertMemorial.slug)) {
+      throw new Error(`Memorial slug "${insertMemorial.slug}" is already in use`);
+    }
+    
+    const id = this._currentMemorialId++;
+    const memorial: Memorial = {
+      ...insertMemorial,
+      id,
+      isArchived: false,
+      createdAt: new Date()
+    };
+    this._memorials.set(id, memorial);
+    return memorial;
+  }
+  
+  async updateMemorial(id: number, memorialData: Partial<Memorial>): Promise<Memorial | undefined> {
+    const memorial = this._memorials.get(id);
+    if (!memorial) return undefined;
+    
+    const updatedMemorial: Memorial = { ...memorial, ...memorialData, id };
+    this._memorials.set(id, updatedMemorial);
+    return updatedMemorial;
+  }
+  
+  // Memorial admin methods
+  async getMemorialAdminUserIds(memorialId: number): Promise<number[]> {
+    return Array.from(this._memorialAdmins)
+      .map(entry => entry.split(":").map(Number))
+      .filter(([entryMemorialId]) => entryMemorialId === memorialId)
+      .map(([, userId]) => userId);
+  }
+  
+  async getAdministeredMemorialIds(userId: number): Promise<number[]> {
+    return Array.from(this._memorialAdmins)
+      .map(entry => entry.split(":").map(Number))
+      .filter(([, entryUserId]) => entryUserId === userId)
+      .map(([memorialId]) => memorialId);
+  }
+  
+  async isMemorialAdmin(memorialId: number, userId: number): Promise<boolean> {
+    return this._memorialAdmins.has(`${memorialId}:${userId}`);
+  }
+  
+  async addMemorialAdmin(memorialId: number, userId: number): Promise<void> {
+    this._memorialAdmins.add(`${memorialId}:${userId}`);
+  }
+  
+  async removeMemorialAdmin(memorialId: number, userId: number): Promise<boolean> {
+    return this._memorialAdmins.delete(`${memorialId}:${userId}`);
+  }
+  
+  // Tribute methods
+  async getTributeFeed(memorialId: number, query: TributeQuery = {}): Promise<TributeFeedItem[]> {
+    const { limit, after, viewerId, sort = "newest" } = query;
+    
+    const compare = (a: { createdAt: Date; id: number; candles: number }, b: typeof a) => {
+      const age = a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+      if (sort === "oldest") return age;
+      if (sort === "candles") return b.candles - a.candles || -age;
+      return -age;
+    };
+    const sortKey = (tribute: Tribute) => ({
+      createdAt: new Date(tribute.createdAt),
+      id: tribute.id,
+      candles: tribute.reactionCounts.candle || 0
+    });
+    
+    const page = Array.from(this._tributes.values())
+      .filter(tribute => tribute.memorialId === memorialId)
+      .filter(tribute =>
+        tribute.status === "approved" ||
+        (viewerId !== undefined && tribute.userId === viewerId && tribute.status === "pending")
+      )
+      .filter(tribute =>
+        (query.hasMedia === undefined || !!tribute.mediaUrl === query.hasMedia) &&
+        (query.mediaType === undefined || tribute.mediaType === query.mediaType) &&
+        (query.authorId === undefined || tribute.userId === query.authorId) &&
+        (query.createdFrom === undefined || tribute.createdAt >= query.createdFrom) &&
+        (query.createdBefore === undefined || tribute.createdAt < query.createdBefore)
+      )
+      .filter(tribute => after === undefined || compare(sortKey(tribute), after) > 0)
+      .sort((a, b) => compare(sortKey(a), sortKey(b)))
+      .slice(0, limit);
+    
+    return page.map(tribute => {
+      const author = this._users.get(tribute.userId);
+      const myReactions: ReactionKind[] = [];
+      const commentCount = Array.from(this._tributeComments.values())
+        .filter(comment => comment.tributeId === tribute.id && comment.status === "approved")
+        .length;
+      
+      if (viewerId !== undefined) {
+        this._reactions.forEach(reaction => {
+          if (reaction.tributeId === tribute.id && reaction.userId === viewerId) {
+            myReactions.push(reaction.kind);
+          }
+        });
+      }
+      
+      return {
+        ...tribute,
+        user: author ? { id: author.id, username: author.username, name: author.name } : null,
+        myReactions: myReactions.sort(),
+        commentCount
+      };
+    });
+  }
+  
+  async getTributesByStatus(memorialId: number, status: TributeStatus): Promise<Tribute[]> {
+    return Array.from(this._tributes.values())
+      .filter(tribute => tribute.memorialId === memorialId && tribute.status === status)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+  
+  async getTributeById(memorialId: number, id: number): Promise<Tribute | undefined> {
+    const tribute = this._tributes.get(id);
+    return tribute?.memorialId === memorialId ? tribute : undefined;
+  }
+  
+  async getTributesByUserId(memorialId: number, userId: number): Promise<Tribute[]> {
+    return Array.from(this._tributes.values()).filter(
+      tribute => tribute.memorialId === memorialId && tribute.userId === userId
+    );
+  }
+  
+  async createTribute(insertTribute: InsertTribute): Promise<Tribute> {
+    const id = this._currentTributeId++;
+    const createdAt = new Date();
+    const tribute: Tribute = {
+      ...insertTribute,
+      id,
+      createdAt,
+      candleCount: 0,
+      legacyCandleCount: 0,
+      reactionCounts: {},
+      status: insertTribute.status ?? "approved",
+      moderationReason: null,
+      moderatedAt: null
+    };
+    
+    this._tributes.set(id, tribute);
+    this.indexTribute(tribute);
+    return tribute;
+  }
+  
+  async updateTribute(memorialId: number, id: number, tributeData: Partial<Tribute>): Promise<Tribute | undefined> {
+    const tribute = await this.getTributeById(memorialId, id);
+    if (!tribute) return undefined;
+    
+    // Never allow a tribute to be moved to another memorial
+    const updatedTribute: Tribute = { ...tribute, ...tributeData, id, memorialId };
+    this._tributes.set(id, updatedTribute);
+    this.indexTribute(updatedTribute);
+    return updatedTribute;
+  }
+  
+  async setTributeStatus(memorialId: number, id: number, status: TributeStatus, reason?: string): Promise<Tribute | undefined> {
+    return this.updateTribute(memorialId, id, {
+      status,
+      moderationReason: reason || null,
+      moderatedAt: new Date()
+    });
+  }
+  
+  async deleteTribute(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getTributeById(memorialId, id))) return false;
+    
+    this._reactions.forEach((reaction, reactionId) => {
+      if (reaction.tributeId === id) this._reactions.delete(reactionId);
+    });
+    this._tributeComments.forEach((comment, commentId) => {
+      if (comment.tributeId === id) {
+        this._tributeComments.delete(commentId);
+        this._searchIndex.remove(`comment:${commentId}`);
+      }
+    });
+    
+    this._searchIndex.remove(`tribute:${id}`);
+    return this._tributes.delete(id);
+  }
+  
+  // Tribute comment methods
+  async getTributeComments(memorialId: number, tributeId: number, viewerId?: number): Promise<TributeComment[]> {
+    return Array.from(this._tributeComments.values())
+      .filter(comment => comment.memorialId === memorialId && comment.tributeId === tributeId)
+      .filter(comment =>
+        comment.status === "approved" ||
+        (viewerId !== undefined && comment.userId === viewerId && comment.status === "pending")
+      )
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id);
+  }
+  
+  async getTributeCommentsByStatus(memorialId: number, status: TributeStatus): Promise<TributeComment[]> {
+    return Array.from(this._tributeComments.values())
+      .filter(comment => comment.memorialId === memorialId && comment.status === status)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+  
+  async getTributeCommentById(memorialId: number, id: number): Promise<TributeComment | undefined> {
+    const comment = this._tributeComments.get(id);
+    return comment?.memorialId === memorialId ? comment : undefined;
+  }
+  
+  async getTributeCommentCounts(memorialId: number, tributeIds: number[]): Promise<Record<number, number>> {
+    const counts: Record<number, number> = {};
+    
+    this._tributeComments.forEach(comment => {
+      if (comment.memorialId === memorialId && comment.status === "approved" && tributeIds.includes(comment.tributeId)) {
+        counts[comment.tributeId] = (counts[comment.tributeId] || 0) + 1;
+      }
+    });
+    
+    return counts;
+  }
+  
+  async createTributeComment(insertComment: InsertTributeComment): Promise<TributeComment> {
+    const id = this._currentTributeCommentId++;
+    const comment: TributeComment = {
+      ...insertComment,
+      id,
+      parentId: insertComment.parentId ?? null,
+      status: insertComment.status ?? "approved",
+      createdAt: new Date(),
+      moderationReason: null,
+      moderatedAt: null
+    };
+    this._tributeComments.set(id, comment);
+    this._searchIndex.set(`comment:${id}`, comment.content);
+    return comment;
+  }
+  
+  async setTributeCommentStatus(memorialId: number, id: number, status: TributeStatus, reason?: string): Promise<TributeComment | undefined> {
+    const comment = await this.getTributeCommentById(memorialId, id);
+    if (!comment) return undefined;
+    
+    const updatedComment: TributeComment = {
+      ...comment,
+      status,
+      moderationReason: reason || null,
+      moderatedAt: new Date()
+    };
+    this._tributeComments.set(id, updatedComment);
+    return updatedComment;
+  }
+  
+  async deleteTributeComment(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getTributeCommentById(memorialId, id))) return false;
+    
+    this._tributeComments.forEach((comment, replyId) => {
+      if (comment.parentId === id) {
+        this._tributeComments.delete(replyId);
+        this._searchIndex.remove(`comment:${replyId}`);
+      }
+    });
+    
+    this._searchIndex.remove(`comment:${id}`);
+    return this._tributeComments.delete(id);
+  }
+  
+  // Gallery methods
+  async getGalleryImages(memorialId: number, limit?: number, offset = 0): Promise<GalleryImage[]> {
+    const allImages = Array.from(this._gallery.values())
+      .filter(image => image.memorialId === memorialId && image.status === "approved")
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+    
+    if (limit !== undefined) {
+      return allImages.slice(offset, offset + limit);
+    }
+    
+    return allImages;
+  }
+  
+  async getFeaturedGalleryImages(memorialId: number): Promise<GalleryImage[]> {
+    return Array.from(this._gallery.values())
+      .filter(image => image.memorialId === memorialId && image.isFeatured && image.status === "approved")
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+  }
+  
+  async getGallerySubmissions(memorialId: number): Promise<GalleryImage[]> {
+    return Array.from(this._gallery.values())
+      .filter(image => image.memorialId === memorialId && image.status === "pending")
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getGalleryImageById(memorialId: number, id: number): Promise<GalleryImage | undefined> {
+    const image = this._gallery.get(id);
+    return image?.memorialId === memorialId ? image : undefined;
+  }
+  
+  async createGalleryImage(insertImage: InsertGalleryImage): Promise<GalleryImage> {
+    const id = this._currentGalleryId++;
+    const image: GalleryImage = {
+      caption: null,
+      isFeatured: false,
+      order: 0,
+      width: null,
+      height: null,
+      variants: null,
+      placeholder: null,
+      status: "approved",
+      submittedById: null,
+      year: null,
+      peoplePictured: null,
+      ...insertImage,
+      id
+    };
+    this._gallery.set(id, image);
+    this._searchIndex.set(`image:${id}`, image.caption || "");
+    return image;
+  }
+  
+  async updateGalleryImage(memorialId: number, id: number, imageData: Partial<GalleryImage>): Promise<GalleryImage | undefined> {
+    const image = await this.getGalleryImageById(memorialId, id);
+    if (!image) return undefined;
+    
+    const updatedImage: GalleryImage = { ...image, ...imageData, id, memorialId };
+    this._gallery.set(id, updatedImage);
+    this._searchIndex.set(`image:${id}`, updatedImage.caption || "");
+    return updatedImage;
+  }
+  
+  async deleteGalleryImage(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getGalleryImageById(memorialId, id))) return false;
+    
+    this._albumImages.forEach((link, linkId) => {
+      if (link.imageId === id) this._albumImages.delete(linkId);
+    });
+    this._albums.forEach(album => {
+      if (album.coverImageId === id) album.coverImageId = null;
+    });
+    this._photoTags.forEach((tag, tagId) => {
+      if (tag.imageId === id) this._photoTags.delete(tagId);
+    });
+    
+    this._searchIndex.remove(`image:${id}`);
+    return this._gallery.delete(id);
+  }
+  
+  async reorderGalleryImages(memorialId: number, ids: number[]): Promise<GalleryImage[]> {
+    ids.forEach((id, index) => {
+      const image = this._gallery.get(id);
+      if (image && image.memorialId === memorialId) {
+        image.order = index;
+      }
+    });
+    return this.getGalleryImages(memorialId);
+  }
+  
+  // Album methods
+  async getAlbums(memorialId: number): Promise<AlbumSummary[]> {
+    const memorialAlbums = Array.from(this._albums.values())
+      .filter(album => album.memorialId === memorialId)
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+    
+    return Promise.all(memorialAlbums.map(async album => {
+      const images = await this.getAlbumImages(memorialId, album.id);
+      const coverImage = (album.coverImageId !== null ? this._gallery.get(album.coverImageId) : undefined) || images[0] || null;
+      return { ...album, imageCount: images.length, coverImage };
+    }));
+  }
+  
+  async getAlbumById(memorialId: number, id: number): Promise<Album | undefined> {
+    const album = this._albums.get(id);
+    return album?.memorialId === memorialId ? album : undefined;
+  }
+  
+  async getAlbumBySlug(memorialId: number, slug: string): Promise<Album | undefined> {
+    return Array.from(this._albums.values()).find(
+      album => album.memorialId === memorialId && album.slug === slug
+    );
+  }
+  
+  async createAlbum(insertAlbum: InsertAlbum): Promise<Album> {
+    if (await this.getAlbumBySlug(insertAlbum.memorialId, insertAlbum.slug)) {
+      throw new Error(`Album slug "${insertAlbum.slug}" is already in use`);
+    }
+    
+    const id = this._currentAlbumId++;
+    const album: Album = {
+      description: null,
+      coverImageId: null,
+      order: 0,
+      ...insertAlbum,
+      id,
+      createdAt: new Date()
+    };
+    this._albums.set(id, album);
+    return album;
+  }
+  
+  async updateAlbum(memorialId: number, id: number, albumData: Partial<Album>): Promise<Album | undefined> {
+    const album = await this.getAlbumById(memorialId, id);
+    if (!album) return undefined;
+    
+    const updatedAlbum: Album = { ...album, ...albumData, id, memorialId };
+    this._albums.set(id, updatedAlbum);
+    return updatedAlbum;
+  }
+  
+  async deleteAlbum(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getAlbumById(memorialId, id))) return false;
+    
+    this._albumImages.forEach((link, linkId) => {
+      if (link.albumId === id) this._albumImages.delete(linkId);
+    });
+    return this._albums.delete(id);
+  }
+  
+  async reorderAlbums(memorialId: number, ids: number[]): Promise<AlbumSummary[]> {
+    ids.forEach((id, index) => {
+      const album = this._albums.get(id);
+      if (album && album.memorialId === memorialId) {
+        album.order = index;
+      }
+    });
+    return this.getAlbums(memorialId);
+  }
+  
+  async getAlbumImages(memorialId: number, albumId: number): Promise<GalleryImage[]> {
+    if (!(await this.getAlbumById(memorialId, albumId))) return [];
+    
+    return Array.from(this._albumImages.values())
+      .filter(link => link.albumId === albumId && this._gallery.get(link.imageId)?.status === "approved")
+      .sort((a, b) => a.order - b.order || a.id - b.id)
+      .map(link => this._gallery.get(link.imageId)!);
+  }
+  
+  async getAlbumImageLinks(memorialId: number): Promise<AlbumImage[]> {
+    return Array.from(this._albumImages.values())
+      .filter(link => this._albums.get(link.albumId)?.memorialId === memorialId);
+  }
+  
+  async addImageToAlbum(memorialId: number, albumId: number, imageId: number): Promise<boolean> {
+    const image = await this.getGalleryImageById(memorialId, imageId);
+    if (!(await this.getAlbumById(memorialId, albumId)) || image?.status !== "approved") {
+      return false;
+    }
+    
+    const links = Array.from(this._albumImages.values()).filter(link => link.albumId === albumId);
+    if (links.some(link => link.imageId === imageId)) return true;
+    
+    const id = this._currentAlbumImageId++;
+    const order = links.reduce((max, link) => Math.max(max, link.order + 1), 0);
+    this._albumImages.set(id, { id, albumId, imageId, order });
+    return true;
+  }
+  
+  async removeImageFromAlbum(memorialId: number, albumId: number, imageId: number): Promise<boolean> {
+    if (!(await this.getAlbumById(memorialId, albumId))) return false;
+    
+    const link = Array.from(this._albumImages.values())
+      .find(link => link.albumId === albumId && link.imageId === imageId);
+    return link ? this._albumImages.delete(link.id) : false;
+  }
+  
+  // Photo tag methods
+  async getPhotoTags(memorialId: number): Promise<PhotoTag[]> {
+    return Array.from(this._photoTags.values())
+      .filter(tag => tag.memorialId === memorialId && this._gallery.get(tag.imageId)?.status === "approved")
+      .sort((a, b) => a.imageId - b.imageId || a.id - b.id);
+  }
+  
+  async getPhotoTagById(memorialId: number, id: number): Promise<PhotoTag | undefined> {
+    const tag = this._photoTags.get(id);
+    return tag?.memorialId === memorialId ? tag : undefined;
+  }
+  
+  async createPhotoTag(insertTag: InsertPhotoTag): Promise<PhotoTag> {
+    const id = this._currentPhotoTagId++;
+    const tag: PhotoTag = {
+      userId: null,
+      ...insertTag,
+      id,
+      createdAt: new Date()
+    };
+    this._photoTags.set(id, tag);
+    return tag;
+  }
+  
+  async updatePhotoTag(memorialId: number, id: number, tagData: Partial<PhotoTag>): Promise<PhotoTag | undefined> {
+    const tag = await this.getPhotoTagById(memorialId, id);
+    if (!tag) return undefined;
+    
+    const updatedTag: PhotoTag = { ...tag, ...tagData, id, memorialId };
+    this._photoTags.set(id, updatedTag);
+    return updatedTag;
+  }
+  
+  async deletePhotoTag(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getPhotoTagById(memorialId, id))) return false;
+    return this._photoTags.delete(id);
+  }
+  
+  async getContributorIds(memorialId: number): Promise<number[]> {
+    const userIds = new Set<number>();
+    this._tributes.forEach(tribute => {
+      if (tribute.memorialId === memorialId && tribute.status === "approved") userIds.add(tribute.userId);
+    });
+    this._gallery.forEach(image => {
+      if (image.memorialId === memorialId && image.status === "approved" && image.submittedById !== null) {
+        userIds.add(image.submittedById);
+      }
+    });
+    return Array.from(userIds);
+  }
+  
+  // Settings methods
+  async getAllSettings(memorialId: number): Promise<Setting[]> {
+    return Array.from(this._settings.values()).filter(
+      setting => setting.memorialId === memorialId
+    );
+  }
+  
+  async getSetting(memorialId: number, key: string): Promise<Setting | undefined> {
+    return this._settings.get(`${memorialId}:${key}`);
+  }
+  
+  async upsertSetting(insertSetting: InsertSetting): Promise<Setting> {
+    const mapKey = `${insertSetting.memorialId}:${insertSetting.key}`;
+    const existingSetting = this._settings.get(mapKey);
+    
+    if (existingSetting) {
+      const updatedSetting: Setting = {
+        ...existingSetting,
+        value: insertSetting.value
+      };
+      this._settings.set(mapKey, updatedSetting);
+      return updatedSetting;
+    } else {
+      const id = this._currentSettingId++;
+      const setting: Setting = {
+        ...insertSetting,
+        id
+      };
+      this._settings.set(mapKey, setting);
+      return setting;
+    }
+  }
+  
+  // Funeral program methods
+  async getFuneralProgram(memorialId: number): Promise<FuneralProgram | undefined> {
+    return this._funeralPrograms.get(memorialId);
+  }
+  
+  async updateFuneralProgram(memorialId: number, programData: Partial<InsertFuneralProgram>): Promise<FuneralProgram> {
+    const { id: _, memorialId: __, ...insertProgram } = programData as Partial<FuneralProgram>;
+    const existingProgram = this._funeralPrograms.get(memorialId);
+    const program: FuneralProgram = existingProgram
+      ? { ...existingProgram, ...insertProgram }
+      : {
+          date: null,
+          time: null,
+          location: null,
+          address: null,
+          streamLink: null,
+          programPdfUrl: null,
+          serviceDescription: null,
+          ...insertProgram,
+          id: this._currentProgramId++,
+          memorialId
+        };
+    
+    this._funeralPrograms.set(memorialId, program);
+    return program;
+  }
+  
+  // Service event methods
+  async getEvents(memorialId: number): Promise<ServiceEvent[]> {
+    return Array.from(this._events.values())
+      .filter(event => event.memorialId === memorialId)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+  
+  async getEventsStartingBetween(from: Date, to: Date): Promise<ServiceEvent[]> {
+    return Array.from(this._events.values())
+      .filter(event => event.startsAt >= from && event.startsAt < to)
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime() || a.id - b.id);
+  }
+  
+  async getEventById(memorialId: number, id: number): Promise<ServiceEvent | undefined> {
+    const event = this._events.get(id);
+    return event && event.memorialId === memorialId ? event : undefined;
+  }
+  
+  async createEvent(insertEvent: InsertServiceEvent): Promise<ServiceEvent> {
+    const id = this._currentEventId++;
+    const event: ServiceEvent = {
+      title: null,
+      endsAt: null,
+      address: null,
+      streamLink: null,
+      notes: null,
+      ...insertEvent,
+      id
+    };
+    this._events.set(id, event);
+    return event;
+  }
+  
+  async updateEvent(memorialId: number, id: number, eventData: Partial<ServiceEvent>): Promise<ServiceEvent | undefined> {
+    const event = await this.getEventById(memorialId, id);
+    if (!event) return undefined;
+    
+    const updatedEvent: ServiceEvent = { ...event, ...eventData, id, memorialId };
+    this._events.set(id, updatedEvent);
+    return updatedEvent;
+  }
+  
+  async deleteEvent(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getEventById(memorialId, id))) return false;
+    return this._events.delete(id);
+  }
+  
+  // Order of service methods
+  async getProgramSections(memorialId: number): Promise<ProgramSection[]> {
+    return Array.from(this._programSections.values())
+      .filter(section => section.memorialId === memorialId)
+      .sort((a, b) => a.order - b.order || a.id - b.id);
+  }
+  
+  async getProgramSectionById(memorialId: number, id: number): Promise<ProgramSection | undefined> {
+    const section = this._programSections.get(id);
+    return section && section.memorialId === memorialId ? section : undefined;
+  }
+  
+  async createProgramSection(insertSection: InsertProgramSection): Promise<ProgramSection> {
+    const id = this._currentProgramSectionId++;
+    const section: ProgramSection = {
+      participants: null,
+      content: null,
+      order: 0,
+      ...insertSection,
+      id
+    };
+    this._programSections.set(id, section);
+    return section;
+  }
+  
+  async updateProgramSection(memorialId: number, id: number, sectionData: Partial<ProgramSection>): Promise<ProgramSection | undefined> {
+    const section = await this.getProgramSectionById(memorialId, id);
+    if (!section) return undefined;
+    
+    const updatedSection: ProgramSection = { ...section, ...sectionData, id, memorialId };
+    this._programSections.set(id, updatedSection);
+    return updatedSection;
+  }
+  
+  async deleteProgramSection(memorialId: number, id: number): Promise<boolean> {
+    if (!(await this.getProgramSectionById(memorialId, id))) return false;
+    return this._programSections.delete(id);
+  }
+  
+  async reorderProgramSections(memorialId: number, ids: number[]): Promise<ProgramSection[]> {
+    ids.forEach((id, index) => {
+      const section = this._programSections.get(id);
+      if (section && section.memorialId === memorialId) {
+        section.order = index;
+      }
+    });
+    return this.getProgramSections(memorialId);
+  }
+  
+  // RSVP methods
+  async getRsvps(memorialId: number): Promise<Rsvp[]> {
+    return Array.from(this._rsvps.values())
+      .filter(rsvp => rsvp.memorialId === memorialId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async findRsvp(memorialId: number, userId: number | null, email: string | null): Promise<Rsvp | undefined> {
+    const memorialRsvps = await this.getRsvps(memorialId);
+    return (userId !== null ? memorialRsvps.find(rsvp => rsvp.userId === userId) : undefined)
+      ?? (email ? memorialRsvps.find(rsvp => rsvp.email === email) : undefined);
+  }
+  
+  async createRsvp(insertRsvp: InsertRsvp): Promise<Rsvp> {
+    const id = this._currentRsvpId++;
+    const now = new Date();
+    const rsvp: Rsvp = {
+      userId: null,
+      email: null,
+      dietaryNotes: null,
+      ...insertRsvp,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this._rsvps.set(id, rsvp);
+    return rsvp;
+  }
+  
+  async updateRsvp(memorialId: number, id: number, rsvpData: Partial<Rsvp>): Promise<Rsvp | undefined> {
+    const rsvp = this._rsvps.get(id);
+    if (!rsvp || rsvp.memorialId !== memorialId) return undefined;
+    
+    const updatedRsvp: Rsvp = { ...rsvp, ...rsvpData, id, memorialId, updatedAt: new Date() };
+    this._rsvps.set(id, updatedRsvp);
+    return updatedRsvp;
+  }
+  
+  async deleteRsvp(memorialId: number, id: number): Promise<boolean> {
+    const rsvp = this._rsvps.get(id);
+    if (!rsvp || rsvp.memorialId !== memorialId) return false;
+    return this._rsvps.delete(id);
+  }
+  
+  // Reaction methods
+  async setReaction(userId: number, tributeId: number, kind: ReactionKind, reacted: boolean): Promise<ReactionCounts | undefined> {
+    const tribute = this._tributes.get(tributeId);
+    if (!tribute) return undefined;
+    
+    const existingReaction = Array.from(this._reactions.values()).find(
+      reaction => reaction.userId === userId && reaction.tributeId === tributeId && reaction.kind === kind
+    );
+    
+    if (reacted === !!existingReaction) {
+      return tribute.reactionCounts;
+    }
+    
+    if (reacted) {
+      const id = this._currentReactionId++;
+      this._reactions.set(id, { id, userId, tributeId, kind, createdAt: new Date() });
+    } else {
+      this._reactions.delete(existingReaction!.id);
+    }
+    
+    const reactionCounts = {
+      ...tribute.reactionCounts,
+      [kind]: Math.max((tribute.reactionCounts[kind] || 0) + (reacted ? 1 : -1), 0)
+    };
+    this._tributes.set(tributeId, { ...tribute, reactionCounts });
+    return reactionCounts;
+  }
+  
+  async getReactions(tributeId: number): Promise<Reaction[]> {
+    return Array.from(this._reactions.values())
+      .filter(reaction => reaction.tributeId === tributeId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getUserReactionKinds(userId: number, tributeIds: number[]): Promise<Record<number, ReactionKind[]>> {
+    const kinds: Record<number, ReactionKind[]> = {};
+    
+    this._reactions.forEach(reaction => {
+      if (reaction.userId === userId && tributeIds.includes(reaction.tributeId)) {
+        (kinds[reaction.tributeId] ??= []).push(reaction.kind);
+      }
+    });
+    
+    return kinds;
+  }
+  
+  async recountReactions(memorialId: number): Promise<{ checked: number; corrected: number }> {
+    const tributes = Array.from(this._tributes.values()).filter(tribute => tribute.memorialId === memorialId);
+    let corrected = 0;
+    
+    for (const tribute of tributes) {
+      const reactionCounts: ReactionCounts = tribute.legacyCandleCount > 0
+        ? { candle: tribute.legacyCandleCount }
+        : {};
+      this._reactions.forEach(reaction => {
+        if (reaction.tributeId === tribute.id) {
+          reactionCounts[reaction.kind] = (reactionCounts[reaction.kind] || 0) + 1;
+        }
+      });
+      
+      const kinds = new Set([...Object.keys(reactionCounts), ...Object.keys(tribute.reactionCounts)]) as Set<ReactionKind>;
+      if (Array.from(kinds).some(kind => (reactionCounts[kind] || 0) !== (tribute.reactionCounts[kind] || 0))) {
+        this._tributes.set(tribute.id, { ...tribute, reactionCounts });
+        corrected++;
+      }
+    }
+    
+    return { checked: tributes.length, corrected };
+  }
+  
+  async migrateLegacyCandles(): Promise<void> {
+    this._tributes.forEach(tribute => {
+      if (tribute.candleCount <= 0) return;
+      
+      let candleRows = 0;
+      this._reactions.forEach(reaction => {
+        if (reaction.tributeId === tribute.id && reaction.kind === "candle") {
+          candleRows++;
+        }
+      });
+      
+      this._tributes.set(tribute.id, {
+        ...tribute,
+        reactionCounts: { ...tribute.reactionCounts, candle: Math.max(tribute.candleCount, candleRows) },
+        legacyCandleCount: tribute.legacyCandleCount + Math.max(tribute.candleCount - candleRows, 0),
+        candleCount: 0
+      });
+    });
+  }
+  
+  // Guestbook methods
+  async getGuestbookEntries(memorialId: number): Promise<GuestbookEntry[]> {
+    return Array.from(this._guestbook.values())
+      .filter(entry => entry.memorialId === memorialId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id - a.id);
+  }
+  
+  async createGuestbookEntry(insertEntry: InsertGuestbookEntry): Promise<GuestbookEntry> {
+    const id = this._currentGuestbookId++;
+    const entry: GuestbookEntry = {
+      ...insertEntry,
+      id,
+      town: insertEntry.town || null,
+      relationship: insertEntry.relationship || null,
+      createdAt: new Date()
+    };
+    this._guestbook.set(id, entry);
+    return entry;
+  }
+  
+  async deleteGuestbookEntry(memorialId: number, id: number): Promise<boolean> {
+    const entry = this._guestbook.get(id);
+    if (!entry || entry.memorialId !== memorialId) return false;
+    return this._guestbook.delete(id);
+  }
+  
+  // Guest candle methods
+  async getGuestCandleCount(memorialId: number): Promise<number> {
+    return Array.from(this._guestCandles).filter(key => key.startsWith(`${memorialId}:`)).length;
+  }
+  
+  async hasGuestCandle(memorialId: number, visitorId: string): Promise<boolean> {
+    return this._guestCandles.has(`${memorialId}:${visitorId}`);
+  }
+  
+  async lightGuestCandle(memorialId: number, visitorId: string): Promise<boolean> {
+    const key = `${memorialId}:${visitorId}`;
+    if (this._guestCandles.has(key)) return false;
+    this._guestCandles.add(key);
+    return true;
+  }
+  
+  // Life story methods
+  async getLifeStoryRevisions(memorialId: number, limit?: number): Promise<LifeStoryItem[]> {
+    return Array.from(this._lifeStory.values())
+      .filter(revision => revision.memorialId === memorialId)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit)
+      .map(revision => {
+        const author = this._users.get(revision.authorId);
+        return { ...revision, author: author ? { id: author.id, name: author.name } : null };
+      });
+  }
+  
+  async getLifeStoryRevisionById(memorialId: number, id: number): Promise<LifeStoryRevision | undefined> {
+    const revision = this._lifeStory.get(id);
+    return revision?.memorialId === memorialId ? revision : undefined;
+  }
+  
+  async createLifeStoryRevision(insertRevision: InsertLifeStoryRevision): Promise<LifeStoryRevision> {
+    const id = this._currentLifeStoryId++;
+    const revision: LifeStoryRevision = {
+      ...insertRevision,
+      id,
+      revertedFromId: insertRevision.revertedFromId ?? null,
+      createdAt: new Date()
+    };
+    this._lifeStory.set(id, revision);
+    return revision;
+  }
+  
+  // Live chat methods
+  async getLiveChat(memorialId: number, includeHidden: boolean): Promise<LiveChatItem[]> {
+    return Array.from(this._liveChat.values())
+      .filter(message => message.memorialId === memorialId && (includeHidden || !message.hidden))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id)
+      .map(message => {
+        const user = this._users.get(message.userId);
+        return { ...message, user: user ? { id: user.id, name: user.name } : null };
+      });
+  }
+  
+  async getLiveChatMessageById(memorialId: number, id: number): Promise<LiveChatMessage | undefined> {
+    const message = this._liveChat.get(id);
+    return message?.memorialId === memorialId ? message : undefined;
+  }
+  
+  async createLiveChatMessage(insertMessage: InsertLiveChatMessage): Promise<LiveChatMessage> {
+    const id = this._currentLiveChatId++;
+    const message: LiveChatMessage = {
+      ...insertMessage,
+      id,
+      pinned: false,
+      hidden: false,
+      createdAt: new Date()
+    };
+    this._liveChat.set(id, message);
+    return message;
+  }
+  
+  async updateLiveChatMessage(memorialId: number, id: number, changes: { pinned?: boolean; hidden?: boolean }): Promise<LiveChatMessage | undefined> {
+    const message = await this.getLiveChatMessageById(memorialId, id);
+    if (!message) return undefined;
+    
+    const updated = { ...message, ...changes };
+    this._liveChat.set(id, updated);
+    return updated;
+  }
+  
+  // Email outbox methods
+  async queueEmail(insertEmail: InsertOutboxEmail): Promise<OutboxEmail | undefined> {
+    if (insertEmail.dedupeKey && Array.from(this._outbox.values()).some(email => email.dedupeKey === insertEmail.dedupeKey)) {
+      return undefined;
+    }
+    
+    const id = this._currentEmailId++;
+    const now = new Date();
+    const email: OutboxEmail = {
+      memorialId: null,
+      dedupeKey: null,
+      ...insertEmail,
+      id,
+      status: "pending",
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: now,
+      createdAt: now,
+      sentAt: null
+    };
+    this._outbox.set(id, email);
+    return email;
+  }
+  
+  async getDueEmails(now: Date, limit: number): Promise<OutboxEmail[]> {
+    return Array.from(this._outbox.values())
+      .filter(email => email.status === "pending" && email.nextAttemptAt <= now)
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+  }
+  
+  async updateEmail(id: number, emailData: Partial<OutboxEmail>): Promise<OutboxEmail | undefined> {
+    const email = this._outbox.get(id);
+    if (!email) return undefined;
+    
+    const updatedEmail: OutboxEmail = { ...email, ...emailData, id };
+    this._outbox.set(id, updatedEmail);
+    return updatedEmail;
+  }
+  
+  // Notification preference methods
+  async getNotificationPreferences(memorialId: number, userId: number): Promise<NotificationPreferences> {
+    return Object.fromEntries(notificationKinds.map(kind => [
+      kind,
+      this._notificationPreferences.get(`${memorialId}:${userId}:${kind}`) ?? true
+    ])) as NotificationPreferences;
+  }
+  
+  async setNotificationPreference(memorialId: number, userId: number, kind: NotificationKind, enabled: boolean): Promise<void> {
+    this._notificationPreferences.set(`${memorialId}:${userId}:${kind}`, enabled);
+  }
+  
+  // Search methods
+  async search(memorialId: number, query: string, types: SearchResultType[], limit: number): Promise<SearchResult[]> {
+    const results: SearchResult[] = [];
+    
+    const isPublished = (tribute: Tribute | undefined): tribute is Tribute =>
+      tribute?.memorialId === memorialId && tribute.status === "approved";
+    
+    this._searchIndex.search(query).forEach(({ key, rank }) => {
+      const [type, idPart] = key.split(":") as [SearchResultType, string];
+      const id = parseInt(idPart);
+      if (!types.includes(type)) return;
+      
+      if (type === "tribute") {
+        const tribute = this._tributes.get(id);
+        if (!isPublished(tribute)) return;
+        results.push({
+          type, id, rank,
+          tributeId: id,
+          authorName: this._users.get(tribute.userId)?.name ?? null,
+          imageUrl: null,
+          snippet: highlight(tribute.content, query)
+        });
+      } else if (type === "comment") {
+        const comment = this._tributeComments.get(id);
+        if (!comment || comment.status !== "approved" || !isPublished(this._tributes.get(comment.tributeId))) return;
+        results.push({
+          type, id, rank,
+          tributeId: comment.tributeId,
+          authorName: this._users.get(comment.userId)?.name ?? null,
+          imageUrl: null,
+          snippet: highlight(comment.content, query)
+        });
+      } else {
+        const image = this._gallery.get(id);
+        if (image?.memorialId !== memorialId || image.status !== "approved") return;
+        results.push({
+          type, id, rank,
+          tributeId: null,
+          authorName: null,
+          imageUrl: image.imageUrl,
+          snippet: highlight(image.caption || "", query)
+        });
+      }
+    });
+    
+    return results.slice(0, limit);
+  }
+  
+  private indexTribute(tribute: Tribute) {
+    const authorName = this._users.get(tribute.userId)?.name || "";
+    this._searchIndex.set(`tribute:${tribute.id}`, `${tribute.content} ${authorName}`);
+  }
+}
@@ -0,0 +1,164 @@
+import type { Memorial, NotificationKind, Tribute, User } from "@shared/schema";
+import { storage } from "./storage";
+import { createMailTransport, MailTransport, MAIL_FROM } from "./mailer";
+import {
+  EmailTemplate,
+  RenderedEmail,
+  passwordResetEmail,
+  serviceReminderEmail,
+  tributeModerationEmail,
+  tributeReplyEmail,
+} from "./email-templates";
+
+const OUTBOX_INTERVAL_MS = 30 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+// Wait before each retry; an email still failing after the last one is marked failed
+const RETRY_DELAYS_MS = [1, 5, 30, 120, 720].map(minutes => minutes * 60 * 1000);
+// Reminders go out once an event is this close
+const REMINDER_LEAD_MS = 24 * 60 * 60 * 1000;
+
+// Links in emails need an absolute URL; APP_URL is the site's public origin
+export function appUrl(pathname: string) {
+  return `${(process.env.APP_URL || "http://localhost:5000").replace(/\/$/, "")}${pathname}`;
+}
+
+interface QueueOptions {
+  memorialId?: number | null;
+  dedupeKey?: string;
+}
+
+async function queueEmail(template: EmailTemplate, to: string, email: RenderedEmail, options: QueueOptions = {}) {
+  return storage.queueEmail({
+    memorialId: options.memorialId ?? null,
+    template,
+    toAddress: to,
+    subject: email.subject,
+    text: email.text,
+    html: email.html,
+    dedupeKey: options.dedupeKey ?? null,
+  });
+}
+
+async function wantsNotification(memorialId: number, userId: number, kind: NotificationKind) {
+  const preferences = await storage.getNotificationPreferences(memorialId, userId);
+  return preferences[kind];
+}
+
+// Memorial admins and super-admins with an email who haven't switched this kind off
+async function adminRecipients(memorialId: number, kind: NotificationKind): Promise<User[]> {
+  const adminIds = new Set(await storage.getMemorialAdminUserIds(memorialId));
+  const admins = (await storage.getAllUsers()).filter(user => user.email && (user.isAdmin || adminIds.has(user.id)));
+
+  const recipients: User[] = [];
+  for (const admin of admins) {
+    if (await wantsNotification(memorialId, admin.id, kind)) {
+      recipients.push(admin);
+    }
+  }
+  return recipients;
+}
+
+export async function notifyTributeAwaitingModeration(memorial: Memorial, tribute: Tribute, authorName: string) {
+  const email = tributeModerationEmail(memorial, tribute, authorName, appUrl(`/m/${memorial.slug}/admin`));
+
+  for (const admin of await adminRecipients(memorial.id, "tributeModeration")) {
+    await queueEmail("tributeModeration", admin.email!, email, { memorialId: memorial.id });
+  }
+}
+
+export async function notifyTributeReply(memorial: Memorial, tribute: Tribute, replier: { id: number; name: string }, reply: string) {
+  if (tribute.userId === replier.id) {
+    return;
+  }
+
+  const author = await storage.getUser(tribute.userId);
+  if (!author?.email || !(await wantsNotification(memorial.id, author.id, "tributeReply"))) {
+    return;
+  }
+
+  const email = tributeReplyEmail(memorial, author.name, replier.name, reply, appUrl(`/m/${memorial.slug}#tributes`));
+  await queueEmail("tributeReply", author.email, email, { memorialId: memorial.id });
+}
+
+export async function sendPasswordResetEmail(user: User, resetUrl: string, expiresInMinutes: number) {
+  if (!user.email) {
+    return;
+  }
+
+  await queueEmail("passwordReset", user.email, passwordResetEmail(user.name, resetUrl, expiresInMinutes));
+  // Don't make the user wait for the next worker tick
+  void processOutbox();
+}
+
+// Queues a reminder for everyone who RSVP'd to an event starting within the
+// next day. The dedupe key means each guest gets one reminder per event no
+// matter how many times this runs.
+export async function queueServiceReminders(now = new Date()) {
+  const upcoming = await storage.getEventsStartingBetween(now, new Date(now.getTime() + REMINDER_LEAD_MS));
+
+  for (const event of upcoming) {
+    const memorial = await storage.getMemorialById(event.memorialId);
+    if (!memorial || memorial.isArchived) continue;
+
+    const rsvps = (await storage.getRsvps(event.memorialId))
+      .filter(rsvp => rsvp.email && rsvp.eventIds.includes(event.id));
+
+    for (const rsvp of rsvps) {
+      if (rsvp.userId && !(await wantsNotification(event.memorialId, rsvp.userId, "serviceReminder"))) {
+        continue;
+      }
+
+      const email = serviceReminderEmail(memorial, event, rsvp.name, appUrl(`/m/${memorial.slug}/program`));
+      await queueEmail("serviceReminder", rsvp.email!, email, {
+        memorialId: event.memorialId,
+        dedupeKey: `serviceReminder:${event.id}:${rsvp.id}`,
+      });
+    }
+  }
+}
+
+let transport: MailTransport | undefined;
+let isProcessing = false;
+
+// Sends whatever is due in the outbox, rescheduling failures with backoff
+export async function processOutbox(now = new Date()) {
+  if (isProcessing) {
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    transport ??= createMailTransport();
+
+    for (const email of await storage.getDueEmails(now, OUTBOX_BATCH_SIZE)) {
+      const attempts = email.attempts + 1;
+
+      try {
+        await transport.send({ from: MAIL_FROM, to: email.toAddress, subject: email.subject, text: email.text, html: email.html });
+        await storage.updateEmail(email.id, { status: "sent", attempts, sentAt: new Date(), lastError: null });
+      } catch (error) {
+        const lastError = error instanceof Error ? error.message : String(error);
+        const retryDelay = RETRY_DELAYS_MS[attempts - 1];
+        console.error(`Error sending email ${email.id} (attempt ${attempts}):`, lastError);
+
+        await storage.updateEmail(email.id, retryDelay === undefined
+          ? { status: "failed", attempts, lastError }
+          : { attempts, lastError, nextAttemptAt: new Date(Date.now() + retryDelay) });
+      }
+    }
+  } catch (error) {
+    console.error("Error processing email outbox:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+export function startNotificationWorker() {
+  const tick = async () => {
+    await queueServiceReminders().catch(error => console.error("Error queueing service reminders:", error));
+    await processOutbox();
+  };
+
+  void tick();
+  setInterval(tick, OUTBOX_INTERVAL_MS).unref();
+}
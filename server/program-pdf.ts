@@ -0,0 +1,417 @@
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { format } from "date-fns";
+import type { ProgramSection, ServiceEvent } from "@shared/schema";
+import { eventLocation, eventSummary } from "./calendar";
+
+export const programLayouts = ["single", "booklet"] as const;
+export type ProgramLayout = typeof programLayouts[number];
+
+export interface ProgramContent {
+  name: string;
+  lifeDates?: string;
+  // Only /uploads/... images are embedded, so rendering never needs the network
+  tributeImageUrl?: string;
+  closingMessage?: string;
+  events: ServiceEvent[];
+  sections: ProgramSection[];
+}
+
+// Bump when the layout changes so cached files are rendered again
+const RENDER_VERSION = 1;
+
+// Kept outside uploads, which is served publicly
+const CACHE_DIR = path.join(process.cwd(), "cache", "programs");
+const UPLOADS_DIR = path.join(process.cwd(), "uploads");
+
+// Points (1/72 inch). The booklet is a landscape Letter sheet folded into
+// two half-Letter pages.
+const LETTER = { width: 612, height: 792 };
+const HALF_LETTER = { width: 396, height: 612 };
+
+const COLORS = {
+  text: "#1f2937",
+  muted: "#6b7280",
+  accent: "#1e3a8a",
+  rule: "#cbd5e1",
+};
+
+type Block =
+  | {
+      kind: "text";
+      text: string;
+      font: string;
+      size: number;
+      color?: string;
+      spaceBefore?: number;
+      // Headings move to the next page rather than end up alone at the bottom
+      keepWithNext?: boolean;
+    }
+  | { kind: "image"; data: Buffer; width: number; height: number; spaceBefore?: number }
+  | { kind: "rule"; spaceBefore?: number };
+
+type Page = Block[];
+
+interface PageBox {
+  width: number;
+  height: number;
+  margin: number;
+}
+
+const LINE_GAP = 2;
+
+function textOptions(width: number) {
+  return { width, align: "center" as const, lineGap: LINE_GAP };
+}
+
+function blockHeight(doc: PDFKit.PDFDocument, block: Block, width: number) {
+  switch (block.kind) {
+    case "text":
+      return doc.font(block.font).fontSize(block.size).heightOfString(block.text, textOptions(width));
+    case "image":
+      return block.height;
+    case "rule":
+      return 1;
+  }
+}
+
+// Splits a text block so that the first part fits in the available height,
+// breaking between lines where possible and between words otherwise
+function splitText(
+  doc: PDFKit.PDFDocument,
+  block: Extract<Block, { kind: "text" }>,
+  width: number,
+  available: number
+): [Block, Block] | undefined {
+  const lines = block.text.split("\n");
+  const separator = lines.length > 1 ? "\n" : " ";
+  const parts = lines.length > 1 ? lines : block.text.split(" ");
+
+  let count = 0;
+  while (count < parts.length) {
+    const head = parts.slice(0, count + 1).join(separator);
+    if (blockHeight(doc, { ...block, text: head }, width) > available) break;
+    count++;
+  }
+
+  if (count === 0 || count === parts.length) {
+    return undefined;
+  }
+
+  return [
+    { ...block, text: parts.slice(0, count).join(separator), keepWithNext: false },
+    { ...block, text: parts.slice(count).join(separator), spaceBefore: 0 },
+  ];
+}
+
+// Flows blocks onto as many pages of the given size as they need
+function paginate(doc: PDFKit.PDFDocument, blocks: Block[], box: PageBox): Page[] {
+  const width = box.width - box.margin * 2;
+  const height = box.height - box.margin * 2;
+  const pages: Page[] = [[]];
+  let used = 0;
+  const queue = [...blocks];
+
+  while (queue.length > 0) {
+    const block = queue.shift()!;
+    const page = pages[pages.length - 1];
+    const spaceBefore = page.length > 0 ? block.spaceBefore || 0 : 0;
+    let needed = spaceBefore + blockHeight(doc, block, width);
+
+    if (block.kind === "text" && block.keepWithNext && queue.length > 0) {
+      const next = queue[0];
+      const nextLine = next.kind === "text" ? next.size * 2.4 : blockHeight(doc, next, width);
+      needed += (next.spaceBefore || 0) + Math.min(nextLine, blockHeight(doc, next, width));
+    }
+
+    if (used + needed <= height || (page.length === 0 && block.kind !== "text")) {
+      page.push(block);
+      used += spaceBefore + blockHeight(doc, block, width);
+      continue;
+    }
+
+    // Long readings and lyrics continue on the next page
+    if (block.kind === "text" && !block.keepWithNext) {
+      const split = splitText(doc, block, width, height - used - spaceBefore);
+      if (split) {
+        page.push(split[0]);
+        queue.unshift(split[1]);
+        pages.push([]);
+        used = 0;
+        continue;
+      }
+    }
+
+    if (page.length === 0) {
+      // Taller than a whole page; let it run off rather than loop forever
+      page.push(block);
+      pages.push([]);
+      used = 0;
+      continue;
+    }
+
+    pages.push([]);
+    used = 0;
+    queue.unshift(block);
+  }
+
+  return pages[pages.length - 1].length === 0 && pages.length > 1 ? pages.slice(0, -1) : pages;
+}
+
+function drawPage(doc: PDFKit.PDFDocument, page: Page, box: PageBox, offsetX: number) {
+  const x = offsetX + box.margin;
+  const width = box.width - box.margin * 2;
+  let y = box.margin;
+
+  page.forEach((block, index) => {
+    if (index > 0) {
+      y += block.spaceBefore || 0;
+    }
+
+    switch (block.kind) {
+      case "text":
+        doc.font(block.font)
+          .fontSize(block.size)
+          .fillColor(block.color || COLORS.text)
+          .text(block.text, x, y, textOptions(width));
+        break;
+      case "image":
+        doc.image(block.data, x + (width - block.width) / 2, y, { width: block.width, height: block.height });
+        break;
+      case "rule":
+        doc.moveTo(x + width / 3, y).lineTo(x + (width * 2) / 3, y)
+          .lineWidth(0.75).strokeColor(COLORS.rule).stroke();
+        break;
+    }
+
+    y += blockHeight(doc, block, width);
+  });
+}
+
+// Reads an uploaded image from disk and re-encodes it as JPEG, which pdfkit
+// can embed (uploads are stored as WebP)
+async function loadImage(url: string | undefined, maxWidth: number, maxHeight: number) {
+  if (!url?.startsWith("/uploads/")) {
+    return undefined;
+  }
+
+  const filePath = path.join(process.cwd(), path.normalize(url));
+  if (!filePath.startsWith(UPLOADS_DIR + path.sep)) {
+    return undefined;
+  }
+
+  try {
+    const { data, info } = await sharp(await fs.promises.readFile(filePath))
+      .rotate()
+      .resize({ width: maxWidth * 3, height: maxHeight * 3, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 85 })
+      .toBuffer({ resolveWithObject: true });
+
+    const scale = Math.min(maxWidth / info.width, maxHeight / info.height);
+    return { data, width: info.width * scale, height: info.height * scale };
+  } catch (error) {
+    console.error("Error loading program image:", error);
+    return undefined;
+  }
+}
+
+// Times are printed in the server's time zone; set TZ to the memorial's
+function formatEventWhen(event: ServiceEvent) {
+  const startsAt = new Date(event.startsAt);
+  const time = event.endsAt
+    ? `${format(startsAt, "h:mm a")} – ${format(new Date(event.endsAt), "h:mm a")}`
+    : format(startsAt, "h:mm a");
+  return `${format(startsAt, "EEEE, MMMM d, yyyy")} · ${time}`;
+}
+
+function coverBlocks(content: ProgramContent, image?: { data: Buffer; width: number; height: number }): Block[] {
+  const blocks: Block[] = [];
+
+  if (image) {
+    blocks.push({ kind: "image", ...image });
+  }
+
+  blocks.push(
+    { kind: "text", text: "IN LOVING MEMORY", font: "Helvetica", size: 9, color: COLORS.accent, spaceBefore: 18 },
+    { kind: "text", text: content.name, font: "Times-Bold", size: 28, spaceBefore: 6 },
+  );
+
+  if (content.lifeDates) {
+    blocks.push({ kind: "text", text: content.lifeDates, font: "Times-Italic", size: 14, color: COLORS.muted, spaceBefore: 4 });
+  }
+
+  return blocks;
+}
+
+function scheduleBlocks(events: ServiceEvent[]): Block[] {
+  if (events.length === 0) {
+    return [];
+  }
+
+  const blocks: Block[] = [
+    { kind: "text", text: "Service Schedule", font: "Times-Bold", size: 16, color: COLORS.accent, spaceBefore: 24, keepWithNext: true },
+  ];
+
+  for (const event of events) {
+    blocks.push(
+      { kind: "text", text: eventSummary(event), font: "Times-Bold", size: 12, spaceBefore: 12, keepWithNext: true },
+      { kind: "text", text: formatEventWhen(event), font: "Times-Roman", size: 11, spaceBefore: 2 },
+      { kind: "text", text: eventLocation(event), font: "Times-Italic", size: 11, color: COLORS.muted, spaceBefore: 2 },
+    );
+  }
+
+  return blocks;
+}
+
+function orderOfServiceBlocks(sections: ProgramSection[]): Block[] {
+  if (sections.length === 0) {
+    return [];
+  }
+
+  const blocks: Block[] = [
+    { kind: "text", text: "Order of Service", font: "Times-Bold", size: 18, color: COLORS.accent, spaceBefore: 24, keepWithNext: true },
+    { kind: "rule", spaceBefore: 8 },
+  ];
+
+  for (const section of sections) {
+    blocks.push({ kind: "text", text: section.title, font: "Times-Bold", size: 13, spaceBefore: 16, keepWithNext: true });
+
+    if (section.participants) {
+      blocks.push({ kind: "text", text: section.participants, font: "Times-Italic", size: 11, color: COLORS.muted, spaceBefore: 2 });
+    }
+    if (section.content) {
+      blocks.push({ kind: "text", text: section.content.trim(), font: "Times-Roman", size: 11, spaceBefore: 8 });
+    }
+  }
+
+  return blocks;
+}
+
+function closingBlocks(content: ProgramContent): Block[] {
+  if (!content.closingMessage) {
+    return [];
+  }
+
+  return [
+    { kind: "rule", spaceBefore: 24 },
+    { kind: "text", text: content.closingMessage, font: "Times-Italic", size: 12, color: COLORS.muted, spaceBefore: 16 },
+  ];
+}
+
+// Letter pages in reading order: cover, schedule, order of service
+async function renderSinglePages(doc: PDFKit.PDFDocument, content: ProgramContent) {
+  const box: PageBox = { ...LETTER, margin: 54 };
+  const image = await loadImage(content.tributeImageUrl, 180, 220);
+  const pages = paginate(doc, [
+    ...coverBlocks(content, image),
+    ...scheduleBlocks(content.events),
+    ...orderOfServiceBlocks(content.sections),
+    ...closingBlocks(content),
+  ], box);
+
+  for (const page of pages) {
+    doc.addPage({ size: "LETTER", margin: 0 });
+    drawPage(doc, page, box, 0);
+  }
+}
+
+// Half-Letter pages imposed two per side so the printed stack can be folded
+// and stapled: front cover, order of service inside, schedule on the back
+async function renderBookletPages(doc: PDFKit.PDFDocument, content: ProgramContent) {
+  const box: PageBox = { ...HALF_LETTER, margin: 36 };
+  const image = await loadImage(content.tributeImageUrl, 220, 280);
+
+  const cover = paginate(doc, coverBlocks(content, image), box);
+  const inside = paginate(doc, orderOfServiceBlocks(content.sections), box);
+  const back = paginate(doc, [...scheduleBlocks(content.events), ...closingBlocks(content)], box);
+
+  // Anything that overflows the back cover goes on the last inside page(s)
+  const pages: Page[] = [...cover, ...inside, ...back];
+  const backCover = pages.pop()!;
+  while ((pages.length + 1) % 4 !== 0) {
+    pages.push([]);
+  }
+  pages.push(backCover);
+
+  // Sheet i carries pages (n-1-2i, 2i) on the front and (2i+1, n-2-2i) on the back
+  const count = pages.length;
+  for (let sheet = 0; sheet < count / 4; sheet++) {
+    const sides = [
+      [count - 1 - sheet * 2, sheet * 2],
+      [sheet * 2 + 1, count - 2 - sheet * 2],
+    ];
+
+    for (const [left, right] of sides) {
+      doc.addPage({ size: "LETTER", layout: "landscape", margin: 0 });
+      drawPage(doc, pages[left], box, 0);
+      drawPage(doc, pages[right], box, HALF_LETTER.width);
+    }
+  }
+}
+
+export async function renderProgramPdf(content: ProgramContent, layout: ProgramLayout): Promise<Buffer> {
+  const doc = new PDFDocument({
+    autoFirstPage: false,
+    info: { Title: `${content.name} – Order of Service` },
+  });
+  const chunks: Buffer[] = [];
+  const finished = new Promise<void>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", resolve);
+    doc.on("error", reject);
+  });
+
+  if (layout === "booklet") {
+    await renderBookletPages(doc, content);
+  } else {
+    await renderSinglePages(doc, content);
+  }
+
+  doc.end();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+const rendering = new Map<string, Promise<string>>();
+
+// Returns the path of a cached PDF for this content, rendering it on the first
+// request. The file name includes a hash of everything that goes into the PDF,
+// so any edit produces a new file and older ones for the memorial are removed.
+export async function getProgramPdf(memorialId: number, layout: ProgramLayout, content: ProgramContent): Promise<string> {
+  const hash = crypto.createHash("sha256")
+    .update(JSON.stringify({ version: RENDER_VERSION, layout, content }))
+    .digest("hex")
+    .slice(0, 16);
+  const prefix = `${memorialId}-${layout}-`;
+  const filePath = path.join(CACHE_DIR, `${prefix}${hash}.pdf`);
+
+  if (fs.existsSync(filePath)) {
+    return filePath;
+  }
+
+  let pending = rendering.get(filePath);
+  if (!pending) {
+    pending = (async () => {
+      const pdf = await renderProgramPdf(content, layout);
+      await fs.promises.mkdir(CACHE_DIR, { recursive: true });
+
+      // Write under a temporary name so a half-written file is never served
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.promises.writeFile(tempPath, pdf);
+      await fs.promises.rename(tempPath, filePath);
+
+      const stale = (await fs.promises.readdir(CACHE_DIR))
+        .filter(name => name.startsWith(prefix) && name.endsWith(".pdf") && path.join(CACHE_DIR, name) !== filePath);
+      await Promise.all(stale.map(name => fs.promises.unlink(path.join(CACHE_DIR, name)).catch(() => {})));
+
+      return filePath;
+    })().finally(() => rendering.delete(filePath));
+    rendering.set(filePath, pending);
+  }
+
+  return pending;
+}
@@ -0,0 +1,82 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+interface ProofOfWorkOptions {
+  secret: string;
+  // Leading zero bits the solution's hash needs; each extra bit doubles the work
+  difficulty: number;
+  ttlMs: number;
+}
+
+export interface Challenge {
+  challenge: string;
+  difficulty: number;
+}
+
+function sign(secret: string, payload: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+function leadingZeroBits(hash: Buffer) {
+  let bits = 0;
+  for (let i = 0; i < hash.length; i++) {
+    if (hash[i] !== 0) {
+      return bits + Math.clz32(hash[i]) - 24;
+    }
+    bits += 8;
+  }
+  return bits;
+}
+
+// Hashcash-style spam check for forms visitors can submit without an account.
+// Challenges are signed rather than stored, so issuing one costs nothing; the
+// browser has to find a nonce whose SHA-256 of "challenge:nonce" starts with
+// enough zero bits, which takes a second or two once but adds up for a bot.
+// Used challenges are remembered until they expire so each works only once.
+export function createProofOfWork({ secret, difficulty, ttlMs }: ProofOfWorkOptions) {
+  const used = new Map<string, number>();
+
+  setInterval(() => {
+    const now = Date.now();
+    used.forEach((expiresAt, challenge) => {
+      if (expiresAt <= now) used.delete(challenge);
+    });
+  }, ttlMs).unref();
+
+  return {
+    issue(): Challenge {
+      const payload = `${difficulty}.${Date.now()}.${randomBytes(12).toString("base64url")}`;
+      return { challenge: `${payload}.${sign(secret, payload)}`, difficulty };
+    },
+
+    // True when the challenge was issued here, hasn't expired or been used,
+    // and the nonce solves it
+    verify(challenge: unknown, nonce: unknown): boolean {
+      if (typeof challenge !== "string" || typeof nonce !== "string" || nonce.length > 32) {
+        return false;
+      }
+
+      const parts = challenge.split(".");
+      if (parts.length !== 4) return false;
+
+      const [difficultyPart, issuedAtPart, , signature] = parts;
+      const expected = Buffer.from(sign(secret, parts.slice(0, 3).join(".")));
+      const actual = Buffer.from(signature);
+      if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return false;
+      }
+
+      const expiresAt = parseInt(issuedAtPart) + ttlMs;
+      if (!(expiresAt > Date.now()) || used.has(challenge)) {
+        return false;
+      }
+
+      const hash = createHash("sha256").update(`${challenge}:${nonce}`).digest();
+      if (leadingZeroBits(hash) < parseInt(difficultyPart)) {
+        return false;
+      }
+
+      used.set(challenge, expiresAt);
+      return true;
+    },
+  };
+}
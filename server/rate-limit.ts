@@ -0,0 +1,58 @@
+import type { Request, Response, NextFunction } from "express";
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+// Fixed-window counters kept in memory. That is enough for a single server
+// process; counts reset when the server restarts.
+export function createRateLimiter({ windowMs, max }: RateLimitOptions) {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop finished windows so the map doesn't grow without bound
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  }, windowMs).unref();
+
+  return {
+    // Counts a hit for key; returns the seconds until the window resets once
+    // the limit is exceeded, or 0 while the request is allowed
+    hit(key: string): number {
+      const now = Date.now();
+      let window = windows.get(key);
+
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      return window.count > max ? Math.ceil((window.resetAt - now) / 1000) : 0;
+    },
+  };
+}
+
+// Express middleware limiting requests per client IP, or per whatever
+// keyGenerator returns, e.g. the signed-in user
+export function rateLimit(options: RateLimitOptions & {
+  message: string;
+  keyGenerator?: (req: Request) => string;
+}) {
+  const limiter = createRateLimiter(options);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = options.keyGenerator ? options.keyGenerator(req) : req.ip || "unknown";
+    const retryAfter = limiter.hit(key);
+
+    if (retryAfter > 0) {
+      res.setHeader("Retry-After", String(retryAfter));
+      return res.status(429).json({ message: options.message });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,88 @@
+import { after, test } from "node:test";
+import assert from "node:assert/strict";
+import { eq, inArray } from "drizzle-orm";
+import { candles, memorials, reactions, tributes, users } from "@shared/schema";
+import { MemStorage } from "./mem-storage";
+
+test("a recount keeps candles migrated from legacy counts in memory", async () => {
+  const storage = new MemStorage();
+  after(() => storage.sessionStore.stopInterval());
+  
+  const memorial = await storage.createMemorial({ slug: "recount-test", name: "Recount Test" });
+  const userIds: number[] = [];
+  for (const n of [1, 2]) {
+    const user = await storage.createUser({ username: `recount-test-${n}`, password: "x", name: `Mourner ${n}` });
+    userIds.push(user.id);
+  }
+  
+  // Five candles counted before reactions existed, two of them with rows
+  const tribute = await storage.createTribute({ memorialId: memorial.id, userId: userIds[0], content: "Remembering" });
+  for (const userId of userIds) {
+    await storage.setReaction(userId, tribute.id, "candle", true);
+  }
+  await storage.updateTribute(memorial.id, tribute.id, { candleCount: 5 });
+  
+  await storage.migrateLegacyCandles();
+  
+  const migrated = await storage.getTributeById(memorial.id, tribute.id);
+  assert.equal(migrated?.reactionCounts.candle, 5);
+  assert.equal(migrated?.legacyCandleCount, 3);
+  
+  assert.deepEqual(await storage.recountReactions(memorial.id), { checked: 1, corrected: 0 });
+  
+  // Taking back a migrated candle lowers the count by one, and a recount agrees
+  const counts = await storage.setReaction(userIds[1], tribute.id, "candle", false);
+  assert.equal(counts?.candle, 4);
+  assert.deepEqual(await storage.recountReactions(memorial.id), { checked: 1, corrected: 0 });
+});
+
+// These run against the database in DATABASE_URL, which they write to and
+// clean up after; without one they are skipped
+const skip = !process.env.DATABASE_URL && "DATABASE_URL is not set";
+
+test("a recount keeps candles migrated from legacy counts", { skip }, async () => {
+  const { db } = await import("./db");
+  const { DatabaseStorage } = await import("./database-storage");
+  const storage = new DatabaseStorage();
+  after(async () => {
+    await storage.pool.end();
+    await db.$client.end();
+  });
+  // Startup runs the same migration; let it finish before adding legacy data
+  await storage.ready;
+
+  const suffix = Date.now();
+  const [memorial] = await db.insert(memorials)
+    .values({ slug: `recount-test-${suffix}`, name: "Recount Test" })
+    .returning();
+  const testUsers = await db.insert(users)
+    .values([1, 2].map(n => ({ username: `recount-test-${suffix}-${n}`, password: "x", name: `Mourner ${n}` })))
+    .returning();
+  const userIds = testUsers.map(user => user.id);
+
+  try {
+    // Five candles counted before reactions existed, two of them with rows
+    const [tribute] = await db.insert(tributes)
+      .values({ memorialId: memorial.id, userId: userIds[0], content: "Remembering", candleCount: 5 })
+      .returning();
+    await db.insert(candles).values(userIds.map(userId => ({ userId, tributeId: tribute.id })));
+
+    await storage.migrateLegacyCandles();
+
+    const [migrated] = await db.select().from(tributes).where(eq(tributes.id, tribute.id));
+    assert.equal(migrated.reactionCounts.candle, 5);
+    assert.equal(migrated.legacyCandleCount, 3);
+
+    assert.deepEqual(await storage.recountReactions(memorial.id), { checked: 1, corrected: 0 });
+
+    // Taking back a migrated candle lowers the count by one, and a recount agrees
+    const counts = await storage.setReaction(userIds[1], tribute.id, "candle", false);
+    assert.equal(counts?.candle, 4);
+    assert.deepEqual(await storage.recountReactions(memorial.id), { checked: 1, corrected: 0 });
+  } finally {
+    await db.delete(reactions).where(inArray(reactions.userId, userIds));
+    await db.delete(tributes).where(eq(tributes.memorialId, memorial.id));
+    await db.delete(users).where(inArray(users.id, userIds));
+    await db.delete(memorials).where(eq(memorials.id, memorial.id));
+  }
+});
@@ -1,17 +1,20 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage as dbStorage } from "./storage";
-import { insertUserSchema, insertTributeSchema, insertGallerySchema, insertSettingsSchema } from "@shared/schema";
+import { insertUserSchema, insertMemorialSchema, insertTributeSchema, insertTributeCommentSchema, insertGallerySchema, insertAlbumSchema, insertPhotoTagSchema, insertSettingsSchema, insertFuneralProgramSchema, insertEventSchema, insertProgramSectionSchema, insertRsvpSchema, insertGuestbookEntrySchema, insertLifeStoryRevisionSchema, insertLiveChatMessageSchema, tributeStatuses, notificationKinds, reactionKinds, searchResultTypes, tributeSorts, tributeMediaTypes, ReactionKind, TributeCursor, TributeSort, ServiceEvent, Tribute, TributeComment, TributeStatus, Memorial, GalleryImage, PhotoTag, PhotoTagItem, PersonSummary } from "@shared/schema";
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import session from "express-session";
-import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { z } from "zod";
 import multer from "multer";
 
 const scryptAsync = promisify(scrypt);
 
+// Signs the session cookie, the visitor cookie and guestbook challenges
+const SESSION_SECRET = process.env.SESSION_SECRET || "chris-murphey-memorial";
+
 // Utility functions for password handling
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
@@ -26,6 +29,12 @@ async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Reset tokens are random, so a fast unsalted hash is enough to keep them
+// unusable if the table leaks
+function hashResetToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
 declare global {
   namespace Express {
     interface User {
@@ -35,52 +44,121 @@ declare global {
       email?: string;
       isAdmin: boolean;
     }
+
+    interface Request {
+      // Set by resolveMemorial on every /api/m/:slug route
+      memorial?: Memorial;
+    }
+  }
+}
+
+// Quote a value for CSV output. Cells starting with a formula character are
+// prefixed so spreadsheets don't evaluate visitor-supplied text.
+function csvCell(value: unknown) {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The enabledReactions setting is a comma-separated list of kinds. Memorials
+// set up before reactions existed have no setting and offer every kind.
+function parseEnabledReactions(value: string | undefined): ReactionKind[] {
+  if (value === undefined) return [...reactionKinds];
+  const enabled = value.split(",").map(kind => kind.trim());
+  return reactionKinds.filter(kind => enabled.includes(kind));
+}
+
+// Feed cursors are opaque to clients: the sort they were made for and the
+// last tribute's sort keys, so a cursor can't be replayed under another sort
+function encodeTributeCursor(sort: TributeSort, tribute: Tribute): string {
+  const candles = tribute.reactionCounts.candle || 0;
+  return Buffer.from(JSON.stringify([sort, new Date(tribute.createdAt).toISOString(), tribute.id, candles])).toString("base64url");
+}
+
+function decodeTributeCursor(cursor: string, sort: TributeSort): TributeCursor | undefined {
+  try {
+    const [cursorSort, createdAt, id, candles] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    const cursorDate = new Date(createdAt);
+    if (cursorSort !== sort || isNaN(cursorDate.getTime()) || !Number.isInteger(id) || !Number.isInteger(candles)) {
+      return undefined;
+    }
+    return { createdAt: cursorDate, id, candles };
+  } catch {
+    return undefined;
   }
 }
 
-// Configure multer for file uploads (in-memory storage)
+function eventLabel(event: ServiceEvent) {
+  return event.title || event.type.charAt(0).toUpperCase() + event.type.slice(1);
+}
+
+const PASSWORD_RESET_TTL_MINUTES = 60;
+
+// Shown for every reset request so it never reveals whether an account exists
+const PASSWORD_RESET_REQUESTED_MESSAGE = "If an account with an email address matches, we've sent it a link to reset the password.";
+
+// Settings every new memorial starts with
+const DEFAULT_FOOTER_MESSAGE = "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\"";
+
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
+import { processImage } from './image-processing';
+import { buildCalendar } from './calendar';
+import { getProgramPdf, programLayouts, ProgramLayout } from './program-pdf';
+import { appUrl, notifyTributeAwaitingModeration, notifyTributeReply, sendPasswordResetEmail } from './notifications';
+import { createRateLimiter, rateLimit } from './rate-limit';
+import { createProofOfWork } from './proof-of-work';
+import { createVisitorCookie } from './visitor-cookie';
+import { publishLiveUpdate, streamLiveUpdates } from './live-updates';
+import { sanitizeHtml } from './html-sanitizer';
 
 // Ensure upload directories exist
-const uploadDirs = ['./uploads', './uploads/background', './uploads/tribute', './uploads/gallery'];
+const uploadDirs = ['./uploads', './uploads/background', './uploads/tribute', './uploads/gallery', './uploads/tribute-media'];
 for (const dir of uploadDirs) {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 }
 
-// Configure multer for disk storage
-const fileStorage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    // Determine the destination folder based on the route
-    let folder = './uploads';
-    
-    if (req.originalUrl.includes('/settings/upload/backgroundImage')) {
-      folder = './uploads/background';
-    } else if (req.originalUrl.includes('/settings/upload/tributeImage')) {
-      folder = './uploads/tribute';
-    } else if (req.originalUrl.includes('/gallery')) {
-      folder = './uploads/gallery';
-    }
-    
-    cb(null, folder);
+// Images are kept in memory so the original, with its EXIF and GPS data,
+// never touches disk; only the processed variants are written
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
   },
-  filename: function (req, file, cb) {
-    // Generate a unique filename to prevent overwriting
-    const uniqueFilename = `${uuidv4()}${path.extname(file.originalname)}`;
-    cb(null, uniqueFilename);
+  fileFilter: (_, file, cb) => {
+    // Accept only image files
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files are allowed'));
+    }
   }
 });
 
-const upload = multer({
-  storage: fileStorage,
+// Bulk gallery uploads. Files aren't filtered here so that a file which isn't
+// an image fails on its own instead of aborting the whole batch.
+const GALLERY_BATCH_MAX_FILES = 10;
+
+const galleryBatchUpload = multer({
+  storage: multer.memoryStorage(),
   limits: {
-    fileSize: 50 * 1024 * 1024, // 50MB limit
+    fileSize: 50 * 1024 * 1024, // 50MB limit, as for single uploads
+    files: GALLERY_BATCH_MAX_FILES,
+  },
+});
+
+// Photos visitors share for the gallery; same handling as admin uploads, with a lower limit
+const photoSubmissionUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
   },
   fileFilter: (_, file, cb) => {
-    // Accept only image files
     if (file.mimetype.startsWith('image/')) {
       cb(null, true);
     } else {
@@ -89,13 +167,78 @@ const upload = multer({
   }
 });
 
+// Visitor uploads for tributes: photos and short video clips, each with its own size limit
+const TRIBUTE_MEDIA_LIMITS = {
+  image: 10 * 1024 * 1024, // 10MB
+  video: 100 * 1024 * 1024, // 100MB
+};
+
+// Videos are stored as uploaded and served from our own origin, so their
+// extension comes from this list rather than the client's filename
+const TRIBUTE_VIDEO_EXTENSIONS: Record<string, string> = {
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/quicktime': '.mov',
+};
+
+const TRIBUTE_VIDEO_TYPES = Object.keys(TRIBUTE_VIDEO_EXTENSIONS);
+
+// Checks the start of an uploaded video against its declared type. MP4 and
+// MOV files begin with an ISO box (older QuickTime files may not lead with
+// ftyp); WebM files begin with the EBML header.
+async function hasVideoSignature(filePath: string, mimetype: string) {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(12);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    if (bytesRead < header.length) return false;
+    
+    if (mimetype === 'video/webm') {
+      return header.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]));
+    }
+    const boxType = header.toString('latin1', 4, 8);
+    const boxTypes = mimetype === 'video/quicktime'
+      ? ['ftyp', 'moov', 'mdat', 'wide', 'free', 'skip', 'pnot']
+      : ['ftyp'];
+    return boxTypes.includes(boxType);
+  } finally {
+    await handle.close();
+  }
+}
+
+const tributeMediaUpload = multer({
+  storage: multer.diskStorage({
+    destination: './uploads/tribute-media',
+    filename: function (req, file, cb) {
+      // Photos are re-encoded under a new name, so their upload needs no extension
+      cb(null, `${uuidv4()}${TRIBUTE_VIDEO_EXTENSIONS[file.mimetype] ?? ''}`);
+    }
+  }),
+  limits: {
+    // Multer only supports a single limit, so the per-type check happens after upload
+    fileSize: TRIBUTE_MEDIA_LIMITS.video,
+  },
+  fileFilter: (_, file, cb) => {
+    if (file.mimetype.startsWith('image/') || TRIBUTE_VIDEO_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only image files and MP4, WebM or MOV videos are allowed'));
+    }
+  }
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Serve uploaded files statically
+  // Visitor videos are served as stored; stop browsers guessing a different type
+  app.use('/uploads/tribute-media', (req, res, next) => {
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    next();
+  });
   app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
   // Set up session middleware
   app.use(
     session({
-      secret: process.env.SESSION_SECRET || "chris-murphey-memorial",
+      secret: SESSION_SECRET,
       resave: false,
       saveUninitialized: false,
       store: dbStorage.sessionStore,
@@ -153,13 +296,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.status(401).json({ message: "Unauthorized" });
   };
 
-  const isAdmin = (req: Request, res: Response, next: Function) => {
+  // Super-admins (users.isAdmin) can administer every memorial
+  const canAdminister = async (user: Express.User, memorialId: number) => {
+    return user.isAdmin || await dbStorage.isMemorialAdmin(memorialId, user.id);
+  };
+
+  const isSuperAdmin = (req: Request, res: Response, next: Function) => {
     if (req.isAuthenticated() && req.user.isAdmin) {
       return next();
     }
     res.status(403).json({ message: "Forbidden" });
   };
 
+  // Admin rights for the memorial resolved from the URL
+  const isAdmin = async (req: Request, res: Response, next: Function) => {
+    if (req.isAuthenticated() && req.memorial && await canAdminister(req.user, req.memorial.id)) {
+      return next();
+    }
+    res.status(403).json({ message: "Forbidden" });
+  };
+
+  // Loads the memorial for /api/m/:slug; archived memorials are only visible to their admins
+  const resolveMemorial = async (req: Request, res: Response, next: Function) => {
+    try {
+      const memorial = await dbStorage.getMemorialBySlug(req.params.slug);
+      
+      if (!memorial) {
+        return res.status(404).json({ message: "Memorial not found" });
+      }
+      
+      if (memorial.isArchived) {
+        const canView = req.isAuthenticated() && await canAdminister(req.user, memorial.id);
+        if (!canView) {
+          return res.status(404).json({ message: "Memorial not found" });
+        }
+      }
+      
+      req.memorial = memorial;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load memorial" });
+    }
+  };
+
+  // Attach the memorials a user administers so the client can show admin links
+  const withAdminMemorials = async <T extends { id: number }>(user: T) => ({
+    ...user,
+    adminMemorialIds: await dbStorage.getAdministeredMemorialIds(user.id)
+  });
+
+  // All memorial content lives under /api/m/:slug
+  const memorialRouter = express.Router({ mergeParams: true });
+  app.use("/api/m/:slug", resolveMemorial, memorialRouter);
+
   // ====== API Routes ======
 
   // User Authentication Routes
@@ -185,11 +374,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { password, ...userWithoutPassword } = user;
 
       // Log user in
-      req.login(userWithoutPassword, (err) => {
+      req.login(userWithoutPassword, async (err) => {
         if (err) {
           return res.status(500).json({ message: "Login failed after registration" });
         }
-        return res.status(201).json(userWithoutPassword);
+        return res.status(201).json(await withAdminMemorials(userWithoutPassword));
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -207,12 +396,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!user) {
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) {
           return next(err);
         }
         const { password, ...userWithoutPassword } = user;
-        return res.json(userWithoutPassword);
+        return res.json(await withAdminMemorials(userWithoutPassword));
       });
     })(req, res, next);
   });
@@ -226,23 +415,319 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res) => {
     if (req.isAuthenticated()) {
       const { password, ...userWithoutPassword } = req.user;
-      return res.json(userWithoutPassword);
+      return res.json(await withAdminMemorials(userWithoutPassword));
     }
     return res.status(401).json({ message: "Not authenticated" });
   });
 
+  // Password reset: requests are limited per IP and per username/email so the
+  // endpoint can't be used to flood someone's inbox
+  const passwordResetRequestLimit = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: "Too many password reset requests. Please try again later."
+  });
+  const passwordResetIdentifierLimiter = createRateLimiter({ windowMs: 60 * 60 * 1000, max: 3 });
+  const passwordResetConfirmLimit = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 10,
+    message: "Too many attempts. Please try again later."
+  });
+
+  const issuePasswordResets = async (identifier: string, memorialSlug?: string) => {
+    const users = identifier.includes("@")
+      ? await dbStorage.getUsersByEmail(identifier)
+      : [await dbStorage.getUserByUsername(identifier)].filter((user): user is NonNullable<typeof user> => !!user);
+    
+    // Send people back to the memorial they started from after resetting
+    const memorial = memorialSlug ? await dbStorage.getMemorialBySlug(memorialSlug) : undefined;
+    
+    for (const user of users.filter(user => user.email)) {
+      const token = randomBytes(32).toString("base64url");
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+      await dbStorage.createPasswordResetToken(user.id, hashResetToken(token), expiresAt);
+      
+      const params = new URLSearchParams({ token });
+      if (memorial) {
+        params.set("memorial", memorial.slug);
+      }
+      await sendPasswordResetEmail(user, appUrl(`/reset-password?${params}`), PASSWORD_RESET_TTL_MINUTES);
+    }
+  };
+
+  app.post("/api/password-reset/request", passwordResetRequestLimit, async (req, res) => {
+    try {
+      const { identifier, memorialSlug } = z.object({
+        identifier: z.string().trim().min(1, "Enter your username or email").max(254),
+        memorialSlug: z.string().optional()
+      }).parse(req.body);
+      
+      // Respond before looking anything up so the timing doesn't give away
+      // whether the account exists
+      res.json({ message: PASSWORD_RESET_REQUESTED_MESSAGE });
+      
+      if (passwordResetIdentifierLimiter.hit(identifier.toLowerCase()) > 0) {
+        return;
+      }
+      
+      issuePasswordResets(identifier, memorialSlug)
+        .catch(error => console.error("Error issuing password reset:", error));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  app.post("/api/password-reset/confirm", passwordResetConfirmLimit, async (req, res) => {
+    try {
+      const { token, password } = z.object({
+        token: z.string().min(1),
+        password: z.string().min(8, "Password must be at least 8 characters long")
+      }).parse(req.body);
+      
+      const resetToken = await dbStorage.consumePasswordResetToken(hashResetToken(token), new Date());
+      
+      if (!resetToken) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired. Please request a new one." });
+      }
+      
+      const updatedUser = await dbStorage.updateUser(resetToken.userId, { password: await hashPassword(password) });
+      
+      if (!updatedUser) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired. Please request a new one." });
+      }
+      
+      // Any other links sent before this reset stop working too
+      await dbStorage.deletePasswordResetTokens(resetToken.userId);
+      
+      res.json({ message: "Your password has been reset. You can now sign in." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Memorial Routes
+  app.get("/api/memorials", async (req, res) => {
+    try {
+      // Super-admins can ask for archived memorials as well
+      const includeArchived = req.query.includeArchived === "true" && req.isAuthenticated() && req.user.isAdmin;
+      const memorials = await dbStorage.getMemorials(includeArchived);
+      res.json(memorials);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch memorials" });
+    }
+  });
+
+  app.get("/api/memorials/:slug", resolveMemorial, async (req, res) => {
+    res.json(req.memorial);
+  });
+
+  app.post("/api/memorials", isSuperAdmin, async (req, res) => {
+    try {
+      const memorialData = insertMemorialSchema.parse(req.body);
+      
+      if (await dbStorage.getMemorialBySlug(memorialData.slug)) {
+        return res.status(400).json({ message: "A memorial with this slug already exists" });
+      }
+      
+      const memorial = await dbStorage.createMemorial(memorialData);
+      
+      // Seed the settings every memorial page expects
+      const defaults: Record<string, string> = {
+        siteTitle: `${memorial.name} Memorial`,
+        backgroundImage: "",
+        tributeImage: "",
+        footerMessage: DEFAULT_FOOTER_MESSAGE,
+        requireTributeApproval: "false",
+        enabledReactions: reactionKinds.join(","),
+      };
+      for (const [key, value] of Object.entries(defaults)) {
+        await dbStorage.upsertSetting({ memorialId: memorial.id, key, value });
+      }
+      
+      // Optionally hand the new memorial to a family member straight away
+      if (typeof req.body.adminUserId === "number") {
+        await dbStorage.addMemorialAdmin(memorial.id, req.body.adminUserId);
+      }
+      
+      res.status(201).json(memorial);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid memorial data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create memorial" });
+    }
+  });
+
+  app.put("/api/memorials/:id", isSuperAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const memorialData = insertMemorialSchema.partial()
+        .extend({ isArchived: z.boolean().optional() })
+        .parse(req.body);
+      
+      if (memorialData.slug) {
+        const existing = await dbStorage.getMemorialBySlug(memorialData.slug);
+        if (existing && existing.id !== id) {
+          return res.status(400).json({ message: "A memorial with this slug already exists" });
+        }
+      }
+      
+      const memorial = await dbStorage.updateMemorial(id, memorialData);
+      
+      if (!memorial) {
+        return res.status(404).json({ message: "Memorial not found" });
+      }
+      
+      res.json(memorial);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid memorial data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update memorial" });
+    }
+  });
+
+  // Unapproved tributes are only visible to their author and admins
+  const canViewTribute = async (req: Request, tribute: Tribute) => {
+    if (tribute.status === "approved") return true;
+    return req.isAuthenticated()
+      && (req.user.id === tribute.userId || await canAdminister(req.user, tribute.memorialId));
+  };
+
+  // Attaches author details to comments, looking each author up once
+  const withCommentAuthors = async (comments: TributeComment[]) => {
+    const userIds = Array.from(new Set(comments.map(comment => comment.userId)));
+    const users = new Map<number, { id: number; username: string; name: string }>();
+    for (const userId of userIds) {
+      const user = await dbStorage.getUser(userId);
+      if (user) users.set(userId, { id: user.id, username: user.username, name: user.name });
+    }
+    
+    return comments.map(comment => ({ ...comment, user: users.get(comment.userId) }));
+  };
+
+  // Attaches the name of the visitor who shared each photo, looking each one up once
+  const withImageContributors = async (images: GalleryImage[]) => {
+    const userIds = Array.from(new Set(images.map(image => image.submittedById)));
+    const users = new Map<number, { id: number; name: string }>();
+    for (const userId of userIds) {
+      const user = userId !== null ? await dbStorage.getUser(userId) : undefined;
+      if (user) users.set(user.id, { id: user.id, name: user.name });
+    }
+    
+    return images.map(image => ({
+      ...image,
+      sharedBy: image.submittedById !== null ? users.get(image.submittedById) ?? null : null
+    }));
+  };
+
+  // Tells open tribute walls about a newly published tribute, shaped like a feed item
+  const announceTribute = async (tribute: Tribute) => {
+    const user = await dbStorage.getUser(tribute.userId);
+    const commentCounts = await dbStorage.getTributeCommentCounts(tribute.memorialId, [tribute.id]);
+    
+    publishLiveUpdate(tribute.memorialId, {
+      type: "tribute.created",
+      tribute: {
+        ...tribute,
+        user: user ? { id: user.id, username: user.username, name: user.name } : null,
+        myReactions: [],
+        commentCount: commentCounts[tribute.id] || 0
+      }
+    });
+  };
+  
+  const announceComment = async (comment: TributeComment) => {
+    const commentCounts = await dbStorage.getTributeCommentCounts(comment.memorialId, [comment.tributeId]);
+    
+    publishLiveUpdate(comment.memorialId, {
+      type: "comment.added",
+      tributeId: comment.tributeId,
+      commentCount: commentCounts[comment.tributeId] || 0
+    });
+  };
+
+  // Live tribute wall updates as Server-Sent Events
+  memorialRouter.get("/updates", (req, res) => {
+    streamLiveUpdates(req.memorial!.id, req, res);
+  });
+
   // Tribute Routes
-  app.get("/api/tributes", async (req, res) => {
+  // ?sort=newest|oldest|candles, plus optional hasMedia, mediaType, author (a user id)
+  // and from/to dates (YYYY-MM-DD, both inclusive)
+  memorialRouter.get("/tributes", async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+      const date = z.string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+        .transform(value => new Date(`${value}T00:00:00Z`))
+        .refine(value => !isNaN(value.getTime()), "Invalid date");
+      const query = z.object({
+        limit: z.coerce.number().int().positive().max(50).default(20),
+        cursor: z.string().optional(),
+        sort: z.enum(tributeSorts).default("newest"),
+        hasMedia: z.enum(["true", "false"]).transform(value => value === "true").optional(),
+        mediaType: z.enum(tributeMediaTypes).optional(),
+        author: z.coerce.number().int().positive().optional(),
+        from: date.optional(),
+        to: date.optional()
+      }).parse(req.query);
+      
+      const after = query.cursor !== undefined ? decodeTributeCursor(query.cursor, query.sort) : undefined;
+      if (query.cursor !== undefined && !after) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      // Authors also see their own tributes that are still awaiting review.
+      // One extra row is fetched to tell whether there is another page.
+      const viewerId = req.isAuthenticated() ? req.user.id : undefined;
+      const page = await dbStorage.getTributeFeed(req.memorial!.id, {
+        limit: query.limit + 1,
+        after,
+        viewerId,
+        sort: query.sort,
+        hasMedia: query.hasMedia,
+        mediaType: query.mediaType,
+        authorId: query.author,
+        createdFrom: query.from,
+        createdBefore: query.to && new Date(query.to.getTime() + 24 * 60 * 60 * 1000)
+      });
+      
+      const hasMore = page.length > query.limit;
+      const tributes = hasMore ? page.slice(0, query.limit) : page;
+      
+      res.json({
+        tributes,
+        nextCursor: hasMore ? encodeTributeCursor(query.sort, tributes[tributes.length - 1]) : null
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch tributes" });
+    }
+  });
+
+  // Tribute moderation queue (Admin only)
+  memorialRouter.get("/tributes/moderation", isAdmin, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      
+      if (!tributeStatuses.includes(status as TributeStatus)) {
+        return res.status(400).json({ message: "Invalid tribute status" });
+      }
       
-      const tributes = await dbStorage.getTributes(limit, offset);
+      const tributes = await dbStorage.getTributesByStatus(req.memorial!.id, status as TributeStatus);
+      const commentCounts = await dbStorage.getTributeCommentCounts(req.memorial!.id, tributes.map(tribute => tribute.id));
       
-      // Enhance tributes with user information
       const enhancedTributes = await Promise.all(
         tributes.map(async (tribute) => {
           const user = await dbStorage.getUser(tribute.userId);
@@ -253,30 +738,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
               username: user.username, 
               name: user.name
             } : undefined,
-            // If user is authenticated, include whether they've lit a candle
-            hasLitCandle: req.isAuthenticated() 
-              ? await dbStorage.hasUserLitCandle(req.user.id, tribute.id)
-              : false
+            myReactions: [],
+            commentCount: commentCounts[tribute.id] || 0
           };
         })
       );
       
       res.json(enhancedTributes);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch tributes" });
+      res.status(500).json({ message: "Failed to fetch moderation queue" });
     }
   });
 
-  app.get("/api/tributes/:id", async (req, res) => {
+  memorialRouter.get("/tributes/:id", async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const tribute = await dbStorage.getTributeById(id);
+      const tribute = await dbStorage.getTributeById(req.memorial!.id, id);
       
       if (!tribute) {
         return res.status(404).json({ message: "Tribute not found" });
       }
       
+      if (!(await canViewTribute(req, tribute))) {
+        return res.status(404).json({ message: "Tribute not found" });
+      }
+      
       const user = await dbStorage.getUser(tribute.userId);
+      const commentCounts = await dbStorage.getTributeCommentCounts(req.memorial!.id, [tribute.id]);
+      const myReactions = req.isAuthenticated()
+        ? await dbStorage.getUserReactionKinds(req.user.id, [tribute.id])
+        : {};
       
       res.json({
         ...tribute,
@@ -285,32 +776,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
           username: user.username, 
           name: user.name
         } : undefined,
-        hasLitCandle: req.isAuthenticated() 
-          ? await dbStorage.hasUserLitCandle(req.user.id, tribute.id)
-          : false
+        myReactions: myReactions[tribute.id] || [],
+        commentCount: commentCounts[tribute.id] || 0
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch tribute" });
     }
   });
 
-  app.post("/api/tributes", isAuthenticated, async (req, res) => {
+  memorialRouter.post("/tributes", isAuthenticated, async (req, res) => {
     try {
+      // Admin posts skip the queue; everyone else waits for review when approval is required
+      const requireApproval = await dbStorage.getSetting(req.memorial!.id, "requireTributeApproval");
+      const status: TributeStatus = requireApproval?.value === "true" && !(await canAdminister(req.user!, req.memorial!.id))
+        ? "pending"
+        : "approved";
+      
       const tributeData = insertTributeSchema.parse({
         ...req.body,
-        userId: req.user.id
+        memorialId: req.memorial!.id,
+        userId: req.user!.id,
+        status
       });
       
       const tribute = await dbStorage.createTribute(tributeData);
       
+      if (status === "pending") {
+        notifyTributeAwaitingModeration(req.memorial!, tribute, req.user!.name)
+          .catch(error => console.error("Error queueing moderation email:", error));
+      } else {
+        announceTribute(tribute).catch(error => console.error("Error announcing tribute:", error));
+      }
+      
       res.status(201).json({
         ...tribute,
         user: { 
-          id: req.user.id, 
-          username: req.user.username, 
-          name: req.user.name
+          id: req.user!.id, 
+          username: req.user!.username, 
+          name: req.user!.name
         },
-        hasLitCandle: false
+        myReactions: [],
+        commentCount: 0
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -320,23 +826,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/tributes/:id", isAuthenticated, async (req, res) => {
+  // Handle photo and video uploads attached to a tribute
+  memorialRouter.post("/tributes/upload", isAuthenticated, (req, res, next) => {
+    tributeMediaUpload.single("media")(req, res, (err) => {
+      if (err) {
+        const message = err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE"
+          ? "Videos must be 100MB or smaller"
+          : err.message;
+        return res.status(400).json({ message });
+      }
+      next();
+    });
+  }, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No media file provided" });
+      }
+      
+      const mediaType = req.file.mimetype.startsWith("image/") ? "image" : "video";
+      
+      if (req.file.size > TRIBUTE_MEDIA_LIMITS[mediaType]) {
+        await fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: "Photos must be 10MB or smaller" });
+      }
+      
+      if (mediaType === "image") {
+        // Re-encode photos to strip location metadata, then drop the raw upload
+        const raw = await fs.promises.readFile(req.file.path);
+        await fs.promises.unlink(req.file.path).catch(() => {});
+        const processed = await processImage(raw, "tribute-media");
+        return res.status(201).json({ mediaUrl: processed.imageUrl, mediaType });
+      }
+      
+      if (!(await hasVideoSignature(req.file.path, req.file.mimetype))) {
+        await fs.promises.unlink(req.file.path).catch(() => {});
+        return res.status(400).json({ message: "The file doesn't look like an MP4, WebM or MOV video" });
+      }
+      
+      res.status(201).json({
+        mediaUrl: `/uploads/tribute-media/${req.file.filename}`,
+        mediaType
+      });
+    } catch (error) {
+      console.error("Error uploading tribute media:", error);
+      res.status(500).json({ message: "Failed to upload media" });
+    }
+  });
+
+  memorialRouter.delete("/tributes/:id", isAuthenticated, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const tribute = await dbStorage.getTributeById(id);
+      const tribute = await dbStorage.getTributeById(req.memorial!.id, id);
       
       if (!tribute) {
         return res.status(404).json({ message: "Tribute not found" });
       }
       
       // Only allow deletion by the tribute creator or an admin
-      if (tribute.userId !== req.user.id && !req.user.isAdmin) {
+      if (tribute.userId !== req.user!.id && !(await canAdminister(req.user!, tribute.memorialId))) {
         return res.status(403).json({ message: "Forbidden" });
       }
       
-      const deleted = await dbStorage.deleteTribute(id);
+      const deleted = await dbStorage.deleteTribute(req.memorial!.id, id);
       
       if (deleted) {
+        publishLiveUpdate(req.memorial!.id, { type: "tribute.deleted", tributeId: id });
         res.status(200).json({ message: "Tribute deleted successfully" });
       } else {
         res.status(500).json({ message: "Failed to delete tribute" });
@@ -346,313 +900,1932 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Candle Routes
-  app.post("/api/tributes/:id/candle", isAuthenticated, async (req, res) => {
+  memorialRouter.put("/tributes/:id/approve", isAdmin, async (req, res) => {
     try {
-      const tributeId = parseInt(req.params.id);
-      const userId = req.user.id;
+      const id = parseInt(req.params.id);
+      const previous = await dbStorage.getTributeById(req.memorial!.id, id);
+      const tribute = await dbStorage.setTributeStatus(req.memorial!.id, id, "approved");
       
-      const tribute = await dbStorage.getTributeById(tributeId);
-      if (!tribute) {
+      if (!previous || !tribute) {
         return res.status(404).json({ message: "Tribute not found" });
       }
       
-      const hasLit = await dbStorage.hasUserLitCandle(userId, tributeId);
-      
-      if (hasLit) {
-        // If already lit, remove the candle
-        await dbStorage.removeCandle(userId, tributeId);
-        res.json({ lit: false, candleCount: tribute.candleCount - 1 });
-      } else {
-        // If not lit, add a candle
-        await dbStorage.addCandle({ userId, tributeId });
-        res.json({ lit: true, candleCount: tribute.candleCount + 1 });
+      if (previous.status !== "approved") {
+        announceTribute(tribute).catch(error => console.error("Error announcing tribute:", error));
       }
+      
+      res.json(tribute);
     } catch (error) {
-      res.status(500).json({ message: "Failed to toggle candle" });
+      res.status(500).json({ message: "Failed to approve tribute" });
     }
   });
 
-  // Gallery Routes
-  app.get("/api/gallery", async (req, res) => {
+  memorialRouter.put("/tributes/:id/reject", isAdmin, async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
+      const id = parseInt(req.params.id);
+      const { reason } = req.body;
+      
+      if (reason !== undefined && typeof reason !== "string") {
+        return res.status(400).json({ message: "Reason must be a string" });
+      }
       
-      const images = await dbStorage.getGalleryImages(limit, offset);
-      res.json(images);
+      const previous = await dbStorage.getTributeById(req.memorial!.id, id);
+      const tribute = await dbStorage.setTributeStatus(req.memorial!.id, id, "rejected", reason?.trim());
+      
+      if (!previous || !tribute) {
+        return res.status(404).json({ message: "Tribute not found" });
+      }
+      
+      // Taking down a published tribute removes it from open walls
+      if (previous.status === "approved") {
+        publishLiveUpdate(req.memorial!.id, { type: "tribute.deleted", tributeId: id });
+      }
+      
+      res.json(tribute);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch gallery images" });
+      res.status(500).json({ message: "Failed to reject tribute" });
     }
   });
 
-  app.get("/api/gallery/featured", async (req, res) => {
+  // Tribute Comment Routes
+  // Top-level comments oldest first, each with its replies nested under it
+  memorialRouter.get("/tributes/:id/comments", async (req, res) => {
     try {
-      const featuredImages = await dbStorage.getFeaturedGalleryImages();
-      res.json(featuredImages);
+      const tributeId = parseInt(req.params.id);
+      const tribute = await dbStorage.getTributeById(req.memorial!.id, tributeId);
+      
+      if (!tribute || !(await canViewTribute(req, tribute))) {
+        return res.status(404).json({ message: "Tribute not found" });
+      }
+      
+      const viewerId = req.isAuthenticated() ? req.user.id : undefined;
+      const comments = await withCommentAuthors(
+        await dbStorage.getTributeComments(req.memorial!.id, tributeId, viewerId)
+      );
+      
+      const threads = comments
+        .filter(comment => comment.parentId === null)
+        .map(comment => ({
+          ...comment,
+          replies: comments.filter(reply => reply.parentId === comment.id)
+        }));
+      
+      res.json(threads);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch featured gallery images" });
+      res.status(500).json({ message: "Failed to fetch comments" });
     }
   });
 
-  app.post("/api/gallery", isAdmin, async (req, res) => {
+  memorialRouter.post("/tributes/:id/comments", isAuthenticated, async (req, res) => {
     try {
-      const imageData = insertGallerySchema.parse(req.body);
-      const image = await dbStorage.createGalleryImage(imageData);
-      res.status(201).json(image);
+      const tributeId = parseInt(req.params.id);
+      const tribute = await dbStorage.getTributeById(req.memorial!.id, tributeId);
+      
+      if (!tribute || tribute.status !== "approved") {
+        return res.status(404).json({ message: "Tribute not found" });
+      }
+      
+      // Replies to a reply join the same thread, keeping threads one level deep
+      let parentId: number | null = null;
+      if (req.body.parentId !== undefined && req.body.parentId !== null) {
+        const parent = await dbStorage.getTributeCommentById(req.memorial!.id, Number(req.body.parentId));
+        if (!parent || parent.tributeId !== tributeId || parent.status !== "approved") {
+          return res.status(400).json({ message: "The comment you are replying to no longer exists" });
+        }
+        parentId = parent.parentId ?? parent.id;
+      }
+      
+      // Comments follow the same approval rule as tributes
+      const requireApproval = await dbStorage.getSetting(req.memorial!.id, "requireTributeApproval");
+      const status: TributeStatus = requireApproval?.value === "true" && !(await canAdminister(req.user!, req.memorial!.id))
+        ? "pending"
+        : "approved";
+      
+      const commentData = insertTributeCommentSchema.parse({
+        content: req.body.content,
+        memorialId: req.memorial!.id,
+        tributeId,
+        userId: req.user!.id,
+        parentId,
+        status
+      });
+      
+      const comment = await dbStorage.createTributeComment(commentData);
+      
+      if (status === "approved") {
+        notifyTributeReply(req.memorial!, tribute, req.user!, comment.content)
+          .catch(error => console.error("Error queueing reply email:", error));
+        announceComment(comment).catch(error => console.error("Error announcing comment:", error));
+      }
+      
+      res.status(201).json({
+        ...comment,
+        user: { 
+          id: req.user!.id, 
+          username: req.user!.username, 
+          name: req.user!.name
+        },
+        replies: []
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid gallery image data", errors: error.errors });
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
       }
-      res.status(500).json({ message: "Failed to create gallery image" });
+      res.status(500).json({ message: "Failed to add comment" });
     }
   });
-  
-  // Handle image uploads
-  app.post("/api/gallery/upload", isAdmin, upload.single("image"), async (req, res) => {
+
+  memorialRouter.delete("/tributes/:id/comments/:commentId", isAuthenticated, async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No image file provided" });
+      const tributeId = parseInt(req.params.id);
+      const commentId = parseInt(req.params.commentId);
+      const comment = await dbStorage.getTributeCommentById(req.memorial!.id, commentId);
+      
+      if (!comment || comment.tributeId !== tributeId) {
+        return res.status(404).json({ message: "Comment not found" });
       }
       
-      // The file has been saved to disk by multer
-      // Create a URL path to the file
-      const imagePath = `/uploads/gallery/${req.file.filename}`;
+      // Only allow deletion by the comment author or an admin
+      if (comment.userId !== req.user!.id && !(await canAdminister(req.user!, comment.memorialId))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
       
-      // Extract other form data
-      const caption = req.body.caption || null;
-      const isFeatured = req.body.isFeatured === "true";
-      const order = parseInt(req.body.order || "0");
+      const deleted = await dbStorage.deleteTributeComment(req.memorial!.id, commentId);
       
-      // Create the gallery image entry with the file path
-      const imageData = {
-        imageUrl: imagePath,
-        caption,
-        isFeatured,
-        order
-      };
+      if (deleted) {
+        res.status(200).json({ message: "Comment deleted successfully" });
+      } else {
+        res.status(500).json({ message: "Failed to delete comment" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete comment" });
+    }
+  });
+
+  // Comment moderation queue (Admin only)
+  memorialRouter.get("/comments/moderation", isAdmin, async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
       
-      const image = await dbStorage.createGalleryImage(imageData as any);
-      res.status(201).json(image);
+      if (!tributeStatuses.includes(status as TributeStatus)) {
+        return res.status(400).json({ message: "Invalid comment status" });
+      }
+      
+      const comments = await withCommentAuthors(
+        await dbStorage.getTributeCommentsByStatus(req.memorial!.id, status as TributeStatus)
+      );
+      
+      res.json(comments);
     } catch (error) {
-      console.error("Error uploading image:", error);
-      res.status(500).json({ message: "Failed to upload and process image" });
+      res.status(500).json({ message: "Failed to fetch comment moderation queue" });
     }
   });
 
-  app.put("/api/gallery/:id", isAdmin, async (req, res) => {
+  memorialRouter.put("/comments/:id/approve", isAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const imageData = req.body;
+      const previous = await dbStorage.getTributeCommentById(req.memorial!.id, id);
+      const comment = await dbStorage.setTributeCommentStatus(req.memorial!.id, id, "approved");
       
-      const image = await dbStorage.updateGalleryImage(id, imageData);
+      if (!previous || !comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
       
-      if (!image) {
-        return res.status(404).json({ message: "Gallery image not found" });
+      // The tribute's author hears about a comment once it is published
+      if (previous.status !== "approved") {
+        announceComment(comment).catch(error => console.error("Error announcing comment:", error));
+        
+        const tribute = await dbStorage.getTributeById(req.memorial!.id, comment.tributeId);
+        const author = await dbStorage.getUser(comment.userId);
+        if (tribute && author) {
+          notifyTributeReply(req.memorial!, tribute, author, comment.content)
+            .catch(error => console.error("Error queueing reply email:", error));
+        }
       }
       
-      res.json(image);
+      res.json(comment);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update gallery image" });
+      res.status(500).json({ message: "Failed to approve comment" });
     }
   });
 
-  app.delete("/api/gallery/:id", isAdmin, async (req, res) => {
+  memorialRouter.put("/comments/:id/reject", isAdmin, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deleted = await dbStorage.deleteGalleryImage(id);
+      const { reason } = req.body;
       
-      if (deleted) {
-        res.status(200).json({ message: "Gallery image deleted successfully" });
-      } else {
-        res.status(404).json({ message: "Gallery image not found" });
+      if (reason !== undefined && typeof reason !== "string") {
+        return res.status(400).json({ message: "Reason must be a string" });
       }
+      
+      const comment = await dbStorage.setTributeCommentStatus(req.memorial!.id, id, "rejected", reason?.trim());
+      
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      
+      res.json(comment);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete gallery image" });
+      res.status(500).json({ message: "Failed to reject comment" });
     }
   });
 
-  // User Management Routes (Admin only)
-  app.get("/api/users", isAdmin, async (req, res) => {
+  // Reaction Routes
+  // Rebuilds every tribute's counts from the individual reactions (Admin only)
+  memorialRouter.post("/reactions/recount", isAdmin, async (req, res) => {
     try {
-      // This endpoint is for admin to get a list of all users
-      const users = await Promise.all(
-        (await dbStorage.getAllUsers()).map(user => {
-          // Remove password field for security
-          const { password, ...userWithoutPassword } = user;
-          return userWithoutPassword;
-        })
-      );
-      
-      res.json(users);
+      res.json(await dbStorage.recountReactions(req.memorial!.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch users" });
+      res.status(500).json({ message: "Failed to recount reactions" });
     }
   });
-  
-  app.put("/api/users/:id/role", isAdmin, async (req, res) => {
+
+  // Who left each kind of reaction, for the hover list on a tribute
+  memorialRouter.get("/tributes/:id/reactions", async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const { isAdmin } = req.body;
+      const tributeId = parseInt(req.params.id);
+      const tribute = await dbStorage.getTributeById(req.memorial!.id, tributeId);
       
-      // Validate the isAdmin field is provided
-      if (typeof isAdmin !== 'boolean') {
-        return res.status(400).json({ message: "isAdmin field must be a boolean" });
+      if (!tribute || !(await canViewTribute(req, tribute))) {
+        return res.status(404).json({ message: "Tribute not found" });
       }
       
-      // Don't allow users to remove their own admin status
-      if (req.user.id === userId && !isAdmin) {
-        return res.status(403).json({ message: "You cannot remove your own admin status" });
+      const reactions = await dbStorage.getReactions(tributeId);
+      const names = new Map<number, string>();
+      for (const userId of Array.from(new Set(reactions.map(reaction => reaction.userId)))) {
+        const user = await dbStorage.getUser(userId);
+        if (user) names.set(userId, user.name);
       }
       
-      const updatedUser = await dbStorage.updateUser(userId, { isAdmin });
-      
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const reactors = reactionKinds
+        .map(kind => ({
+          kind,
+          users: reactions
+            .filter(reaction => reaction.kind === kind && names.has(reaction.userId))
+            .map(reaction => ({ id: reaction.userId, name: names.get(reaction.userId)! }))
+        }))
+        .filter(group => group.users.length > 0);
       
-      // Return user without password
-      const { password, ...userWithoutPassword } = updatedUser;
-      res.json(userWithoutPassword);
+      res.json(reactors);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update user role" });
+      res.status(500).json({ message: "Failed to fetch reactions" });
     }
   });
-  
-  app.put("/api/users/:id/reset-password", isAdmin, async (req, res) => {
+
+  // Adds the reaction, or takes it back if the user already left it
+  memorialRouter.post("/tributes/:id/reactions/:kind", isAuthenticated, async (req, res) => {
     try {
-      const userId = parseInt(req.params.id);
-      const { newPassword } = req.body;
+      const tributeId = parseInt(req.params.id);
+      const kind = req.params.kind as ReactionKind;
+      const userId = req.user!.id;
       
-      // Validate the new password
-      if (!newPassword || newPassword.length < 8) {
-        return res.status(400).json({ message: "Password must be at least 8 characters long" });
+      if (!reactionKinds.includes(kind)) {
+        return res.status(400).json({ message: "Unknown reaction" });
       }
       
-      // Hash the new password
-      const hashedPassword = await hashPassword(newPassword);
+      const tribute = await dbStorage.getTributeById(req.memorial!.id, tributeId);
+      if (!tribute || tribute.status !== "approved") {
+        return res.status(404).json({ message: "Tribute not found" });
+      }
       
-      const updatedUser = await dbStorage.updateUser(userId, { password: hashedPassword });
+      // The toggle picks the target state; setting it is idempotent, so a
+      // double click can't leave a reaction counted twice
+      const myReactions = (await dbStorage.getUserReactionKinds(userId, [tributeId]))[tributeId] || [];
+      const reacted = !myReactions.includes(kind);
       
-      if (!updatedUser) {
-        return res.status(404).json({ message: "User not found" });
+      // Reactions switched off later can still be taken back, but not added
+      if (reacted) {
+        const enabledSetting = await dbStorage.getSetting(req.memorial!.id, "enabledReactions");
+        if (!parseEnabledReactions(enabledSetting?.value).includes(kind)) {
+          return res.status(400).json({ message: "This reaction is not available" });
+        }
       }
       
-      res.json({ message: "Password reset successfully" });
+      const reactionCounts = await dbStorage.setReaction(userId, tributeId, kind, reacted);
+      
+      if (!reactionCounts) {
+        return res.status(404).json({ message: "Tribute not found" });
+      }
+      
+      publishLiveUpdate(req.memorial!.id, { type: "reactions.changed", tributeId, reactionCounts });
+      res.json({ kind, reacted, reactionCounts });
     } catch (error) {
-      res.status(500).json({ message: "Failed to reset password" });
+      res.status(500).json({ message: "Failed to update reaction" });
     }
   });
 
-  // Settings Routes
-  app.get("/api/settings", async (req, res) => {
+  // Search Routes
+  // ?types= narrows the search, e.g. "tribute,comment" from the tribute wall or "image" from the gallery
+  memorialRouter.get("/search", async (req, res) => {
     try {
-      const settings = await dbStorage.getAllSettings();
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ message: "Enter something to search for" });
+      }
+      if (query.length > 200) {
+        return res.status(400).json({ message: "Search terms must be 200 characters or fewer" });
+      }
       
-      // Convert to key-value object
-      const settingsObj = settings.reduce((acc, setting) => {
-        acc[setting.key] = setting.value;
-        return acc;
-      }, {} as Record<string, string>);
+      const requestedTypes: readonly string[] = typeof req.query.types === "string"
+        ? req.query.types.split(",")
+        : searchResultTypes;
+      const types = searchResultTypes.filter(type => requestedTypes.includes(type));
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
       
-      res.json(settingsObj);
+      const results = await dbStorage.search(req.memorial!.id, query, types, limit);
+      res.json(results);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch settings" });
+      res.status(500).json({ message: "Failed to search" });
     }
   });
 
-  app.get("/api/settings/:key", async (req, res) => {
+  // Gallery Routes
+  memorialRouter.get("/gallery", async (req, res) => {
     try {
-      const key = req.params.key;
-      const setting = await dbStorage.getSetting(key);
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const offset = req.query.offset ? parseInt(req.query.offset as string) : 0;
       
-      if (!setting) {
-        return res.status(404).json({ message: "Setting not found" });
+      const images = await dbStorage.getGalleryImages(req.memorial!.id, limit, offset);
+      res.json(await withImageContributors(images));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch gallery images" });
+    }
+  });
+
+  memorialRouter.get("/gallery/featured", async (req, res) => {
+    try {
+      const featuredImages = await dbStorage.getFeaturedGalleryImages(req.memorial!.id);
+      res.json(await withImageContributors(featuredImages));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch featured gallery images" });
+    }
+  });
+
+  memorialRouter.post("/gallery", isAdmin, async (req, res) => {
+    try {
+      const imageData = insertGallerySchema.parse({ ...req.body, memorialId: req.memorial!.id });
+      const image = await dbStorage.createGalleryImage(imageData);
+      res.status(201).json(image);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid gallery image data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create gallery image" });
+    }
+  });
+  
+  // Handle image uploads
+  memorialRouter.post("/gallery/upload", isAdmin, upload.single("image"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image file provided" });
       }
       
-      res.json({ value: setting.value });
+      // Generate the resized, metadata-free variants
+      const processed = await processImage(req.file.buffer, "gallery");
+      
+      // Extract other form data
+      const caption = req.body.caption || null;
+      const isFeatured = req.body.isFeatured === "true";
+      const order = parseInt(req.body.order || "0");
+      
+      // Create the gallery image entry with the variant paths
+      const imageData = insertGallerySchema.parse({
+        ...processed,
+        memorialId: req.memorial!.id,
+        caption,
+        isFeatured,
+        order
+      });
+      
+      const image = await dbStorage.createGalleryImage(imageData);
+      res.status(201).json(image);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch setting" });
+      console.error("Error uploading image:", error);
+      res.status(500).json({ message: "Failed to upload and process image" });
     }
   });
 
-  app.put("/api/settings/:key", isAdmin, async (req, res) => {
+  // Uploads several images at once, each with its own caption, featured flag
+  // and order in the "details" field (a JSON array in the same order as the
+  // files). Every file gets its own result, so one bad file doesn't fail the rest.
+  memorialRouter.post("/gallery/upload/batch", isAdmin, (req, res, next) => {
+    galleryBatchUpload.array("images")(req, res, (err) => {
+      if (err) {
+        const message = err instanceof multer.MulterError
+          ? err.code === "LIMIT_FILE_SIZE"
+            ? "Images must be 50MB or smaller"
+            : err.code === "LIMIT_FILE_COUNT"
+              ? `Upload at most ${GALLERY_BATCH_MAX_FILES} images at a time`
+              : err.message
+          : err.message;
+        return res.status(400).json({ message });
+      }
+      next();
+    });
+  }, async (req, res) => {
     try {
-      const key = req.params.key;
-      const { value } = req.body;
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      if (files.length === 0) {
+        return res.status(400).json({ message: "No image files provided" });
+      }
       
-      if (!value) {
-        return res.status(400).json({ message: "Value is required" });
+      let details: unknown;
+      try {
+        details = JSON.parse(req.body.details || "[]");
+      } catch {
+        return res.status(400).json({ message: "Image details must be a JSON array" });
+      }
+      if (!Array.isArray(details)) {
+        return res.status(400).json({ message: "Image details must be a JSON array" });
       }
       
-      const settingData = insertSettingsSchema.parse({ key, value });
-      const setting = await dbStorage.upsertSetting(settingData);
+      const detailsSchema = insertGallerySchema.pick({ caption: true, isFeatured: true, order: true });
+      const results: { index: number; filename: string; image?: GalleryImage; error?: string }[] = [];
       
-      res.json(setting);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid setting data", errors: error.errors });
+      // One at a time, so a large batch doesn't hold every decoded image in memory
+      for (let index = 0; index < files.length; index++) {
+        const file = files[index];
+        const result = { index, filename: file.originalname };
+        
+        if (!file.mimetype.startsWith("image/")) {
+          results.push({ ...result, error: "Only image files are allowed" });
+          continue;
+        }
+        
+        const parsed = detailsSchema.safeParse(details[index] ?? {});
+        if (!parsed.success) {
+          results.push({ ...result, error: parsed.error.errors[0].message });
+          continue;
+        }
+        
+        try {
+          const processed = await processImage(file.buffer, "gallery");
+          const image = await dbStorage.createGalleryImage(insertGallerySchema.parse({
+            ...processed,
+            ...parsed.data,
+            memorialId: req.memorial!.id
+          }));
+          results.push({ ...result, image });
+        } catch (error) {
+          console.error(`Error uploading ${file.originalname}:`, error);
+          results.push({ ...result, error: "This file couldn't be processed as an image" });
+        }
       }
-      res.status(500).json({ message: "Failed to update setting" });
+      
+      res.json({ results });
+    } catch (error) {
+      console.error("Error uploading images:", error);
+      res.status(500).json({ message: "Failed to upload images" });
     }
   });
-  
-  // Handle setting image uploads (for tribute image and background image)
-  app.post("/api/settings/upload/:key", isAdmin, upload.single("image"), async (req, res) => {
+
+  // Photos shared by visitors. They wait in a queue until an admin approves
+  // them, optionally straight into an album, or rejects them.
+  // Sharing needs an account, so the limit follows it; a family on one
+  // network would otherwise share a single allowance
+  const photoSubmissionLimit = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 20,
+    message: "You've shared a lot of photos in a short time. Please try again later.",
+    keyGenerator: (req) => `user:${req.user!.id}`
+  });
+
+  memorialRouter.get("/gallery/submissions", isAdmin, async (req, res) => {
+    try {
+      const submissions = await dbStorage.getGallerySubmissions(req.memorial!.id);
+      res.json(await withImageContributors(submissions));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch photo submissions" });
+    }
+  });
+
+  memorialRouter.post("/gallery/submissions", isAuthenticated, photoSubmissionLimit, (req, res, next) => {
+    photoSubmissionUpload.single("image")(req, res, (err) => {
+      if (err) {
+        const message = err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE"
+          ? "Photos must be 10MB or smaller"
+          : err.message;
+        return res.status(400).json({ message });
+      }
+      next();
+    });
+  }, async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file provided" });
       }
       
-      const key = req.params.key;
+      // Validate the details before spending time on the image
+      const details = insertGallerySchema.pick({ caption: true, year: true, peoplePictured: true }).parse({
+        caption: req.body.caption?.trim() || null,
+        year: req.body.year ? Number(req.body.year) : null,
+        peoplePictured: req.body.peoplePictured?.trim() || null
+      });
       
-      // Only allow certain keys to be updated via file upload
-      if (key !== "tributeImage" && key !== "backgroundImage") {
-        return res.status(400).json({ message: "Invalid setting key for image upload" });
-      }
+      const processed = await processImage(req.file.buffer, "gallery");
+      // Admins sharing through the visitor form skip the queue
+      const status: TributeStatus = await canAdminister(req.user!, req.memorial!.id) ? "approved" : "pending";
       
-      // Determine the appropriate folder based on the key
-      const folder = key === "tributeImage" ? "tribute" : "background";
+      const image = await dbStorage.createGalleryImage(insertGallerySchema.parse({
+        ...processed,
+        ...details,
+        memorialId: req.memorial!.id,
+        submittedById: req.user!.id,
+        status
+      }));
       
-      // Create a URL path to the file
-      const imagePath = `/uploads/${folder}/${req.file.filename}`;
+      res.status(201).json(image);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error("Error submitting photo:", error);
+      res.status(500).json({ message: "Failed to share photo" });
+    }
+  });
+
+  memorialRouter.put("/gallery/submissions/:id/approve", isAdmin, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const id = parseInt(req.params.id);
+      const { albumId } = z.object({ albumId: z.number().int().positive().nullish() }).parse(req.body);
       
-      // Update the setting with the file path
-      const settingData = insertSettingsSchema.parse({ key, value: imagePath });
-      const setting = await dbStorage.upsertSetting(settingData);
+      const submission = await dbStorage.getGalleryImageById(memorialId, id);
+      if (!submission || submission.status !== "pending") {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      if (albumId && !(await dbStorage.getAlbumById(memorialId, albumId))) {
+        return res.status(400).json({ message: "Album not found" });
+      }
       
-      res.json(setting);
+      const image = await dbStorage.updateGalleryImage(memorialId, id, { status: "approved" });
+      if (albumId) {
+        await dbStorage.addImageToAlbum(memorialId, albumId, id);
+      }
+      
+      res.json(image);
     } catch (error) {
-      console.error("Error uploading setting image:", error);
-      res.status(500).json({ message: "Failed to upload and process image" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid album", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to approve photo" });
     }
   });
 
-  // Funeral Program Routes
-  app.get("/api/funeral-program", async (req, res) => {
+  memorialRouter.put("/gallery/submissions/:id/reject", isAdmin, async (req, res) => {
     try {
-      const program = await dbStorage.getFuneralProgram();
+      const id = parseInt(req.params.id);
+      const submission = await dbStorage.getGalleryImageById(req.memorial!.id, id);
       
-      if (!program) {
-        return res.status(404).json({ message: "Funeral program not found" });
+      if (!submission || submission.status !== "pending") {
+        return res.status(404).json({ message: "Submission not found" });
       }
       
-      res.json(program);
+      const image = await dbStorage.updateGalleryImage(req.memorial!.id, id, { status: "rejected" });
+      res.json(image);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch funeral program" });
+      res.status(500).json({ message: "Failed to reject photo" });
     }
   });
 
-  app.put("/api/funeral-program", isAdmin, async (req, res) => {
+  // Takes every gallery image's id, in the new order
+  memorialRouter.put("/gallery/order", isAdmin, async (req, res) => {
     try {
-      const programData = req.body;
-      const program = await dbStorage.updateFuneralProgram(programData);
-      res.json(program);
+      const { ids } = z.object({ ids: z.array(z.number().int().positive()) }).parse(req.body);
+      const current = await dbStorage.getGalleryImages(req.memorial!.id);
+      
+      const isComplete = ids.length === current.length &&
+        new Set(ids).size === ids.length &&
+        current.every(image => ids.includes(image.id));
+      if (!isComplete) {
+        return res.status(400).json({ message: "The order must list every gallery image exactly once" });
+      }
+      
+      const images = await dbStorage.reorderGalleryImages(req.memorial!.id, ids);
+      res.json(await withImageContributors(images));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid gallery order", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reorder gallery" });
+    }
+  });
+
+  memorialRouter.put("/gallery/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Status, uploader and variants are set by the server, not edited here
+      const imageData = insertGallerySchema
+        .pick({ caption: true, isFeatured: true, order: true })
+        .partial()
+        .parse(req.body);
+      
+      const image = await dbStorage.updateGalleryImage(req.memorial!.id, id, imageData);
+      
+      if (!image) {
+        return res.status(404).json({ message: "Gallery image not found" });
+      }
+      
+      res.json(image);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update gallery image" });
+    }
+  });
+
+  memorialRouter.delete("/gallery/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await dbStorage.deleteGalleryImage(req.memorial!.id, id);
+      
+      if (deleted) {
+        res.status(200).json({ message: "Gallery image deleted successfully" });
+      } else {
+        res.status(404).json({ message: "Gallery image not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete gallery image" });
+    }
+  });
+
+  // Album Routes
+  // Album addresses are made from the title, numbered when one is taken
+  const uniqueAlbumSlug = async (memorialId: number, title: string) => {
+    const base = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "album";
+    let slug = base;
+    for (let suffix = 2; await dbStorage.getAlbumBySlug(memorialId, slug); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    return slug;
+  };
+
+  memorialRouter.get("/albums", async (req, res) => {
+    try {
+      const albums = await dbStorage.getAlbums(req.memorial!.id);
+      res.json(albums);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch albums" });
+    }
+  });
+
+  memorialRouter.get("/albums/:slug", async (req, res) => {
+    try {
+      const album = await dbStorage.getAlbumBySlug(req.memorial!.id, req.params.slug);
+      
+      if (!album) {
+        return res.status(404).json({ message: "Album not found" });
+      }
+      
+      const images = await dbStorage.getAlbumImages(req.memorial!.id, album.id);
+      res.json({ ...album, images: await withImageContributors(images) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch album" });
+    }
+  });
+
+  // Which images are in which albums, for the gallery manager
+  memorialRouter.get("/album-images", isAdmin, async (req, res) => {
+    try {
+      const links = await dbStorage.getAlbumImageLinks(req.memorial!.id);
+      res.json(links);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch album images" });
+    }
+  });
+
+  memorialRouter.post("/albums", isAdmin, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const title = typeof req.body.title === "string" ? req.body.title : "";
+      // New albums go to the end unless an order is given
+      const order = req.body.order ?? (await dbStorage.getAlbums(memorialId)).length;
+      const albumData = insertAlbumSchema.parse({
+        ...req.body,
+        slug: await uniqueAlbumSlug(memorialId, title),
+        order,
+        memorialId
+      });
+      
+      if (albumData.coverImageId && !(await dbStorage.getGalleryImageById(memorialId, albumData.coverImageId))) {
+        return res.status(400).json({ message: "Cover image not found" });
+      }
+      
+      const album = await dbStorage.createAlbum(albumData);
+      res.status(201).json(album);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create album" });
+    }
+  });
+
+  memorialRouter.put("/albums/order", isAdmin, async (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.number().int().positive()) }).parse(req.body);
+      const current = await dbStorage.getAlbums(req.memorial!.id);
+      
+      const isComplete = ids.length === current.length &&
+        new Set(ids).size === ids.length &&
+        current.every(album => ids.includes(album.id));
+      if (!isComplete) {
+        return res.status(400).json({ message: "The order must list every album exactly once" });
+      }
+      
+      const albums = await dbStorage.reorderAlbums(req.memorial!.id, ids);
+      res.json(albums);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid album order", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reorder albums" });
+    }
+  });
+
+  memorialRouter.put("/albums/:id", isAdmin, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const id = parseInt(req.params.id);
+      const existing = await dbStorage.getAlbumById(memorialId, id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Album not found" });
+      }
+      
+      const albumData = insertAlbumSchema.parse({ ...existing, ...req.body, memorialId });
+      
+      if (albumData.slug !== existing.slug && await dbStorage.getAlbumBySlug(memorialId, albumData.slug)) {
+        return res.status(400).json({ message: "Another album already uses this address" });
+      }
+      if (albumData.coverImageId && !(await dbStorage.getGalleryImageById(memorialId, albumData.coverImageId))) {
+        return res.status(400).json({ message: "Cover image not found" });
+      }
+      
+      const album = await dbStorage.updateAlbum(memorialId, id, albumData);
+      res.json(album);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update album" });
+    }
+  });
+
+  memorialRouter.delete("/albums/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await dbStorage.deleteAlbum(req.memorial!.id, id);
+      
+      if (deleted) {
+        res.status(200).json({ message: "Album deleted successfully" });
+      } else {
+        res.status(404).json({ message: "Album not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete album" });
+    }
+  });
+
+  memorialRouter.put("/albums/:id/images/:imageId", isAdmin, async (req, res) => {
+    try {
+      const added = await dbStorage.addImageToAlbum(req.memorial!.id, parseInt(req.params.id), parseInt(req.params.imageId));
+      
+      if (!added) {
+        return res.status(404).json({ message: "Album or image not found" });
+      }
+      
+      res.json({ message: "Image added to album" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to add image to album" });
+    }
+  });
+
+  memorialRouter.delete("/albums/:id/images/:imageId", isAdmin, async (req, res) => {
+    try {
+      const removed = await dbStorage.removeImageFromAlbum(req.memorial!.id, parseInt(req.params.id), parseInt(req.params.imageId));
+      
+      if (!removed) {
+        return res.status(404).json({ message: "Image is not in this album" });
+      }
+      
+      res.json({ message: "Image removed from album" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove image from album" });
+    }
+  });
+
+  // Photo Tag Routes
+  // Tags for the same person share a key: their account when the tag is
+  // linked to one, otherwise their name
+  const personKey = (tag: PhotoTag) => tag.userId !== null
+    ? `user-${tag.userId}`
+    : tag.name.trim().toLowerCase().replace(/\s+/g, "-");
+
+  // Attaches each tag's person key and linked account, looking each account up once
+  const withTaggedUsers = async (tags: PhotoTag[]): Promise<PhotoTagItem[]> => {
+    const userIds = Array.from(new Set(tags.map(tag => tag.userId)));
+    const users = new Map<number, { id: number; name: string }>();
+    for (const userId of userIds) {
+      const user = userId !== null ? await dbStorage.getUser(userId) : undefined;
+      if (user) users.set(user.id, { id: user.id, name: user.name });
+    }
+    
+    return tags.map(tag => ({
+      ...tag,
+      personKey: personKey(tag),
+      user: tag.userId !== null ? users.get(tag.userId) ?? null : null
+    }));
+  };
+
+  // Groups tags by person; a linked person goes by their account's name
+  const taggedPeople = (tags: PhotoTagItem[]) => {
+    const people = new Map<string, PersonSummary & { imageIds: Set<number> }>();
+    tags.forEach(tag => {
+      const person = people.get(tag.personKey) ?? {
+        key: tag.personKey,
+        name: tag.user?.name ?? tag.name,
+        userId: tag.userId,
+        imageCount: 0,
+        imageIds: new Set<number>()
+      };
+      person.imageIds.add(tag.imageId);
+      person.imageCount = person.imageIds.size;
+      people.set(tag.personKey, person);
+    });
+    
+    return Array.from(people.values())
+      .map(({ imageIds, ...person }): PersonSummary => person)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  // Admins and approved contributors, who have a published tribute or
+  // shared photo here, can tag people
+  const canTagPhotos = async (user: Express.User, memorialId: number) => {
+    return await canAdminister(user, memorialId)
+      || (await dbStorage.getContributorIds(memorialId)).includes(user.id);
+  };
+
+  // Contributors can change the tags they added; admins can change any
+  const canEditTag = async (user: Express.User, tag: PhotoTag) => {
+    return await canAdminister(user, tag.memorialId)
+      || (tag.createdById === user.id && await canTagPhotos(user, tag.memorialId));
+  };
+
+  // The accounts a tag can be linked to: the memorial's contributors and admins
+  const linkableUsers = async (memorialId: number) => {
+    const userIds = new Set(await dbStorage.getContributorIds(memorialId));
+    (await dbStorage.getMemorialAdminUserIds(memorialId)).forEach(userId => userIds.add(userId));
+    
+    const users: { id: number; name: string }[] = [];
+    for (const userId of Array.from(userIds)) {
+      const user = await dbStorage.getUser(userId);
+      if (user) users.push({ id: user.id, name: user.name });
+    }
+    return users.sort((a, b) => a.name.localeCompare(b.name));
+  };
+
+  memorialRouter.get("/photo-tags", async (req, res) => {
+    try {
+      const tags = await dbStorage.getPhotoTags(req.memorial!.id);
+      res.json(await withTaggedUsers(tags));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch photo tags" });
+    }
+  });
+
+  // Whether the signed-in user can tag photos, and who they can link tags to
+  memorialRouter.get("/photo-tags/access", isAuthenticated, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const canTag = await canTagPhotos(req.user!, memorialId);
+      res.json({ canTag, users: canTag ? await linkableUsers(memorialId) : [] });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check photo tagging access" });
+    }
+  });
+
+  memorialRouter.post("/gallery/:id/tags", isAuthenticated, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      if (!(await canTagPhotos(req.user!, memorialId))) {
+        return res.status(403).json({ message: "Only the family and contributors can tag photos" });
+      }
+      
+      const image = await dbStorage.getGalleryImageById(memorialId, parseInt(req.params.id));
+      if (image?.status !== "approved") {
+        return res.status(404).json({ message: "Gallery image not found" });
+      }
+      
+      const tagData = insertPhotoTagSchema.parse({
+        ...req.body,
+        memorialId,
+        imageId: image.id,
+        createdById: req.user!.id
+      });
+      
+      if (tagData.userId && !(await linkableUsers(memorialId)).some(user => user.id === tagData.userId)) {
+        return res.status(400).json({ message: "Tags can only be linked to the memorial's contributors" });
+      }
+      
+      const tag = await dbStorage.createPhotoTag(tagData);
+      const [tagItem] = await withTaggedUsers([tag]);
+      res.status(201).json(tagItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to tag photo" });
+    }
+  });
+
+  memorialRouter.put("/photo-tags/:id", isAuthenticated, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const existing = await dbStorage.getPhotoTagById(memorialId, parseInt(req.params.id));
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Photo tag not found" });
+      }
+      if (!(await canEditTag(req.user!, existing))) {
+        return res.status(403).json({ message: "You can only change tags you added" });
+      }
+      
+      const tagData = insertPhotoTagSchema.parse({
+        ...existing,
+        ...req.body,
+        memorialId,
+        imageId: existing.imageId,
+        createdById: existing.createdById
+      });
+      
+      if (tagData.userId && tagData.userId !== existing.userId
+        && !(await linkableUsers(memorialId)).some(user => user.id === tagData.userId)) {
+        return res.status(400).json({ message: "Tags can only be linked to the memorial's contributors" });
+      }
+      
+      const tag = await dbStorage.updatePhotoTag(memorialId, existing.id, tagData);
+      const [tagItem] = await withTaggedUsers(tag ? [tag] : []);
+      res.json(tagItem);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update photo tag" });
+    }
+  });
+
+  memorialRouter.delete("/photo-tags/:id", isAuthenticated, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const tag = await dbStorage.getPhotoTagById(memorialId, parseInt(req.params.id));
+      
+      if (!tag) {
+        return res.status(404).json({ message: "Photo tag not found" });
+      }
+      if (!(await canEditTag(req.user!, tag))) {
+        return res.status(403).json({ message: "You can only remove tags you added" });
+      }
+      
+      await dbStorage.deletePhotoTag(memorialId, tag.id);
+      res.json({ message: "Photo tag removed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to remove photo tag" });
+    }
+  });
+
+  // Everyone tagged in the gallery, by name
+  memorialRouter.get("/people", async (req, res) => {
+    try {
+      const tags = await withTaggedUsers(await dbStorage.getPhotoTags(req.memorial!.id));
+      res.json(taggedPeople(tags));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch people" });
+    }
+  });
+
+  // A person's photos, in gallery order, and the tributes they've written
+  // when their tags are linked to an account
+  memorialRouter.get("/people/:key", async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const tags = (await withTaggedUsers(await dbStorage.getPhotoTags(memorialId)))
+        .filter(tag => tag.personKey === req.params.key);
+      const [person] = taggedPeople(tags);
+      
+      if (!person) {
+        return res.status(404).json({ message: "Person not found" });
+      }
+      
+      const imageIds = new Set(tags.map(tag => tag.imageId));
+      const images = (await dbStorage.getGalleryImages(memorialId)).filter(image => imageIds.has(image.id));
+      const tributes = person.userId !== null
+        ? await dbStorage.getTributeFeed(memorialId, {
+          authorId: person.userId,
+          viewerId: req.isAuthenticated() ? req.user.id : undefined
+        })
+        : [];
+      
+      res.json({ person, images: await withImageContributors(images), tributes });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch person" });
+    }
+  });
+
+  // User Management Routes (Super-admin only)
+  app.get("/api/users", isSuperAdmin, async (req, res) => {
+    try {
+      // This endpoint is for admin to get a list of all users
+      const users = await Promise.all(
+        (await dbStorage.getAllUsers()).map(user => {
+          // Remove password field for security
+          const { password, ...userWithoutPassword } = user;
+          return userWithoutPassword;
+        })
+      );
+      
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  app.put("/api/users/:id/role", isSuperAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { isAdmin } = req.body;
+      
+      // Validate the isAdmin field is provided
+      if (typeof isAdmin !== 'boolean') {
+        return res.status(400).json({ message: "isAdmin field must be a boolean" });
+      }
+      
+      // Don't allow users to remove their own admin status
+      if (req.user.id === userId && !isAdmin) {
+        return res.status(403).json({ message: "You cannot remove your own admin status" });
+      }
+      
+      const updatedUser = await dbStorage.updateUser(userId, { isAdmin });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      // Return user without password
+      const { password, ...userWithoutPassword } = updatedUser;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+  
+  app.put("/api/users/:id/reset-password", isSuperAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { newPassword } = req.body;
+      
+      // Validate the new password
+      if (!newPassword || newPassword.length < 8) {
+        return res.status(400).json({ message: "Password must be at least 8 characters long" });
+      }
+      
+      // Hash the new password
+      const hashedPassword = await hashPassword(newPassword);
+      
+      const updatedUser = await dbStorage.updateUser(userId, { password: hashedPassword });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json({ message: "Password reset successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Memorial admin management: memorial admins see who helps run their memorial
+  memorialRouter.get("/users", isAdmin, async (req, res) => {
+    try {
+      const adminIds = new Set(await dbStorage.getMemorialAdminUserIds(req.memorial!.id));
+      const users = (await dbStorage.getAllUsers()).map(user => ({
+        id: user.id,
+        username: user.username,
+        name: user.name,
+        // Email addresses are only shared with super-admins
+        email: req.user!.isAdmin ? user.email : null,
+        isAdmin: user.isAdmin || adminIds.has(user.id),
+        isSuperAdmin: user.isAdmin
+      }));
+      
+      res.json(users);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  memorialRouter.put("/users/:id/admin", isAdmin, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { isAdmin } = req.body;
+      
+      if (typeof isAdmin !== 'boolean') {
+        return res.status(400).json({ message: "isAdmin field must be a boolean" });
+      }
+      
+      // Don't allow admins to lock themselves out of the memorial
+      if (req.user!.id === userId && !isAdmin) {
+        return res.status(403).json({ message: "You cannot remove your own admin status" });
+      }
+      
+      const user = await dbStorage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      if (isAdmin) {
+        await dbStorage.addMemorialAdmin(req.memorial!.id, userId);
+      } else {
+        await dbStorage.removeMemorialAdmin(req.memorial!.id, userId);
+      }
+      
+      res.json({ id: user.id, isAdmin: isAdmin || user.isAdmin });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update memorial admin" });
+    }
+  });
+
+  // Settings Routes
+  memorialRouter.get("/settings", async (req, res) => {
+    try {
+      const settings = await dbStorage.getAllSettings(req.memorial!.id);
+      
+      // Convert to key-value object
+      const settingsObj = settings.reduce((acc, setting) => {
+        acc[setting.key] = setting.value;
+        return acc;
+      }, {} as Record<string, string>);
+      
+      res.json(settingsObj);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  memorialRouter.get("/settings/:key", async (req, res) => {
+    try {
+      const key = req.params.key;
+      const setting = await dbStorage.getSetting(req.memorial!.id, key);
+      
+      if (!setting) {
+        return res.status(404).json({ message: "Setting not found" });
+      }
+      
+      res.json({ value: setting.value });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch setting" });
+    }
+  });
+
+  memorialRouter.put("/settings/:key", isAdmin, async (req, res) => {
+    try {
+      const key = req.params.key;
+      const { value } = req.body;
+      
+      if (!value) {
+        return res.status(400).json({ message: "Value is required" });
+      }
+      
+      const settingData = insertSettingsSchema.parse({ memorialId: req.memorial!.id, key, value });
+      const setting = await dbStorage.upsertSetting(settingData);
+      
+      res.json(setting);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid setting data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update setting" });
+    }
+  });
+  
+  // Handle setting image uploads (for tribute image and background image)
+  memorialRouter.post("/settings/upload/:key", isAdmin, upload.single("image"), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No image file provided" });
+      }
+      
+      const key = req.params.key;
+      
+      // Only allow certain keys to be updated via file upload
+      if (key !== "tributeImage" && key !== "backgroundImage") {
+        return res.status(400).json({ message: "Invalid setting key for image upload" });
+      }
+      
+      // Determine the appropriate folder based on the key
+      const folder = key === "tributeImage" ? "tribute" : "background";
+      
+      // Settings hold a single URL, so store the largest processed variant
+      const processed = await processImage(req.file.buffer, folder);
+      
+      // Update the setting with the file path
+      const settingData = insertSettingsSchema.parse({ memorialId: req.memorial!.id, key, value: processed.imageUrl });
+      const setting = await dbStorage.upsertSetting(settingData);
+      
+      res.json(setting);
+    } catch (error) {
+      console.error("Error uploading setting image:", error);
+      res.status(500).json({ message: "Failed to upload and process image" });
+    }
+  });
+
+  // Funeral Program Routes
+  memorialRouter.get("/funeral-program", async (req, res) => {
+    try {
+      const program = await dbStorage.getFuneralProgram(req.memorial!.id);
+      
+      if (!program) {
+        return res.status(404).json({ message: "Funeral program not found" });
+      }
+      
+      res.json(program);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch funeral program" });
+    }
+  });
+
+  memorialRouter.put("/funeral-program", isAdmin, async (req, res) => {
+    try {
+      const programData = insertFuneralProgramSchema.partial().parse(req.body);
+      const program = await dbStorage.updateFuneralProgram(req.memorial!.id, programData);
+      res.json(program);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid funeral program data", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to update funeral program" });
     }
   });
 
+  // Calendar file for every service event, or just one with ?eventId=
+  memorialRouter.get("/funeral-program/calendar.ics", async (req, res) => {
+    try {
+      const memorial = req.memorial!;
+      let events = await dbStorage.getEvents(memorial.id);
+      
+      if (req.query.eventId) {
+        const eventId = parseInt(req.query.eventId as string);
+        events = events.filter(event => event.id === eventId);
+        
+        if (events.length === 0) {
+          return res.status(404).json({ message: "Event not found" });
+        }
+      }
+      
+      const host = req.get("host") || "localhost";
+      const calendar = buildCalendar(events, {
+        memorialName: memorial.name,
+        host,
+        programUrl: `${req.protocol}://${host}/m/${memorial.slug}/program`
+      });
+      
+      const filename = events.length === 1 && req.query.eventId
+        ? `${memorial.slug}-${events[0].type}.ics`
+        : `${memorial.slug}-services.ics`;
+      
+      res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(calendar);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate calendar" });
+    }
+  });
+
+  // Printable order of service, rendered on first request and cached until
+  // the sections, events or settings it uses change
+  memorialRouter.get("/funeral-program/program.pdf", async (req, res) => {
+    try {
+      const memorial = req.memorial!;
+      const layout = (req.query.layout || "single") as ProgramLayout;
+      
+      if (!programLayouts.includes(layout)) {
+        return res.status(400).json({ message: "Invalid layout" });
+      }
+      
+      const [allSettings, events, sections] = await Promise.all([
+        dbStorage.getAllSettings(memorial.id),
+        dbStorage.getEvents(memorial.id),
+        dbStorage.getProgramSections(memorial.id)
+      ]);
+      
+      if (sections.length === 0) {
+        return res.status(404).json({ message: "No order of service has been set up" });
+      }
+      
+      const settingsObj = Object.fromEntries(allSettings.map(setting => [setting.key, setting.value]));
+      const filePath = await getProgramPdf(memorial.id, layout, {
+        name: memorial.name,
+        lifeDates: settingsObj.lifeDates,
+        tributeImageUrl: settingsObj.tributeImage,
+        closingMessage: settingsObj.footerMessage,
+        events,
+        sections
+      });
+      
+      const filename = layout === "booklet" ? `${memorial.slug}-program-booklet.pdf` : `${memorial.slug}-program.pdf`;
+      res.setHeader("Content-Disposition", `inline; filename="${filename}"`);
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("Error rendering program PDF:", error);
+      res.status(500).json({ message: "Failed to generate program" });
+    }
+  });
+
+  // Order of Service Routes
+  memorialRouter.get("/program-sections", async (req, res) => {
+    try {
+      const sections = await dbStorage.getProgramSections(req.memorial!.id);
+      res.json(sections);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch order of service" });
+    }
+  });
+
+  memorialRouter.post("/program-sections", isAdmin, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      // New sections go to the end unless an order is given
+      const order = req.body.order ?? (await dbStorage.getProgramSections(memorialId)).length;
+      const sectionData = insertProgramSectionSchema.parse({ ...req.body, order, memorialId });
+      const section = await dbStorage.createProgramSection(sectionData);
+      res.status(201).json(section);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid section data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create section" });
+    }
+  });
+
+  memorialRouter.put("/program-sections/order", isAdmin, async (req, res) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.number().int().positive()) }).parse(req.body);
+      const sections = await dbStorage.reorderProgramSections(req.memorial!.id, ids);
+      res.json(sections);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid section order", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reorder sections" });
+    }
+  });
+
+  memorialRouter.put("/program-sections/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await dbStorage.getProgramSectionById(req.memorial!.id, id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+      
+      const sectionData = insertProgramSectionSchema.parse({ ...existing, ...req.body, memorialId: req.memorial!.id });
+      const section = await dbStorage.updateProgramSection(req.memorial!.id, id, sectionData);
+      
+      res.json(section);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid section data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update section" });
+    }
+  });
+
+  memorialRouter.delete("/program-sections/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await dbStorage.deleteProgramSection(req.memorial!.id, id);
+      
+      if (deleted) {
+        res.status(200).json({ message: "Section deleted successfully" });
+      } else {
+        res.status(404).json({ message: "Section not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete section" });
+    }
+  });
+
+  // Service Event Routes
+  memorialRouter.get("/events", async (req, res) => {
+    try {
+      const events = await dbStorage.getEvents(req.memorial!.id);
+      res.json(events);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch events" });
+    }
+  });
+
+  memorialRouter.post("/events", isAdmin, async (req, res) => {
+    try {
+      const eventData = insertEventSchema.parse({ ...req.body, memorialId: req.memorial!.id });
+      const event = await dbStorage.createEvent(eventData);
+      res.status(201).json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create event" });
+    }
+  });
+
+  memorialRouter.put("/events/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await dbStorage.getEventById(req.memorial!.id, id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Event not found" });
+      }
+      
+      // Validate the merged event so start/end stay consistent on partial updates
+      const eventData = insertEventSchema.parse({ ...existing, ...req.body, memorialId: req.memorial!.id });
+      const event = await dbStorage.updateEvent(req.memorial!.id, id, eventData);
+      
+      res.json(event);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid event data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update event" });
+    }
+  });
+
+  memorialRouter.delete("/events/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await dbStorage.deleteEvent(req.memorial!.id, id);
+      
+      if (deleted) {
+        res.status(200).json({ message: "Event deleted successfully" });
+      } else {
+        res.status(404).json({ message: "Event not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete event" });
+    }
+  });
+
+  // Notification preference routes: admins choose which emails they get for this memorial
+  memorialRouter.get("/notifications/preferences", isAdmin, async (req, res) => {
+    try {
+      const preferences = await dbStorage.getNotificationPreferences(req.memorial!.id, req.user!.id);
+      res.json({ preferences, email: req.user!.email || null });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  memorialRouter.put("/notifications/preferences", isAdmin, async (req, res) => {
+    try {
+      const updates = z.record(z.enum(notificationKinds), z.boolean()).parse(req.body);
+      
+      for (const [kind, enabled] of Object.entries(updates)) {
+        await dbStorage.setNotificationPreference(req.memorial!.id, req.user!.id, kind as typeof notificationKinds[number], enabled);
+      }
+      
+      const preferences = await dbStorage.getNotificationPreferences(req.memorial!.id, req.user!.id);
+      res.json({ preferences, email: req.user!.email || null });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid notification preferences", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  // RSVP Routes
+  // Anyone can respond; signed-in visitors are linked to their account
+  memorialRouter.post("/rsvps", async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const userId = req.isAuthenticated() ? req.user.id : null;
+      
+      const rsvpData = insertRsvpSchema.parse({
+        ...req.body,
+        memorialId,
+        userId,
+        email: req.body.email || (req.isAuthenticated() ? req.user.email : null) || null
+      });
+      
+      // Without an account the email is the only way to recognise a repeat response
+      if (userId === null && !rsvpData.email) {
+        return res.status(400).json({ message: "Please provide an email address so your RSVP can be updated later" });
+      }
+      
+      const eventIds = new Set((await dbStorage.getEvents(memorialId)).map(event => event.id));
+      if (rsvpData.eventIds.some(id => !eventIds.has(id))) {
+        return res.status(400).json({ message: "One or more selected events do not exist" });
+      }
+      
+      const existing = await dbStorage.findRsvp(memorialId, userId, rsvpData.email ?? null);
+      
+      if (existing) {
+        // An RSVP tied to an account can only be changed by that account
+        if (existing.userId !== null && existing.userId !== userId) {
+          return res.status(403).json({ message: "An RSVP with this email already exists. Please sign in to change it." });
+        }
+        
+        // Emails are unique per memorial, so changing to one another RSVP uses can't be saved
+        if (rsvpData.email && rsvpData.email !== existing.email) {
+          const emailOwner = await dbStorage.findRsvp(memorialId, null, rsvpData.email);
+          if (emailOwner && emailOwner.id !== existing.id) {
+            return res.status(409).json({ message: "Another RSVP already uses this email address. Please use a different one." });
+          }
+        }
+        
+        const rsvp = await dbStorage.updateRsvp(memorialId, existing.id, rsvpData);
+        return res.json(rsvp);
+      }
+      
+      const rsvp = await dbStorage.createRsvp(rsvpData);
+      res.status(201).json(rsvp);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid RSVP", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save RSVP" });
+    }
+  });
+
+  // The signed-in user's own RSVP, used to pre-fill the form
+  memorialRouter.get("/rsvps/mine", isAuthenticated, async (req, res) => {
+    try {
+      const rsvp = await dbStorage.findRsvp(req.memorial!.id, req.user!.id, null);
+      res.json(rsvp ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch RSVP" });
+    }
+  });
+
+  memorialRouter.get("/rsvps", isAdmin, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const [rsvps, events] = await Promise.all([
+        dbStorage.getRsvps(memorialId),
+        dbStorage.getEvents(memorialId)
+      ]);
+      
+      const totals = {
+        responses: rsvps.length,
+        guests: rsvps.reduce((sum, rsvp) => sum + rsvp.partySize, 0),
+        events: events.map(event => {
+          const attending = rsvps.filter(rsvp => rsvp.eventIds.includes(event.id));
+          return {
+            eventId: event.id,
+            responses: attending.length,
+            guests: attending.reduce((sum, rsvp) => sum + rsvp.partySize, 0)
+          };
+        })
+      };
+      
+      res.json({ rsvps, totals });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch RSVPs" });
+    }
+  });
+
+  memorialRouter.get("/rsvps/export.csv", isAdmin, async (req, res) => {
+    try {
+      const memorialId = req.memorial!.id;
+      const [rsvps, events] = await Promise.all([
+        dbStorage.getRsvps(memorialId),
+        dbStorage.getEvents(memorialId)
+      ]);
+      
+      // One yes/no column per event so the family can total each in a spreadsheet
+      const header = ["Name", "Email", "Party Size", ...events.map(eventLabel), "Dietary Notes", "Responded"];
+      const rows = rsvps.map(rsvp => [
+        rsvp.name,
+        rsvp.email,
+        rsvp.partySize,
+        ...events.map(event => rsvp.eventIds.includes(event.id) ? "Yes" : ""),
+        rsvp.dietaryNotes,
+        rsvp.updatedAt.toISOString()
+      ]);
+      
+      const csv = [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n");
+      
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${req.memorial!.slug}-rsvps.csv"`);
+      res.send(csv);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export RSVPs" });
+    }
+  });
+
+  memorialRouter.delete("/rsvps/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await dbStorage.deleteRsvp(req.memorial!.id, id);
+      
+      if (deleted) {
+        res.status(200).json({ message: "RSVP deleted successfully" });
+      } else {
+        res.status(404).json({ message: "RSVP not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete RSVP" });
+    }
+  });
+
+  // Guestbook Routes
+  // Visitors sign and light candles without an account. Instead of a CAPTCHA,
+  // each submission carries a solved proof-of-work challenge and an empty
+  // honeypot field, and is rate limited per IP.
+  const guestbookProofOfWork = createProofOfWork({
+    secret: SESSION_SECRET,
+    difficulty: parseInt(process.env.GUESTBOOK_POW_DIFFICULTY || "16"),
+    ttlMs: 10 * 60 * 1000
+  });
+  const visitorCookie = createVisitorCookie(SESSION_SECRET);
+  const guestbookSignLimit = rateLimit({
+    windowMs: 15 * 60 * 1000,
+    max: 5,
+    message: "You've signed the guestbook several times in a row. Please try again later."
+  });
+  const guestCandleLimit = rateLimit({
+    windowMs: 60 * 60 * 1000,
+    max: 20,
+    message: "Too many candles lit from this connection. Please try again later."
+  });
+
+  // Rejects bots before a request reaches the handler. A filled honeypot gets
+  // the same response as a real submission so the bot has nothing to learn from.
+  const verifyGuestSubmission = (req: Request, res: Response, next: Function) => {
+    if (typeof req.body.website === "string" && req.body.website.trim() !== "") {
+      return res.status(201).json({ message: "Thank you" });
+    }
+    
+    if (!guestbookProofOfWork.verify(req.body.challenge, req.body.nonce)) {
+      return res.status(400).json({ message: "We couldn't verify your browser. Please try again." });
+    }
+    
+    next();
+  };
+
+  memorialRouter.get("/guestbook", async (req, res) => {
+    try {
+      res.json(await dbStorage.getGuestbookEntries(req.memorial!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch guestbook" });
+    }
+  });
+
+  memorialRouter.get("/guestbook/challenge", (req, res) => {
+    res.set("Cache-Control", "no-store");
+    res.json(guestbookProofOfWork.issue());
+  });
+
+  memorialRouter.post("/guestbook", guestbookSignLimit, verifyGuestSubmission, async (req, res) => {
+    try {
+      const entryData = insertGuestbookEntrySchema.parse({
+        name: req.body.name,
+        town: req.body.town || null,
+        relationship: req.body.relationship || null,
+        message: req.body.message,
+        memorialId: req.memorial!.id
+      });
+      
+      const entry = await dbStorage.createGuestbookEntry(entryData);
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to sign guestbook" });
+    }
+  });
+
+  memorialRouter.delete("/guestbook/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await dbStorage.deleteGuestbookEntry(req.memorial!.id, id);
+      
+      if (deleted) {
+        res.status(200).json({ message: "Guestbook entry deleted successfully" });
+      } else {
+        res.status(404).json({ message: "Guestbook entry not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete guestbook entry" });
+    }
+  });
+
+  // Candle count for the memorial, and whether this browser has lit one
+  memorialRouter.get("/guestbook/candles", async (req, res) => {
+    try {
+      const visitorId = visitorCookie.read(req);
+      
+      res.json({
+        count: await dbStorage.getGuestCandleCount(req.memorial!.id),
+        lit: visitorId ? await dbStorage.hasGuestCandle(req.memorial!.id, visitorId) : false
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch candles" });
+    }
+  });
+
+  memorialRouter.post("/guestbook/candles", guestCandleLimit, verifyGuestSubmission, async (req, res) => {
+    try {
+      const visitorId = visitorCookie.ensure(req, res);
+      const lit = await dbStorage.lightGuestCandle(req.memorial!.id, visitorId);
+      
+      res.status(lit ? 201 : 200).json({
+        count: await dbStorage.getGuestCandleCount(req.memorial!.id),
+        lit: true
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to light candle" });
+    }
+  });
+
+  // Life Story Routes
+  // Every save adds a revision, so earlier versions can always be restored
+  memorialRouter.get("/story", async (req, res) => {
+    try {
+      const [current] = await dbStorage.getLifeStoryRevisions(req.memorial!.id, 1);
+      res.json(current ?? null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch life story" });
+    }
+  });
+
+  memorialRouter.get("/story/revisions", isAdmin, async (req, res) => {
+    try {
+      res.json(await dbStorage.getLifeStoryRevisions(req.memorial!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch life story history" });
+    }
+  });
+
+  memorialRouter.put("/story", isAdmin, async (req, res) => {
+    try {
+      if (typeof req.body.content !== "string") {
+        return res.status(400).json({ message: "Content must be a string" });
+      }
+      
+      const content = sanitizeHtml(req.body.content);
+      const [current] = await dbStorage.getLifeStoryRevisions(req.memorial!.id, 1);
+      
+      // Saving without changes doesn't clutter the history
+      if (current && current.content === content) {
+        return res.json(current);
+      }
+      
+      const revision = await dbStorage.createLifeStoryRevision(insertLifeStoryRevisionSchema.parse({
+        memorialId: req.memorial!.id,
+        content,
+        authorId: req.user!.id
+      }));
+      
+      res.status(201).json({ ...revision, author: { id: req.user!.id, name: req.user!.name } });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to save life story" });
+    }
+  });
+
+  // Restoring a revision saves its content again as the newest revision
+  memorialRouter.post("/story/revisions/:id/revert", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const previous = await dbStorage.getLifeStoryRevisionById(req.memorial!.id, id);
+      
+      if (!previous) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      const revision = await dbStorage.createLifeStoryRevision({
+        memorialId: req.memorial!.id,
+        content: sanitizeHtml(previous.content),
+        authorId: req.user!.id,
+        revertedFromId: previous.id
+      });
+      
+      res.status(201).json({ ...revision, author: { id: req.user!.id, name: req.user!.name } });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // Livestream Chat Routes
+  // Open to signed-in users until an admin closes it. Messages are kept after
+  // the service; hidden ones are only shown to admins.
+  // Per user, as mourners watching together often share one connection
+  const liveChatLimit = rateLimit({
+    windowMs: 60 * 1000,
+    max: 10,
+    message: "You're sending messages too quickly. Please wait a moment.",
+    keyGenerator: (req) => `user:${req.user!.id}`
+  });
+
+  const isLiveChatClosed = async (memorialId: number) =>
+    (await dbStorage.getSetting(memorialId, "liveChatClosed"))?.value === "true";
+
+  memorialRouter.get("/live/chat", async (req, res) => {
+    try {
+      const includeHidden = req.isAuthenticated() && await canAdminister(req.user, req.memorial!.id);
+      
+      res.json({
+        closed: await isLiveChatClosed(req.memorial!.id),
+        messages: await dbStorage.getLiveChat(req.memorial!.id, includeHidden)
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chat" });
+    }
+  });
+
+  memorialRouter.post("/live/chat", isAuthenticated, liveChatLimit, async (req, res) => {
+    try {
+      if (await isLiveChatClosed(req.memorial!.id)) {
+        return res.status(403).json({ message: "The chat has been closed" });
+      }
+      
+      const messageData = insertLiveChatMessageSchema.parse({
+        content: req.body.content,
+        memorialId: req.memorial!.id,
+        userId: req.user!.id
+      });
+      
+      const message = await dbStorage.createLiveChatMessage(messageData);
+      const item = { ...message, user: { id: req.user!.id, name: req.user!.name } };
+      
+      publishLiveUpdate(req.memorial!.id, { type: "chat.message", message: item });
+      res.status(201).json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Pins or hides a message; send only the flags being changed
+  memorialRouter.put("/live/chat/:id", isAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const changes = z.object({
+        pinned: z.boolean().optional(),
+        hidden: z.boolean().optional()
+      }).parse(req.body);
+      
+      const message = await dbStorage.updateLiveChatMessage(req.memorial!.id, id, changes);
+      
+      if (!message) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      
+      const author = await dbStorage.getUser(message.userId);
+      const item = { ...message, user: author ? { id: author.id, name: author.name } : null };
+      
+      publishLiveUpdate(req.memorial!.id, message.hidden
+        ? { type: "chat.hidden", messageId: message.id }
+        : { type: "chat.message", message: item });
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid message changes", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update message" });
+    }
+  });
+
+  memorialRouter.put("/live/chat-status", isAdmin, async (req, res) => {
+    try {
+      const { closed } = z.object({ closed: z.boolean() }).parse(req.body);
+      
+      await dbStorage.upsertSetting(insertSettingsSchema.parse({
+        memorialId: req.memorial!.id,
+        key: "liveChatClosed",
+        value: String(closed)
+      }));
+      
+      publishLiveUpdate(req.memorial!.id, { type: "chat.status", closed });
+      res.json({ closed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Closed must be true or false", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update chat" });
+    }
+  });
+
   // Create the HTTP server
   const httpServer = createServer(app);
   return httpServer;
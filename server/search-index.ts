@@ -0,0 +1,116 @@
+// In-memory stand-in for Postgres full-text search, used by MemStorage.
+// Tokenizing is deliberately close to the 'english' text search config:
+// case-folded words, common stop words dropped and plural/tense endings
+// stripped, so "fishing trips" matches "went fishing on a trip".
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "had", "has", "have",
+  "he", "her", "his", "i", "in", "is", "it", "its", "me", "my", "of", "on", "or", "our", "she",
+  "so", "that", "the", "their", "them", "they", "this", "to", "was", "we", "were", "with", "you",
+]);
+
+// Letters (including accented Latin ones) and digits, keeping contractions whole
+const WORD_PATTERN = /[a-z0-9\u00c0-\u024f]+(?:'[a-z\u00c0-\u024f]+)?/gi;
+
+function stem(word: string) {
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("es")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function normalize(word: string) {
+  const lower = word.toLowerCase().replace(/'s$/, "");
+  return STOP_WORDS.has(lower) ? undefined : stem(lower);
+}
+
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  const words = text.match(WORD_PATTERN) || [];
+  for (let i = 0; i < words.length; i++) {
+    const term = normalize(words[i]);
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+// An excerpt of up to `maxWords` words around the first match, with matching
+// words wrapped in <mark> the way ts_headline does
+export function highlight(text: string, query: string, maxWords = 35): string {
+  const queryTerms = new Set(tokenize(query));
+  const words = Array.from(text.matchAll(WORD_PATTERN));
+  const isMatch = (word: string) => {
+    const term = normalize(word);
+    return term !== undefined && queryTerms.has(term);
+  };
+
+  const firstMatch = Math.max(0, words.findIndex(match => isMatch(match[0])));
+  const start = Math.max(0, Math.min(firstMatch - 5, words.length - maxWords));
+  const end = Math.min(words.length, start + maxWords);
+  if (start >= end) return "";
+
+  let snippet = "";
+  let cursor = words[start].index!;
+  for (let i = start; i < end; i++) {
+    const { 0: word, index } = words[i];
+    snippet += text.slice(cursor, index);
+    snippet += isMatch(word) ? `<mark>${word}</mark>` : word;
+    cursor = index! + word.length;
+  }
+  return snippet;
+}
+
+export class SearchIndex {
+  // term -> keys of the documents containing it
+  private postings = new Map<string, Set<string>>();
+  // key -> the document's terms, kept so it can be unindexed
+  private documents = new Map<string, string[]>();
+
+  set(key: string, text: string) {
+    this.remove(key);
+
+    const terms = tokenize(text);
+    this.documents.set(key, terms);
+    terms.forEach(term => {
+      if (!this.postings.has(term)) this.postings.set(term, new Set());
+      this.postings.get(term)!.add(key);
+    });
+  }
+
+  remove(key: string) {
+    const terms = this.documents.get(key);
+    if (!terms) return;
+
+    terms.forEach(term => {
+      const keys = this.postings.get(term);
+      keys?.delete(key);
+      if (keys?.size === 0) this.postings.delete(term);
+    });
+    this.documents.delete(key);
+  }
+
+  // Documents containing every term of the query, ranked by how often the
+  // terms appear relative to the document's length
+  search(query: string): Array<{ key: string; rank: number }> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const candidates = queryTerms
+      .map(term => this.postings.get(term))
+      .sort((a, b) => (a?.size || 0) - (b?.size || 0));
+    if (!candidates[0]) return [];
+
+    const results: Array<{ key: string; rank: number }> = [];
+    candidates[0].forEach(key => {
+      if (!candidates.every(keys => keys?.has(key))) return;
+
+      const terms = this.documents.get(key)!;
+      const hits = terms.filter(term => queryTerms.includes(term)).length;
+      results.push({ key, rank: hits / (1 + Math.log(terms.length)) });
+    });
+
+    return results.sort((a, b) => b.rank - a.rank);
+  }
+}
@@ -1,377 +1,226 @@
-import { 
-  User, InsertUser, 
-  Tribute, InsertTribute,
+import {
+  User, InsertUser,
+  PasswordResetToken,
+  Memorial, InsertMemorial,
+  Tribute, InsertTribute, TributeStatus, TributeQuery, TributeFeedItem,
+  TributeComment, InsertTributeComment,
   GalleryImage, InsertGalleryImage,
+  Album, InsertAlbum, AlbumImage, AlbumSummary,
+  PhotoTag, InsertPhotoTag,
   Setting, InsertSetting,
   FuneralProgram, InsertFuneralProgram,
-  Candle, InsertCandle
+  ServiceEvent, InsertServiceEvent,
+  ProgramSection, InsertProgramSection,
+  Rsvp, InsertRsvp,
+  Reaction, ReactionKind, ReactionCounts,
+  GuestbookEntry, InsertGuestbookEntry,
+  LifeStoryRevision, InsertLifeStoryRevision, LifeStoryItem,
+  LiveChatMessage, InsertLiveChatMessage, LiveChatItem,
+  OutboxEmail, InsertOutboxEmail,
+  NotificationKind, NotificationPreferences,
+  SearchResult, SearchResultType
 } from "@shared/schema";
-import session from "express-session";
-import createMemoryStore from "memorystore";
 import { DatabaseStorage } from "./database-storage";
+import { MemStorage } from "./mem-storage";
 import dotenv from "dotenv";
 
 // Load environment variables
 dotenv.config();
 
-const MemoryStore = createMemoryStore(session);
-
-// Define the storage interface
+// Define the storage interface.
+// Every content method takes the memorialId first; lookups by id return
+// undefined (and updates/deletes do nothing) when the row belongs to a
+// different memorial.
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Case-insensitive; emails are not unique, so several accounts may match
+  getUsersByEmail(email: string): Promise<User[]>;
   getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
   deleteUser(id: number): Promise<boolean>;
   
+  // Password reset token methods
+  createPasswordResetToken(userId: number, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  // Marks the token used and returns it, or undefined if it is unknown, used or expired
+  consumePasswordResetToken(tokenHash: string, now: Date): Promise<PasswordResetToken | undefined>;
+  deletePasswordResetTokens(userId: number): Promise<void>;
+  
+  // Memorial methods
+  getMemorials(includeArchived?: boolean): Promise<Memorial[]>;
+  getMemorialById(id: number): Promise<Memorial | undefined>;
+  getMemorialBySlug(slug: string): Promise<Memorial | undefined>;
+  createMemorial(memorial: InsertMemorial): Promise<Memorial>;
+  updateMemorial(id: number, memorial: Partial<Memorial>): Promise<Memorial | undefined>;
+  
+  // Memorial admin methods
+  getMemorialAdminUserIds(memorialId: number): Promise<number[]>;
+  getAdministeredMemorialIds(userId: number): Promise<number[]>;
+  isMemorialAdmin(memorialId: number, userId: number): Promise<boolean>;
+  addMemorialAdmin(memorialId: number, userId: number): Promise<void>;
+  removeMemorialAdmin(memorialId: number, userId: number): Promise<boolean>;
+  
   // Tribute methods
-  getTributes(limit?: number, offset?: number): Promise<Tribute[]>;
-  getTributeById(id: number): Promise<Tribute | undefined>;
-  getTributesByUserId(userId: number): Promise<Tribute[]>;
+  // The tribute wall: approved tributes, plus the viewer's own pending ones when
+  // query.viewerId is given, each with its author, the viewer's reactions and
+  // its comment count, a page at a time starting after query.after
+  getTributeFeed(memorialId: number, query?: TributeQuery): Promise<TributeFeedItem[]>;
+  getTributesByStatus(memorialId: number, status: TributeStatus): Promise<Tribute[]>;
+  getTributeById(memorialId: number, id: number): Promise<Tribute | undefined>;
+  getTributesByUserId(memorialId: number, userId: number): Promise<Tribute[]>;
   createTribute(tribute: InsertTribute): Promise<Tribute>;
-  updateTribute(id: number, tribute: Partial<Tribute>): Promise<Tribute | undefined>;
-  deleteTribute(id: number): Promise<boolean>;
+  updateTribute(memorialId: number, id: number, tribute: Partial<Tribute>): Promise<Tribute | undefined>;
+  setTributeStatus(memorialId: number, id: number, status: TributeStatus, reason?: string): Promise<Tribute | undefined>;
+  deleteTribute(memorialId: number, id: number): Promise<boolean>;
+  
+  // Tribute comment methods
+  // Returns approved comments oldest first, plus the viewer's own pending ones when a viewerId is given
+  getTributeComments(memorialId: number, tributeId: number, viewerId?: number): Promise<TributeComment[]>;
+  getTributeCommentsByStatus(memorialId: number, status: TributeStatus): Promise<TributeComment[]>;
+  getTributeCommentById(memorialId: number, id: number): Promise<TributeComment | undefined>;
+  // Approved comment counts keyed by tribute id; tributes without comments are left out
+  getTributeCommentCounts(memorialId: number, tributeIds: number[]): Promise<Record<number, number>>;
+  createTributeComment(comment: InsertTributeComment): Promise<TributeComment>;
+  setTributeCommentStatus(memorialId: number, id: number, status: TributeStatus, reason?: string): Promise<TributeComment | undefined>;
+  // Also deletes the comment's replies
+  deleteTributeComment(memorialId: number, id: number): Promise<boolean>;
   
   // Gallery methods
-  getGalleryImages(limit?: number, offset?: number): Promise<GalleryImage[]>;
-  getFeaturedGalleryImages(): Promise<GalleryImage[]>;
-  getGalleryImageById(id: number): Promise<GalleryImage | undefined>;
+  // Only approved images; photos shared by visitors are listed separately until reviewed
+  getGalleryImages(memorialId: number, limit?: number, offset?: number): Promise<GalleryImage[]>;
+  getFeaturedGalleryImages(memorialId: number): Promise<GalleryImage[]>;
+  // Pending photos shared by visitors, oldest first
+  getGallerySubmissions(memorialId: number): Promise<GalleryImage[]>;
+  getGalleryImageById(memorialId: number, id: number): Promise<GalleryImage | undefined>;
   createGalleryImage(image: InsertGalleryImage): Promise<GalleryImage>;
-  updateGalleryImage(id: number, image: Partial<GalleryImage>): Promise<GalleryImage | undefined>;
-  deleteGalleryImage(id: number): Promise<boolean>;
+  updateGalleryImage(memorialId: number, id: number, image: Partial<GalleryImage>): Promise<GalleryImage | undefined>;
+  deleteGalleryImage(memorialId: number, id: number): Promise<boolean>;
+  // Sets each image's order to its position in ids; returns the gallery in its new order
+  reorderGalleryImages(memorialId: number, ids: number[]): Promise<GalleryImage[]>;
+  
+  // Album methods
+  // In display order, each with its image count and cover
+  getAlbums(memorialId: number): Promise<AlbumSummary[]>;
+  getAlbumById(memorialId: number, id: number): Promise<Album | undefined>;
+  getAlbumBySlug(memorialId: number, slug: string): Promise<Album | undefined>;
+  createAlbum(album: InsertAlbum): Promise<Album>;
+  updateAlbum(memorialId: number, id: number, album: Partial<Album>): Promise<Album | undefined>;
+  deleteAlbum(memorialId: number, id: number): Promise<boolean>;
+  reorderAlbums(memorialId: number, ids: number[]): Promise<AlbumSummary[]>;
+  getAlbumImages(memorialId: number, albumId: number): Promise<GalleryImage[]>;
+  // Every image-album pairing in the memorial
+  getAlbumImageLinks(memorialId: number): Promise<AlbumImage[]>;
+  // Returns false when the album or image belongs to another memorial, or the
+  // image hasn't been approved. An image already in the album keeps its place.
+  addImageToAlbum(memorialId: number, albumId: number, imageId: number): Promise<boolean>;
+  removeImageFromAlbum(memorialId: number, albumId: number, imageId: number): Promise<boolean>;
+  
+  // Photo tag methods
+  // Tags on approved images, grouped by image
+  getPhotoTags(memorialId: number): Promise<PhotoTag[]>;
+  getPhotoTagById(memorialId: number, id: number): Promise<PhotoTag | undefined>;
+  createPhotoTag(tag: InsertPhotoTag): Promise<PhotoTag>;
+  updatePhotoTag(memorialId: number, id: number, tag: Partial<PhotoTag>): Promise<PhotoTag | undefined>;
+  deletePhotoTag(memorialId: number, id: number): Promise<boolean>;
+  // Users with an approved tribute or shared photo on the memorial
+  getContributorIds(memorialId: number): Promise<number[]>;
   
   // Settings methods
-  getAllSettings(): Promise<Setting[]>;
-  getSetting(key: string): Promise<Setting | undefined>;
+  getAllSettings(memorialId: number): Promise<Setting[]>;
+  getSetting(memorialId: number, key: string): Promise<Setting | undefined>;
   upsertSetting(setting: InsertSetting): Promise<Setting>;
   
   // Funeral program methods
-  getFuneralProgram(): Promise<FuneralProgram | undefined>;
-  updateFuneralProgram(program: InsertFuneralProgram): Promise<FuneralProgram>;
-  
-  // Candle methods
-  addCandle(candle: InsertCandle): Promise<Candle>;
-  removeCandle(userId: number, tributeId: number): Promise<boolean>;
-  getCandles(tributeId: number): Promise<Candle[]>;
-  hasUserLitCandle(userId: number, tributeId: number): Promise<boolean>;
+  getFuneralProgram(memorialId: number): Promise<FuneralProgram | undefined>;
+  updateFuneralProgram(memorialId: number, program: Partial<InsertFuneralProgram>): Promise<FuneralProgram>;
+  
+  // Service event methods (listed by start time)
+  getEvents(memorialId: number): Promise<ServiceEvent[]>;
+  // Events from every memorial starting in [from, to), for scheduled reminders
+  getEventsStartingBetween(from: Date, to: Date): Promise<ServiceEvent[]>;
+  getEventById(memorialId: number, id: number): Promise<ServiceEvent | undefined>;
+  createEvent(event: InsertServiceEvent): Promise<ServiceEvent>;
+  updateEvent(memorialId: number, id: number, event: Partial<ServiceEvent>): Promise<ServiceEvent | undefined>;
+  deleteEvent(memorialId: number, id: number): Promise<boolean>;
+  
+  // Order of service methods (listed by order)
+  getProgramSections(memorialId: number): Promise<ProgramSection[]>;
+  getProgramSectionById(memorialId: number, id: number): Promise<ProgramSection | undefined>;
+  createProgramSection(section: InsertProgramSection): Promise<ProgramSection>;
+  updateProgramSection(memorialId: number, id: number, section: Partial<ProgramSection>): Promise<ProgramSection | undefined>;
+  deleteProgramSection(memorialId: number, id: number): Promise<boolean>;
+  // Sets each section's order to its position in ids
+  reorderProgramSections(memorialId: number, ids: number[]): Promise<ProgramSection[]>;
+  
+  // RSVP methods
+  getRsvps(memorialId: number): Promise<Rsvp[]>;
+  // Finds an earlier response from the same user or email, preferring the user match
+  findRsvp(memorialId: number, userId: number | null, email: string | null): Promise<Rsvp | undefined>;
+  createRsvp(rsvp: InsertRsvp): Promise<Rsvp>;
+  updateRsvp(memorialId: number, id: number, rsvp: Partial<Rsvp>): Promise<Rsvp | undefined>;
+  deleteRsvp(memorialId: number, id: number): Promise<boolean>;
+  
+  // Reaction methods (tributes are checked against the memorial before these are called)
+  // Adds or removes the user's reaction and adjusts the tribute's count in one
+  // step; setting the current state again changes nothing. Returns the
+  // tribute's counts afterwards, or undefined if the tribute doesn't exist.
+  setReaction(userId: number, tributeId: number, kind: ReactionKind, reacted: boolean): Promise<ReactionCounts | undefined>;
+  getReactions(tributeId: number): Promise<Reaction[]>;
+  // The kinds the user has left on each tribute, keyed by tribute id
+  getUserReactionKinds(userId: number, tributeIds: number[]): Promise<Record<number, ReactionKind[]>>;
+  // Recomputes every tribute's counts from its reaction rows; returns how many
+  // tributes were checked and how many had drifted
+  recountReactions(memorialId: number): Promise<{ checked: number; corrected: number }>;
+  // Moves candles counted before reactions existed into reactions, keeping
+  // those without a reaction row in legacyCandleCount. Runs at startup; safe
+  // to run again.
+  migrateLegacyCandles(): Promise<void>;
+  
+  // Guestbook methods
+  getGuestbookEntries(memorialId: number): Promise<GuestbookEntry[]>;
+  createGuestbookEntry(entry: InsertGuestbookEntry): Promise<GuestbookEntry>;
+  deleteGuestbookEntry(memorialId: number, id: number): Promise<boolean>;
+  
+  // Guest candle methods
+  getGuestCandleCount(memorialId: number): Promise<number>;
+  hasGuestCandle(memorialId: number, visitorId: string): Promise<boolean>;
+  // Returns false when this visitor has already lit a candle
+  lightGuestCandle(memorialId: number, visitorId: string): Promise<boolean>;
+  
+  // Life story methods
+  // Newest first; the first is the current story
+  getLifeStoryRevisions(memorialId: number, limit?: number): Promise<LifeStoryItem[]>;
+  getLifeStoryRevisionById(memorialId: number, id: number): Promise<LifeStoryRevision | undefined>;
+  createLifeStoryRevision(revision: InsertLifeStoryRevision): Promise<LifeStoryRevision>;
+  
+  // Live chat methods
+  // Oldest first, with each author's name
+  getLiveChat(memorialId: number, includeHidden: boolean): Promise<LiveChatItem[]>;
+  getLiveChatMessageById(memorialId: number, id: number): Promise<LiveChatMessage | undefined>;
+  createLiveChatMessage(message: InsertLiveChatMessage): Promise<LiveChatMessage>;
+  updateLiveChatMessage(memorialId: number, id: number, changes: { pinned?: boolean; hidden?: boolean }): Promise<LiveChatMessage | undefined>;
+  
+  // Email outbox methods
+  // Returns undefined when an email with the same dedupeKey was already queued
+  queueEmail(email: InsertOutboxEmail): Promise<OutboxEmail | undefined>;
+  getDueEmails(now: Date, limit: number): Promise<OutboxEmail[]>;
+  updateEmail(id: number, email: Partial<OutboxEmail>): Promise<OutboxEmail | undefined>;
+  
+  // Notification preference methods (every kind is enabled unless switched off)
+  getNotificationPreferences(memorialId: number, userId: number): Promise<NotificationPreferences>;
+  setNotificationPreference(memorialId: number, userId: number, kind: NotificationKind, enabled: boolean): Promise<void>;
+  
+  // Search methods
+  // Full-text search over published tributes (content and author name),
+  // published comments on them, and gallery captions; best matches first
+  search(memorialId: number, query: string, types: SearchResultType[], limit: number): Promise<SearchResult[]>;
   
   // Session store
   sessionStore: any; // Using 'any' to resolve SessionStore type issue
 }
 
-export class MemStorage implements IStorage {
-  private _users: Map<number, User>;
-  private _tributes: Map<number, Tribute>;
-  private _gallery: Map<number, GalleryImage>;
-  private _settings: Map<string, Setting>;
-  private _funeralProgram: FuneralProgram | undefined;
-  private _candles: Map<number, Candle>;
-  private _currentUserId: number;
-  private _currentTributeId: number;
-  private _currentGalleryId: number;
-  private _currentSettingId: number;
-  private _currentCandleId: number;
-  
-  sessionStore: any; // Using 'any' to resolve SessionStore type issue
-  
-  constructor() {
-    this._users = new Map();
-    this._tributes = new Map();
-    this._gallery = new Map();
-    this._settings = new Map();
-    this._candles = new Map();
-    
-    this._currentUserId = 1;
-    this._currentTributeId = 1;
-    this._currentGalleryId = 1;
-    this._currentSettingId = 1;
-    this._currentCandleId = 1;
-    
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000 // 24 hours
-    });
-    
-    // Initialize with default settings
-    this.upsertSetting({
-      key: "backgroundImage",
-      value: "https://images.unsplash.com/photo-1507525428034-b723cf961d3e"
-    });
-    
-    this.upsertSetting({
-      key: "tributeImage",
-      value: "https://images.unsplash.com/photo-1552058544-f2b08422138a"
-    });
-    
-    this.upsertSetting({
-      key: "footerMessage",
-      value: "\"As long as we live, they too will live, for they are now a part of us, as we remember them.\""
-    });
-    
-    // Add an admin user
-    this.createUser({
-      username: "admin",
-      password: "admin123",
-      name: "Administrator",
-      isAdmin: true,
-      email: "admin@example.com"
-    });
-    
-    // Initialize funeral program
-    this.updateFuneralProgram({
-      date: "Saturday, October 21, 2023",
-      time: "1:00 PM - 3:00 PM",
-      location: "Seaside Memorial Chapel",
-      address: "1234 Coastal Highway, Oceanview, CA 92123",
-      streamLink: "https://example.com/stream",
-      programPdfUrl: "https://example.com/program.pdf"
-    });
-    
-    // Add sample gallery images
-    this.createGalleryImage({
-      imageUrl: "https://images.unsplash.com/photo-1472791108553-c9405341e398",
-      caption: "Chris at the beach",
-      isFeatured: true,
-      order: 1
-    });
-  }
-  
-  // User methods
-  async getUser(id: number): Promise<User | undefined> {
-    return this._users.get(id);
-  }
-  
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this._users.values()).find(
-      (user) => user.username === username
-    );
-  }
-  
-  async getAllUsers(): Promise<User[]> {
-    return Array.from(this._users.values());
-  }
-  
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this._currentUserId++;
-    const user: User = { ...insertUser, id };
-    this._users.set(id, user);
-    return user;
-  }
-  
-  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
-    const user = this._users.get(id);
-    if (!user) return undefined;
-    
-    const updatedUser: User = { ...user, ...userData };
-    this._users.set(id, updatedUser);
-    return updatedUser;
-  }
-  
-  async deleteUser(id: number): Promise<boolean> {
-    return this._users.delete(id);
-  }
-  
-  // Tribute methods
-  async getTributes(limit?: number, offset = 0): Promise<Tribute[]> {
-    const allTributes = Array.from(this._tributes.values())
-      .sort((a, b) => {
-        const dateA = new Date(a.createdAt).getTime();
-        const dateB = new Date(b.createdAt).getTime();
-        return dateB - dateA; // Sort by newest first
-      });
-    
-    if (limit !== undefined) {
-      return allTributes.slice(offset, offset + limit);
-    }
-    
-    return allTributes;
-  }
-  
-  async getTributeById(id: number): Promise<Tribute | undefined> {
-    return this._tributes.get(id);
-  }
-  
-  async getTributesByUserId(userId: number): Promise<Tribute[]> {
-    return Array.from(this._tributes.values()).filter(
-      tribute => tribute.userId === userId
-    );
-  }
-  
-  async createTribute(insertTribute: InsertTribute): Promise<Tribute> {
-    const id = this._currentTributeId++;
-    const createdAt = new Date();
-    const tribute: Tribute = { 
-      ...insertTribute, 
-      id, 
-      createdAt, 
-      candleCount: 0 
-    };
-    
-    this._tributes.set(id, tribute);
-    return tribute;
-  }
-  
-  async updateTribute(id: number, tributeData: Partial<Tribute>): Promise<Tribute | undefined> {
-    const tribute = this._tributes.get(id);
-    if (!tribute) return undefined;
-    
-    const updatedTribute: Tribute = { ...tribute, ...tributeData };
-    this._tributes.set(id, updatedTribute);
-    return updatedTribute;
-  }
-  
-  async deleteTribute(id: number): Promise<boolean> {
-    return this._tributes.delete(id);
-  }
-  
-  // Gallery methods
-  async getGalleryImages(limit?: number, offset = 0): Promise<GalleryImage[]> {
-    const allImages = Array.from(this._gallery.values())
-      .sort((a, b) => a.order - b.order);
-    
-    if (limit !== undefined) {
-      return allImages.slice(offset, offset + limit);
-    }
-    
-    return allImages;
-  }
-  
-  async getFeaturedGalleryImages(): Promise<GalleryImage[]> {
-    return Array.from(this._gallery.values())
-      .filter(image => image.isFeatured)
-      .sort((a, b) => a.order - b.order);
-  }
-  
-  async getGalleryImageById(id: number): Promise<GalleryImage | undefined> {
-    return this._gallery.get(id);
-  }
-  
-  async createGalleryImage(insertImage: InsertGalleryImage): Promise<GalleryImage> {
-    const id = this._currentGalleryId++;
-    const image: GalleryImage = { ...insertImage, id };
-    this._gallery.set(id, image);
-    return image;
-  }
-  
-  async updateGalleryImage(id: number, imageData: Partial<GalleryImage>): Promise<GalleryImage | undefined> {
-    const image = this._gallery.get(id);
-    if (!image) return undefined;
-    
-    const updatedImage: GalleryImage = { ...image, ...imageData };
-    this._gallery.set(id, updatedImage);
-    return updatedImage;
-  }
-  
-  async deleteGalleryImage(id: number): Promise<boolean> {
-    return this._gallery.delete(id);
-  }
-  
-  // Settings methods
-  async getAllSettings(): Promise<Setting[]> {
-    return Array.from(this._settings.values());
-  }
-  
-  async getSetting(key: string): Promise<Setting | undefined> {
-    return this._settings.get(key);
-  }
-  
-  async upsertSetting(insertSetting: InsertSetting): Promise<Setting> {
-    const existingSetting = this._settings.get(insertSetting.key);
-    
-    if (existingSetting) {
-      const updatedSetting: Setting = { 
-        ...existingSetting, 
-        value: insertSetting.value 
-      };
-      this._settings.set(insertSetting.key, updatedSetting);
-      return updatedSetting;
-    } else {
-      const id = this._currentSettingId++;
-      const setting: Setting = { 
-        ...insertSetting, 
-        id
-      };
-      this._settings.set(insertSetting.key, setting);
-      return setting;
-    }
-  }
-  
-  // Funeral program methods
-  async getFuneralProgram(): Promise<FuneralProgram | undefined> {
-    return this._funeralProgram;
-  }
-  
-  async updateFuneralProgram(insertProgram: InsertFuneralProgram): Promise<FuneralProgram> {
-    if (!this._funeralProgram) {
-      this._funeralProgram = { ...insertProgram, id: 1 };
-    } else {
-      this._funeralProgram = { ...this._funeralProgram, ...insertProgram };
-    }
-    return this._funeralProgram;
-  }
-  
-  // Candle methods
-  async addCandle(insertCandle: InsertCandle): Promise<Candle> {
-    // Check if user has already lit a candle for this tribute
-    const existingCandle = Array.from(this._candles.values()).find(
-      candle => candle.userId === insertCandle.userId && candle.tributeId === insertCandle.tributeId
-    );
-    
-    if (existingCandle) {
-      return existingCandle;
-    }
-    
-    const id = this._currentCandleId++;
-    const candle: Candle = { ...insertCandle, id };
-    this._candles.set(id, candle);
-    
-    // Update the tribute's candle count
-    const tribute = await this.getTributeById(insertCandle.tributeId);
-    if (tribute) {
-      await this.updateTribute(tribute.id, { 
-        candleCount: tribute.candleCount + 1 
-      });
-    }
-    
-    return candle;
-  }
-  
-  async removeCandle(userId: number, tributeId: number): Promise<boolean> {
-    const candle = Array.from(this._candles.values()).find(
-      c => c.userId === userId && c.tributeId === tributeId
-    );
-    
-    if (!candle) return false;
-    
-    const result = this._candles.delete(candle.id);
-    
-    // Update the tribute's candle count
-    if (result) {
-      const tribute = await this.getTributeById(tributeId);
-      if (tribute && tribute.candleCount > 0) {
-        await this.updateTribute(tribute.id, { 
-          candleCount: tribute.candleCount - 1 
-        });
-      }
-    }
-    
-    return result;
-  }
-  
-  async getCandles(tributeId: number): Promise<Candle[]> {
-    return Array.from(this._candles.values()).filter(
-      candle => candle.tributeId === tributeId
-    );
-  }
-  
-  async hasUserLitCandle(userId: number, tributeId: number): Promise<boolean> {
-    return Array.from(this._candles.values()).some(
-      candle => candle.userId === userId && candle.tributeId === tributeId
-    );
-  }
-}
-
 // Use PostgreSQL database storage if DATABASE_URL is defined, otherwise use memory storage
 export const storage = process.env.DATABASE_URL
   ? new DatabaseStorage()
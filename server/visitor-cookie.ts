@@ -0,0 +1,48 @@
+import type { Request, Response } from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+
+const COOKIE_NAME = "memorial_visitor";
+const COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+// An anonymous id for visitors without an account, kept in an HMAC-signed
+// cookie so it can't be swapped for someone else's. It only tells repeat
+// visits from the same browser apart; clearing cookies gets a new id.
+export function createVisitorCookie(secret: string) {
+  const sign = (id: string) => createHmac("sha256", secret).update(id).digest("base64url");
+
+  const read = (req: Request): string | undefined => {
+    const raw = (req.headers.cookie || "")
+      .split(";")
+      .map(part => part.trim())
+      .find(part => part.startsWith(`${COOKIE_NAME}=`))
+      ?.slice(COOKIE_NAME.length + 1);
+    if (!raw) return undefined;
+
+    const [id, signature] = decodeURIComponent(raw).split(".");
+    if (!id || !signature) return undefined;
+
+    const expected = Buffer.from(sign(id));
+    const actual = Buffer.from(signature);
+    return actual.length === expected.length && timingSafeEqual(actual, expected) ? id : undefined;
+  };
+
+  return {
+    read,
+
+    // Returns the visitor's id, setting the cookie first if they don't have a valid one
+    ensure(req: Request, res: Response): string {
+      const existing = read(req);
+      if (existing) return existing;
+
+      const id = uuidv4();
+      res.cookie(COOKIE_NAME, `${id}.${sign(id)}`, {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: COOKIE_MAX_AGE_MS,
+      });
+      return id;
+    },
+  };
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, real, boolean, timestamp, json, jsonb, unique, index } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +10,7 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   email: text("email"),
+  // Super-admin: manages every memorial; per-memorial rights live in memorial_admins
   isAdmin: boolean("is_admin").default(false).notNull(),
 });
 
@@ -20,59 +22,296 @@ export const insertUserSchema = createInsertSchema(users).pick({
   isAdmin: true,
 });
 
+// Password reset tokens. Only a SHA-256 hash of the token is stored; the
+// token itself is sent by email and can be used once before it expires.
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Memorial model: each memorial is a separate site served under /m/:slug
+export const memorials = pgTable("memorials", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  isArchived: boolean("is_archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMemorialSchema = createInsertSchema(memorials, {
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and hyphens"),
+  name: z.string().min(1, "Name is required"),
+}).pick({
+  slug: true,
+  name: true,
+});
+
+// Users with admin rights over a single memorial
+export const memorialAdmins = pgTable("memorial_admins", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  userId: integer("user_id").notNull(),
+}, (table) => [
+  unique().on(table.memorialId, table.userId),
+]);
+
+// Content tables carry a memorial_id. Rows created before multi-memorial
+// support belong to the first memorial, hence the column default; the insert
+// schemas below still require it explicitly.
+const memorialIdField = { memorialId: z.number().int().positive() };
+
 // Tribute model
+export const tributeStatuses = ["pending", "approved", "rejected"] as const;
+
+// Reactions visitors can leave on a tribute. Each memorial chooses which of
+// these are offered with the enabledReactions setting.
+export const reactionKinds = ["candle", "flower", "heart", "dove"] as const;
+
+export type ReactionKind = typeof reactionKinds[number];
+export type ReactionCounts = Partial<Record<ReactionKind, number>>;
+
 export const tributes = pgTable("tributes", {
   id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
   userId: integer("user_id").notNull(),
   content: text("content").notNull(),
   mediaUrl: text("media_url"),
   mediaType: text("media_type"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  // Legacy: candle counts now live in reactionCounts and are moved there on startup
   candleCount: integer("candle_count").default(0).notNull(),
-});
+  // Legacy candles with no candle row behind them; recounts add these to the
+  // candle count so migrated counts don't go down
+  legacyCandleCount: integer("legacy_candle_count").default(0).notNull(),
+  reactionCounts: jsonb("reaction_counts").$type<ReactionCounts>().default({}).notNull(),
+  // Existing tributes predate moderation, so they default to approved
+  status: text("status", { enum: tributeStatuses }).default("approved").notNull(),
+  moderationReason: text("moderation_reason"),
+  moderatedAt: timestamp("moderated_at"),
+}, (table) => [
+  index("tributes_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
 
-export const insertTributeSchema = createInsertSchema(tributes).pick({
+export const insertTributeSchema = createInsertSchema(tributes, memorialIdField).pick({
+  memorialId: true,
   userId: true,
   content: true,
   mediaUrl: true,
   mediaType: true,
+  status: true,
+});
+
+// Orderings and media filters for the public tribute wall
+export const tributeSorts = ["newest", "oldest", "candles"] as const;
+export const tributeMediaTypes = ["image", "video"] as const;
+
+// Comments on tributes. A reply points at a top-level comment through
+// parentId; replies to replies are attached to the same top-level comment,
+// so threads are only ever one level deep.
+export const tributeComments = pgTable("tribute_comments", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
+  tributeId: integer("tribute_id").notNull(),
+  userId: integer("user_id").notNull(),
+  parentId: integer("parent_id"),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  status: text("status", { enum: tributeStatuses }).default("approved").notNull(),
+  moderationReason: text("moderation_reason"),
+  moderatedAt: timestamp("moderated_at"),
+}, (table) => [
+  index("tribute_comments_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
+
+export const insertTributeCommentSchema = createInsertSchema(tributeComments, {
+  ...memorialIdField,
+  content: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comments must be 2000 characters or fewer"),
+}).pick({
+  memorialId: true,
+  tributeId: true,
+  userId: true,
+  parentId: true,
+  content: true,
+  status: true,
 });
 
 // Gallery model
+export const imageVariantSchema = z.object({
+  url: z.string(),
+  width: z.number().int(),
+  height: z.number().int(),
+});
+
+export type ImageVariant = z.infer<typeof imageVariantSchema>;
+
 export const gallery = pgTable("gallery", {
   id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
   imageUrl: text("image_url").notNull(),
   caption: text("caption"),
   isFeatured: boolean("is_featured").default(false).notNull(),
   order: integer("order").default(0).notNull(),
-});
+  // Populated for uploaded images; images added by URL only have imageUrl
+  width: integer("width"),
+  height: integer("height"),
+  variants: json("variants").$type<ImageVariant[]>(),
+  placeholder: text("placeholder"),
+  // Photos shared by visitors wait for an admin; admin uploads are approved
+  status: text("status", { enum: tributeStatuses }).default("approved").notNull(),
+  // The visitor who shared the photo, shown as "shared by" once approved
+  submittedById: integer("submitted_by_id"),
+  // Roughly when the photo was taken, and who is in it, as the visitor remembers
+  year: integer("year"),
+  peoplePictured: text("people_pictured"),
+}, (table) => [
+  index("gallery_search_idx").using("gin", sql`to_tsvector('english', coalesce(${table.caption}, ''))`),
+]);
 
-export const insertGallerySchema = createInsertSchema(gallery).pick({
+export const insertGallerySchema = createInsertSchema(gallery, {
+  ...memorialIdField,
+  variants: z.array(imageVariantSchema).nullish(),
+  caption: z.string().max(500, "Captions must be 500 characters or fewer").nullish(),
+  year: z.number().int()
+    .min(1850, "Please enter a year after 1850")
+    .max(new Date().getFullYear(), "The year can't be in the future")
+    .nullish(),
+  peoplePictured: z.string().max(500, "Please keep the list of people under 500 characters").nullish(),
+}).pick({
+  memorialId: true,
   imageUrl: true,
   caption: true,
   isFeatured: true,
   order: true,
+  width: true,
+  height: true,
+  variants: true,
+  placeholder: true,
+  status: true,
+  submittedById: true,
+  year: true,
+  peoplePictured: true,
 });
 
+// Albums group gallery images into collections such as "Childhood" or "The
+// wedding". An image can be in any number of albums; images in no album are
+// still shown under all photos.
+export const albums = pgTable("albums", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  // Used in the album's page address, /gallery/:slug
+  slug: text("slug").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  // Falls back to the album's first image when unset
+  coverImageId: integer("cover_image_id"),
+  order: integer("order").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.memorialId, table.slug),
+]);
+
+export const insertAlbumSchema = createInsertSchema(albums, {
+  ...memorialIdField,
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug may only contain lowercase letters, numbers and hyphens"),
+  title: z.string().trim().min(1, "Title is required").max(120, "Titles must be 120 characters or fewer"),
+  description: z.string().max(2000, "Descriptions must be 2000 characters or fewer").nullish(),
+}).pick({
+  memorialId: true,
+  slug: true,
+  title: true,
+  description: true,
+  coverImageId: true,
+  order: true,
+});
+
+export const albumImages = pgTable("album_images", {
+  id: serial("id").primaryKey(),
+  albumId: integer("album_id").notNull(),
+  imageId: integer("image_id").notNull(),
+  // Position within the album; images are added at the end
+  order: integer("order").default(0).notNull(),
+}, (table) => [
+  unique().on(table.albumId, table.imageId),
+  index("album_images_image_idx").on(table.imageId),
+]);
+
+// People tagged in gallery photos. A tag names the person and marks where
+// they are in the photo, and can be linked to their account so their photos
+// and tributes can be browsed together.
+export const photoTags = pgTable("photo_tags", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  imageId: integer("image_id").notNull(),
+  name: text("name").notNull(),
+  userId: integer("user_id"),
+  // The tagged region, as fractions of the image's width and height
+  x: real("x").notNull(),
+  y: real("y").notNull(),
+  width: real("width").notNull(),
+  height: real("height").notNull(),
+  createdById: integer("created_by_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("photo_tags_image_idx").on(table.imageId),
+]);
+
+const regionEdge = z.number().min(0).lt(1);
+const regionSize = z.number().gt(0, "The tagged area is too small").max(1);
+
+export const insertPhotoTagSchema = createInsertSchema(photoTags, {
+  ...memorialIdField,
+  name: z.string().trim().min(1, "Name is required").max(120, "Names must be 120 characters or fewer"),
+  x: regionEdge,
+  y: regionEdge,
+  width: regionSize,
+  height: regionSize,
+}).pick({
+  memorialId: true,
+  imageId: true,
+  name: true,
+  userId: true,
+  x: true,
+  y: true,
+  width: true,
+  height: true,
+  createdById: true,
+}).transform(tag => ({
+  // Regions dragged past the edge are trimmed to the photo
+  ...tag,
+  width: Math.min(tag.width, 1 - tag.x),
+  height: Math.min(tag.height, 1 - tag.y),
+}));
+
 // Settings model for customizable content
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
-  key: text("key").notNull().unique(),
+  memorialId: integer("memorial_id").default(1).notNull(),
+  key: text("key").notNull(),
   value: text("value").notNull(),
-});
+}, (table) => [
+  unique().on(table.memorialId, table.key),
+]);
 
-export const insertSettingsSchema = createInsertSchema(settings).pick({
+export const insertSettingsSchema = createInsertSchema(settings, memorialIdField).pick({
+  memorialId: true,
   key: true,
   value: true,
 });
 
-// Funeral program model
+// Funeral program model: program-wide links and description. The schedule
+// itself lives in events; date/time/location/address are the old free-text
+// single-service fields, kept only so existing rows can be migrated.
 export const funeralProgram = pgTable("funeral_program", {
   id: serial("id").primaryKey(),
-  date: text("date").notNull(),
-  time: text("time").notNull(),
-  location: text("location").notNull(),
-  address: text("address").notNull(),
+  memorialId: integer("memorial_id").default(1).notNull().unique(),
+  date: text("date"),
+  time: text("time"),
+  location: text("location"),
+  address: text("address"),
   streamLink: text("stream_link"),
   programPdfUrl: text("program_pdf_url"),
   serviceDescription: text("service_description"),
@@ -80,29 +319,355 @@ export const funeralProgram = pgTable("funeral_program", {
 
 export const insertFuneralProgramSchema = createInsertSchema(funeralProgram).omit({
   id: true,
+  memorialId: true,
+});
+
+// Service events (visitation, funeral, burial, repast) shown as a timeline
+export const eventTypes = ["visitation", "funeral", "burial", "repast", "other"] as const;
+
+export const events = pgTable("events", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
+  type: text("type", { enum: eventTypes }).notNull(),
+  // Optional display name, e.g. "Celebration of Life"; defaults to the type
+  title: text("title"),
+  startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+  endsAt: timestamp("ends_at", { withTimezone: true }),
+  venue: text("venue").notNull(),
+  address: text("address"),
+  streamLink: text("stream_link"),
+  notes: text("notes"),
+});
+
+export const insertEventSchema = createInsertSchema(events, {
+  ...memorialIdField,
+  // Accept ISO strings from JSON bodies
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().nullish(),
+  venue: z.string().min(1, "Venue is required"),
+}).pick({
+  memorialId: true,
+  type: true,
+  title: true,
+  startsAt: true,
+  endsAt: true,
+  venue: true,
+  address: true,
+  streamLink: true,
+  notes: true,
+}).refine((event) => !event.endsAt || event.endsAt >= event.startsAt, {
+  message: "End time must be after the start time",
+  path: ["endsAt"],
+});
+
+// Order of service: the sections printed in the generated program PDF
+export const programSectionTypes = [
+  "processional",
+  "welcome",
+  "reading",
+  "hymn",
+  "prayer",
+  "eulogy",
+  "tribute",
+  "committal",
+  "recessional",
+  "other",
+] as const;
+
+export const programSections = pgTable("program_sections", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
+  type: text("type", { enum: programSectionTypes }).notNull(),
+  title: text("title").notNull(),
+  // Free text, e.g. "Rev. Anne Walker" or "Read by Sarah Murphey"
+  participants: text("participants"),
+  // Lyrics or reading text; line breaks are kept in the PDF
+  content: text("content"),
+  order: integer("order").default(0).notNull(),
 });
 
-// Candle lights by users
+export const insertProgramSectionSchema = createInsertSchema(programSections, {
+  ...memorialIdField,
+  title: z.string().trim().min(1, "Title is required"),
+}).pick({
+  memorialId: true,
+  type: true,
+  title: true,
+  participants: true,
+  content: true,
+  order: true,
+});
+
+// RSVPs for service events. Visitors may respond without an account; a
+// response is matched to an earlier one by user or (lowercased) email.
+export const rsvps = pgTable("rsvps", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
+  userId: integer("user_id"),
+  name: text("name").notNull(),
+  email: text("email"),
+  partySize: integer("party_size").default(1).notNull(),
+  dietaryNotes: text("dietary_notes"),
+  eventIds: json("event_ids").$type<number[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.memorialId, table.userId),
+  unique().on(table.memorialId, table.email),
+]);
+
+export const insertRsvpSchema = createInsertSchema(rsvps, {
+  ...memorialIdField,
+  name: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().toLowerCase().email("Must be a valid email").nullish(),
+  partySize: z.number().int().min(1, "Party size must be at least 1").max(50, "Please contact the family for groups larger than 50"),
+  eventIds: z.array(z.number().int().positive()).min(1, "Choose at least one event"),
+}).pick({
+  memorialId: true,
+  userId: true,
+  name: true,
+  email: true,
+  partySize: true,
+  dietaryNotes: true,
+  eventIds: true,
+});
+
+// Candle lights from before reactions were added. Rows are moved into
+// reactions on startup; nothing writes here any more.
 export const candles = pgTable("candles", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   tributeId: integer("tribute_id").notNull(),
 });
 
-export const insertCandleSchema = createInsertSchema(candles).pick({
-  userId: true,
+// One row per user, tribute and kind of reaction
+export const reactions = pgTable("reactions", {
+  id: serial("id").primaryKey(),
+  tributeId: integer("tribute_id").notNull(),
+  userId: integer("user_id").notNull(),
+  kind: text("kind", { enum: reactionKinds }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.tributeId, table.userId, table.kind),
+]);
+
+export const insertReactionSchema = createInsertSchema(reactions).pick({
   tributeId: true,
+  userId: true,
+  kind: true,
+});
+
+// Guestbook signatures. Visitors sign without an account, so an entry holds
+// the name they typed rather than a userId.
+export const guestbookEntries = pgTable("guestbook_entries", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").default(1).notNull(),
+  name: text("name").notNull(),
+  town: text("town"),
+  relationship: text("relationship"),
+  message: text("message").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertGuestbookEntrySchema = createInsertSchema(guestbookEntries, {
+  ...memorialIdField,
+  name: z.string().trim().min(1, "Please enter your name").max(100, "Names must be 100 characters or fewer"),
+  town: z.string().trim().max(100, "Town must be 100 characters or fewer").nullish(),
+  relationship: z.string().trim().max(100, "Relationship must be 100 characters or fewer").nullish(),
+  message: z.string().trim().min(1, "Please write a short message").max(1000, "Messages must be 1000 characters or fewer"),
+}).pick({
+  memorialId: true,
+  name: true,
+  town: true,
+  relationship: true,
+  message: true,
+});
+
+// Candles lit by visitors without an account, one per browser per memorial.
+// visitorId comes from a signed cookie.
+export const guestCandles = pgTable("guest_candles", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  visitorId: text("visitor_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.memorialId, table.visitorId),
+]);
+
+// The life story, kept as a series of revisions so any earlier version can
+// be restored. The newest revision is the one shown; content is HTML that was
+// sanitized before it was stored.
+export const lifeStoryRevisions = pgTable("life_story_revisions", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  content: text("content").notNull(),
+  authorId: integer("author_id").notNull(),
+  // Set when this revision restored an earlier one
+  revertedFromId: integer("reverted_from_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("life_story_revisions_memorial_idx").on(table.memorialId, table.id),
+]);
+
+export const insertLifeStoryRevisionSchema = createInsertSchema(lifeStoryRevisions, {
+  ...memorialIdField,
+  content: z.string().max(200000, "The life story is too long"),
+}).pick({
+  memorialId: true,
+  content: true,
+  authorId: true,
+  revertedFromId: true,
+});
+
+// Condolence chat on the livestream page, kept after the service for the
+// family. Admins can pin messages, or hide them from everyone but admins.
+export const liveChatMessages = pgTable("live_chat_messages", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  userId: integer("user_id").notNull(),
+  content: text("content").notNull(),
+  pinned: boolean("pinned").default(false).notNull(),
+  hidden: boolean("hidden").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLiveChatMessageSchema = createInsertSchema(liveChatMessages, {
+  ...memorialIdField,
+  content: z.string().trim().min(1, "Message cannot be empty").max(500, "Messages must be 500 characters or fewer"),
+}).pick({
+  memorialId: true,
+  userId: true,
+  content: true,
+});
+
+// Outgoing email. Messages are queued here and sent by the outbox worker,
+// which retries failed sends with backoff.
+export const emailStatuses = ["pending", "sent", "failed"] as const;
+
+export const emailOutbox = pgTable("email_outbox", {
+  id: serial("id").primaryKey(),
+  // Null for account emails such as password resets
+  memorialId: integer("memorial_id"),
+  template: text("template").notNull(),
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  // Stops scheduled emails (e.g. reminders) from being queued twice
+  dedupeKey: text("dedupe_key").unique(),
+  status: text("status", { enum: emailStatuses }).default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
 });
 
+export const insertEmailSchema = createInsertSchema(emailOutbox).pick({
+  memorialId: true,
+  template: true,
+  toAddress: true,
+  subject: true,
+  text: true,
+  html: true,
+  dedupeKey: true,
+});
+
+// Notifications a user can switch off per memorial. Everything is on until
+// a row says otherwise; password reset emails cannot be switched off.
+export const notificationKinds = ["tributeModeration", "tributeReply", "serviceReminder"] as const;
+
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  memorialId: integer("memorial_id").notNull(),
+  userId: integer("user_id").notNull(),
+  kind: text("kind", { enum: notificationKinds }).notNull(),
+  enabled: boolean("enabled").notNull(),
+}, (table) => [
+  unique().on(table.memorialId, table.userId, table.kind),
+]);
+
+// Search covers published tributes and comments, and gallery captions
+export const searchResultTypes = ["tribute", "comment", "image"] as const;
+
 // Define types for all tables
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+export type Memorial = typeof memorials.$inferSelect;
+export type InsertMemorial = z.infer<typeof insertMemorialSchema>;
+
+export type MemorialAdmin = typeof memorialAdmins.$inferSelect;
+
 export type Tribute = typeof tributes.$inferSelect;
 export type InsertTribute = z.infer<typeof insertTributeSchema>;
+export type TributeStatus = typeof tributeStatuses[number];
+export type TributeSort = typeof tributeSorts[number];
+export type TributeMediaType = typeof tributeMediaTypes[number];
+// Where the previous page of the feed ended; compared against the sort's keys
+export interface TributeCursor {
+  createdAt: Date;
+  id: number;
+  candles: number;
+}
+export interface TributeQuery {
+  limit?: number;
+  after?: TributeCursor;
+  // Authors also see their own tributes that are awaiting review
+  viewerId?: number;
+  sort?: TributeSort;
+  hasMedia?: boolean;
+  mediaType?: TributeMediaType;
+  authorId?: number;
+  createdFrom?: Date;
+  // Exclusive, so a whole day can be covered with the next midnight
+  createdBefore?: Date;
+}
+// A tribute as shown on the wall, with what's needed to render it in one go
+export type TributeFeedItem = Tribute & {
+  user: { id: number; username: string; name: string } | null;
+  // The kinds of reaction the viewer has left
+  myReactions: ReactionKind[];
+  // Approved comments, including replies
+  commentCount: number;
+};
+
+export type TributeComment = typeof tributeComments.$inferSelect;
+export type InsertTributeComment = z.infer<typeof insertTributeCommentSchema>;
 
 export type GalleryImage = typeof gallery.$inferSelect;
 export type InsertGalleryImage = z.infer<typeof insertGallerySchema>;
+// An image as sent to the page, with the visitor who shared it
+export type GalleryItem = GalleryImage & {
+  sharedBy: { id: number; name: string } | null;
+};
+
+export type Album = typeof albums.$inferSelect;
+export type InsertAlbum = z.infer<typeof insertAlbumSchema>;
+export type AlbumImage = typeof albumImages.$inferSelect;
+// An album as listed on the gallery page
+export type AlbumSummary = Album & {
+  imageCount: number;
+  coverImage: GalleryImage | null;
+};
+
+export type PhotoTag = typeof photoTags.$inferSelect;
+export type InsertPhotoTag = z.infer<typeof insertPhotoTagSchema>;
+// A tag as sent to the page. Tags for the same person share a key: their
+// account when linked, otherwise their name.
+export type PhotoTagItem = PhotoTag & {
+  personKey: string;
+  user: { id: number; name: string } | null;
+};
+// Someone tagged in at least one photo
+export interface PersonSummary {
+  key: string;
+  name: string;
+  userId: number | null;
+  imageCount: number;
+}
 
 export type Setting = typeof settings.$inferSelect;
 export type InsertSetting = z.infer<typeof insertSettingsSchema>;
@@ -110,5 +675,55 @@ export type InsertSetting = z.infer<typeof insertSettingsSchema>;
 export type FuneralProgram = typeof funeralProgram.$inferSelect;
 export type InsertFuneralProgram = z.infer<typeof insertFuneralProgramSchema>;
 
+export type ServiceEvent = typeof events.$inferSelect;
+export type InsertServiceEvent = z.infer<typeof insertEventSchema>;
+export type EventType = typeof eventTypes[number];
+
+export type ProgramSection = typeof programSections.$inferSelect;
+export type InsertProgramSection = z.infer<typeof insertProgramSectionSchema>;
+export type ProgramSectionType = typeof programSectionTypes[number];
+
+export type Rsvp = typeof rsvps.$inferSelect;
+export type InsertRsvp = z.infer<typeof insertRsvpSchema>;
+
 export type Candle = typeof candles.$inferSelect;
-export type InsertCandle = z.infer<typeof insertCandleSchema>;
+
+export type Reaction = typeof reactions.$inferSelect;
+export type InsertReaction = z.infer<typeof insertReactionSchema>;
+
+export type GuestbookEntry = typeof guestbookEntries.$inferSelect;
+export type InsertGuestbookEntry = z.infer<typeof insertGuestbookEntrySchema>;
+
+export type LifeStoryRevision = typeof lifeStoryRevisions.$inferSelect;
+export type InsertLifeStoryRevision = z.infer<typeof insertLifeStoryRevisionSchema>;
+// A revision with the name of the admin who saved it
+export type LifeStoryItem = LifeStoryRevision & {
+  author: { id: number; name: string } | null;
+};
+
+export type LiveChatMessage = typeof liveChatMessages.$inferSelect;
+export type InsertLiveChatMessage = z.infer<typeof insertLiveChatMessageSchema>;
+// A chat message as sent to the page, with its author's name
+export type LiveChatItem = LiveChatMessage & {
+  user: { id: number; name: string } | null;
+};
+
+export type OutboxEmail = typeof emailOutbox.$inferSelect;
+export type InsertOutboxEmail = z.infer<typeof insertEmailSchema>;
+export type EmailStatus = typeof emailStatuses[number];
+
+export type NotificationKind = typeof notificationKinds[number];
+export type NotificationPreferences = Record<NotificationKind, boolean>;
+
+export type SearchResultType = typeof searchResultTypes[number];
+export interface SearchResult {
+  type: SearchResultType;
+  id: number;
+  // The tribute a comment was left on; the tribute itself for tribute results
+  tributeId: number | null;
+  authorName: string | null;
+  imageUrl: string | null;
+  // An excerpt of the matching text with matched words wrapped in <mark>
+  snippet: string;
+  rank: number;
+}